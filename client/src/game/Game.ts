@@ -5,43 +5,53 @@
  * simulation, and UI. It runs the game loop, manages phase transitions,
  * and coordinates all subsystems.
  *
- * Supports two modes:
- *   - **Single-player (vs Bot):** Local simulation runs at 5 ticks/sec.
+ * Supports three modes:
+ *   - **Single-player (vs Bot):** The shared Simulation engine
+ *     (shared/simulation) runs locally at 5 ticks/sec, with the shared
+ *     BotAI commanding player 2.
  *   - **Multiplayer:** Server is authoritative. Client renders server state
  *     received via GAME_STATE_UPDATE and sends commands via SocketClient.
+ *   - **Replay viewer:** A recorded match file is re-simulated through
+ *     ReplayPlayer and shown with playback controls (see ReplayControls).
  *
- * In multiplayer mode, the local simulation tick is skipped entirely.
- * Instead, applyServerState() maps the fog-of-war filtered state from
- * the server onto the local SoldierRuntimeState arrays for rendering.
- *
- * Simulation tick order (single-player only, each 200ms):
- *   1. Process ready commands
- *   2. Run bot AI decision-making (player 2)
- *   3. Update movement (A* pathfinding + stat-driven speed)
- *   4. Run detection (vision cone + LOS + probabilistic detection)
- *   5. Run combat resolution (stat-driven firefights)
- *   6. Check round end conditions (elimination, timer)
+ * Either way the engine is the same code, and applyServerState() maps its
+ * fog-of-war filtered state onto the local SoldierRuntimeState arrays for
+ * rendering. Commands go to the local engine's queue or to the server.
  */
 
-import * as THREE from 'three';
 import { Renderer } from '../rendering/Renderer';
 import { MapRenderer } from '../rendering/MapRenderer';
 import { SoldierRenderer } from '../rendering/SoldierRenderer';
+import { UtilityRenderer } from '../rendering/UtilityRenderer';
+import { GroundWeaponRenderer } from '../rendering/GroundWeaponRenderer';
 import { CameraController } from '../rendering/Camera';
 import { FogOfWar } from '../rendering/FogOfWar';
 import { InputManager, MouseButton, type DragRect } from './InputManager';
-import { CommandSystem, CommandType } from './CommandSystem';
-import { MovementSystem } from '../simulation/Movement';
-import { DetectionSystem } from '../simulation/Detection';
 import { UtilitySystem } from '../simulation/Utility';
-import { BombLogic } from '../simulation/BombLogic';
 import { EconomyManager } from '../simulation/EconomyManager';
+import { createLocalSimulation, briefLocalRound, runLocalTick } from '../simulation/LocalRound';
 import type { EconomyUpdate } from '../simulation/EconomyManager';
 import { HUD } from '../ui/HUD';
 import { BuyMenu } from '../ui/BuyMenu';
 import { RoundSummary } from '../ui/RoundSummary';
 import { StrategyEditor } from '../ui/StrategyEditor';
-import { BotAI } from './BotAI';
+import {
+  ReplayControls,
+  type ReplayFogMode,
+  type ReplayMarker,
+  type ReplayRoundInfo,
+} from '../ui/ReplayControls';
+
+/* Shared simulation engine, pathfinding and bot (same code the server runs) */
+import { Simulation } from '@shared/simulation/Simulation';
+import { Pathfinding } from '@shared/simulation/Pathfinding';
+import { BotAI } from '@shared/simulation/BotAI';
+import type { SimEvent, KillRecord, SoldierLoadout } from '@shared/simulation/Simulation';
+import { ReplayPlayer } from '@shared/simulation/ReplayPlayer';
+import type { ReplayFile, ReplayStrategy } from '@shared/simulation/Replay';
+import { getMap, DEFAULT_MAP_ID } from '@shared/maps/MapRegistry';
+import type { MapData } from '@shared/types/MapTypes';
+import { CommandType } from '@shared/types/MessageTypes';
 import {
   GamePhase,
   Side,
@@ -49,44 +59,18 @@ import {
   GameState,
   SoldierRuntimeState,
   Position,
-  KillRecord,
+  type Stance,
   createInitialGameState,
   createSoldierRuntimeState,
 } from './GameState';
 
-/* Shared stat formulas for simulation calculations */
-import {
-  calculateMovementSpeed,
-  calculateDetectionRadius,
-  calculateStealthModifier,
-  calculateBaseHitChance,
-  calculateFinalHitChance,
-  calculateHeadshotChance,
-  calculateDamage,
-  calculateSprayAccuracy,
-  calculateComposureModifier,
-  calculateClutchModifier,
-  calculateTeamworkModifier,
-  calculateReactionTime,
-} from '@shared/constants/StatFormulas';
-
-/* Weapon stat lookup table and utility type enum */
-import { WEAPONS } from '@shared/constants/WeaponData';
-import { UtilityType } from '@shared/types/WeaponTypes';
-
-/* Seeded PRNG for deterministic combat */
-import { SeededRandom } from '@shared/util/RandomUtils';
-
-/* Math utilities */
-import { distance as vecDistance } from '@shared/util/MathUtils';
-
-import type { Wall } from '@shared/types/MapTypes';
+/* Weapon and utility type enums */
+import { UtilityType, type ArmorType } from '@shared/types/WeaponTypes';
 
 /* Multiplayer networking client */
 import {
   SocketClient,
   type FilteredGameState,
-  type ServerSoldierState,
   type ServerKillRecord,
 } from '../network/SocketClient';
 
@@ -106,12 +90,6 @@ const PHASE_DURATIONS: Record<string, number> = {
   [GamePhase.ROUND_END]: 5,      // Brief pause before next round
 };
 
-/**
- * Distance threshold in pixels for the teamwork bonus.
- * If an allied soldier is within this range, the TWK stat bonus activates.
- */
-const TEAMWORK_RANGE = 300;
-
 // ============================================================
 // Game Class
 // ============================================================
@@ -136,16 +114,18 @@ export class Game {
   private mapRenderer: MapRenderer;
   /** Renders soldier capsules, health bars, waypoints */
   private soldierRenderer: SoldierRenderer;
+  /** Renders smoke clouds, fire zones and other utility effects */
+  private utilityRenderer: UtilityRenderer;
+  /** Renders dropped weapons our soldiers can see */
+  private groundWeaponRenderer: GroundWeaponRenderer;
   /** Handles camera pan, zoom, and screen-to-world conversion */
   private cameraController: CameraController;
   /** Tracks keyboard and mouse input */
   private input: InputManager;
-  /** Manages command queue with delays and cooldowns */
-  private commandSystem: CommandSystem;
-  /** A* pathfinding system - created when the map loads */
-  private movementSystem: MovementSystem | null = null;
-  /** Line-of-sight and enemy detection system - created when the map loads */
-  private detectionSystem: DetectionSystem | null = null;
+  /** A* pathfinding for previewing strategy routes - created when the map loads */
+  private pathfinding: Pathfinding | null = null;
+  /** Shared simulation engine, run locally in single-player (null in multiplayer) */
+  private simulation: Simulation | null = null;
   /** In-game HUD overlay showing score, timer, money, etc. */
   private hud: HUD;
   /** Buy menu UI overlay for purchasing equipment */
@@ -154,12 +134,10 @@ export class Game {
   private roundSummary: RoundSummary;
   /** Strategy phase editor for waypoints and stances */
   private strategyEditor: StrategyEditor;
-  /** Utility system managing active smokes, flashes, frags, molotovs, decoys */
+  /** Visible smokes, flashes, frags, molotovs, decoys and grenades in flight */
   private utilitySystem: UtilitySystem;
   /** Economy manager — calculates kill rewards, round rewards, bomb bonuses */
   private economyManager: EconomyManager;
-  /** Bomb plant/defuse logic — zone checks, progress tracking */
-  private bombLogic: BombLogic | null = null;
   /** Fog of war overlay — texture-based visibility masking */
   private fogOfWar: FogOfWar | null = null;
   /** AI opponent controlling player 2's soldiers */
@@ -174,10 +152,6 @@ export class Game {
   private selectedSoldier: number | null = null;
   /** All currently selected soldiers (for drag-select multi-selection) */
   private selectedSoldiers: number[] = [];
-  /** Seeded random number generator for deterministic simulation */
-  private rng!: SeededRandom;
-  /** Map wall data (cached for LOS checks) */
-  private walls: Wall[] = [];
   /** Cached map data (for respawning soldiers between rounds) */
   private mapData: { spawnZones: { attacker: { x: number; z: number; width: number; height: number }; defender: { x: number; z: number; width: number; height: number } } } | null = null;
 
@@ -198,16 +172,6 @@ export class Game {
    * map will throw this utility at that position, then clear the slot.
    */
   private pendingUtilityType: UtilityType | null = null;
-  /**
-   * Whether the player is currently holding the plant key (P).
-   * Tracked each frame; the simulation tick reads this to progress planting.
-   */
-  private isRequestingPlant: boolean = false;
-  /**
-   * Whether the player is currently holding the defuse key (E).
-   * Tracked each frame; the simulation tick reads this to progress defusing.
-   */
-  private isRequestingDefuse: boolean = false;
   /**
    * Stores the economy changes from the last completed round.
    * Used by the round summary screen to display kill rewards, bonuses, etc.
@@ -235,6 +199,40 @@ export class Game {
    */
   private roomId: string | null = null;
 
+  /**
+   * Route waypoints reached per own soldier, as last reported by the server.
+   * Used to redraw the remaining strategy route only when progress changes.
+   */
+  private routeWaypointsReached: number[] = [];
+
+  // --- Replay viewer ---
+  /**
+   * Whether this game instance is the replay viewer. No match is played:
+   * the simulation ticks come from a ReplayPlayer instead.
+   */
+  private isReplay: boolean = false;
+
+  /** Plays the loaded replay file (null until one is loaded) */
+  private replayPlayer: ReplayPlayer | null = null;
+
+  /** Replay playback panel (only created by startReplayViewer) */
+  private replayControls: ReplayControls | null = null;
+
+  /** Timeline summary of each round of the loaded replay */
+  private replayRounds: ReplayRoundInfo[] = [];
+
+  /** Whether replay playback is running */
+  private replayPlaying: boolean = false;
+
+  /** Replay playback speed multiplier (0.5x - 8x) */
+  private replaySpeed: number = 1;
+
+  /** Whose fog of war the replay is shown through */
+  private replayFogMode: ReplayFogMode = 'P1';
+
+  /** Ticks left to linger on a finished round before playing the next */
+  private replayHoldTicks: number = 0;
+
   /**
    * Initialize all game systems.
    * @param canvas - The HTML canvas element to render into
@@ -249,6 +247,12 @@ export class Game {
     /* Initialize soldier renderer */
     this.soldierRenderer = new SoldierRenderer(this.renderer.getScene());
 
+    /* Initialize utility effect renderer */
+    this.utilityRenderer = new UtilityRenderer(this.renderer.getScene());
+
+    /* Initialize ground weapon renderer */
+    this.groundWeaponRenderer = new GroundWeaponRenderer(this.renderer.getScene());
+
     /* Initialize camera controller with default map bounds */
     this.cameraController = new CameraController(
       this.renderer.getCamera(),
@@ -259,14 +263,12 @@ export class Game {
     /* Initialize input handling */
     this.input = new InputManager(canvas);
 
-    /* Initialize command system */
-    this.commandSystem = new CommandSystem();
-
     /* Initialize the HUD overlay */
     this.hud = new HUD('hud');
 
     /* Initialize the buy menu (hidden by default, shown during BUY_PHASE) */
     this.buyMenu = new BuyMenu('buy-menu');
+    this.buyMenu.onPurchase = () => this.submitBuyOrders();
 
     /* Initialize the round summary screen (hidden by default, shown during ROUND_END) */
     this.roundSummary = new RoundSummary('round-summary');
@@ -292,6 +294,7 @@ export class Game {
         : this.state.player2Soldiers;
       if (mySoldiers[index]) {
         mySoldiers[index].stance = stance;
+        this.submitStrategyPlan();
       }
     };
 
@@ -304,6 +307,7 @@ export class Game {
         /* Also clear the visual waypoint lines */
         const prefix = this.localPlayer === 1 ? 'p1' : 'p2';
         this.soldierRenderer.showWaypoints(`${prefix}_${index}`, [], '#ff6666');
+        this.submitStrategyPlan();
       }
     };
 
@@ -316,9 +320,6 @@ export class Game {
     /* Create initial game state with a random seed */
     this.state = createInitialGameState(Date.now());
 
-    /* Initialize the seeded RNG from the match seed */
-    this.rng = new SeededRandom(this.state.matchSeed);
-
     console.log('[Game] All systems initialized');
   }
 
@@ -335,26 +336,20 @@ export class Game {
 
     /* Load the map */
     /* TODO: Dynamic map loading - for now we import directly */
-    const { BAZAAR_MAP } = await import('../assets/maps/bazaar');
+    const { BAZAAR_MAP } = await import('@shared/maps/bazaar');
     this.mapRenderer.loadMap(BAZAAR_MAP);
 
-    /* Cache the wall data for LOS checks */
-    this.walls = BAZAAR_MAP.walls;
-
     /* Cache the full map data for respawning soldiers between rounds */
     this.mapData = BAZAAR_MAP;
 
-    /* Initialize pathfinding on the loaded map */
-    this.movementSystem = new MovementSystem(BAZAAR_MAP);
+    /* Initialize pathfinding on the loaded map (strategy route previews) */
+    const { width, height } = BAZAAR_MAP.dimensions;
+    this.pathfinding = new Pathfinding(width, height, BAZAAR_MAP.walls);
     console.log('[Game] Pathfinding grid generated for Bazaar');
 
-    /* Initialize the detection system with the map walls */
-    this.detectionSystem = new DetectionSystem(BAZAAR_MAP.walls);
-    console.log('[Game] Detection system initialized');
-
-    /* Initialize bomb plant/defuse logic with the map's bomb sites */
-    this.bombLogic = new BombLogic(BAZAAR_MAP.bombSites);
-    console.log('[Game] Bomb logic initialized with', BAZAAR_MAP.bombSites.length, 'bomb sites');
+    /* Run the shared simulation engine locally, seeded from the match seed */
+    this.simulation = createLocalSimulation(this.state.matchSeed, BAZAAR_MAP);
+    console.log(`[Game] Simulation initialized (seed ${this.state.matchSeed})`);
 
     /* Initialize fog of war overlay on the map */
     this.fogOfWar = new FogOfWar(
@@ -380,14 +375,9 @@ export class Game {
     /* Create soldiers for both teams at spawn positions */
     this.spawnSoldiers(BAZAAR_MAP);
 
-    /* Initialize the AI opponent for player 2 */
-    this.botAI = new BotAI(this.movementSystem);
-    /** Bot plays the opposite side to player 1 */
-    const botSide = this.state.player1Side === Side.ATTACKER
-      ? Side.DEFENDER
-      : Side.ATTACKER;
-    this.botAI.initializeRound(botSide);
-    console.log(`[Game] Bot AI initialized as ${botSide}`);
+    /* Initialize the AI opponent for player 2 (briefed each round in startLocalRound) */
+    this.botAI = new BotAI(this.simulation, 2, this.state.matchSeed + 1);
+    console.log('[Game] Bot AI initialized for player 2');
 
     /* Reset state for round 1 */
     this.state.phase = GamePhase.BUY_PHASE;
@@ -412,7 +402,7 @@ export class Game {
    * and connects to the server via SocketClient for authoritative state.
    *
    * In multiplayer mode:
-   *   - Local simulation (detection, combat, movement) is disabled
+   *   - The local simulation engine is not run (the server runs it)
    *   - Server sends GAME_STATE_UPDATE every tick with fog-of-war filtered state
    *   - Phase transitions come from the server via PHASE_CHANGE events
    *   - Commands are sent to the server via SocketClient.sendCommand()
@@ -434,17 +424,14 @@ export class Game {
     this.localPlayer = playerNumber;
 
     /* Load the map (same as single-player) */
-    const { BAZAAR_MAP } = await import('../assets/maps/bazaar');
+    const { BAZAAR_MAP } = await import('@shared/maps/bazaar');
     this.mapRenderer.loadMap(BAZAAR_MAP);
-    this.walls = BAZAAR_MAP.walls;
     this.mapData = BAZAAR_MAP;
+    client.setMapDimensions(BAZAAR_MAP.dimensions);
 
-    /* Initialize pathfinding and detection for local predictions (optional) */
-    this.movementSystem = new MovementSystem(BAZAAR_MAP);
-    this.detectionSystem = new DetectionSystem(BAZAAR_MAP.walls);
-
-    /* Initialize bomb logic for zone checks */
-    this.bombLogic = new BombLogic(BAZAAR_MAP.bombSites);
+    /* Pathfinding for strategy route previews; the server runs the simulation */
+    this.pathfinding = new Pathfinding(BAZAAR_MAP.dimensions.width, BAZAAR_MAP.dimensions.height, BAZAAR_MAP.walls);
+    this.simulation = null;
 
     /* Initialize fog of war overlay */
     this.fogOfWar = new FogOfWar(
@@ -467,8 +454,9 @@ export class Game {
     /* Spawn soldier visuals for both teams */
     this.spawnSoldiers(BAZAAR_MAP);
 
-    /* No bot AI in multiplayer — the opponent is a real player */
+    /* No bot AI in multiplayer — the opponent is a real player (the server may stand in for them) */
     this.botAI = null;
+    this.hud.setOpponentBotControlled(false);
 
     /* Wire up server event handlers */
     this.wireServerCallbacks(client);
@@ -528,6 +516,7 @@ export class Game {
       if (this.state.phase === GamePhase.LIVE_PHASE && previousPhase !== GamePhase.LIVE_PHASE) {
         this.gameTime = 0;
         this.state.tick = 0;
+        this.routeWaypointsReached = [];
       }
 
       console.log(`[MP] Phase: ${data.phase} (${data.timeRemaining}s) Round: ${data.roundNumber}`);
@@ -540,6 +529,7 @@ export class Game {
      */
     client.onGameStateUpdate = (data) => {
       this.applyServerState(data.state, data.kills, data.tick, data.timeRemaining);
+      this.animateServerThrows(data.events);
     };
 
     /**
@@ -610,6 +600,74 @@ export class Game {
       );
     };
 
+    /**
+     * BUY_ORDER_RESULT: The server's verdict on our loadouts.
+     * Its money and equipment are authoritative, so rejected purchases
+     * are rolled back locally.
+     */
+    client.onBuyOrderResult = (data) => {
+      const mySoldiers = this.localPlayer === 1
+        ? this.state.player1Soldiers
+        : this.state.player2Soldiers;
+      const myEconomy = this.localPlayer === 1
+        ? this.state.player1Economy
+        : this.state.player2Economy;
+
+      myEconomy.money = data.money;
+
+      for (const result of data.results) {
+        const soldier = mySoldiers[result.soldierIndex];
+        if (soldier && result.equipment) {
+          soldier.currentWeapon = (result.equipment.primary ?? WeaponId.PISTOL) as WeaponId;
+          soldier.armor = result.equipment.armor;
+          soldier.helmet = result.equipment.helmet;
+          soldier.utility = [...result.equipment.utility];
+          soldier.defuseKit = result.equipment.defuseKit;
+        }
+        if (!result.accepted) {
+          console.log(`[MP] Buy rejected for soldier ${result.soldierIndex}: ${result.reason}`);
+        }
+      }
+    };
+
+    /**
+     * COMMAND_REJECTED: The server refused a command (cooldown, dead soldier, wrong phase).
+     * The HUD shows the rejection with a countdown to when the soldier takes commands again.
+     */
+    client.onCommandRejected = (data) => {
+      console.log(
+        `[MP] ${data.commandType || 'Command'} rejected for soldier ${data.soldierIndex}: ${data.reason}` +
+        (data.retryIn > 0 ? ` (retry in ${data.retryIn.toFixed(2)}s)` : '')
+      );
+      this.hud.showCommandRejected(data);
+    };
+
+    /**
+     * INVALID_MESSAGE: The server refused a malformed message (already logged by SocketClient).
+     * The HUD shows the refusal and its first problem under the phase indicator.
+     */
+    client.onInvalidMessage = (data) => {
+      console.log(`[MP] Server refused ${data.messageType} (${data.errors.length} problem(s))`);
+      this.hud.showMessageRefused(data);
+    };
+
+    /**
+     * COMMAND_DELAYED: The server accepted a command; it executes after the radio delay.
+     */
+    client.onCommandDelayed = (data) => {
+      console.log(`[MP] ${data.commandType} for soldier ${data.soldierIndex} in ${data.delay.toFixed(2)}s`);
+    };
+
+    /**
+     * SESSION_RESUMED: We reconnected mid-match. Phase and state were already
+     * replayed by SocketClient; restore the economy from the snapshot.
+     */
+    client.onSessionResumed = (data) => {
+      this.state.player1Economy.money = data.economy.player1Money;
+      this.state.player2Economy.money = data.economy.player2Money;
+      console.log(`[MP] Resumed match — round ${data.roundNumber}, ${data.phase}`);
+    };
+
     /**
      * OPPONENT_DISCONNECTED: The other player disconnected.
      * TODO: Show a UI notification with reconnect countdown.
@@ -617,6 +675,37 @@ export class Game {
     client.onOpponentDisconnected = (data) => {
       console.log(`[MP] Opponent disconnected — ${data.timeoutSeconds}s to reconnect`);
     };
+
+    /**
+     * BOT_CONTROL: The server's bot took over (or handed back) a disconnected
+     * player's squad. Tag the opponent as bot-controlled in the HUD.
+     */
+    client.onBotControl = (data) => {
+      if (data.playerNumber === this.localPlayer) return;
+      this.hud.setOpponentBotControlled(data.active);
+      console.log(`[MP] Opponent squad ${data.active ? 'is now bot-controlled' : 'is back under their control'}`);
+    };
+  }
+
+  /**
+   * Animate grenades thrown this tick, from the simulation's UTILITY_USED
+   * events. The grenades are visual only; the effects themselves arrive
+   * through the filtered state once the simulation lands them.
+   *
+   * @param events - Simulation events from this tick
+   */
+  private animateServerThrows(events: unknown[]): void {
+    for (const raw of events) {
+      const event = raw as { type?: string; data?: Record<string, unknown> };
+      if (event.type !== 'UTILITY_USED' || !event.data || !Array.isArray(event.data.path)) continue;
+
+      this.utilitySystem.launchUtility(
+        event.data.utilityType as UtilityType,
+        event.data.path as Position[],
+        String(event.data.soldierId ?? ''),
+        event.data.ownerTeam === 2 ? 2 : 1
+      );
+    }
   }
 
   /**
@@ -649,9 +738,21 @@ export class Game {
     /* Update bomb state from server */
     this.state.bombPlanted = serverState.bombPlanted;
     this.state.bombPosition = serverState.bombPosition ? { ...serverState.bombPosition } : null;
+    this.state.droppedBombPosition = serverState.droppedBombPosition
+      ? { ...serverState.droppedBombPosition }
+      : null;
+    this.state.groundWeapons = (serverState.groundWeapons ?? []).map(
+      item => ({ ...item, position: { ...item.position } })
+    );
     this.state.bombSite = serverState.bombSite;
     this.state.bombTimer = serverState.bombTimer;
 
+    /**
+     * Replace local utility effects with the ones the server lets us see.
+     * They render through the same UtilitySystem path as local play.
+     */
+    this.utilitySystem.syncEffects(serverState.utilityEffects ?? []);
+
     /* Determine which local arrays correspond to own/enemy */
     const ownSoldiers = this.localPlayer === 1
       ? this.state.player1Soldiers
@@ -679,6 +780,28 @@ export class Game {
       local.isInCombat = serverSoldier.isInCombat;
       local.isPlanting = serverSoldier.isPlanting ?? false;
       local.isDefusing = serverSoldier.isDefusing ?? false;
+      if (serverSoldier.stance) local.stance = serverSoldier.stance as Stance;
+      local.hasBomb = serverSoldier.hasBomb ?? false;
+      if (serverSoldier.utility) local.utility = [...serverSoldier.utility];
+    }
+
+    /**
+     * Trim each own soldier's drawn strategy route to the waypoints it has
+     * not reached yet, so the player can see how far along the plan it is.
+     * The local waypoints array still holds the plan we submitted.
+     */
+    const myPrefix = this.localPlayer === 1 ? 'p1' : 'p2';
+    for (const progress of serverState.routeProgress) {
+      if (this.routeWaypointsReached[progress.soldierIndex] === progress.completedWaypoints) continue;
+      this.routeWaypointsReached[progress.soldierIndex] = progress.completedWaypoints;
+
+      const local = ownSoldiers[progress.soldierIndex];
+      if (!local || progress.totalWaypoints === 0) continue;
+      this.soldierRenderer.showWaypoints(
+        `${myPrefix}_${progress.soldierIndex}`,
+        local.waypoints.slice(progress.completedWaypoints),
+        this.localPlayer === 1 ? '#ff6666' : '#6666ff'
+      );
     }
 
     /**
@@ -739,6 +862,7 @@ export class Game {
         victimId: kill.victimId,
         weapon: kill.weapon,
         headshot: kill.headshot,
+        wallbang: kill.wallbang,
         tick: kill.tick,
       });
     }
@@ -762,18 +886,18 @@ export class Game {
    * @param utilityType - Utility type for USE_UTILITY commands
    */
   private sendMultiplayerCommand(
-    type: string,
+    type: CommandType,
     soldierIndex: number,
     targetPos?: Position,
-    utilityType?: string
+    utilityType?: UtilityType
   ): void {
     if (!this.socketClient) return;
 
     this.socketClient.sendCommand({
-      type: type as import('@shared/types/MessageTypes').CommandType,
+      type,
       soldierIndex,
       targetPosition: targetPos,
-      utilityType: utilityType as import('@shared/types/WeaponTypes').UtilityType | undefined,
+      utilityType,
       timestamp: Date.now(),
     });
 
@@ -783,6 +907,47 @@ export class Game {
     // );
   }
 
+  /**
+   * Send the current strategy routes and stances of all our soldiers to the server.
+   * Re-sent whenever a route changes; the server keeps the latest plan
+   * and walks it when LIVE_PHASE starts. No-op in single-player.
+   */
+  private submitStrategyPlan(): void {
+    if (!this.isMultiplayer || !this.socketClient) return;
+
+    const mySoldiers = this.localPlayer === 1
+      ? this.state.player1Soldiers
+      : this.state.player2Soldiers;
+    this.socketClient.sendStrategyPlan(
+      mySoldiers.map(s => s.waypoints.map(wp => ({ x: wp.x, z: wp.z }))),
+      mySoldiers.map(s => s.stance)
+    );
+  }
+
+  /**
+   * Send the full loadout of all our soldiers to the server as buy orders.
+   * The server only charges for gear a soldier does not already own, so
+   * re-sending unchanged loadouts is free. No-op in single-player.
+   */
+  private submitBuyOrders(): void {
+    if (!this.isMultiplayer || !this.socketClient) return;
+
+    const mySoldiers = this.localPlayer === 1
+      ? this.state.player1Soldiers
+      : this.state.player2Soldiers;
+    this.socketClient.sendBuyOrder(mySoldiers.map(s => ({
+      soldierIndex: s.index,
+      equipment: {
+        primary: s.currentWeapon === WeaponId.PISTOL ? null : s.currentWeapon,
+        sidearm: WeaponId.PISTOL,
+        armor: s.armor as ArmorType | null,
+        helmet: s.helmet,
+        utility: s.utility as UtilityType[],
+        defuseKit: s.defuseKit,
+      },
+    })));
+  }
+
   /**
    * Get the SocketClient instance (for external access, e.g., sending buy orders).
    * Returns null if not in multiplayer mode.
@@ -887,6 +1052,325 @@ export class Game {
     }
   }
 
+  // ============================================================
+  // Replay Viewer
+  // ============================================================
+
+  /**
+   * Start the client as a replay viewer instead of a match. Loads the
+   * default map, shows the replay panel and runs the game loop; nothing
+   * plays until a replay file is loaded (from the panel, or fetched from
+   * replayUrl).
+   *
+   * In replay mode:
+   *   - A ReplayPlayer re-simulates the recorded match tick by tick; its
+   *     filtered states drive the renderer exactly like a live round
+   *   - The phase clock, economy and buy/strategy phases are not run
+   *   - Only the camera responds to input (Space toggles play/pause)
+   *
+   * @param replayUrl - Replay file to fetch and load right away (optional)
+   */
+  async startReplayViewer(replayUrl?: string): Promise<void> {
+    console.log('[Game] Starting replay viewer...');
+    this.isReplay = true;
+
+    const map = getMap(DEFAULT_MAP_ID);
+    if (!map) throw new Error(`Default map '${DEFAULT_MAP_ID}' is not registered`);
+    this.loadReplayMap(map);
+    this.spawnSoldiers(map);
+
+    /* Wire up the replay panel */
+    this.replayControls = new ReplayControls();
+    this.replayControls.onLoadFile = (file: File) => {
+      file.text()
+        .then(text => this.loadReplay(JSON.parse(text) as ReplayFile, file.name))
+        .catch(error => this.replayControls?.setStatus(`Could not load ${file.name}: ${errorMessage(error)}`));
+    };
+    this.replayControls.onTogglePlay = () => this.toggleReplayPlayback();
+    this.replayControls.onSpeedChange = (speed: number) => {
+      this.replaySpeed = speed;
+    };
+    this.replayControls.onRoundSelect = (roundIndex: number) => {
+      this.cueReplayRound(roundIndex);
+    };
+    this.replayControls.onSeek = (tick: number) => this.seekReplayTick(tick);
+    this.replayControls.onFogModeChange = (mode: ReplayFogMode) => {
+      this.replayFogMode = mode;
+      this.resetReplayView();
+      this.showReplayView([], []);
+    };
+    this.replayControls.show();
+
+    /* Start the game loop (ticks only run while a replay plays) */
+    this.running = true;
+    this.lastFrameTime = performance.now();
+    this.gameLoop(this.lastFrameTime);
+
+    if (replayUrl) {
+      try {
+        const response = await fetch(replayUrl);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        this.loadReplay(await response.json() as ReplayFile, replayUrl);
+      } catch (error) {
+        this.replayControls.setStatus(`Could not load ${replayUrl}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Load a replay file into the viewer.
+   *
+   * Replays the whole match once up front to collect each round's timeline
+   * markers (kills, plants, utility) and to check every round reproduces
+   * its recording, then cues up round 1 paused.
+   * Throws if the ReplayPlayer refuses the file (version or map).
+   *
+   * @param replay - Parsed replay file
+   * @param name - File name or URL, for the status line
+   */
+  loadReplay(replay: ReplayFile, name: string): void {
+    const player = new ReplayPlayer(replay);
+    if (player.getMap() !== this.mapData) this.loadReplayMap(player.getMap());
+
+    const rounds: ReplayRoundInfo[] = [];
+    const diverged: number[] = [];
+    replay.rounds.forEach((round, i) => {
+      player.seekRound(i);
+      const markers: ReplayMarker[] = [];
+      let result = player.stepTick();
+      while (result) {
+        markers.push(...toReplayMarkers(result.events));
+        result = player.stepTick();
+      }
+      if (!player.checkRound().ok) diverged.push(round.roundNumber);
+
+      rounds.push({
+        roundNumber: round.roundNumber,
+        winningSide: round.winningSide,
+        player1Side: round.player1Side,
+        endTick: round.endTick,
+        markers,
+      });
+    });
+
+    this.replayPlayer = player;
+    this.replayRounds = rounds;
+    this.replayPlaying = false;
+
+    const verdict = diverged.length === 0
+      ? 'verified'
+      : `DIVERGES in round ${diverged.join(', ')}`;
+    this.replayControls?.setReplay(
+      rounds,
+      `${name} — ${rounds.length} rounds, ${replay.finalScore.player1}:${replay.finalScore.player2}, ${verdict}`
+    );
+    console.log(`[Replay] Loaded ${name}: ${rounds.length} rounds, ${verdict}`);
+
+    if (rounds.length > 0) this.cueReplayRound(0);
+  }
+
+  /**
+   * Show a map in the viewer: map geometry, fog of war and camera bounds.
+   *
+   * @param map - Map the replay was recorded on
+   */
+  private loadReplayMap(map: MapData): void {
+    this.mapRenderer.loadMap(map);
+    this.mapData = map;
+
+    this.fogOfWar?.destroy(this.renderer.getScene());
+    this.fogOfWar = new FogOfWar(this.renderer.getScene(), map.dimensions.width, map.dimensions.height);
+
+    this.cameraController = new CameraController(
+      this.renderer.getCamera(),
+      map.dimensions.width,
+      map.dimensions.height
+    );
+    this.cameraController.focusOn(map.dimensions.width / 2, map.dimensions.height / 2);
+  }
+
+  /** Start or pause replay playback (restarts the match after its last round). */
+  private toggleReplayPlayback(): void {
+    const player = this.replayPlayer;
+    if (!player) return;
+
+    if (!this.replayPlaying && player.isRoundOver() && player.getRoundIndex() === this.replayRounds.length - 1) {
+      this.cueReplayRound(0);
+    }
+    this.replayPlaying = !this.replayPlaying;
+  }
+
+  /**
+   * Play one replay tick (called from simulationTick at the playback speed).
+   * A finished round stays on screen for the ROUND_END pause, then the
+   * next round starts; playback stops after the last one.
+   */
+  private replayTick(): void {
+    const player = this.replayPlayer;
+    if (!player || !this.replayPlaying) return;
+
+    if (player.isRoundOver()) {
+      if (this.replayHoldTicks > 0) {
+        this.replayHoldTicks--;
+        return;
+      }
+      const next = player.getRoundIndex() + 1;
+      if (next < this.replayRounds.length) {
+        this.cueReplayRound(next);
+      } else {
+        this.replayPlaying = false;
+        this.state.phase = GamePhase.MATCH_END;
+      }
+      return;
+    }
+
+    const result = player.stepTick();
+    if (result) this.showReplayView(result.events, result.kills);
+  }
+
+  /**
+   * Set up a round of the replay at its first tick: sides, score so far and
+   * the strategy routes each squad was briefed with.
+   *
+   * @param index - Round index (0-based)
+   */
+  private cueReplayRound(index: number): void {
+    const player = this.replayPlayer;
+    if (!player || index < 0 || index >= this.replayRounds.length) return;
+
+    player.seekRound(index);
+    const round = player.getRound();
+    if (!round) return;
+
+    this.state.roundNumber = round.roundNumber;
+    this.state.player1Side = round.player1Side === 'ATTACKER' ? Side.ATTACKER : Side.DEFENDER;
+    this.state.bombDefused = false;
+    this.setReplayScore(index);
+
+    /* The routes each soldier was briefed with; the viewed squad's are drawn and trimmed as they are walked */
+    for (const playerNumber of [1, 2] as const) {
+      const soldiers = playerNumber === 1 ? this.state.player1Soldiers : this.state.player2Soldiers;
+      const strategy = playerNumber === 1 ? round.strategy.player1 : round.strategy.player2;
+      soldiers.forEach((soldier, i) => {
+        soldier.waypoints = (strategy.routes[i] ?? []).map(wp => ({ x: wp.x, z: wp.z }));
+      });
+    }
+
+    this.resetReplayView();
+    this.respawnSoldiersAtSpawn();
+    this.showReplayView([], []);
+  }
+
+  /**
+   * Jump to a tick of the current round. Going backwards replays the match
+   * from the seed, since the simulation cannot run in reverse.
+   *
+   * @param tick - Ticks into the round
+   */
+  private seekReplayTick(tick: number): void {
+    const player = this.replayPlayer;
+    if (!player || player.getRoundIndex() < 0) return;
+
+    if (tick < player.getSimulation().getTick()) {
+      this.cueReplayRound(player.getRoundIndex());
+    }
+    while (player.getSimulation().getTick() < tick && player.stepTick()) { /* fast-forward */ }
+
+    /* Grenades thrown before the jump have landed or never will be seen */
+    this.utilitySystem.clearAll();
+    this.state.currentRoundKills = [];
+    this.showReplayView([], player.getSimulation().getRoundKills());
+  }
+
+  /**
+   * Clear everything drawn for the previous round or view: kill log,
+   * utility, explored fog and strategy route lines.
+   */
+  private resetReplayView(): void {
+    this.state.currentRoundKills = [];
+    this.utilitySystem.clearAll();
+    this.fogOfWar?.reset();
+    this.replayHoldTicks = 0;
+
+    for (const prefix of ['p1', 'p2']) {
+      for (let i = 0; i < 5; i++) this.soldierRenderer.clearWaypoints(`${prefix}_${i}`);
+    }
+    this.routeWaypointsReached = [];
+  }
+
+  /**
+   * Show the replayed simulation through the selected fog of war view.
+   * P1 / P2 views apply that player's filtered state, exactly as they saw
+   * the round; the full view also reveals the other squad and its utility.
+   *
+   * @param events - Simulation events of the tick just played
+   * @param kills - Kill records to add to the round's kill log
+   */
+  private showReplayView(events: SimEvent[], kills: KillRecord[]): void {
+    const player = this.replayPlayer;
+    if (!player) return;
+    const simulation = player.getSimulation();
+    const full = this.replayFogMode === 'FULL';
+
+    this.localPlayer = this.replayFogMode === 'P2' ? 2 : 1;
+    const opponent: 1 | 2 = this.localPlayer === 1 ? 2 : 1;
+    const view = simulation.getFilteredState(this.localPlayer);
+    const opponentView = simulation.getFilteredState(opponent);
+
+    if (full) {
+      view.visibleEnemies = opponentView.ownSoldiers;
+      const shown = new Set(view.utilityEffects.map(e => e.id));
+      view.utilityEffects = [
+        ...view.utilityEffects,
+        ...opponentView.utilityEffects.filter(e => !shown.has(e.id)),
+      ];
+    }
+
+    /* The clock: LIVE_PHASE counts down from the first tick, POST_PLANT from the plant */
+    this.state.phase = view.bombPlanted ? GamePhase.POST_PLANT : GamePhase.LIVE_PHASE;
+    const timeRemaining = view.bombPlanted
+      ? view.bombTimer
+      : Math.max(0, PHASE_DURATIONS[GamePhase.LIVE_PHASE] - view.tick * TICK_RATE_MS / 1000);
+
+    this.applyServerState(view, kills, view.tick, timeRemaining);
+    this.animateServerThrows(full ? events : events.filter(
+      e => e.recipient === undefined || e.recipient === this.localPlayer
+    ));
+    this.fogOfWar?.setVisible(!full);
+
+    /* The HUD's alive counts come from the truth, not from what the view has seen */
+    const opponentSoldiers = opponent === 1 ? this.state.player1Soldiers : this.state.player2Soldiers;
+    for (const soldier of opponentView.ownSoldiers) {
+      const local = opponentSoldiers[soldier.index];
+      if (!local) continue;
+      local.alive = soldier.alive;
+      local.health = soldier.health;
+    }
+
+    /* Round over: show the result and hold it for the ROUND_END pause */
+    if (player.isRoundOver()) {
+      this.state.phase = GamePhase.ROUND_END;
+      this.state.bombDefused = events.some(e => e.type === 'BOMB_DEFUSED');
+      this.setReplayScore(player.getRoundIndex() + 1);
+      this.replayHoldTicks = PHASE_DURATIONS[GamePhase.ROUND_END] * 1000 / TICK_RATE_MS;
+    }
+  }
+
+  /**
+   * Set the score to the recorded results of the first roundCount rounds.
+   *
+   * @param roundCount - Number of rounds already decided
+   */
+  private setReplayScore(roundCount: number): void {
+    let player1 = 0;
+    let player2 = 0;
+    for (const round of this.replayRounds.slice(0, roundCount)) {
+      if (round.winningSide === round.player1Side) player1++;
+      else player2++;
+    }
+    this.state.score = { player1, player2 };
+  }
+
   // ============================================================
   // Game Loop - Runs every frame (~60fps)
   // ============================================================
@@ -910,15 +1394,15 @@ export class Game {
     /* Step 1: Process player input */
     this.processInput(cappedDelta);
 
-    /* Step 2: Update simulation (fixed timestep for determinism) */
-    this.tickAccumulator += cappedDelta * 1000; // Convert to ms
+    /* Step 2: Update simulation (fixed timestep for determinism; replays run at the chosen speed) */
+    this.tickAccumulator += cappedDelta * 1000 * (this.isReplay ? this.replaySpeed : 1); // Convert to ms
     while (this.tickAccumulator >= TICK_RATE_MS) {
       this.simulationTick();
       this.tickAccumulator -= TICK_RATE_MS;
     }
 
-    /* Step 3: Update phase timer */
-    this.updatePhaseTimer(cappedDelta);
+    /* Step 3: Update phase timer (a replay's clock follows the replayed ticks instead) */
+    if (!this.isReplay) this.updatePhaseTimer(cappedDelta);
 
     /* Step 4: Update visuals (interpolated between ticks for smooth rendering) */
     this.updateVisuals();
@@ -955,6 +1439,14 @@ export class Game {
       zoomOut: scrollDelta < 0,
     });
 
+    /* --- Replay viewer: the camera is all there is to control, plus Space for play/pause --- */
+    if (this.isReplay) {
+      this.input.consumeClicks();
+      this.input.consumeCompletedDrag();
+      if (this.input.wasKeyPressed('Space')) this.toggleReplayPlayback();
+      return;
+    }
+
     /* --- Process clicks --- */
     const clicks = this.input.consumeClicks();
     for (const click of clicks) {
@@ -982,15 +1474,26 @@ export class Game {
       const targets = this.selectedSoldiers.length > 0 ? this.selectedSoldiers : [this.selectedSoldier];
       for (const idx of targets) this.issueCommand(CommandType.RETREAT, idx);
     }
+    if (this.input.wasKeyPressed('KeyF') && this.selectedSoldier !== null) {
+      /* Pick up the dropped bomb — the selected soldier walks over to it */
+      this.issueCommand(CommandType.PICKUP_BOMB, this.selectedSoldier);
+    }
+    if (this.input.wasKeyPressed('KeyT') && this.selectedSoldier !== null) {
+      /* Give the bomb to the nearest teammate in range */
+      this.issueCommand(CommandType.GIVE_BOMB, this.selectedSoldier);
+    }
+    if (this.input.wasKeyPressed('KeyQ') && this.selectedSoldier !== null) {
+      /* Pick up the nearest visible ground weapon — the soldier walks over and swaps */
+      this.pickUpNearestWeapon(this.selectedSoldier);
+    }
 
-    /* --- Bomb plant/defuse (hold keys P and E) --- */
-    /**
-     * Track whether the plant and defuse keys are being held this frame.
-     * The simulation tick will read these flags and accumulate progress.
-     * Releasing the key resets progress (must hold continuously).
-     */
-    this.isRequestingPlant = this.input.isKeyDown('KeyP');
-    this.isRequestingDefuse = this.input.isKeyDown('KeyE');
+    /* --- Bomb plant/defuse (P and E) — the soldier stays put until done or reordered --- */
+    if (this.input.wasKeyPressed('KeyP') && this.selectedSoldier !== null) {
+      this.issueCommand(CommandType.PLANT_BOMB, this.selectedSoldier);
+    }
+    if (this.input.wasKeyPressed('KeyE') && this.selectedSoldier !== null) {
+      this.issueCommand(CommandType.DEFUSE_BOMB, this.selectedSoldier);
+    }
 
     if (this.input.wasKeyPressed('KeyB')) {
       /* Toggle buy menu — only during buy phase */
@@ -1118,14 +1621,13 @@ export class Game {
       } else if (this.state.phase === GamePhase.STRATEGY_PHASE) {
         /* During strategy phase, add pathfound waypoint using A* */
         const soldier = mySoldiers[this.selectedSoldier];
-        if (soldier && this.movementSystem) {
+        if (soldier && this.pathfinding) {
           /* Pathfind from last waypoint (or current position) to clicked position */
           const startPos = soldier.waypoints.length > 0
             ? soldier.waypoints[soldier.waypoints.length - 1]
             : soldier.position;
-          const rawPath = this.movementSystem.findPath(startPos, { x: worldPos.x, z: worldPos.z });
-          if (rawPath.length > 0) {
-            const smoothed = this.movementSystem.smoothPath(rawPath);
+          const smoothed = this.pathfinding.findPath(startPos, { x: worldPos.x, z: worldPos.z });
+          if (smoothed.length > 0) {
             /* Append pathfound waypoints (skip first since it's the start position) */
             for (let i = 1; i < smoothed.length; i++) {
               soldier.waypoints.push({ x: smoothed[i].x, z: smoothed[i].z });
@@ -1140,6 +1642,7 @@ export class Game {
             soldier.waypoints,
             this.localPlayer === 1 ? '#ff6666' : '#6666ff'
           );
+          this.submitStrategyPlan();
         }
       }
     }
@@ -1223,10 +1726,21 @@ export class Game {
   }
 
   /**
-   * Issue a command through the command system.
-   * Handles the delay and cooldown logic.
+   * Issue a command to one of our soldiers. In single-player it is queued
+   * in the local simulation; in multiplayer it is sent to the server. Either
+   * way the engine applies the radio delay and per-soldier cooldown.
+   *
+   * @param type - Command type (MOVE, RUSH, HOLD, ...)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @param targetPos - Target position for movement and utility commands
+   * @param utilityType - Utility to throw for USE_UTILITY commands
    */
-  private issueCommand(type: CommandType, soldierIndex: number, targetPos?: Position): void {
+  private issueCommand(
+    type: CommandType,
+    soldierIndex: number,
+    targetPos?: Position,
+    utilityType?: UtilityType
+  ): void {
     const mySoldiers = this.localPlayer === 1
       ? this.state.player1Soldiers
       : this.state.player2Soldiers;
@@ -1234,19 +1748,44 @@ export class Game {
     const soldier = mySoldiers[soldierIndex];
     if (!soldier || !soldier.alive) return;
 
-    const accepted = this.commandSystem.issueCommand(
-      type,
-      soldierIndex,
-      this.gameTime,
-      soldier.isInCombat,
-      { targetPosition: targetPos }
-    );
+    if (this.isMultiplayer) {
+      this.sendMultiplayerCommand(type, soldierIndex, targetPos, utilityType);
+      return;
+    }
+    if (!this.simulation) return;
 
-    if (accepted) {
-      // console.log(`[Command] ${type} issued to soldier ${soldierIndex}${targetPos ? ` -> (${Math.round(targetPos.x)}, ${Math.round(targetPos.z)})` : ''}`);
-    } else {
-      // console.log(`[Command] Rejected - soldier ${soldierIndex} on cooldown`);
+    const result = this.simulation.queueCommand(this.localPlayer, type, soldierIndex, targetPos, utilityType);
+    if (!result.accepted) {
+      console.log(`[Command] ${type} rejected for soldier ${soldierIndex}: ${result.reason}`);
+    }
+  }
+
+  /**
+   * Order a soldier to fetch the ground weapon nearest them, out of the
+   * ones our squad can see. Does nothing if none is in sight.
+   *
+   * @param soldierIndex - Index of the soldier to send (0-4)
+   */
+  private pickUpNearestWeapon(soldierIndex: number): void {
+    const mySoldiers = this.localPlayer === 1
+      ? this.state.player1Soldiers
+      : this.state.player2Soldiers;
+
+    const soldier = mySoldiers[soldierIndex];
+    if (!soldier || !soldier.alive) return;
+
+    let nearest: Position | null = null;
+    let nearestDist = Infinity;
+    for (const item of this.state.groundWeapons) {
+      const dist = Math.hypot(item.position.x - soldier.position.x, item.position.z - soldier.position.z);
+      if (dist < nearestDist) {
+        nearestDist = dist;
+        nearest = item.position;
+      }
     }
+    if (!nearest) return;
+
+    this.issueCommand(CommandType.PICKUP_WEAPON, soldierIndex, { ...nearest });
   }
 
   // ============================================================
@@ -1254,10 +1793,9 @@ export class Game {
   // ============================================================
 
   /**
-   * Throw a utility item from a soldier's inventory to a target position.
-   *
-   * Removes the utility from the soldier's inventory and creates an active
-   * effect at the target position via the UtilitySystem.
+   * Order a soldier to throw a utility item from their inventory at a
+   * target position. The simulation scatters the aim by the soldier's UTL
+   * and bounces the grenade off walls; the effect starts where it lands.
    *
    * @param soldierIndex - Index of the soldier throwing the utility (0-4)
    * @param utilityType - Which utility type to throw
@@ -1273,33 +1811,9 @@ export class Game {
       : this.state.player2Soldiers;
 
     const soldier = mySoldiers[soldierIndex];
-    if (!soldier || !soldier.alive) return;
-
-    /* Find the utility in the soldier's inventory */
-    const utilIndex = soldier.utility.indexOf(utilityType);
-    if (utilIndex === -1) {
-      // console.log(`[Utility] Soldier ${soldierIndex} doesn't have ${utilityType}`);
-      return;
-    }
-
-    /* Remove the utility from inventory (consume it) */
-    soldier.utility.splice(utilIndex, 1);
-
-    /* Determine which team this soldier is on */
-    const ownerTeam: 1 | 2 = this.localPlayer;
-
-    /* Create the active effect in the world */
-    this.utilitySystem.throwUtility(
-      utilityType,
-      targetPos,
-      soldier.soldierId,
-      ownerTeam
-    );
+    if (!soldier || !soldier.utility.includes(utilityType)) return;
 
-    // console.log(
-    //   `[Utility] Soldier ${soldierIndex} threw ${utilityType}` +
-    //   ` at (${Math.round(targetPos.x)}, ${Math.round(targetPos.z)})`
-    // );
+    this.issueCommand(CommandType.USE_UTILITY, soldierIndex, targetPos, utilityType);
   }
 
   // ============================================================
@@ -1308,996 +1822,139 @@ export class Game {
 
   /**
    * Run one simulation tick (every 200ms).
-   * This is where game logic happens: movement, detection, combat.
    *
-   * Tick order:
-   *   1. Process ready commands from the command queue
-   *   2. Run bot AI decision-making (sets waypoints for P2 soldiers)
-   *   3. Update movement (A* + SPD stat)
-   *   4. Run detection (vision cone + LOS + AWR/STL stats)
-   *   5. Run combat resolution (ACC, REA, CMP, CLT, TWK stats)
-   *   6. Check round end conditions (all dead, timer expired)
+   * Single-player runs the shared Simulation engine locally, exactly as
+   * the server's GameRoom does in multiplayer, and shows its fog-of-war
+   * filtered view through the same applyServerState() path:
+   *   1. Bot AI gives player 2's orders from its own filtered view
+   *   2. Simulation.runTick() (commands, movement, detection, combat,
+   *      utility, bomb, sound)
+   *   3. Apply the local player's filtered state and animate their throws
+   *   4. Bomb planted -> POST_PLANT
+   *   5. Round end reported by the simulation -> endRound()
+   *
+   * In multiplayer the server runs the simulation; only grenade flights
+   * are animated here.
    */
   private simulationTick(): void {
-    this.state.tick++;
     this.gameTime += TICK_RATE_MS / 1000;
 
-    /* Only simulate during active phases */
-    if (this.state.phase !== GamePhase.LIVE_PHASE && this.state.phase !== GamePhase.POST_PLANT) {
-      return;
-    }
-
-    /* Step 1: Process ready commands from the command queue */
-    const readyCommands = this.commandSystem.getReadyCommands(this.gameTime);
-    for (const cmd of readyCommands) {
-      this.executeCommand(cmd);
-    }
-
-    /* Step 2: Run AI decision-making for player 2's soldiers */
-    this.updateBotAI();
-
-    /* Step 3: Update soldier movement (stat-driven speed) */
-    this.updateMovement();
-
-    /* Step 4: Run detection system (vision cone + LOS + probabilistic roll) */
-    this.updateDetection();
-
-    /* Step 5: Run combat resolution for soldiers that detect each other */
-    this.updateCombat();
-
-    /* Step 6: Tick utility effects (smoke, molotov DPS, flash timers) */
-    this.updateUtility();
-
-    /* Step 7: Update bomb plant/defuse progress */
-    this.updateBombActions();
-
-    /* Step 8: Update fog of war based on friendly soldier positions */
-    this.updateFogOfWar();
-
-    /* Step 9: Check round end conditions */
-    this.checkRoundEndConditions();
-  }
-
-  /**
-   * Execute a command that has finished its delay period.
-   * Translates the command into actual soldier state changes.
-   */
-  private executeCommand(cmd: any): void {
-    const mySoldiers = this.localPlayer === 1
-      ? this.state.player1Soldiers
-      : this.state.player2Soldiers;
-
-    const soldier = mySoldiers[cmd.soldierIndex];
-    if (!soldier || !soldier.alive) return;
-
-    switch (cmd.type) {
-      case CommandType.MOVE:
-      case CommandType.RUSH:
-        if (cmd.targetPosition && this.movementSystem) {
-          /* Use A* pathfinding to find a wall-avoiding path */
-          const rawPath = this.movementSystem.findPath(
-            soldier.position,
-            cmd.targetPosition
-          );
-          if (rawPath.length > 0) {
-            /* Smooth the path to remove unnecessary zigzag */
-            const smoothed = this.movementSystem.smoothPath(rawPath);
-            /* Convert Vec2 (readonly) to mutable Position objects for waypoints */
-            soldier.waypoints = smoothed.map(p => ({ x: p.x, z: p.z }));
-          } else {
-            /* No path found — fall back to direct movement */
-            soldier.waypoints = [{ ...cmd.targetPosition }];
-          }
-        }
-        break;
-
-      case CommandType.HOLD:
-        /* Stop moving and hold current position */
-        soldier.waypoints = [];
-        soldier.isMoving = false;
-        break;
-
-      case CommandType.RETREAT:
-        /* Move back toward spawn - simplified for now */
-        /* TODO: Calculate path back to spawn zone */
-        soldier.waypoints = [];
-        soldier.isMoving = false;
-        break;
-
-      default:
-        // console.log(`[Command] Unhandled command type: ${cmd.type}`);
-    }
-  }
-
-  // ============================================================
-  // Bot AI (Sim Step 2)
-  // ============================================================
-
-  /**
-   * Run the bot AI's decision-making for player 2's soldiers.
-   * The AI sets waypoints directly on the soldiers (no command delay).
-   * Called once per simulation tick during LIVE_PHASE and POST_PLANT.
-   */
-  private updateBotAI(): void {
-    if (!this.botAI) return;
-
-    /**
-     * Determine which soldiers belong to the bot and which are enemies.
-     * The bot always controls player 2.
-     */
-    const botSoldiers = this.state.player2Soldiers;
-    const enemySoldiers = this.state.player1Soldiers;
-
-    this.botAI.update(
-      this.state,
-      botSoldiers,
-      enemySoldiers,
-      this.state.tick
-    );
-  }
-
-  // ============================================================
-  // Movement System (Sim Step 3)
-  // ============================================================
-
-  /**
-   * Update soldier positions based on their waypoints and SPD stat.
-   *
-   * Uses calculateMovementSpeed() from StatFormulas with the soldier's
-   * SPD stat, current weapon speed modifier, and armor penalty.
-   * Soldiers in combat move at 50% speed (suppression effect).
-   */
-  private updateMovement(): void {
-    const allSoldiers = [
-      ...this.state.player1Soldiers,
-      ...this.state.player2Soldiers,
-    ];
-
-    /** Time per tick in seconds (0.2s at 5 ticks/sec) */
-    const dt = TICK_RATE_MS / 1000;
-
-    for (const soldier of allSoldiers) {
-      if (!soldier.alive || soldier.waypoints.length === 0) {
-        soldier.isMoving = false;
-        continue;
-      }
-
-      /* Get the next waypoint */
-      const target = soldier.waypoints[0];
-      const dx = target.x - soldier.position.x;
-      const dz = target.z - soldier.position.z;
-      const dist = Math.sqrt(dx * dx + dz * dz);
-
-      /* --- Calculate stat-driven movement speed --- */
-
-      /** Look up the current weapon's speed modifier from WeaponData */
-      const weaponStats = WEAPONS[soldier.currentWeapon];
-      const weaponSpeedMod = weaponStats ? weaponStats.speedModifier : 0.95;
-
-      /**
-       * Armor speed penalty: heavy armor slows you down.
-       * TODO: Look up actual armor stats from WeaponData.ARMOR
-       * For now: no armor = 1.0, any armor = 0.95 (light) or 0.92 (heavy)
-       */
-      const armorPenalty = soldier.armor ? 0.95 : 1.0;
-
-      /**
-       * Calculate final movement speed using the StatFormulas function.
-       * Formula: BASE_SPEED * (0.5 + SPD/100) * weaponSpeedMod * armorPenalty
-       * At SPD=50, weaponMod=1.0, no armor: 200 * 1.0 * 1.0 * 1.0 = 200 px/s
-       */
-      let speed = calculateMovementSpeed(
-        soldier.stats.SPD,
-        weaponSpeedMod,
-        armorPenalty
-      );
-
-      /* Soldiers in combat move at 50% speed (suppression) */
-      if (soldier.isInCombat) {
-        speed *= 0.5;
-      }
-
-      /** Waypoint arrival threshold in game units */
-      const ARRIVAL_DIST = 5;
-
-      if (dist < ARRIVAL_DIST) {
-        /* Close enough to waypoint - snap to it and advance to next */
-        soldier.position.x = target.x;
-        soldier.position.z = target.z;
-        soldier.waypoints.shift();
-        soldier.isMoving = soldier.waypoints.length > 0;
-      } else {
-        /* Move toward waypoint at calculated speed */
-        const moveAmount = speed * dt;
-        const ratio = Math.min(moveAmount / dist, 1);
-        soldier.position.x += dx * ratio;
-        soldier.position.z += dz * ratio;
-        /* Face movement direction */
-        soldier.rotation = Math.atan2(dz, dx);
-        soldier.isMoving = true;
-      }
-    }
-  }
-
-  // ============================================================
-  // Detection System (Sim Step 3)
-  // ============================================================
-
-  /**
-   * Run the detection system for all alive soldiers.
-   *
-   * For each alive soldier, checks every alive enemy through the
-   * detection pipeline:
-   *   1. Range check (AWR stat → detection radius, enemy STL → stealth mod)
-   *   2. Vision cone (120° forward arc + 30° peripheral on each side)
-   *   3. Line of sight (ray vs walls)
-   *   4. Probabilistic detection roll (per tick)
-   *
-   * Results are stored in each soldier's `detectedEnemies` array.
-   * When a soldier detects an enemy, they automatically face toward them.
-   */
-  private updateDetection(): void {
-    if (!this.detectionSystem) return;
-
-    const p1Soldiers = this.state.player1Soldiers;
-    const p2Soldiers = this.state.player2Soldiers;
-
-    /* Run detection for player 1 soldiers against player 2 enemies */
-    this.detectEnemiesForTeam(p1Soldiers, p2Soldiers);
-
-    /* Run detection for player 2 soldiers against player 1 enemies */
-    this.detectEnemiesForTeam(p2Soldiers, p1Soldiers);
-  }
-
-  /**
-   * Run detection for all soldiers on one team against the enemy team.
-   * Updates each soldier's detectedEnemies array and facing direction.
-   *
-   * @param team - Array of friendly soldiers doing the detecting
-   * @param enemies - Array of enemy soldiers that might be detected
-   */
-  private detectEnemiesForTeam(
-    team: SoldierRuntimeState[],
-    enemies: SoldierRuntimeState[]
-  ): void {
-    if (!this.detectionSystem) return;
-
-    for (const soldier of team) {
-      /* Dead soldiers can't detect anyone */
-      if (!soldier.alive) {
-        soldier.detectedEnemies = [];
-        continue;
-      }
-
-      /* Blinded soldiers can't detect anyone (flash grenade effect) */
-      if (soldier.isBlinded) {
-        soldier.detectedEnemies = [];
-        continue;
-      }
-
-      /* Check each alive enemy through the full detection pipeline */
-      const newDetected: string[] = [];
-
-      for (const enemy of enemies) {
-        if (!enemy.alive) continue;
-
-        /**
-         * Run the detection check from DetectionSystem.
-         * Uses the soldier's AWR stat for detection radius and
-         * the enemy's STL stat for stealth modifier.
-         */
-        const detected = this.detectionSystem.checkDetection(
-          soldier,
-          enemy,
-          this.rng,
-          soldier.stats.AWR,
-          enemy.stats.STL
-        );
-
-        if (detected) {
-          /**
-           * Additional check: smoke blocks LOS even if the geometry
-           * and probability checks pass. If a smoke cloud is between
-           * the observer and target, detection fails.
-           */
-          const blockedBySmoke = this.utilitySystem.isLOSBlockedBySmoke(
-            soldier.position,
-            enemy.position
-          );
-
-          if (!blockedBySmoke) {
-            newDetected.push(enemy.soldierId);
-          }
-        }
-      }
-
-      /**
-       * Also keep previously detected enemies visible if they are still
-       * within LOS (prevents flickering from probabilistic detection).
-       * Once detected, a soldier stays visible until LOS is lost.
-       */
-      for (const prevId of soldier.detectedEnemies) {
-        /* Don't duplicate entries */
-        if (newDetected.includes(prevId)) continue;
-
-        /* Find the previously detected enemy */
-        const prevEnemy = enemies.find(e => e.soldierId === prevId);
-        if (!prevEnemy || !prevEnemy.alive) continue;
-
-        /* Keep them detected if we still have wall LOS AND no smoke blocks the view */
-        if (this.detectionSystem.hasLineOfSight(soldier.position, prevEnemy.position)
-            && !this.utilitySystem.isLOSBlockedBySmoke(soldier.position, prevEnemy.position)) {
-          /**
-           * Also verify they're still within detection range.
-           * Use a generous 1.2x multiplier to prevent edge-case flickering
-           * right at the boundary of the detection radius.
-           */
-          const baseRadius = calculateDetectionRadius(soldier.stats.AWR);
-          const stealthMod = calculateStealthModifier(prevEnemy.stats.STL);
-          const effectiveRadius = baseRadius * stealthMod * 1.2;
-          const dist = vecDistance(soldier.position, prevEnemy.position);
-
-          if (dist <= effectiveRadius) {
-            newDetected.push(prevId);
-          }
-        }
-      }
-
-      /* Update the soldier's detected enemies list */
-      soldier.detectedEnemies = newDetected;
-
-      /**
-       * If this soldier detects enemies and isn't currently moving,
-       * face toward the nearest detected enemy (auto-aim behavior).
-       */
-      if (newDetected.length > 0 && !soldier.isMoving) {
-        const nearestEnemy = this.findNearestDetectedEnemy(soldier, enemies);
-        if (nearestEnemy) {
-          const dx = nearestEnemy.position.x - soldier.position.x;
-          const dz = nearestEnemy.position.z - soldier.position.z;
-          soldier.rotation = Math.atan2(dz, dx);
-        }
-      }
-    }
-  }
-
-  /**
-   * Find the nearest detected enemy for a soldier.
-   * Used for auto-aiming when standing still.
-   *
-   * @param soldier - The observing soldier
-   * @param enemies - Array of enemy soldiers
-   * @returns The nearest detected enemy, or null
-   */
-  private findNearestDetectedEnemy(
-    soldier: SoldierRuntimeState,
-    enemies: SoldierRuntimeState[]
-  ): SoldierRuntimeState | null {
-    let nearest: SoldierRuntimeState | null = null;
-    let nearestDist = Infinity;
-
-    for (const enemy of enemies) {
-      if (!enemy.alive) continue;
-      if (!soldier.detectedEnemies.includes(enemy.soldierId)) continue;
-
-      const dist = vecDistance(soldier.position, enemy.position);
-      if (dist < nearestDist) {
-        nearestDist = dist;
-        nearest = enemy;
-      }
-    }
-
-    return nearest;
-  }
-
-  // ============================================================
-  // Combat System (Sim Step 4)
-  // ============================================================
-
-  /**
-   * Resolve combat between soldiers that mutually detect each other.
-   *
-   * Combat triggers when two soldiers detect each other (mutual detection).
-   * Each tick, combatants exchange fire with probabilities determined by:
-   *   - ACC → base hit chance
-   *   - REA → who fires first (reaction time)
-   *   - RCL → accuracy decay during sustained fire
-   *   - CMP → composure under pressure (low HP or outnumbered)
-   *   - CLT → clutch bonus when last alive
-   *   - TWK → teamwork bonus when allies are nearby
-   *
-   * Damage is calculated using the weapon's bodyDamage, headshotMultiplier,
-   * and the target's armor and helmet.
-   */
-  private updateCombat(): void {
-    const p1Soldiers = this.state.player1Soldiers;
-    const p2Soldiers = this.state.player2Soldiers;
-
-    /**
-     * Track which pairs have already been resolved this tick
-     * to prevent double-processing (A shoots B AND B shoots A).
-     */
-    const resolvedPairs = new Set<string>();
-
-    /* Check all player 1 soldiers for combat engagements */
-    for (const soldier of p1Soldiers) {
-      if (!soldier.alive) continue;
-
-      for (const enemyId of soldier.detectedEnemies) {
-        /* Find the enemy in player 2's roster */
-        const enemy = p2Soldiers.find(e => e.soldierId === enemyId);
-        if (!enemy || !enemy.alive) continue;
-
-        /* Create a unique key for this pair to prevent double-processing */
-        const pairKey = [soldier.soldierId, enemy.soldierId].sort().join(':');
-        if (resolvedPairs.has(pairKey)) continue;
-        resolvedPairs.add(pairKey);
-
-        /**
-         * Check for mutual detection — both soldiers see each other.
-         * If only one sees the other, the detected soldier gets a free
-         * "ambush" shot before the other reacts.
-         */
-        const mutualDetection = enemy.detectedEnemies.includes(soldier.soldierId);
-
-        /* Mark both as in combat */
-        soldier.isInCombat = true;
-        soldier.currentTarget = enemy.soldierId;
-        if (mutualDetection) {
-          enemy.isInCombat = true;
-          enemy.currentTarget = soldier.soldierId;
-        }
-
-        /* Resolve the exchange of fire */
-        this.resolveCombatTick(soldier, enemy, p1Soldiers, p2Soldiers, mutualDetection);
-      }
-    }
-
-    /* Also check player 2 soldiers for one-sided detection (ambushes) */
-    for (const soldier of p2Soldiers) {
-      if (!soldier.alive) continue;
-
-      for (const enemyId of soldier.detectedEnemies) {
-        const enemy = p1Soldiers.find(e => e.soldierId === enemyId);
-        if (!enemy || !enemy.alive) continue;
-
-        const pairKey = [soldier.soldierId, enemy.soldierId].sort().join(':');
-        if (resolvedPairs.has(pairKey)) continue;
-        resolvedPairs.add(pairKey);
-
-        /* One-sided detection: soldier sees enemy but enemy doesn't see soldier */
-        soldier.isInCombat = true;
-        soldier.currentTarget = enemy.soldierId;
-
-        this.resolveCombatTick(soldier, enemy, p2Soldiers, p1Soldiers, false);
-      }
-    }
-
-    /* Clear combat status for soldiers with no detected enemies */
-    for (const soldier of [...p1Soldiers, ...p2Soldiers]) {
-      if (!soldier.alive) continue;
-      if (soldier.detectedEnemies.length === 0) {
-        soldier.isInCombat = false;
-        soldier.currentTarget = null;
-        soldier.shotsFired = 0; /* Reset spray counter when not in combat */
-      }
-    }
-  }
-
-  /**
-   * Resolve one tick of combat between two soldiers.
-   *
-   * Uses the full stat-driven combat pipeline:
-   *   1. Calculate hit chance (ACC + distance + movement + weapon + modifiers)
-   *   2. Roll hit/miss
-   *   3. Determine hit location (head/body/legs)
-   *   4. Calculate damage (weapon + armor + helmet)
-   *   5. Apply damage
-   *
-   * If mutual detection, both fire. If one-sided, only the detecting
-   * soldier fires (ambush advantage).
-   *
-   * @param shooterA - First soldier (always fires)
-   * @param shooterB - Second soldier (fires only if mutualDetection)
-   * @param teamA - Shooter A's full team (for counting allies alive)
-   * @param teamB - Shooter B's full team (for counting allies alive)
-   * @param mutualDetection - Whether both soldiers see each other
-   */
-  private resolveCombatTick(
-    shooterA: SoldierRuntimeState,
-    shooterB: SoldierRuntimeState,
-    teamA: SoldierRuntimeState[],
-    teamB: SoldierRuntimeState[],
-    mutualDetection: boolean
-  ): void {
-    /* Resolve A shooting at B */
-    if (shooterA.alive && shooterB.alive) {
-      this.resolveShot(shooterA, shooterB, teamA, teamB);
-    }
-
-    /* Resolve B shooting at A (only if mutual detection and B is still alive) */
-    if (mutualDetection && shooterB.alive && shooterA.alive) {
-      this.resolveShot(shooterB, shooterA, teamB, teamA);
-    }
-  }
+    /* Grenades in the air are animated locally in both modes */
+    this.utilitySystem.advanceFlights(TICK_RATE_MS / 1000);
 
-  /**
-   * Resolve a single shot from one soldier at another.
-   * This is the core accuracy + damage pipeline from the GDD.
-   *
-   * Hit chance calculation:
-   *   1. Base hit = 0.15 + ACC * 0.007
-   *   2. Distance modifier = max(0.3, 1.0 - distance/1500)
-   *   3. Moving penalty = 0.5x if shooter is moving
-   *   4. Weapon accuracy modifier (from WeaponData)
-   *   5. Spray degradation (shots fired in burst → RCL mitigates)
-   *   6. Composure modifier (CMP under stress)
-   *   7. Clutch modifier (CLT when last alive)
-   *   8. Teamwork modifier (TWK with allies nearby)
-   *   → Final = clamp(product of all, 0.02, 0.98)
-   *
-   * @param shooter - The soldier firing
-   * @param target - The soldier being fired at
-   * @param shooterTeam - Shooter's full team (for counting allies)
-   * @param targetTeam - Target's full team
-   */
-  private resolveShot(
-    shooter: SoldierRuntimeState,
-    target: SoldierRuntimeState,
-    shooterTeam: SoldierRuntimeState[],
-    targetTeam: SoldierRuntimeState[]
-  ): void {
-    /**
-     * Blinded soldiers cannot aim — skip their shot entirely.
-     * Flash grenades set isBlinded=true which prevents firing until it wears off.
-     */
-    if (shooter.isBlinded) {
+    if (this.isReplay) {
+      this.replayTick();
       return;
     }
 
-    /* Increment shot counter for spray tracking */
-    shooter.shotsFired++;
-
-    /* --- Step 1: Base hit chance from ACC stat --- */
-    const baseHit = calculateBaseHitChance(shooter.stats.ACC);
-
-    /* --- Step 2: Apply distance modifier --- */
-    const dist = vecDistance(shooter.position, target.position);
-
-    /* --- Step 3: Get weapon stats --- */
-    const weaponStats = WEAPONS[shooter.currentWeapon];
-    const weaponAccMod = weaponStats ? weaponStats.accuracyModifier : 0.85;
-
-    /**
-     * Step 4: Calculate final hit chance using StatFormulas.
-     * Combines base accuracy, distance, movement penalty, and weapon modifier.
-     */
-    let hitChance = calculateFinalHitChance(
-      shooter.stats.ACC,
-      dist,
-      shooter.isMoving,
-      weaponAccMod
-    );
-
-    /**
-     * Step 5: Apply spray degradation for sustained fire.
-     * After the first shot, accuracy degrades based on shots fired
-     * and the soldier's RCL (Recoil Control) stat.
-     */
-    if (shooter.shotsFired > 1) {
-      const sprayAcc = calculateSprayAccuracy(
-        hitChance,
-        shooter.shotsFired,
-        shooter.stats.RCL
-      );
-      hitChance = sprayAcc;
-    }
-
-    /* --- Step 6: Composure modifier (CMP) --- */
-    /**
-     * Count alive allies and detected enemies for stress calculation.
-     * Stress triggers when: HP < 30 OR enemiesVisible > alliesNearby + 1
-     */
-    const alliesAlive = shooterTeam.filter(
-      s => s.alive && s.soldierId !== shooter.soldierId
-    ).length;
-    const enemiesDetected = shooter.detectedEnemies.length;
-
-    const composureMod = calculateComposureModifier(
-      shooter.stats.CMP,
-      shooter.health,
-      enemiesDetected,
-      alliesAlive
-    );
-    hitChance *= composureMod;
-
-    /* --- Step 7: Clutch modifier (CLT) --- */
-    /** Clutch activates when the soldier is the last one alive on their team */
-    const clutchMod = calculateClutchModifier(shooter.stats.CLT, alliesAlive);
-    hitChance *= clutchMod;
-
-    /* --- Step 8: Teamwork modifier (TWK) --- */
-    /** Check if any alive ally is within TEAMWORK_RANGE (300px) */
-    const hasAllyNearby = shooterTeam.some(ally => {
-      if (ally.soldierId === shooter.soldierId || !ally.alive) return false;
-      return vecDistance(shooter.position, ally.position) <= TEAMWORK_RANGE;
-    });
-    const teamworkMod = calculateTeamworkModifier(shooter.stats.TWK, hasAllyNearby);
-    hitChance *= teamworkMod;
-
-    /* --- Clamp final hit chance --- */
-    hitChance = Math.max(0.02, Math.min(0.98, hitChance));
+    if (this.isMultiplayer || !this.simulation) return;
 
-    /* --- Roll hit/miss --- */
-    const hitRoll = this.rng.next();
-    const isHit = hitRoll < hitChance;
-
-    if (!isHit) {
-      /* Shot missed — no damage */
+    /* Only simulate during active phases */
+    if (this.state.phase !== GamePhase.LIVE_PHASE && this.state.phase !== GamePhase.POST_PLANT) {
       return;
     }
 
-    /* --- Determine hit location (head/body/legs) --- */
-    const headshotChance = calculateHeadshotChance(shooter.stats.ACC);
+    /* Steps 1-2: The bot commands player 2 from what player 2 can see, then the shared tick runs */
+    const { result: tickResult, view } = runLocalTick(this.simulation, this.localPlayer, this.botAI);
 
-    /** Reduce headshot chance during spray by 30% */
-    const effectiveHeadshotChance = shooter.shotsFired > 1
-      ? headshotChance * 0.7
-      : headshotChance;
+    /* Step 3: Show the local player's view, as the server would send it */
+    this.applyServerState(view, tickResult.kills, view.tick, this.state.timeRemaining);
+    this.animateServerThrows(tickResult.events.filter(
+      e => e.recipient === undefined || e.recipient === this.localPlayer
+    ));
 
-    const locationRoll = this.rng.next();
-    let hitLocation: 'head' | 'body' | 'legs';
-    if (locationRoll < effectiveHeadshotChance) {
-      hitLocation = 'head';
-    } else if (locationRoll < effectiveHeadshotChance + (1 - effectiveHeadshotChance) * 0.8) {
-      hitLocation = 'body';
-    } else {
-      hitLocation = 'legs';
+    /* Step 4: Bomb planted -> POST_PLANT */
+    if (view.bombPlanted && this.state.phase === GamePhase.LIVE_PHASE) {
+      this.state.phase = GamePhase.POST_PLANT;
+      this.state.timeRemaining = PHASE_DURATIONS[GamePhase.POST_PLANT];
+      console.log(`[Bomb] Bomb planted at site ${view.bombSite}`);
     }
 
-    /* --- Calculate damage --- */
-    /**
-     * Look up armor reduction values.
-     * TODO: Use actual ARMOR lookup table when buy menu is wired.
-     * For now: no armor = 0% reduction, "light" = 30%, "heavy" = 50%.
-     */
-    let armorBodyReduction = 0;
-    let armorLegReduction = 0;
-    if (target.armor === 'HEAVY_ARMOR') {
-      armorBodyReduction = 0.50;
-      armorLegReduction = 0.15;
-    } else if (target.armor === 'LIGHT_VEST') {
-      armorBodyReduction = 0.30;
-      armorLegReduction = 0;
-    }
-
-    /** Check if the weapon is an AWP (ignores helmet protection) */
-    const isAwp = shooter.currentWeapon === WeaponId.AWP;
-
-    const damage = calculateDamage(
-      weaponStats ? weaponStats.bodyDamage : 25,
-      weaponStats ? weaponStats.headshotMultiplier : 2.5,
-      hitLocation,
-      armorBodyReduction,
-      armorLegReduction,
-      target.helmet,
-      isAwp
-    );
-
-    /* --- Apply damage to target --- */
-    target.health -= damage;
-
-    /**
-     * Interrupt plant/defuse action if the target takes damage.
-     * Taking a bullet breaks concentration and resets action progress.
-     */
-    if (target.isPlanting || target.isDefusing) {
-      // console.log(`[Bomb] ${target.soldierId} interrupted while ${target.isPlanting ? 'planting' : 'defusing'} (took damage)`);
-      target.isPlanting = false;
-      target.isDefusing = false;
-      target.actionProgress = 0;
-    }
-
-    /* Check if target was killed */
-    if (target.health <= 0) {
-      target.health = 0;
-      target.alive = false;
-      target.isMoving = false;
-      target.isInCombat = false;
-      target.currentTarget = null;
-      target.waypoints = [];
-      target.detectedEnemies = [];
-
-      /* Log the kill */
-      const killRecord: KillRecord = {
-        killerId: shooter.soldierId,
-        victimId: target.soldierId,
-        weapon: shooter.currentWeapon,
-        headshot: hitLocation === 'head',
-        tick: this.state.tick,
-      };
-      this.state.currentRoundKills.push(killRecord);
-
-      // console.log(
-      //   `[Combat] ${shooter.soldierId} killed ${target.soldierId}` +
-      //   ` with ${shooter.currentWeapon}` +
-      //   `${hitLocation === 'head' ? ' (HEADSHOT!)' : ''}` +
-      //   ` — ${damage.toFixed(0)} damage`
-      // );
+    /* Step 5: Elimination, defuse or detonation ends the round */
+    if (tickResult.roundEnded && tickResult.winningSide) {
+      if (tickResult.events.some(e => e.type === 'BOMB_DEFUSED')) {
+        this.state.bombDefused = true;
+      }
+      this.endRound(tickResult.winningSide === 'ATTACKER' ? Side.ATTACKER : Side.DEFENDER);
     }
   }
 
-  // ============================================================
-  // Utility System (Sim Step 6)
-  // ============================================================
-
-  /**
-   * Tick all active utility effects and update blind timers.
-   *
-   * This method:
-   *   1. Ticks the UtilitySystem (applies frag/molotov damage, expires effects)
-   *   2. Ticks blind timers on all soldiers (flash blind wears off over time)
-   *
-   * Called once per simulation tick (every 200ms).
-   */
-  private updateUtility(): void {
-    const dt = TICK_RATE_MS / 1000;
-    const allSoldiers = [
-      ...this.state.player1Soldiers,
-      ...this.state.player2Soldiers,
-    ];
-
-    /* Tick active utility effects (applies molotov DPS, expires effects) */
-    this.utilitySystem.tick(dt, allSoldiers);
-
-    /* Tick blind timers on all soldiers */
-    this.utilitySystem.tickBlindTimers(dt, allSoldiers);
-  }
-
-  // ============================================================
-  // Bomb Plant/Defuse (Sim Step 7)
-  // ============================================================
-
   /**
-   * Update bomb plant and defuse actions each simulation tick.
-   *
-   * Plant logic:
-   *   - The selected attacker soldier must be alive and inside a plant zone
-   *   - The player must be holding the P key
-   *   - Progress accumulates by dt each tick (3 seconds to plant)
-   *   - The soldier cannot move while planting (waypoints are cleared)
-   *   - If the player releases P or the soldier leaves the zone, progress resets
-   *   - When plant completes: bomb is placed, phase transitions to POST_PLANT
-   *
-   * Defuse logic:
-   *   - A defender soldier must be alive and near the planted bomb
-   *   - The player must be holding the E key
-   *   - Progress accumulates by dt each tick (5s without kit, 3s with kit)
-   *   - The soldier cannot move while defusing
-   *   - If interrupted, progress resets
-   *   - When defuse completes: defenders win the round
+   * Brief the local simulation when LIVE_PHASE starts (single-player only).
+   * Goes through briefLocalRound(), which sets the round up exactly as
+   * GameRoom does on the server: fresh soldiers at spawn with the loadouts
+   * bought this round, then strategy routes and stances take effect
+   * immediately. The bot briefs its own default plan.
    */
-  private updateBombActions(): void {
-    if (!this.bombLogic) return;
+  private startLocalRound(): void {
+    if (!this.simulation || !this.mapData) return;
 
-    const dt = TICK_RATE_MS / 1000;
-
-    /**
-     * Determine which soldiers are attackers and which are defenders.
-     * Player 1's side determines this; player 2 is the opposite.
-     */
-    const p1IsAttacker = this.state.player1Side === Side.ATTACKER;
-    const attackerSoldiers = p1IsAttacker
+    /* Our strategy plan, walked from the first tick (no radio delay) */
+    const mySoldiers = this.localPlayer === 1
       ? this.state.player1Soldiers
       : this.state.player2Soldiers;
-    const defenderSoldiers = p1IsAttacker
-      ? this.state.player2Soldiers
-      : this.state.player1Soldiers;
-
-    /* Which player controls the attackers? */
-    const attackerPlayer: 1 | 2 = p1IsAttacker ? 1 : 2;
-    const defenderPlayer: 1 | 2 = p1IsAttacker ? 2 : 1;
-
-    // --- PLANT LOGIC ---
-    if (!this.state.bombPlanted && this.state.phase === GamePhase.LIVE_PHASE) {
-      this.updatePlantAction(attackerSoldiers, attackerPlayer, dt);
-    }
-
-    // --- DEFUSE LOGIC ---
-    if (this.state.bombPlanted && this.state.phase === GamePhase.POST_PLANT) {
-      this.updateDefuseAction(defenderSoldiers, defenderPlayer, dt);
-    }
-  }
-
-  /**
-   * Handle bomb plant progress for the attacking team.
-   *
-   * Only the local player's selected soldier can plant (if they're an attacker).
-   * The bot AI handles plant logic independently in BotAI.ts.
-   *
-   * @param attackerSoldiers - The attacking team's soldiers
-   * @param attackerPlayer - Which player (1 or 2) controls the attackers
-   * @param dt - Time delta for this tick (seconds)
-   */
-  private updatePlantAction(
-    attackerSoldiers: SoldierRuntimeState[],
-    attackerPlayer: 1 | 2,
-    dt: number
-  ): void {
-    if (!this.bombLogic) return;
+    const ownStrategy: ReplayStrategy = {
+      routes: mySoldiers.map(soldier => soldier.waypoints.map(p => ({ ...p }))),
+      stances: mySoldiers.map(soldier => soldier.stance),
+    };
 
-    /**
-     * Check if the local player is the attacker and is requesting a plant.
-     * The bot AI handles its own plant logic separately.
-     */
-    const localIsAttacker = this.localPlayer === attackerPlayer;
+    /* The bot plays the opposite side to player 1 */
+    const botSide = this.state.player1Side === Side.ATTACKER ? 'DEFENDER' : 'ATTACKER';
+    const botRoutes = this.botAI?.planStrategy(botSide) ?? [];
+    const botStrategy: ReplayStrategy = {
+      routes: [0, 1, 2, 3, 4].map(i => botRoutes[i] ?? []),
+      stances: [null, null, null, null, null],
+    };
 
-    for (const soldier of attackerSoldiers) {
-      if (!soldier.alive || !soldier.hasBomb) continue;
+    /* Both squads' gear as bought this round (so nothing needs carrying over) */
+    const loadoutsOf = (soldiers: SoldierRuntimeState[]): SoldierLoadout[] => soldiers.map(soldier => ({
+      currentWeapon: soldier.currentWeapon,
+      armor: soldier.armor,
+      helmet: soldier.helmet,
+      utility: [...soldier.utility],
+      defuseKit: soldier.defuseKit,
+    }));
+
+    briefLocalRound(this.simulation, this.mapData, {
+      player1Side: this.state.player1Side === Side.ATTACKER ? 'ATTACKER' : 'DEFENDER',
+      keepSurvivorLoadouts: false,
+      loadouts: {
+        player1: loadoutsOf(this.state.player1Soldiers),
+        player2: loadoutsOf(this.state.player2Soldiers),
+      },
+      strategy: this.localPlayer === 1
+        ? { player1: ownStrategy, player2: botStrategy }
+        : { player1: botStrategy, player2: ownStrategy },
+    });
+    this.routeWaypointsReached = [];
 
-      /**
-       * Determine if this soldier should be planting:
-       * - Local player: must be holding P key and have this soldier selected
-       * - Bot AI: BotAI sets isPlanting directly
-       */
-      const shouldPlant = localIsAttacker
-        ? (this.isRequestingPlant &&
-           this.selectedSoldier === soldier.index)
-        : soldier.isPlanting; /* Bot AI sets this directly */
-
-      if (shouldPlant) {
-        /* Check if the soldier is inside a plant zone */
-        const siteId = this.bombLogic.isInPlantZone(soldier.position);
-
-        if (siteId) {
-          /* Start or continue planting */
-          soldier.isPlanting = true;
-          soldier.isMoving = false;
-          soldier.waypoints = [];
-          soldier.actionProgress += dt;
-
-          /* Check if plant is complete */
-          if (this.bombLogic.isPlantComplete(soldier.actionProgress)) {
-            this.completeBombPlant(soldier, siteId);
-          }
-        } else {
-          /* Not in a plant zone — reset plant progress */
-          if (soldier.isPlanting) {
-            // console.log(`[Bomb] ${soldier.soldierId} left the plant zone — plant cancelled`);
-          }
-          soldier.isPlanting = false;
-          soldier.actionProgress = 0;
-        }
-      } else {
-        /* Not holding plant key — reset progress */
-        if (soldier.isPlanting) {
-          soldier.isPlanting = false;
-          soldier.actionProgress = 0;
-        }
-      }
-    }
+    this.botAI?.initializeRound(botSide);
   }
 
   /**
-   * Handle bomb defuse progress for the defending team.
-   *
-   * @param defenderSoldiers - The defending team's soldiers
-   * @param defenderPlayer - Which player (1 or 2) controls the defenders
-   * @param dt - Time delta for this tick (seconds)
+   * Copy the opponent's true squad state out of the local simulation when
+   * a single-player round ends. During the round we only hold what fog of
+   * war revealed, but who survived (and with what gear) decides the bot's
+   * loadouts next round.
    */
-  private updateDefuseAction(
-    defenderSoldiers: SoldierRuntimeState[],
-    defenderPlayer: 1 | 2,
-    dt: number
-  ): void {
-    if (!this.bombLogic || !this.state.bombPosition) return;
-
-    const localIsDefender = this.localPlayer === defenderPlayer;
-
-    for (const soldier of defenderSoldiers) {
-      if (!soldier.alive) continue;
+  private syncOpponentSquad(): void {
+    if (this.isMultiplayer || !this.simulation) return;
 
-      /**
-       * Determine if this soldier should be defusing:
-       * - Local player: must be holding E key and have this soldier selected
-       * - Bot AI: BotAI sets isDefusing directly
-       */
-      const shouldDefuse = localIsDefender
-        ? (this.isRequestingDefuse &&
-           this.selectedSoldier === soldier.index)
-        : soldier.isDefusing; /* Bot AI sets this directly */
-
-      if (shouldDefuse) {
-        /* Check if the soldier is within defuse range of the bomb */
-        const inRange = this.bombLogic.isInDefuseRange(
-          soldier.position,
-          this.state.bombPosition
-        );
-
-        if (inRange) {
-          /* Start or continue defusing */
-          soldier.isDefusing = true;
-          soldier.isMoving = false;
-          soldier.waypoints = [];
-          soldier.actionProgress += dt;
+    const opponent: 1 | 2 = this.localPlayer === 1 ? 2 : 1;
+    const soldiers = opponent === 1 ? this.state.player1Soldiers : this.state.player2Soldiers;
+    for (const simSoldier of this.simulation.getFilteredState(opponent).ownSoldiers) {
+      const local = soldiers[simSoldier.index];
+      if (!local) continue;
 
-          /* Check if defuse is complete */
-          if (this.bombLogic.isDefuseComplete(soldier.actionProgress, soldier.defuseKit)) {
-            this.completeBombDefuse(soldier);
-          }
-        } else {
-          /* Out of range — reset defuse progress */
-          if (soldier.isDefusing) {
-            // console.log(`[Bomb] ${soldier.soldierId} moved out of defuse range — defuse cancelled`);
-          }
-          soldier.isDefusing = false;
-          soldier.actionProgress = 0;
-        }
-      } else {
-        /* Not holding defuse key — reset progress */
-        if (soldier.isDefusing) {
-          soldier.isDefusing = false;
-          soldier.actionProgress = 0;
-        }
-      }
+      local.alive = simSoldier.alive;
+      local.health = simSoldier.health;
+      local.currentWeapon = simSoldier.currentWeapon as WeaponId;
+      local.utility = [...simSoldier.utility];
     }
   }
 
-  /**
-   * Complete the bomb plant action.
-   * Places the bomb at the soldier's position, transitions to POST_PLANT phase.
-   *
-   * @param planter - The soldier who planted the bomb
-   * @param siteId - Which bomb site the bomb was planted at ('A' or 'B')
-   */
-  private completeBombPlant(planter: SoldierRuntimeState, siteId: string): void {
-    /* Update game state */
-    this.state.bombPlanted = true;
-    this.state.bombPosition = { ...planter.position };
-    this.state.bombSite = siteId;
-    this.state.bombTimer = PHASE_DURATIONS[GamePhase.POST_PLANT];
-
-    /* Reset the planter's action state */
-    planter.isPlanting = false;
-    planter.actionProgress = 0;
-    planter.hasBomb = false;
-
-    /* Transition to POST_PLANT phase */
-    this.state.phase = GamePhase.POST_PLANT;
-    this.state.timeRemaining = PHASE_DURATIONS[GamePhase.POST_PLANT];
-
-    console.log(
-      `[Bomb] ${planter.soldierId} planted the bomb at site ${siteId}` +
-      ` (${Math.round(planter.position.x)}, ${Math.round(planter.position.z)})` +
-      ` — ${PHASE_DURATIONS[GamePhase.POST_PLANT]}s until detonation`
-    );
-  }
-
-  /**
-   * Complete the bomb defuse action.
-   * Defenders win the round. Transitions to ROUND_END.
-   *
-   * @param defuser - The soldier who defused the bomb
-   */
-  private completeBombDefuse(defuser: SoldierRuntimeState): void {
-    /* Reset the defuser's action state */
-    defuser.isDefusing = false;
-    defuser.actionProgress = 0;
-
-    /* Mark the bomb as defused */
-    this.state.bombDefused = true;
-
-    console.log(
-      `[Bomb] ${defuser.soldierId} DEFUSED the bomb!` +
-      ` (kit: ${defuser.defuseKit ? 'yes' : 'no'})`
-    );
-
-    /* Defenders win the round */
-    this.endRound(Side.DEFENDER);
-  }
-
   // ============================================================
-  // Fog of War (Sim Step 8)
+  // Fog of War
   // ============================================================
 
   /**
@@ -2320,59 +1977,6 @@ export class Game {
     this.fogOfWar.update(mySoldiers);
   }
 
-  // ============================================================
-  // Round End Conditions (Sim Step 9)
-  // ============================================================
-
-  /**
-   * Check if the round should end due to elimination.
-   *
-   * The round ends immediately when:
-   *   - All attackers are dead → Defenders win
-   *   - All defenders are dead → Attackers win
-   *
-   * Other round-end conditions (bomb plant/defuse, timer) are handled
-   * by the phase timer in advancePhase().
-   */
-  private checkRoundEndConditions(): void {
-    /* Don't check during non-live phases */
-    if (this.state.phase !== GamePhase.LIVE_PHASE && this.state.phase !== GamePhase.POST_PLANT) {
-      return;
-    }
-
-    /**
-     * Determine which team is attacking and which is defending.
-     * Player 1's side determines this — player 2 is always the opposite.
-     */
-    const attackers = this.state.player1Side === Side.ATTACKER
-      ? this.state.player1Soldiers
-      : this.state.player2Soldiers;
-
-    const defenders = this.state.player1Side === Side.DEFENDER
-      ? this.state.player1Soldiers
-      : this.state.player2Soldiers;
-
-    const attackersAlive = attackers.filter(s => s.alive).length;
-    const defendersAlive = defenders.filter(s => s.alive).length;
-
-    if (attackersAlive === 0) {
-      /* All attackers eliminated — defenders win */
-      console.log('[Round] All attackers eliminated! Defenders win.');
-      this.endRound(Side.DEFENDER);
-    } else if (defendersAlive === 0) {
-      /**
-       * All defenders eliminated — attackers win.
-       * Exception: if the bomb is planted, the round continues
-       * (bomb can still detonate even with no defenders alive).
-       * But if bomb is NOT planted and all defenders die, attackers
-       * still need to plant... Actually in CS:GO if all defenders die
-       * the attackers win immediately, regardless of bomb status.
-       */
-      console.log('[Round] All defenders eliminated! Attackers win.');
-      this.endRound(Side.ATTACKER);
-    }
-  }
-
   // ============================================================
   // Phase Management
   // ============================================================
@@ -2430,6 +2034,9 @@ export class Game {
         /* Hide the strategy editor when going live */
         this.strategyEditor.hide();
 
+        /* Brief the local simulation with both squads' gear and plans */
+        if (!this.isMultiplayer) this.startLocalRound();
+
         console.log(`[Phase] LIVE - Round ${this.state.roundNumber} started!`);
         break;
 
@@ -2460,6 +2067,9 @@ export class Game {
    * Updates score, economy, and transitions to ROUND_END phase.
    */
   private endRound(winner: Side): void {
+    /* Pull the bot's real survivors out of the simulation before the round is scored */
+    this.syncOpponentSquad();
+
     /* Determine which player won based on current sides */
     const player1Won = (this.state.player1Side === winner);
 
@@ -2594,10 +2204,11 @@ export class Game {
     this.state.bombPlanted = false;
     this.state.bombDefused = false;
     this.state.bombPosition = null;
+    this.state.droppedBombPosition = null;
+    this.state.groundWeapons = [];
     this.state.bombSite = null;
     this.state.bombTimer = 0;
     this.state.currentRoundKills = [];
-    this.commandSystem.clearAll();
 
     /**
      * Reset soldiers for the new round with equipment persistence.
@@ -2634,6 +2245,8 @@ export class Game {
       soldier.waypoints = [];
       soldier.isPlanting = false;
       soldier.isDefusing = false;
+      soldier.isRetreating = false;
+      soldier.isRushing = false;
       soldier.actionProgress = 0;
       soldier.detectedEnemies = [];
       soldier.shotsFired = 0;
@@ -2665,14 +2278,6 @@ export class Game {
       this.fogOfWar.reset();
     }
 
-    /* Re-initialize bot AI for the new round with updated side */
-    if (this.botAI) {
-      const botSide = this.state.player1Side === Side.ATTACKER
-        ? Side.DEFENDER
-        : Side.ATTACKER;
-      this.botAI.initializeRound(botSide);
-    }
-
     /* Start buy phase */
     this.state.phase = GamePhase.BUY_PHASE;
     this.state.timeRemaining = PHASE_DURATIONS[GamePhase.BUY_PHASE];
@@ -2716,6 +2321,9 @@ export class Game {
     const myPrefix = this.localPlayer === 1 ? 'p1' : 'p2';
     const enemyPrefix = this.localPlayer === 1 ? 'p2' : 'p1';
 
+    /* The replay viewer's full view shows both squads and all utility */
+    const fullView = this.isReplay && this.replayFogMode === 'FULL';
+
     /* Update friendly soldiers — always visible to the player */
     for (const soldier of mySoldiers) {
       this.soldierRenderer.updateSoldier(
@@ -2734,7 +2342,7 @@ export class Game {
      */
     for (const enemy of enemySoldiers) {
       /* Check if any of our soldiers currently detect this enemy */
-      const isDetected = mySoldiers.some(
+      const isDetected = fullView || mySoldiers.some(
         s => s.alive && s.detectedEnemies.includes(enemy.soldierId)
       );
 
@@ -2753,9 +2361,34 @@ export class Game {
       );
     }
 
+    /**
+     * Update utility effects. Enemy decoys are never drawn, since seeing
+     * them would give the fake away (the server never sends them either).
+     */
+    this.utilityRenderer.update(
+      this.utilitySystem.getActiveEffects().filter(
+        e => fullView || !(e.type === UtilityType.DECOY && e.ownerTeam !== this.localPlayer)
+      ),
+      this.utilitySystem.getInFlightUtility()
+    );
+
+    /* Dropped weapons — already limited to the ones our soldiers can see */
+    this.groundWeaponRenderer.update(this.state.groundWeapons);
+
     /* Update the HUD overlay with current game state */
     this.hud.update(this.state, this.localPlayer, this.selectedSoldier);
 
+    /* Keep the replay panel's scrubber and buttons in step with playback */
+    if (this.replayControls && this.replayPlayer) {
+      this.replayControls.update({
+        roundIndex: this.replayPlayer.getRoundIndex(),
+        tick: this.replayPlayer.getSimulation().getTick(),
+        playing: this.replayPlaying,
+        speed: this.replaySpeed,
+        fogMode: this.replayFogMode,
+      });
+    }
+
     /* Update the buy menu if it's visible */
     if (this.buyMenu.isVisible()) {
       const mySoldiers = this.localPlayer === 1
@@ -2853,3 +2486,44 @@ export class Game {
     console.log('[Game] Destroyed');
   }
 }
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * Turn a replayed tick's events into timeline markers: kills, bomb
+ * plants and utility throws.
+ *
+ * @param events - Simulation events of one tick
+ */
+function toReplayMarkers(events: SimEvent[]): ReplayMarker[] {
+  const markers: ReplayMarker[] = [];
+  for (const event of events) {
+    if (event.type === 'KILL') {
+      markers.push({
+        tick: event.tick,
+        kind: 'KILL',
+        label: `${event.data.killerId} killed ${event.data.victimId} (${event.data.weaponId})`,
+      });
+    } else if (event.type === 'BOMB_PLANTED') {
+      markers.push({ tick: event.tick, kind: 'PLANT', label: `Bomb planted at site ${event.data.siteId}` });
+    } else if (event.type === 'UTILITY_USED') {
+      markers.push({
+        tick: event.tick,
+        kind: 'UTILITY',
+        label: `${event.data.soldierId} threw ${event.data.utilityType}`,
+      });
+    }
+  }
+  return markers;
+}
+
+/**
+ * Readable message of a caught error.
+ *
+ * @param error - Whatever was thrown
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
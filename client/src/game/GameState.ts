@@ -98,6 +98,10 @@ export interface SoldierRuntimeState {
   isPlanting: boolean;
   /** Whether this soldier is currently defusing the bomb */
   isDefusing: boolean;
+  /** Whether this soldier is falling back under a RETREAT order */
+  isRetreating: boolean;
+  /** Whether this soldier is moving under a RUSH order (fast, loud, inaccurate) */
+  isRushing: boolean;
   /** Progress of plant/defuse action (0 to required time in seconds) */
   actionProgress: number;
   /** The 10 core combat stats used by simulation formulas */
@@ -156,10 +160,22 @@ export interface KillRecord {
   weapon: string;
   /** Whether it was a headshot */
   headshot: boolean;
+  /** Whether the killing shot went through a wall (server simulation only) */
+  wallbang?: boolean;
   /** Game tick when the kill happened */
   tick: number;
 }
 
+/** A dropped weapon one of our soldiers can see */
+export interface GroundWeaponState {
+  /** Unique ID for this ground item (per round) */
+  id: string;
+  /** Weapon type (RIFLE, AWP, etc.) */
+  weaponId: string;
+  /** Where the weapon lies */
+  position: Position;
+}
+
 /** Complete state of an active game */
 export interface GameState {
   /** Current game phase */
@@ -184,6 +200,10 @@ export interface GameState {
   bombPlanted: boolean;
   /** World position of the planted bomb (null if not planted) */
   bombPosition: Position | null;
+  /** World position of the dropped bomb after its carrier died (null while carried) */
+  droppedBombPosition: Position | null;
+  /** Dropped weapons in sight of our soldiers */
+  groundWeapons: GroundWeaponState[];
   /** Bomb site the bomb was planted at ('A' or 'B', null if not planted) */
   bombSite: string | null;
   /** Seconds remaining on bomb timer (only when planted) */
@@ -279,6 +299,8 @@ export function createInitialGameState(matchSeed: number): GameState {
     player2Economy: createInitialEconomy(),
     bombPlanted: false,
     bombPosition: null,
+    droppedBombPosition: null,
+    groundWeapons: [],
     bombSite: null,
     bombTimer: 0,
     bombDefused: false,
@@ -333,6 +355,8 @@ export function createSoldierRuntimeState(
     hasBomb: false,
     isPlanting: false,
     isDefusing: false,
+    isRetreating: false,
+    isRushing: false,
     actionProgress: 0,
     stats: createVariedStats(index),
     detectedEnemies: [],
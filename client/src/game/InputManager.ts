@@ -323,6 +323,7 @@ export class InputManager {
     'Space',                               // Could be used for actions
     'KeyH', 'KeyR', 'KeyG', 'KeyP',       // Hold, Retreat, Regroup, Plant
     'KeyE',                                // Defuse bomb
+    'KeyF', 'KeyT', 'KeyQ',                // Pick up bomb, give bomb, pick up weapon
     'KeyB',                                // Buy menu toggle
     'Digit1', 'Digit2', 'Digit3', 'Digit4', // Utility selection
     'Tab',                                 // Scoreboard
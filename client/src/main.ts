@@ -32,14 +32,29 @@ async function boot(): Promise<void> {
   /* Create the game instance - this sets up Three.js, input, and all subsystems */
   const game = new Game(canvas);
 
-  /* Start a match immediately for testing */
-  /* TODO: Show main menu first, let player choose to start match */
-  try {
-    await game.startMatch();
-    console.log('Game is running. Use WASD to pan camera, scroll to zoom.');
-    console.log('Click a soldier to select, click map to move.');
-  } catch (error) {
-    console.error('Failed to start match:', error);
+  /**
+   * ?replay opens the replay viewer instead of a match. A value is fetched
+   * as the replay file (?replay=/replays/match.json); without one, load a
+   * file from the replay panel.
+   */
+  const params = new URLSearchParams(window.location.search);
+  if (params.has('replay')) {
+    try {
+      await game.startReplayViewer(params.get('replay') || undefined);
+      console.log('Replay viewer is running. Load a replay file, then press Space to play.');
+    } catch (error) {
+      console.error('Failed to start replay viewer:', error);
+    }
+  } else {
+    /* Start a match immediately for testing */
+    /* TODO: Show main menu first, let player choose to start match */
+    try {
+      await game.startMatch();
+      console.log('Game is running. Use WASD to pan camera, scroll to zoom.');
+      console.log('Click a soldier to select, click map to move.');
+    } catch (error) {
+      console.error('Failed to start match:', error);
+    }
   }
 
   /* Expose game instance globally for debugging in browser console */
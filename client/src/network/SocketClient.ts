@@ -7,6 +7,7 @@
  *   - Typed message sending (JOIN_QUEUE, SEND_COMMAND, etc.)
  *   - Event callbacks for server messages (MATCH_FOUND, PHASE_CHANGE, etc.)
  *   - Connection state tracking with status events
+ *   - Automatic RESUME_SESSION after a reconnect during a match
  *
  * Architecture:
  *   Game.ts
@@ -14,13 +15,31 @@
  *           ├── Sends C2S messages (commands, buy orders, strategy plans)
  *           └── Receives S2C messages (phase changes, state updates, match events)
  *
+ * In development builds every outgoing C2S message is checked against the
+ * shared message schema before it is sent, so protocol drift is reported on
+ * the client instead of only as a server rejection.
+ *
  * The SocketClient is optional — the game can run in single-player (vs bot)
  * mode without a server connection. When connected, it replaces the local
  * phase management with server-authoritative phase control.
  */
 
 import { io, Socket } from 'socket.io-client';
-import type { Command, BuyOrder } from '@shared/types/MessageTypes';
+import type {
+  Command,
+  BuyOrder,
+  C2SMessage,
+  S2C_BuyOrderResult,
+  S2C_CommandDelayed,
+  S2C_CommandRejected,
+  S2C_InvalidMessage,
+  S2C_SessionResumed,
+  S2C_BotControl,
+} from '@shared/types/MessageTypes';
+import type { MapData } from '@shared/types/MapTypes';
+import type { Stance } from '@shared/types/SoldierTypes';
+import { validateC2SMessage, formatValidationErrors } from '@shared/util/MessageValidation';
+import type { ValidationContext } from '@shared/util/MessageValidation';
 
 // ============================================================================
 // --- Types ---
@@ -35,6 +54,7 @@ export type OnStatusChangeCallback = (status: ConnectionStatus) => void;
 /** Callback type for when a match is found */
 export type OnMatchFoundCallback = (data: {
   roomId: string;
+  sessionToken: string;
   playerNumber: 1 | 2;
   opponentName: string;
 }) => void;
@@ -78,12 +98,73 @@ export interface ServerSoldierState {
   isMoving: boolean;
   /** Whether the soldier is in active combat */
   isInCombat: boolean;
+  /** Current stance (own soldiers only) */
+  stance?: string;
+  /** Whether this soldier carries the bomb (own soldiers only) */
+  hasBomb?: boolean;
+  /** Remaining utility items (own soldiers only) */
+  utility?: string[];
   /** Whether this soldier is planting the bomb */
   isPlanting?: boolean;
   /** Whether this soldier is defusing the bomb */
   isDefusing?: boolean;
 }
 
+/**
+ * Strategy plan route progress for one of our own soldiers.
+ * Lets the client show how far along its planned route each soldier is.
+ */
+export interface RouteProgress {
+  /** Soldier index in the team (0-4) */
+  soldierIndex: number;
+  /** Number of route waypoints already reached */
+  completedWaypoints: number;
+  /** Total number of waypoints in the route (0 if no plan) */
+  totalWaypoints: number;
+  /** Route waypoint currently being walked toward (null when done) */
+  currentTarget: { x: number; z: number } | null;
+}
+
+/** A weapon lying on the ground after its owner died or swapped it */
+export interface GroundWeapon {
+  /** Unique ID for this ground item (per round) */
+  id: string;
+  /** Weapon type (RIFLE, AWP, etc.) */
+  weaponId: string;
+  /** Where the weapon lies */
+  position: { x: number; z: number };
+}
+
+/** An approximate position where our soldiers heard an enemy they cannot see */
+export interface SoundPing {
+  /** Unique ID for this ping (per round) */
+  id: string;
+  /** What was heard */
+  soundType: 'FOOTSTEPS' | 'GUNFIRE' | 'UTILITY' | 'PLANT' | 'DEFUSE';
+  /** Fuzzed position of the noise (never the exact source) */
+  position: { x: number; z: number };
+  /** Tick the sound was heard on */
+  tick: number;
+}
+
+/** An active utility effect (smoke, molotov, flash, ...) the player is allowed to see */
+export interface UtilityEffectState {
+  /** Unique ID for this effect instance */
+  id: string;
+  /** Utility type (SMOKE, FLASH, FRAG, MOLOTOV, DECOY) */
+  type: string;
+  /** World position where the effect is centred */
+  position: { x: number; z: number };
+  /** Effect radius in pixels */
+  radius: number;
+  /** Time remaining before the effect expires (seconds) */
+  timeRemaining: number;
+  /** Total duration of the effect (seconds) */
+  totalDuration: number;
+  /** Which team owns this effect (1 or 2) */
+  ownerTeam: 1 | 2;
+}
+
 /**
  * Fog-of-war filtered game state from the server.
  * Each player receives a different view based on what their soldiers detect.
@@ -97,10 +178,20 @@ export interface FilteredGameState {
   bombPlanted: boolean;
   /** Bomb position (null if not planted or not visible) */
   bombPosition: { x: number; z: number } | null;
+  /** Dropped bomb position (attackers always; defenders only with line of sight) */
+  droppedBombPosition: { x: number; z: number } | null;
+  /** Dropped weapons any of our soldiers can see */
+  groundWeapons: GroundWeapon[];
+  /** Recent sound pings heard by our soldiers */
+  soundPings: SoundPing[];
+  /** Active utility effects: our own, plus enemy ones in sight or big enough to notice */
+  utilityEffects: UtilityEffectState[];
   /** Bomb site identifier */
   bombSite: string | null;
   /** Bomb timer (only visible to defenders when planted) */
   bombTimer: number;
+  /** Strategy plan route progress for each own soldier */
+  routeProgress: RouteProgress[];
   /** Current tick number */
   tick: number;
 }
@@ -111,6 +202,8 @@ export interface ServerKillRecord {
   victimId: string;
   weapon: string;
   headshot: boolean;
+  /** Whether the killing shot went through a wall */
+  wallbang: boolean;
   tick: number;
 }
 
@@ -154,12 +247,30 @@ export type OnMatchEndCallback = (data: {
   reason?: string;
 }) => void;
 
+/** Callback type for buy order results (one verdict per submitted order) */
+export type OnBuyOrderResultCallback = (data: S2C_BuyOrderResult) => void;
+
+/** Callback type for accepted commands (radio delay before execution) */
+export type OnCommandDelayedCallback = (data: S2C_CommandDelayed) => void;
+
+/** Callback type for commands the server refused (cooldown, dead soldier, ...) */
+export type OnCommandRejectedCallback = (data: S2C_CommandRejected) => void;
+
+/** Callback type for messages the server refused as malformed */
+export type OnInvalidMessageCallback = (data: S2C_InvalidMessage) => void;
+
+/** Callback type for a successful session resume (after the phase and state were replayed) */
+export type OnSessionResumedCallback = (data: S2C_SessionResumed) => void;
+
 /** Callback type for queue status updates */
 export type OnQueueUpdateCallback = (data: { position: number }) => void;
 
 /** Callback type for opponent disconnect notification */
 export type OnOpponentDisconnectedCallback = (data: { timeoutSeconds: number }) => void;
 
+/** Callback type for a server bot taking over (or handing back) a disconnected player's squad */
+export type OnBotControlCallback = (data: S2C_BotControl) => void;
+
 /** Callback type for generic server errors */
 export type OnErrorCallback = (data: { message: string }) => void;
 
@@ -189,6 +300,14 @@ export class SocketClient {
   /** Current connection status */
   private status: ConnectionStatus = 'disconnected';
 
+  /** Session token from MATCH_FOUND, used to resume the match after a reconnect */
+  private sessionToken: string | null = null;
+
+  /** Map limits for the development-time check of outgoing messages (unbounded until a map is set) */
+  private validationContext: ValidationContext = {
+    dimensions: { width: Infinity, height: Infinity },
+  };
+
   // --- Event Callbacks ---
 
   /** Fired when the connection status changes */
@@ -221,12 +340,33 @@ export class SocketClient {
   /** Fired when the match ends */
   public onMatchEnd: OnMatchEndCallback | null = null;
 
+  /** Fired when the server answers a buy order batch */
+  public onBuyOrderResult: OnBuyOrderResultCallback | null = null;
+
+  /** Fired when the server accepts a command and starts its radio delay */
+  public onCommandDelayed: OnCommandDelayedCallback | null = null;
+
+  /** Fired when the server rejects a command */
+  public onCommandRejected: OnCommandRejectedCallback | null = null;
+
+  /** Fired when the server refuses a message that failed schema validation */
+  public onInvalidMessage: OnInvalidMessageCallback | null = null;
+
+  /**
+   * Fired when the server accepted our RESUME_SESSION. The snapshot has
+   * already been replayed through onPhaseChange and onGameStateUpdate.
+   */
+  public onSessionResumed: OnSessionResumedCallback | null = null;
+
   /** Fired when the queue position updates */
   public onQueueUpdate: OnQueueUpdateCallback | null = null;
 
   /** Fired when the opponent disconnects */
   public onOpponentDisconnected: OnOpponentDisconnectedCallback | null = null;
 
+  /** Fired when a bot takes over or hands back a disconnected player's squad */
+  public onBotControl: OnBotControlCallback | null = null;
+
   /** Fired on server errors */
   public onError: OnErrorCallback | null = null;
 
@@ -271,6 +411,12 @@ export class SocketClient {
     this.socket.on('connect', () => {
       console.log(`[SocketClient] Connected to server (id: ${this.socket?.id})`);
       this.setStatus('connected');
+
+      /* Back after a drop mid-match: reclaim our seat before anything else */
+      if (this.sessionToken) {
+        console.log('[SocketClient] Resuming match session');
+        this.send({ type: 'RESUME_SESSION', payload: { sessionToken: this.sessionToken } });
+      }
     });
 
     this.socket.on('disconnect', (reason) => {
@@ -290,6 +436,7 @@ export class SocketClient {
 
     this.socket.on('MATCH_FOUND', (data) => {
       console.log(`[SocketClient] Match found! Room: ${data.roomId}, Player: ${data.playerNumber}`);
+      this.sessionToken = data.sessionToken;
       this.onMatchFound?.(data);
     });
 
@@ -336,14 +483,69 @@ export class SocketClient {
 
     this.socket.on('MATCH_END', (data) => {
       console.log(`[SocketClient] Match ended: ${data.winner} wins`);
+      this.sessionToken = null;
       this.onMatchEnd?.(data);
     });
 
+    this.socket.on('BUY_ORDER_RESULT', (data) => {
+      this.onBuyOrderResult?.(data);
+    });
+
+    this.socket.on('COMMAND_DELAYED', (data) => {
+      this.onCommandDelayed?.(data);
+    });
+
+    this.socket.on('COMMAND_REJECTED', (data) => {
+      this.onCommandRejected?.(data);
+    });
+
+    /**
+     * SESSION_RESUMED: We are back in our match. Replay the snapshot through
+     * the regular phase and state callbacks so the game picks up where it was.
+     */
+    this.socket.on('SESSION_RESUMED', (data: S2C_SessionResumed) => {
+      console.log(`[SocketClient] Session resumed in ${data.roomId} (${data.phase}, round ${data.roundNumber})`);
+      this.onPhaseChange?.({
+        phase: data.phase,
+        timeRemaining: data.timeRemaining,
+        roundNumber: data.roundNumber,
+        score: data.score,
+        player1Side: data.player1Side,
+      });
+      if (data.phase === 'LIVE_PHASE' || data.phase === 'POST_PLANT') {
+        this.onGameStateUpdate?.({
+          tick: data.tick,
+          phase: data.phase,
+          timeRemaining: data.timeRemaining,
+          state: data.state as FilteredGameState,
+          events: [],
+          kills: [],
+        });
+      }
+      this.onSessionResumed?.(data);
+    });
+
+    this.socket.on('RESUME_FAILED', (data) => {
+      console.warn(`[SocketClient] Could not resume match: ${data.reason}`);
+      this.sessionToken = null;
+      this.onError?.({ message: data.reason });
+    });
+
+    this.socket.on('INVALID_MESSAGE', (data) => {
+      console.warn(`[SocketClient] Server refused ${data.messageType}: ${formatValidationErrors(data.errors)}`);
+      this.onInvalidMessage?.(data);
+    });
+
     this.socket.on('OPPONENT_DISCONNECTED', (data) => {
       console.log(`[SocketClient] Opponent disconnected (${data.timeoutSeconds}s to reconnect)`);
       this.onOpponentDisconnected?.(data);
     });
 
+    this.socket.on('BOT_CONTROL', (data: S2C_BotControl) => {
+      console.log(`[SocketClient] Player ${data.playerNumber} squad ${data.active ? 'now bot-controlled' : 'back under player control'}`);
+      this.onBotControl?.(data);
+    });
+
     this.socket.on('ERROR', (data) => {
       console.error(`[SocketClient] Server error: ${data.message}`);
       this.onError?.(data);
@@ -378,6 +580,16 @@ export class SocketClient {
     return this.status;
   }
 
+  /**
+   * Set the active map's dimensions, used to bounds-check outgoing positions
+   * in development builds.
+   *
+   * @param dimensions - The loaded map's dimensions
+   */
+  setMapDimensions(dimensions: MapData['dimensions']): void {
+    this.validationContext = { dimensions: { ...dimensions } };
+  }
+
   // --------------------------------------------------------------------------
   // Message Sending (C2S)
   // --------------------------------------------------------------------------
@@ -387,7 +599,7 @@ export class SocketClient {
    * The server will pair two queued players and create a game room.
    */
   joinQueue(): void {
-    this.emit('JOIN_QUEUE', {});
+    this.send({ type: 'JOIN_QUEUE', payload: {} });
   }
 
   /**
@@ -403,7 +615,7 @@ export class SocketClient {
    * @param command - The command to send (includes type, soldier index, target, etc.)
    */
   sendCommand(command: Command): void {
-    this.emit('SEND_COMMAND', { command });
+    this.send({ type: 'SEND_COMMAND', payload: { command } });
   }
 
   /**
@@ -412,7 +624,7 @@ export class SocketClient {
    * @param orders - Array of buy orders for individual soldiers
    */
   sendBuyOrder(orders: BuyOrder[]): void {
-    this.emit('SEND_BUY_ORDER', { orders });
+    this.send({ type: 'SEND_BUY_ORDER', payload: { orders } });
   }
 
   /**
@@ -420,22 +632,42 @@ export class SocketClient {
    * If both players ready up, the phase advances immediately.
    */
   readyUp(): void {
-    this.emit('READY_UP', {});
+    this.send({ type: 'READY_UP', payload: {} });
   }
 
   /**
    * Submit strategy plans (waypoints) for the current round.
    *
    * @param plans - Array of waypoint arrays, one per soldier (5 total)
+   * @param stances - Optional stance per soldier, applied at LIVE_PHASE start
    */
-  sendStrategyPlan(plans: { x: number; z: number }[][]): void {
-    this.emit('STRATEGY_PLAN', { plans });
+  sendStrategyPlan(plans: { x: number; z: number }[][], stances?: Stance[]): void {
+    this.send({ type: 'STRATEGY_PLAN', payload: { plans, stances } });
   }
 
   // --------------------------------------------------------------------------
   // Internal Helpers
   // --------------------------------------------------------------------------
 
+  /**
+   * Send a typed C2S message. In development builds the message is first
+   * checked against the shared schema; problems are logged as errors but
+   * the message is still sent so the server's verdict can be observed.
+   *
+   * @param message - The message to send
+   */
+  private send(message: C2SMessage): void {
+    if (import.meta.env.DEV) {
+      const checked = validateC2SMessage(message, this.validationContext);
+      if (!checked.ok) {
+        console.error(
+          `[SocketClient] Outgoing ${message.type} fails the message schema: ${formatValidationErrors(checked.errors)}`
+        );
+      }
+    }
+    this.emit(message.type, message.payload);
+  }
+
   /**
    * Emit a message to the server.
    * Silently drops the message if not connected.
@@ -0,0 +1,108 @@
+/**
+ * @file GroundWeaponRenderer.ts
+ * @description Renders dropped weapons lying on the ground as small
+ * placeholder meshes, coloured by weapon class. Only the weapons our
+ * soldiers can see are passed in, so the fog of war is already applied.
+ */
+
+import * as THREE from 'three';
+import type { GroundWeaponState } from '../game/GameState';
+
+/** Colour for each weapon type; unknown types fall back to DEFAULT_COLOR. */
+const WEAPON_COLORS: Record<string, number> = {
+  SMG: 0x88cc88,
+  SHOTGUN: 0xccaa66,
+  RIFLE: 0xe0c060,
+  AWP: 0x66aaff,
+  LMG: 0xcc7766,
+};
+
+/** Colour for weapon types without an entry in WEAPON_COLORS. */
+const DEFAULT_COLOR = 0xcccccc;
+
+/**
+ * Manages the 3D representation of ground weapons.
+ *
+ * Each weapon is a flat box keyed by its ground item ID, so a weapon that
+ * is picked up disappears and the primary left in its place appears.
+ *
+ * @example
+ * ```ts
+ * const groundWeaponRenderer = new GroundWeaponRenderer(scene);
+ * // Every frame:
+ * groundWeaponRenderer.update(state.groundWeapons);
+ * ```
+ */
+export class GroundWeaponRenderer {
+  /** Reference to the Three.js scene where weapons are rendered. */
+  private scene: THREE.Scene;
+
+  /** Map of ground item IDs to their meshes. */
+  private weaponMeshes: Map<string, THREE.Mesh> = new Map();
+
+  /**
+   * Creates a new GroundWeaponRenderer attached to the given scene.
+   *
+   * @param scene - The Three.js scene to add weapon meshes to.
+   */
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+  }
+
+  /**
+   * Sync the scene with the given ground weapons.
+   * Creates meshes for new items and removes meshes for items that were
+   * picked up or went out of sight.
+   *
+   * @param weapons - All ground weapons that should currently be drawn.
+   */
+  public update(weapons: readonly GroundWeaponState[]): void {
+    const activeIds = new Set<string>();
+
+    for (const weapon of weapons) {
+      activeIds.add(weapon.id);
+
+      if (!this.weaponMeshes.has(weapon.id)) {
+        const mesh = new THREE.Mesh(
+          new THREE.BoxGeometry(22, 3, 6),
+          new THREE.MeshBasicMaterial({ color: WEAPON_COLORS[weapon.weaponId] ?? DEFAULT_COLOR })
+        );
+        mesh.position.set(weapon.position.x, 1.5, weapon.position.z);
+        this.scene.add(mesh);
+        this.weaponMeshes.set(weapon.id, mesh);
+      }
+    }
+
+    /* Remove meshes for weapons that are gone or out of sight */
+    for (const id of Array.from(this.weaponMeshes.keys())) {
+      if (!activeIds.has(id)) {
+        this.removeWeapon(id);
+      }
+    }
+  }
+
+  /**
+   * Removes all weapon meshes from the scene.
+   * Typically called at the end of a round.
+   */
+  public removeAll(): void {
+    for (const id of Array.from(this.weaponMeshes.keys())) {
+      this.removeWeapon(id);
+    }
+  }
+
+  /**
+   * Remove a single weapon mesh and dispose its resources.
+   *
+   * @param weaponId - Ground item ID of the weapon to remove.
+   */
+  private removeWeapon(weaponId: string): void {
+    const mesh = this.weaponMeshes.get(weaponId);
+    if (!mesh) return;
+
+    mesh.geometry.dispose();
+    (mesh.material as THREE.Material).dispose();
+    this.scene.remove(mesh);
+    this.weaponMeshes.delete(weaponId);
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * @file UtilityRenderer.ts
+ * @description Renders active utility effects (smokes, molotov fires, flashes,
+ * frags, decoys) as simple placeholder meshes in the 3D scene. Effects fade
+ * out as their remaining time runs down. Grenades in flight are drawn as
+ * small spheres arcing along their bounce path.
+ */
+
+import * as THREE from 'three';
+import type { ActiveUtilityEffect, InFlightUtility } from '../simulation/Utility';
+
+/** Base colour and peak opacity for each utility type. */
+const EFFECT_STYLES: Record<string, { color: number; opacity: number }> = {
+  SMOKE: { color: 0x9a9a9a, opacity: 0.75 },
+  MOLOTOV: { color: 0xff6a1a, opacity: 0.55 },
+  FLASH: { color: 0xffffee, opacity: 0.6 },
+  FRAG: { color: 0xffaa33, opacity: 0.6 },
+  DECOY: { color: 0x66ccff, opacity: 0.5 },
+};
+
+/** Peak height of a grenade's arc above the ground (world units). */
+const THROW_ARC_HEIGHT = 60;
+
+/**
+ * Manages the 3D representation of active utility effects.
+ *
+ * Each effect is a single mesh keyed by effect ID:
+ * - SMOKE: Translucent grey cylinder (a wall of smoke that blocks vision)
+ * - MOLOTOV: Flat orange disc on the ground covering the fire zone
+ * - FLASH / FRAG: Brief bright disc marking the burst radius
+ * - DECOY: Small pulsing marker at the decoy position
+ *
+ * Both local play and multiplayer feed this renderer from
+ * `UtilitySystem.getActiveEffects()`, so the visuals are identical.
+ *
+ * @example
+ * ```ts
+ * const utilityRenderer = new UtilityRenderer(scene);
+ * // Every frame:
+ * utilityRenderer.update(utilitySystem.getActiveEffects());
+ * ```
+ */
+export class UtilityRenderer {
+  /** Reference to the Three.js scene where effects are rendered. */
+  private scene: THREE.Scene;
+
+  /** Map of effect IDs to their meshes. */
+  private effectMeshes: Map<string, THREE.Mesh> = new Map();
+
+  /** Map of throw IDs to the meshes of grenades in flight. */
+  private grenadeMeshes: Map<string, THREE.Mesh> = new Map();
+
+  /**
+   * Creates a new UtilityRenderer attached to the given scene.
+   *
+   * @param scene - The Three.js scene to add effect meshes to.
+   */
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+  }
+
+  /**
+   * Sync the scene with the given list of active effects.
+   * Creates meshes for new effects, fades existing ones by their remaining
+   * time, and removes meshes whose effect has expired.
+   *
+   * @param effects - All effects that should currently be drawn.
+   * @param inFlight - Grenades still in the air.
+   */
+  public update(
+    effects: readonly ActiveUtilityEffect[],
+    inFlight: readonly InFlightUtility[] = []
+  ): void {
+    this.updateGrenades(inFlight);
+
+    const activeIds = new Set<string>();
+
+    for (const effect of effects) {
+      activeIds.add(effect.id);
+
+      let mesh = this.effectMeshes.get(effect.id);
+      if (!mesh) {
+        mesh = this.createEffectMesh(effect);
+        this.scene.add(mesh);
+        this.effectMeshes.set(effect.id, mesh);
+      }
+
+      /* Fade out over the effect's lifetime */
+      const style = EFFECT_STYLES[effect.type] ?? EFFECT_STYLES.DECOY;
+      const progress = effect.totalDuration > 0
+        ? Math.max(0, Math.min(1, effect.timeRemaining / effect.totalDuration))
+        : 0;
+      (mesh.material as THREE.MeshBasicMaterial).opacity = style.opacity * Math.max(0.2, progress);
+    }
+
+    /* Remove meshes for effects that no longer exist */
+    for (const id of Array.from(this.effectMeshes.keys())) {
+      if (!activeIds.has(id)) {
+        this.removeEffect(id);
+      }
+    }
+  }
+
+  /**
+   * Removes all effect and grenade meshes from the scene.
+   * Typically called at the end of a round.
+   */
+  public removeAll(): void {
+    for (const id of Array.from(this.effectMeshes.keys())) {
+      this.removeEffect(id);
+    }
+    this.updateGrenades([]);
+  }
+
+  /**
+   * Move each grenade in flight to its current point along the path, with
+   * a parabolic arc over the whole flight. Grenades that have landed are removed.
+   *
+   * @param inFlight - Grenades still in the air.
+   */
+  private updateGrenades(inFlight: readonly InFlightUtility[]): void {
+    const activeIds = new Set<string>();
+
+    for (const grenade of inFlight) {
+      activeIds.add(grenade.id);
+
+      let mesh = this.grenadeMeshes.get(grenade.id);
+      if (!mesh) {
+        const style = EFFECT_STYLES[grenade.type] ?? EFFECT_STYLES.DECOY;
+        mesh = new THREE.Mesh(
+          new THREE.SphereGeometry(6, 8, 6),
+          new THREE.MeshBasicMaterial({ color: style.color })
+        );
+        this.scene.add(mesh);
+        this.grenadeMeshes.set(grenade.id, mesh);
+      }
+
+      const progress = grenade.flightTime > 0
+        ? Math.min(1, grenade.elapsed / grenade.flightTime)
+        : 1;
+      const point = this.pointAlongPath(grenade.path, progress);
+      const height = 6 + THROW_ARC_HEIGHT * 4 * progress * (1 - progress);
+      mesh.position.set(point.x, height, point.z);
+    }
+
+    for (const [id, mesh] of Array.from(this.grenadeMeshes.entries())) {
+      if (activeIds.has(id)) continue;
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+      this.scene.remove(mesh);
+      this.grenadeMeshes.delete(id);
+    }
+  }
+
+  /**
+   * Find the point a given fraction of the way along a polyline.
+   *
+   * @param path - Path points (at least one).
+   * @param fraction - 0 = start, 1 = end.
+   * @returns The interpolated point.
+   */
+  private pointAlongPath(
+    path: readonly { x: number; z: number }[],
+    fraction: number
+  ): { x: number; z: number } {
+    let total = 0;
+    for (let i = 1; i < path.length; i++) {
+      total += Math.hypot(path[i].x - path[i - 1].x, path[i].z - path[i - 1].z);
+    }
+
+    let remaining = total * fraction;
+    for (let i = 1; i < path.length; i++) {
+      const segment = Math.hypot(path[i].x - path[i - 1].x, path[i].z - path[i - 1].z);
+      if (remaining <= segment && segment > 0) {
+        const t = remaining / segment;
+        return {
+          x: path[i - 1].x + (path[i].x - path[i - 1].x) * t,
+          z: path[i - 1].z + (path[i].z - path[i - 1].z) * t,
+        };
+      }
+      remaining -= segment;
+    }
+
+    return path[path.length - 1];
+  }
+
+  /**
+   * Build the mesh for a single effect based on its type.
+   *
+   * @param effect - The effect to visualise.
+   * @returns A mesh positioned at the effect centre.
+   */
+  private createEffectMesh(effect: ActiveUtilityEffect): THREE.Mesh {
+    const style = EFFECT_STYLES[effect.type] ?? EFFECT_STYLES.DECOY;
+    const material = new THREE.MeshBasicMaterial({
+      color: style.color,
+      transparent: true,
+      opacity: style.opacity,
+      depthWrite: false,
+    });
+
+    let geometry: THREE.BufferGeometry;
+    let height: number;
+
+    switch (effect.type) {
+      case 'SMOKE':
+        /* Tall enough to hide soldiers standing inside it */
+        geometry = new THREE.CylinderGeometry(effect.radius, effect.radius, 80, 32);
+        height = 40;
+        break;
+
+      case 'DECOY':
+        geometry = new THREE.SphereGeometry(12, 12, 8);
+        height = 12;
+        break;
+
+      default: {
+        /* MOLOTOV, FLASH and FRAG: flat disc on the ground */
+        const disc = new THREE.CircleGeometry(effect.radius, 32);
+        disc.rotateX(-Math.PI / 2);
+        geometry = disc;
+        height = 0.6;
+        break;
+      }
+    }
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.set(effect.position.x, height, effect.position.z);
+    return mesh;
+  }
+
+  /**
+   * Remove a single effect mesh and dispose its resources.
+   *
+   * @param effectId - ID of the effect to remove.
+   */
+  private removeEffect(effectId: string): void {
+    const mesh = this.effectMeshes.get(effectId);
+    if (!mesh) return;
+
+    mesh.geometry.dispose();
+    (mesh.material as THREE.Material).dispose();
+    this.scene.remove(mesh);
+    this.effectMeshes.delete(effectId);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @file LocalRound.ts
+ * @description How single-player drives the shared Simulation engine.
+ *
+ * In single-player the client runs the engine itself, the way GameRoom does
+ * on the server:
+ *   - createLocalSimulation() builds the engine for a match seed and map
+ *   - briefLocalRound() spawns both squads, equips them and walks their
+ *     strategy plans, in the same order GameRoom briefs a round
+ *   - runLocalTick() lets the bot decide, advances one tick and returns
+ *     the local player's fog-of-war view, as the server would send it
+ *
+ * Nothing here touches the DOM or Three.js, so the parity check
+ * (scripts/simParity.ts) can replay server recordings through it.
+ */
+
+import { Simulation } from '@shared/simulation/Simulation';
+import type { TickResult, FilteredGameState } from '@shared/simulation/Simulation';
+import type { BotAI } from '@shared/simulation/BotAI';
+import type { ReplayRound } from '@shared/simulation/Replay';
+import type { MapData } from '@shared/types/MapTypes';
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/**
+ * Everything a round is briefed with as it goes live: sides, every
+ * soldier's loadout and both strategy plans. The same fields a replay
+ * round records, so a server recording can be briefed directly.
+ */
+export type RoundBriefing = Pick<ReplayRound, 'player1Side' | 'keepSurvivorLoadouts' | 'loadouts' | 'strategy'>;
+
+/** What one local tick produced */
+export interface LocalTick {
+  /** The engine's result for the tick */
+  result: TickResult;
+  /** The local player's fog-of-war filtered view after the tick */
+  view: FilteredGameState;
+}
+
+// ============================================================================
+// --- Round Driver ---
+// ============================================================================
+
+/**
+ * Create the engine for a local match.
+ *
+ * @param seed - Match seed
+ * @param map - Map being played
+ */
+export function createLocalSimulation(seed: number, map: MapData): Simulation {
+  const simulation = new Simulation(seed);
+  simulation.setWalls(map.walls, map.dimensions.width, map.dimensions.height);
+  simulation.setCover(map.cover);
+  return simulation;
+}
+
+/**
+ * Set up a round as GameRoom does: spawn, equip both squads, then walk
+ * every strategy route and apply the briefed stances.
+ *
+ * @param simulation - The local engine
+ * @param map - Map being played (only its spawn zones are used)
+ * @param briefing - Sides, loadouts and plans for the round
+ */
+export function briefLocalRound(
+  simulation: Simulation,
+  map: Pick<MapData, 'spawnZones'>,
+  briefing: RoundBriefing
+): void {
+  simulation.initializeRound(
+    briefing.player1Side,
+    map.spawnZones.attacker,
+    map.spawnZones.defender,
+    briefing.keepSurvivorLoadouts
+  );
+
+  for (const playerNumber of [1, 2] as const) {
+    const loadouts = playerNumber === 1 ? briefing.loadouts.player1 : briefing.loadouts.player2;
+    loadouts.forEach((loadout, i) => simulation.setLoadout(playerNumber, i, loadout));
+  }
+  for (const playerNumber of [1, 2] as const) {
+    const strategy = playerNumber === 1 ? briefing.strategy.player1 : briefing.strategy.player2;
+    strategy.routes.forEach((route, i) => {
+      if (route.length > 0) simulation.assignRoute(playerNumber, i, route);
+    });
+  }
+  for (const playerNumber of [1, 2] as const) {
+    const strategy = playerNumber === 1 ? briefing.strategy.player1 : briefing.strategy.player2;
+    strategy.stances.forEach((stance, i) => {
+      if (stance) simulation.setStance(playerNumber, i, stance);
+    });
+  }
+}
+
+/**
+ * Run one local tick: the bot gives its orders from its own filtered view,
+ * then the engine advances.
+ *
+ * @param simulation - The local engine
+ * @param localPlayer - Which player is at the keyboard (1 or 2)
+ * @param bot - The bot playing the other squad (null when its orders come from elsewhere)
+ * @returns The tick result and the local player's view
+ */
+export function runLocalTick(simulation: Simulation, localPlayer: 1 | 2, bot: BotAI | null): LocalTick {
+  if (bot) {
+    const botPlayer: 1 | 2 = localPlayer === 1 ? 2 : 1;
+    bot.update(simulation.getFilteredState(botPlayer));
+  }
+
+  const result = simulation.runTick();
+  return { result, view: simulation.getFilteredState(localPlayer) };
+}
@@ -3,13 +3,35 @@
  *
  * Renders game information on top of the 3D scene using HTML/CSS.
  * Shows: phase indicator, round timer, score, money, alive counts,
- * and selected soldier info.
+ * a "bot controlled" tag while the opponent is disconnected,
+ * selected soldier info, the last command the server rejected with its
+ * retry countdown, and any buy order or strategy plan it refused.
  *
  * Uses DOM manipulation (not Three.js) so it's crisp at any resolution
  * and easy to style with CSS.
  */
 
 import { GamePhase, Side, type GameState, type SoldierRuntimeState } from '../game/GameState';
+import type { S2C_CommandRejected, S2C_InvalidMessage } from '@shared/types/MessageTypes';
+import { formatValidationErrors } from '@shared/util/MessageValidation';
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Shortest time a rejection notice stays up, even with no countdown (ms) */
+const REJECTION_NOTICE_MS = 2500;
+
+/** How long a refused buy order or strategy plan stays under the phase (ms) */
+const REFUSAL_NOTICE_MS = 5000;
+
+/** What the player sees a refused message called */
+const REFUSED_MESSAGE_LABELS: Record<string, string> = {
+  SEND_BUY_ORDER: 'Buy order',
+  STRATEGY_PLAN: 'Strategy plan',
+  SEND_COMMAND: 'Command',
+  READY_UP: 'Ready',
+};
 
 // ============================================================
 // HUD Class
@@ -22,12 +44,13 @@ import { GamePhase, Side, type GameState, type SoldierRuntimeState } from '../ga
  * ┌──────────────────────────────────────────────────────┐
  * │  [Score]     [Phase: LIVE | Timer: 1:23]     [Money] │
  * │  P1: 2       Round 3 of 9                    $4,250  │
- * │  P2: 1       Alive: 4 vs 5                           │
+ * │  P2: 1       [Strategy plan refused: ...]    4 vs 5  │
  * └──────────────────────────────────────────────────────┘
  * │                                                       │
  * │              (3D game scene here)                     │
  * │                                                       │
  * ├──────────────────────────────────────────────────────┤
+ * │  Soldier 2: HOLD rejected (Command cooldown) 1.4s    │
  * │  [Selected: Soldier 2]  HP: 75  Weapon: Rifle        │
  * │  Stance: Aggressive   [H]old [R]etreat               │
  * └──────────────────────────────────────────────────────┘
@@ -42,13 +65,29 @@ export class HUD {
     scoreDisplay: HTMLElement;
     phaseDisplay: HTMLElement;
     timerDisplay: HTMLElement;
+    refusalNotice: HTMLElement;
     roundDisplay: HTMLElement;
     moneyDisplay: HTMLElement;
     aliveDisplay: HTMLElement;
+    botDisplay: HTMLElement;
     bottomBar: HTMLElement;
+    rejectionNotice: HTMLElement;
     selectedInfo: HTMLElement;
   };
 
+  /** The last command rejection on screen, or null when none is shown */
+  private rejection: {
+    /** "Soldier 2: HOLD rejected (Command cooldown)" */
+    label: string;
+    /** When the soldier accepts commands again (performance.now() ms) */
+    retryAt: number;
+    /** When the notice is taken down (performance.now() ms) */
+    hideAt: number;
+  } | null = null;
+
+  /** When the refused-message notice is taken down (performance.now() ms), 0 when none is shown */
+  private refusalHideAt = 0;
+
   /**
    * Create the HUD and inject HTML elements into the container.
    * @param containerId - ID of the HUD container element in index.html
@@ -70,13 +109,16 @@ export class HUD {
         <div class="hud-center">
           <div class="hud-phase" id="hud-phase">BUY PHASE</div>
           <div class="hud-timer" id="hud-timer">0:20</div>
+          <div class="hud-refusal" id="hud-refusal"></div>
         </div>
         <div class="hud-right">
           <div class="hud-money" id="hud-money">$800</div>
           <div class="hud-alive" id="hud-alive">5 vs 5</div>
+          <div class="hud-bot" id="hud-bot">OPPONENT: BOT CONTROLLED</div>
         </div>
       </div>
       <div class="hud-bottom-bar" id="hud-bottom-bar">
+        <div class="hud-rejection" id="hud-rejection"></div>
         <div class="hud-selected" id="hud-selected">Click a soldier to select</div>
       </div>
     `;
@@ -87,10 +129,13 @@ export class HUD {
       scoreDisplay: document.getElementById('hud-score')!,
       phaseDisplay: document.getElementById('hud-phase')!,
       timerDisplay: document.getElementById('hud-timer')!,
+      refusalNotice: document.getElementById('hud-refusal')!,
       roundDisplay: document.getElementById('hud-round')!,
       moneyDisplay: document.getElementById('hud-money')!,
       aliveDisplay: document.getElementById('hud-alive')!,
+      botDisplay: document.getElementById('hud-bot')!,
       bottomBar: document.getElementById('hud-bottom-bar')!,
+      rejectionNotice: document.getElementById('hud-rejection')!,
       selectedInfo: document.getElementById('hud-selected')!,
     };
 
@@ -154,12 +199,88 @@ export class HUD {
     } else {
       this.elements.selectedInfo.textContent = 'Click a soldier to select';
     }
+
+    /* --- Command rejection and retry countdown --- */
+    this.updateRejectionNotice();
+
+    /* --- Refused buy order or strategy plan --- */
+    if (this.refusalHideAt > 0 && performance.now() >= this.refusalHideAt) {
+      this.refusalHideAt = 0;
+      this.elements.refusalNotice.style.display = 'none';
+    }
+  }
+
+  /**
+   * Show a command the server rejected above the soldier info, counting
+   * down until the soldier accepts commands again. Replaces any earlier notice.
+   *
+   * @param rejection - The COMMAND_REJECTED payload
+   */
+  showCommandRejected(rejection: S2C_CommandRejected): void {
+    const now = performance.now();
+    const soldier = rejection.soldierIndex >= 0 ? `Soldier ${rejection.soldierIndex + 1}: ` : '';
+    const retryAt = now + Math.max(0, rejection.retryIn) * 1000;
+
+    this.rejection = {
+      label: `${soldier}${rejection.commandType || 'Command'} rejected (${rejection.reason})`,
+      retryAt,
+      hideAt: Math.max(retryAt, now + REJECTION_NOTICE_MS),
+    };
+    this.updateRejectionNotice();
+  }
+
+  /**
+   * Show or hide the tag marking the opponent's squad as bot-controlled
+   * (the server plays it while the opponent is disconnected).
+   *
+   * @param active - Whether a bot is playing the opponent's squad
+   */
+  setOpponentBotControlled(active: boolean): void {
+    this.elements.botDisplay.style.display = active ? 'block' : 'none';
+  }
+
+  /**
+   * Show a message the server refused as malformed (a buy order or strategy
+   * plan, usually) under the phase indicator, with its first problem.
+   *
+   * @param refusal - The INVALID_MESSAGE payload
+   */
+  showMessageRefused(refusal: S2C_InvalidMessage): void {
+    const label = REFUSED_MESSAGE_LABELS[refusal.messageType] ?? refusal.messageType;
+    const [first, ...rest] = refusal.errors;
+    const problem = first ? ` — ${formatValidationErrors([first])}` : '';
+    const more = rest.length > 0 ? ` (+${rest.length} more)` : '';
+
+    this.elements.refusalNotice.textContent = `${label} refused${problem}${more}`;
+    this.elements.refusalNotice.style.display = 'block';
+    this.refusalHideAt = performance.now() + REFUSAL_NOTICE_MS;
   }
 
   // ============================================================
   // Helper Methods
   // ============================================================
 
+  /**
+   * Redraw the rejection notice with the time left until the retry,
+   * and take it down once it has expired.
+   */
+  private updateRejectionNotice(): void {
+    const notice = this.elements.rejectionNotice;
+    const now = performance.now();
+
+    if (!this.rejection || now >= this.rejection.hideAt) {
+      this.rejection = null;
+      notice.style.display = 'none';
+      return;
+    }
+
+    const secondsLeft = (this.rejection.retryAt - now) / 1000;
+    notice.textContent = secondsLeft > 0
+      ? `${this.rejection.label} — retry in ${secondsLeft.toFixed(1)}s`
+      : this.rejection.label;
+    notice.style.display = 'block';
+  }
+
   /**
    * Get a human-readable label for the current game phase.
    */
@@ -239,6 +360,14 @@ export class HUD {
         font-weight: bold;
         font-family: 'Courier New', monospace;
       }
+      .hud-refusal {
+        display: none;
+        max-width: 420px;
+        font-size: 12px;
+        font-weight: bold;
+        text-align: center;
+        color: #ff6644;
+      }
       .hud-money {
         font-size: 24px;
         font-weight: bold;
@@ -247,6 +376,16 @@ export class HUD {
         font-size: 14px;
         opacity: 0.7;
       }
+      .hud-bot {
+        display: none;
+        font-size: 12px;
+        font-weight: bold;
+        letter-spacing: 2px;
+        padding: 2px 8px;
+        border-radius: 4px;
+        color: #ffcc44;
+        background: rgba(255,204,68,0.15);
+      }
       .hud-bottom-bar {
         position: absolute;
         bottom: 0;
@@ -257,6 +396,13 @@ export class HUD {
         pointer-events: none;
         user-select: none;
       }
+      .hud-rejection {
+        display: none;
+        margin-bottom: 6px;
+        font-size: 13px;
+        font-weight: bold;
+        color: #ff6644;
+      }
       .hud-selected {
         display: flex;
         gap: 20px;
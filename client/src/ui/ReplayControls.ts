@@ -0,0 +1,557 @@
+/**
+ * @file ReplayControls.ts
+ * @description Playback panel for the replay viewer.
+ *
+ * Shown instead of the buy menu and strategy editor when the client runs
+ * in replay mode (open the page with ?replay). Lets the viewer:
+ *   - Load a recorded match file (written by the server, see ReplayStore.ts)
+ *   - Play / pause (also Space) and pick a speed from 0.5x to 8x
+ *   - Jump to any round
+ *   - Scrub through the round on a timeline marked with kills, bomb
+ *     plants and utility throws (the jump happens on release)
+ *   - Switch the fog of war between player 1's view, player 2's view and
+ *     the full (unfogged) view
+ *
+ * The panel only reports what the viewer asked for through its callbacks;
+ * Game.ts drives the ReplayPlayer and tells the panel what is playing.
+ */
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** Whose fog of war the replay is shown through */
+export type ReplayFogMode = 'P1' | 'P2' | 'FULL';
+
+/** A notable moment on a round's timeline */
+export interface ReplayMarker {
+  /** Simulation tick the moment happened on */
+  tick: number;
+  /** What happened */
+  kind: 'KILL' | 'PLANT' | 'UTILITY';
+  /** Tooltip text (e.g. "p1_soldier_0 killed p2_soldier_3") */
+  label: string;
+}
+
+/** Timeline summary of one recorded round */
+export interface ReplayRoundInfo {
+  /** Round number (1-based) */
+  roundNumber: number;
+  /** Side that won the round */
+  winningSide: 'ATTACKER' | 'DEFENDER';
+  /** Which side player 1 played */
+  player1Side: 'ATTACKER' | 'DEFENDER';
+  /** Ticks the round lasted */
+  endTick: number;
+  /** Kills, plants and throws, in tick order */
+  markers: ReplayMarker[];
+}
+
+/** What is currently playing, pushed to the panel every frame */
+export interface ReplayPlaybackState {
+  /** Index (0-based) of the round being shown */
+  roundIndex: number;
+  /** Ticks played in that round */
+  tick: number;
+  /** Whether playback is running */
+  playing: boolean;
+  /** Playback speed multiplier */
+  speed: number;
+  /** Active fog of war view */
+  fogMode: ReplayFogMode;
+}
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** Speeds offered in the panel */
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+/** Simulation ticks per second (for the time readout) */
+const TICKS_PER_SECOND = 5;
+
+/** Fog modes offered in the panel */
+const FOG_MODES: { value: ReplayFogMode; label: string }[] = [
+  { value: 'P1', label: 'P1 view' },
+  { value: 'P2', label: 'P2 view' },
+  { value: 'FULL', label: 'Full' },
+];
+
+// ============================================================================
+// --- ReplayControls Class ---
+// ============================================================================
+
+/**
+ * Replay playback panel.
+ *
+ * Layout:
+ * ┌──────────────────────────────────────────────────────────────┐
+ * │  REPLAY   [Load file]            9 rounds — verified         │
+ * │  Round: [1] [2] [3] [4] [5] [6] [7] [8] [9]                 │
+ * │  [Play]  Speed: [0.5x][1x][2x][4x][8x]  Fog: [P1][P2][Full] │
+ * │  ──●──────|────x─────x──────◆──────────────────  0:42 / 1:45 │
+ * └──────────────────────────────────────────────────────────────┘
+ */
+export class ReplayControls {
+  /** The panel container element */
+  private container: HTMLElement;
+
+  /** Hidden file input behind the "Load file" button */
+  private fileInput: HTMLInputElement;
+
+  /** Whether the panel is currently visible */
+  private visible: boolean = false;
+
+  /** Rounds of the loaded replay (empty until a file is loaded) */
+  private rounds: ReplayRoundInfo[] = [];
+
+  /** Status line (file name, verification result, load errors) */
+  private status: string = 'No replay loaded';
+
+  /** Last playback state drawn, to skip redundant DOM updates */
+  private shown: ReplayPlaybackState | null = null;
+
+  /** Whether the viewer is dragging the scrubber (playback updates must not move it) */
+  private scrubbing: boolean = false;
+
+  // --- Callbacks ---
+  /** Fired when the viewer picks a replay file */
+  public onLoadFile: ((file: File) => void) | null = null;
+  /** Fired when the viewer presses play/pause */
+  public onTogglePlay: (() => void) | null = null;
+  /** Fired when the viewer picks a speed */
+  public onSpeedChange: ((speed: number) => void) | null = null;
+  /** Fired when the viewer jumps to a round (0-based index) */
+  public onRoundSelect: ((roundIndex: number) => void) | null = null;
+  /** Fired while the viewer drags the scrubber (tick within the round) */
+  public onSeek: ((tick: number) => void) | null = null;
+  /** Fired when the viewer switches the fog of war view */
+  public onFogModeChange: ((mode: ReplayFogMode) => void) | null = null;
+
+  /**
+   * Create the replay panel (hidden until show()).
+   * Injects a new container into the UI overlay.
+   */
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.id = 'replay-controls';
+    this.container.className = 'hidden';
+
+    this.fileInput = document.createElement('input');
+    this.fileInput.type = 'file';
+    this.fileInput.accept = '.json,application/json';
+    this.fileInput.style.display = 'none';
+    this.fileInput.addEventListener('change', () => {
+      const file = this.fileInput.files?.[0];
+      if (file && this.onLoadFile) this.onLoadFile(file);
+      this.fileInput.value = '';
+    });
+
+    const overlay = document.getElementById('ui-overlay');
+    if (overlay) {
+      overlay.appendChild(this.container);
+      overlay.appendChild(this.fileInput);
+    }
+
+    this.injectStyles();
+  }
+
+  // --------------------------------------------------------------------------
+  // Visibility Controls
+  // --------------------------------------------------------------------------
+
+  /** Show the panel. */
+  show(): void {
+    this.render();
+    this.container.classList.remove('hidden');
+    this.visible = true;
+  }
+
+  /** Hide the panel. */
+  hide(): void {
+    this.container.classList.add('hidden');
+    this.visible = false;
+  }
+
+  /** Check whether the panel is currently visible. */
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  // --------------------------------------------------------------------------
+  // Content
+  // --------------------------------------------------------------------------
+
+  /**
+   * Set the rounds of a newly loaded replay and rebuild the panel.
+   *
+   * @param rounds - Timeline summary per round
+   * @param status - Status line to show (e.g. "match.json — 9 rounds, verified")
+   */
+  setReplay(rounds: ReplayRoundInfo[], status: string): void {
+    this.rounds = rounds;
+    this.status = status;
+    this.shown = null;
+    this.render();
+  }
+
+  /**
+   * Replace the status line (load errors, verification result).
+   *
+   * @param status - Text to show
+   */
+  setStatus(status: string): void {
+    this.status = status;
+    const el = this.container.querySelector('.rc-status');
+    if (el) el.textContent = status;
+  }
+
+  /**
+   * Reflect the current playback state. Called every frame; the DOM is
+   * only touched when something changed.
+   *
+   * @param state - What is playing right now
+   */
+  update(state: ReplayPlaybackState): void {
+    if (!this.visible || this.rounds.length === 0) return;
+
+    const prev = this.shown;
+    this.shown = { ...state };
+
+    /* A different round needs new markers and a new scrubber range */
+    if (!prev || prev.roundIndex !== state.roundIndex) {
+      this.render();
+      return;
+    }
+
+    if (prev.playing !== state.playing) {
+      const btn = this.container.querySelector('[data-action="toggle-play"]');
+      if (btn) btn.textContent = state.playing ? 'Pause' : 'Play';
+    }
+    if (prev.speed !== state.speed || prev.fogMode !== state.fogMode) {
+      this.markActive('.rc-btn-speed', 'speed', String(state.speed));
+      this.markActive('.rc-btn-fog', 'fog', state.fogMode);
+    }
+    if (prev.tick !== state.tick) {
+      this.updateTimeline(state.tick);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Rendering
+  // --------------------------------------------------------------------------
+
+  /**
+   * Render the full panel HTML from the loaded rounds and the last
+   * playback state.
+   */
+  private render(): void {
+    const state = this.shown;
+    const round = state ? this.rounds[state.roundIndex] : undefined;
+
+    this.container.innerHTML = `
+      <div class="rc-content">
+        <div class="rc-header">
+          <span class="rc-title">REPLAY</span>
+          <button class="rc-btn" data-action="load">Load file</button>
+          <span class="rc-status"></span>
+        </div>
+        ${this.rounds.length > 0 ? `
+          <div class="rc-row">
+            <span class="rc-label">Round:</span>
+            ${this.renderRoundButtons(state?.roundIndex ?? 0)}
+          </div>
+          <div class="rc-row">
+            <button class="rc-btn rc-btn-play" data-action="toggle-play">${state?.playing ? 'Pause' : 'Play'}</button>
+            <span class="rc-label">Speed:</span>
+            ${SPEEDS.map(s => `<button class="rc-btn rc-btn-speed" data-speed="${s}">${s}x</button>`).join('')}
+            <span class="rc-label rc-gap">Fog:</span>
+            ${FOG_MODES.map(m => `<button class="rc-btn rc-btn-fog" data-fog="${m.value}">${m.label}</button>`).join('')}
+          </div>
+          <div class="rc-timeline">
+            <div class="rc-track">
+              ${round ? this.renderMarkers(round) : ''}
+              <input class="rc-scrubber" type="range" min="0" max="${round?.endTick ?? 0}" step="1" value="0" />
+            </div>
+            <span class="rc-time"></span>
+          </div>
+        ` : ''}
+      </div>
+    `;
+
+    const status = this.container.querySelector('.rc-status');
+    if (status) status.textContent = this.status;
+
+    if (state) {
+      this.markActive('.rc-btn-speed', 'speed', String(state.speed));
+      this.markActive('.rc-btn-fog', 'fog', state.fogMode);
+      this.updateTimeline(state.tick);
+    }
+
+    this.attachEventListeners();
+  }
+
+  /**
+   * Render one button per round, coloured by which player won it.
+   *
+   * @param activeIndex - Index of the round being shown
+   */
+  private renderRoundButtons(activeIndex: number): string {
+    return this.rounds.map((round, i) => {
+      const p1Won = round.winningSide === round.player1Side;
+      const classes = `rc-btn rc-btn-round ${p1Won ? 'rc-won-p1' : 'rc-won-p2'} ${i === activeIndex ? 'rc-btn-active' : ''}`;
+      const title = `Round ${round.roundNumber}: ${round.winningSide} (${p1Won ? 'P1' : 'P2'}) won`;
+      return `<button class="${classes}" data-round="${i}" title="${title}">${round.roundNumber}</button>`;
+    }).join('');
+  }
+
+  /**
+   * Render the round's markers along the timeline track.
+   *
+   * @param round - The round shown
+   */
+  private renderMarkers(round: ReplayRoundInfo): string {
+    const span = Math.max(1, round.endTick);
+    return round.markers.map(marker => {
+      const left = Math.min(100, (marker.tick / span) * 100);
+      const label = marker.label.replace(/"/g, '&quot;');
+      return `<span class="rc-marker rc-marker-${marker.kind.toLowerCase()}" style="left:${left}%" title="${label}"></span>`;
+    }).join('');
+  }
+
+  /**
+   * Move the scrubber and the time readout to a tick.
+   *
+   * @param tick - Ticks played in the round
+   */
+  private updateTimeline(tick: number): void {
+    const scrubber = this.container.querySelector<HTMLInputElement>('.rc-scrubber');
+    if (scrubber && !this.scrubbing) scrubber.value = String(tick);
+
+    const time = this.container.querySelector('.rc-time');
+    const round = this.shown ? this.rounds[this.shown.roundIndex] : undefined;
+    if (time && round) {
+      time.textContent = `${formatTime(tick)} / ${formatTime(round.endTick)}`;
+    }
+  }
+
+  /**
+   * Highlight the button of a group whose data attribute matches a value.
+   *
+   * @param selector - Button group selector
+   * @param key - data-* attribute name
+   * @param value - Value of the button to highlight
+   */
+  private markActive(selector: string, key: string, value: string): void {
+    this.container.querySelectorAll<HTMLElement>(selector).forEach(btn => {
+      btn.classList.toggle('rc-btn-active', btn.dataset[key] === value);
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Event Handling
+  // --------------------------------------------------------------------------
+
+  /** Attach click and drag handlers to the rendered controls. */
+  private attachEventListeners(): void {
+    this.container.querySelector('[data-action="load"]')?.addEventListener('click', () => {
+      this.fileInput.click();
+    });
+
+    this.container.querySelector('[data-action="toggle-play"]')?.addEventListener('click', () => {
+      if (this.onTogglePlay) this.onTogglePlay();
+    });
+
+    this.container.querySelectorAll<HTMLElement>('.rc-btn-speed').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (this.onSpeedChange) this.onSpeedChange(parseFloat(btn.dataset.speed ?? '1'));
+      });
+    });
+
+    this.container.querySelectorAll<HTMLElement>('.rc-btn-fog').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (this.onFogModeChange) this.onFogModeChange(btn.dataset.fog as ReplayFogMode);
+      });
+    });
+
+    this.container.querySelectorAll<HTMLElement>('.rc-btn-round').forEach(btn => {
+      btn.addEventListener('click', () => {
+        if (this.onRoundSelect) this.onRoundSelect(parseInt(btn.dataset.round ?? '0', 10));
+      });
+    });
+
+    /**
+     * Dragging only previews the time; the seek happens on release, since
+     * going backwards replays the match from the seed up to that tick.
+     */
+    const scrubber = this.container.querySelector<HTMLInputElement>('.rc-scrubber');
+    if (scrubber) {
+      scrubber.addEventListener('input', () => {
+        this.scrubbing = true;
+        const time = this.container.querySelector('.rc-time');
+        const round = this.shown ? this.rounds[this.shown.roundIndex] : undefined;
+        if (time && round) {
+          time.textContent = `${formatTime(parseInt(scrubber.value, 10))} / ${formatTime(round.endTick)}`;
+        }
+      });
+      scrubber.addEventListener('change', () => {
+        this.scrubbing = false;
+        if (this.onSeek) this.onSeek(parseInt(scrubber.value, 10));
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Styles
+  // --------------------------------------------------------------------------
+
+  /**
+   * Inject CSS styles for the replay panel.
+   * All styles prefixed with .rc- to avoid conflicts.
+   */
+  private injectStyles(): void {
+    const style = document.createElement('style');
+    style.textContent = `
+      /* --- Replay Panel Container --- */
+      #replay-controls {
+        position: absolute;
+        bottom: 20px;
+        left: 50%;
+        transform: translateX(-50%);
+        background: rgba(20, 20, 30, 0.92);
+        border: 1px solid rgba(255, 255, 255, 0.15);
+        border-radius: 8px;
+        padding: 12px 20px;
+        pointer-events: auto;
+        z-index: 10;
+      }
+      .rc-content {
+        min-width: 640px;
+      }
+
+      /* --- Header --- */
+      .rc-header {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin-bottom: 10px;
+      }
+      .rc-title {
+        font-size: 13px;
+        font-weight: bold;
+        letter-spacing: 3px;
+        color: #ffcc00;
+      }
+      .rc-status {
+        font-size: 11px;
+        opacity: 0.7;
+        margin-left: auto;
+      }
+
+      /* --- Rows and Buttons --- */
+      .rc-row {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 8px;
+      }
+      .rc-label {
+        font-size: 12px;
+        opacity: 0.7;
+      }
+      .rc-gap {
+        margin-left: 12px;
+      }
+      .rc-btn {
+        padding: 4px 10px;
+        background: rgba(255, 255, 255, 0.05);
+        border: 1px solid rgba(255, 255, 255, 0.15);
+        border-radius: 4px;
+        color: #ccc;
+        cursor: pointer;
+        font-family: inherit;
+        font-size: 12px;
+      }
+      .rc-btn:hover {
+        background: rgba(255, 255, 255, 0.12);
+        color: #fff;
+      }
+      .rc-btn-active {
+        background: rgba(255, 204, 0, 0.15);
+        border-color: #ffcc00;
+        color: #ffcc00;
+      }
+      .rc-btn-play {
+        min-width: 64px;
+        margin-right: 12px;
+      }
+      .rc-won-p1 {
+        border-bottom: 2px solid #ff6666;
+      }
+      .rc-won-p2 {
+        border-bottom: 2px solid #6666ff;
+      }
+
+      /* --- Timeline --- */
+      .rc-timeline {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+      }
+      .rc-track {
+        position: relative;
+        flex: 1;
+        height: 24px;
+      }
+      .rc-scrubber {
+        position: absolute;
+        left: 0;
+        right: 0;
+        top: 6px;
+        width: 100%;
+        margin: 0;
+        cursor: pointer;
+      }
+      .rc-marker {
+        position: absolute;
+        top: 0;
+        width: 3px;
+        height: 8px;
+        margin-left: -1px;
+        border-radius: 1px;
+      }
+      .rc-marker-kill {
+        background: #ff4444;
+      }
+      .rc-marker-plant {
+        background: #ffcc00;
+        height: 12px;
+      }
+      .rc-marker-utility {
+        background: #66ccff;
+      }
+      .rc-time {
+        font-size: 12px;
+        font-family: monospace;
+        min-width: 90px;
+        text-align: right;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+// ============================================================================
+// --- Helpers ---
+// ============================================================================
+
+/**
+ * Format a tick count as M:SS of round time.
+ *
+ * @param ticks - Simulation ticks
+ */
+function formatTime(ticks: number): string {
+  const seconds = Math.floor(ticks / TICKS_PER_SECOND);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
@@ -216,6 +216,9 @@ export class RoundSummary {
       /** Add headshot indicator if applicable */
       const headshotIcon = kill.headshot ? ' <span class="rs-headshot">★</span>' : '';
 
+      /** Add wallbang indicator if the kill went through a wall */
+      const wallbangIcon = kill.wallbang ? ' <span class="rs-wallbang">[WALL]</span>' : '';
+
       /** Determine team color for killer */
       const killerClass = kill.killerId.startsWith('p1') ? 'rs-p1' : 'rs-p2';
       const victimClass = kill.victimId.startsWith('p1') ? 'rs-p1' : 'rs-p2';
@@ -227,6 +230,7 @@ export class RoundSummary {
           <span class="rs-arrow">→</span>
           <span class="${victimClass}">${victimName}</span>
           ${headshotIcon}
+          ${wallbangIcon}
         </div>
       `;
     }).join('');
@@ -459,6 +463,11 @@ export class RoundSummary {
         font-size: 14px;
       }
 
+      .rs-wallbang {
+        color: #c0a080;
+        font-size: 11px;
+      }
+
       /* --- MVP --- */
       .rs-mvp {
         display: flex;
@@ -0,0 +1,535 @@
+/**
+ * @file balanceSim.ts
+ * @description Monte Carlo balance check of the stat formulas and weapon/armor tables.
+ *
+ * Runs isolated 1v1 duels (BalanceDuel.ts) over a grid of stat profiles,
+ * weapons, armor and distances, and checks the results against target
+ * bands such as the design goal "a high-stat soldier should win ~65-70% of
+ * 1v1s vs low-stat".
+ *
+ * Sweeps (every duel cell runs `trials` duels):
+ *   - Profiles: every pair of stat profiles, both sides with the same
+ *     weapon, armor and distance, for every weapon/armor/distance
+ *   - Weapons: the base profile against itself, every pair of weapons,
+ *     for every armor/distance
+ *   - Sensitivity: the base profile with one stat changed against the
+ *     unchanged base profile, for every listed stat and value
+ *
+ * Usage:
+ *   npm run sim:balance -- [options]
+ *
+ * Options:
+ *   --config <file>     JSON file of overrides (see BalanceConfig below)
+ *   --seed <n>          Random seed (default 1)
+ *   --trials <n>        Duels per cell (default 500)
+ *   --out <dir>         Output directory (default sim-results/balance/)
+ *
+ * Writes to <out>:
+ *   results.json              Everything below plus the config and target checks
+ *   profile-matrix.csv        Win rate of each row profile vs each column profile
+ *   weapon-matrix.csv         Win rate of each row weapon vs each column weapon
+ *   profile-duels.csv         Every profile cell (weapon, armor, distance)
+ *   weapon-duels.csv          Every weapon cell (armor, distance)
+ *   ttk.csv                   Time-to-kill distribution of each weapon mirror
+ *   sensitivity.csv           Win rate vs the base profile per stat value
+ *
+ * Exits with code 1 on bad arguments or when any target falls outside its band.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { DUEL_STAT_KEYS, DuelTally, runDuels } from '../shared/simulation/BalanceDuel.js';
+import type { DuelFighter, DuelStatKey, DuelStats, DuelSummary } from '../shared/simulation/BalanceDuel.js';
+import { SeededRandom } from '../shared/util/RandomUtils.js';
+import { WeaponId, ArmorType } from '../shared/types/WeaponTypes.js';
+
+// ============================================================================
+// --- Config ---
+// ============================================================================
+
+/** Body armor option of a sweep ('NONE' for no armor) */
+type ArmorOption = ArmorType | 'NONE';
+
+/** A band a measured result must fall inside */
+interface BalanceTarget {
+  /** Shown in the report */
+  name: string;
+  /** Which sweep the matchup comes from */
+  matrix: 'profiles' | 'weapons';
+  /** Row profile (or weapon) */
+  a: string;
+  /** Column profile (or weapon) */
+  b: string;
+  /** Only count cells with this weapon (profiles sweep only) */
+  weapon?: WeaponId;
+  /** Only count cells with this armor */
+  armor?: ArmorOption;
+  /** Only count cells at this distance */
+  distance?: number;
+  /** What is measured (default winRate, the row side's win rate) */
+  metric?: 'winRate' | 'ttkP50Ms';
+  min: number;
+  max: number;
+}
+
+/** Everything a run can be configured with */
+interface BalanceConfig {
+  seed: number;
+  /** Duels per cell */
+  trials: number;
+  /** Named stat profiles; stats left out are DEFAULT_STAT */
+  profiles: Record<string, Partial<DuelStats>>;
+  /** Profile used by the weapons and sensitivity sweeps */
+  baseProfile: string;
+  weapons: WeaponId[];
+  armors: ArmorOption[];
+  /** Whether everyone wears a helmet */
+  helmet: boolean;
+  /** Engagement distances (pixels) */
+  distances: number[];
+  /** Stats and values of the sensitivity sweep */
+  sensitivity: { stats: DuelStatKey[]; values: number[] };
+  targets: BalanceTarget[];
+}
+
+/** Value of a stat a profile leaves out */
+const DEFAULT_STAT = 50;
+
+const DEFAULT_CONFIG: BalanceConfig = {
+  seed: 1,
+  trials: 500,
+  profiles: {
+    LOW: uniformStats(30),
+    MID: uniformStats(50),
+    HIGH: uniformStats(70),
+  },
+  baseProfile: 'MID',
+  weapons: Object.values(WeaponId),
+  armors: ['NONE', ArmorType.LIGHT_VEST, ArmorType.HEAVY_ARMOR],
+  helmet: false,
+  distances: [150, 400, 700, 1000],
+  sensitivity: {
+    stats: [...DUEL_STAT_KEYS],
+    values: [10, 30, 50, 70, 90],
+  },
+  targets: [
+    {
+      name: 'High-stat soldier wins ~65-70% of 1v1s vs low-stat',
+      matrix: 'profiles', a: 'HIGH', b: 'LOW', min: 0.65, max: 0.70,
+    },
+    {
+      name: 'Mirror duel is even',
+      matrix: 'profiles', a: 'MID', b: 'MID', min: 0.47, max: 0.53,
+    },
+  ],
+};
+
+const USAGE = 'Usage: npm run sim:balance -- [--config <file>] [--seed <n>] [--trials <n>] [--out <dir>]';
+
+/** Stat profile with every stat at the same value. */
+function uniformStats(value: number): DuelStats {
+  return Object.fromEntries(DUEL_STAT_KEYS.map(key => [key, value])) as DuelStats;
+}
+
+/**
+ * Parse a whole-number argument.
+ *
+ * @param flag - Flag name, for the error message
+ * @param value - Argument value
+ * @param min - Smallest allowed value
+ */
+function parseInteger(flag: string, value: string, min: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    throw new Error(`${flag} must be an integer >= ${min} (got '${value}')`);
+  }
+  return n;
+}
+
+/**
+ * Throw if a config is unusable (unknown keys, empty grids, unknown
+ * weapons/armor/stats/profiles, inverted bands).
+ */
+function validateConfig(config: BalanceConfig): void {
+  for (const key of Object.keys(config)) {
+    if (!(key in DEFAULT_CONFIG)) throw new Error(`Unknown config key '${key}'`);
+  }
+  if (!Number.isInteger(config.trials) || config.trials < 1) {
+    throw new Error(`trials must be a positive integer (got ${config.trials})`);
+  }
+
+  const profileNames = Object.keys(config.profiles);
+  for (const [name, grid] of [
+    ['profiles', profileNames],
+    ['weapons', config.weapons],
+    ['armors', config.armors],
+    ['distances', config.distances],
+  ] as const) {
+    if (grid.length === 0) throw new Error(`${name} must not be empty`);
+  }
+
+  for (const [name, stats] of Object.entries(config.profiles)) {
+    for (const [key, value] of Object.entries(stats)) {
+      if (!DUEL_STAT_KEYS.includes(key as DuelStatKey)) throw new Error(`Profile ${name}: unknown stat '${key}'`);
+      if (typeof value !== 'number' || value < 1 || value > 100) {
+        throw new Error(`Profile ${name}: ${key} must be 1-100 (got ${value})`);
+      }
+    }
+  }
+  if (!profileNames.includes(config.baseProfile)) throw new Error(`Unknown base profile '${config.baseProfile}'`);
+
+  const weaponIds = Object.values(WeaponId) as string[];
+  for (const weapon of config.weapons) {
+    if (!weaponIds.includes(weapon)) throw new Error(`Unknown weapon '${weapon}'`);
+  }
+  const armorOptions = ['NONE', ...Object.values(ArmorType)] as string[];
+  for (const armor of config.armors) {
+    if (!armorOptions.includes(armor)) throw new Error(`Unknown armor '${armor}' (one of ${armorOptions.join(', ')})`);
+  }
+  for (const distance of config.distances) {
+    if (typeof distance !== 'number' || distance < 0) throw new Error(`Distances must be >= 0 (got ${distance})`);
+  }
+  for (const stat of config.sensitivity.stats) {
+    if (!DUEL_STAT_KEYS.includes(stat)) throw new Error(`Unknown sensitivity stat '${stat}'`);
+  }
+
+  for (const target of config.targets) {
+    const names = target.matrix === 'profiles' ? profileNames : target.matrix === 'weapons' ? config.weapons : null;
+    if (!names) throw new Error(`Target '${target.name}': matrix must be 'profiles' or 'weapons'`);
+    for (const side of [target.a, target.b]) {
+      if (!(names as string[]).includes(side)) throw new Error(`Target '${target.name}': '${side}' is not in the ${target.matrix} sweep`);
+    }
+    if (!(target.min <= target.max)) throw new Error(`Target '${target.name}': min must be <= max`);
+  }
+}
+
+/**
+ * Parse the command line into a validated config.
+ *
+ * @param args - Arguments after the script name
+ * @returns The config and the output directory
+ */
+function parseArgs(args: string[]): { config: BalanceConfig; outDir: string } {
+  const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+  let overrides: Partial<BalanceConfig> = {};
+  const flags: Partial<BalanceConfig> = {};
+  let outDir = join(root, 'sim-results', 'balance');
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[++i];
+    if (value === undefined) throw new Error(`${flag} needs a value`);
+
+    switch (flag) {
+      case '--config':
+        overrides = JSON.parse(readFileSync(value, 'utf8')) as Partial<BalanceConfig>;
+        break;
+      case '--seed': flags.seed = parseInteger(flag, value, 0); break;
+      case '--trials': flags.trials = parseInteger(flag, value, 1); break;
+      case '--out': outDir = resolve(value); break;
+      default: throw new Error(`Unknown option '${flag}'`);
+    }
+  }
+
+  /* Flags win over the config file, which wins over the defaults */
+  const config: BalanceConfig = { ...DEFAULT_CONFIG, ...overrides, ...flags };
+  validateConfig(config);
+  return { config, outDir };
+}
+
+// ============================================================================
+// --- Sweeps ---
+// ============================================================================
+
+/** Tally of one grid cell */
+interface Cell {
+  /** Row profile (or weapon) */
+  a: string;
+  /** Column profile (or weapon) */
+  b: string;
+  /** Weapon both sides carry (profiles sweep only) */
+  weapon?: WeaponId;
+  armor: ArmorOption;
+  distance: number;
+  tally: DuelTally;
+}
+
+/** One point of a sensitivity curve */
+interface SensitivityPoint {
+  stat: DuelStatKey;
+  value: number;
+  summary: DuelSummary;
+}
+
+/** Full stats of a named profile. */
+function profileStats(config: BalanceConfig, name: string): DuelStats {
+  return { ...uniformStats(DEFAULT_STAT), ...config.profiles[name] };
+}
+
+/** A fighter for a sweep cell. */
+function fighter(stats: DuelStats, weapon: WeaponId, armor: ArmorOption, helmet: boolean): DuelFighter {
+  return { stats, weapon, armor: armor === 'NONE' ? null : armor, helmet };
+}
+
+/** Every pair of profiles, with mirrored equipment. */
+function sweepProfiles(config: BalanceConfig): Cell[] {
+  const rng = new SeededRandom(config.seed);
+  const names = Object.keys(config.profiles);
+  const cells: Cell[] = [];
+
+  for (const a of names) {
+    for (const b of names) {
+      for (const weapon of config.weapons) {
+        for (const armor of config.armors) {
+          for (const distance of config.distances) {
+            const tally = runDuels({
+              a: fighter(profileStats(config, a), weapon, armor, config.helmet),
+              b: fighter(profileStats(config, b), weapon, armor, config.helmet),
+              distance,
+            }, config.trials, rng);
+            cells.push({ a, b, weapon, armor, distance, tally });
+          }
+        }
+      }
+    }
+  }
+  return cells;
+}
+
+/** Every pair of weapons, base profile on both sides. */
+function sweepWeapons(config: BalanceConfig): Cell[] {
+  const rng = new SeededRandom(config.seed + 1);
+  const stats = profileStats(config, config.baseProfile);
+  const cells: Cell[] = [];
+
+  for (const a of config.weapons) {
+    for (const b of config.weapons) {
+      for (const armor of config.armors) {
+        for (const distance of config.distances) {
+          const tally = runDuels({
+            a: fighter(stats, a, armor, config.helmet),
+            b: fighter(stats, b, armor, config.helmet),
+            distance,
+          }, config.trials, rng);
+          cells.push({ a, b, armor, distance, tally });
+        }
+      }
+    }
+  }
+  return cells;
+}
+
+/** One stat at a time changed on the base profile, pooled over all equipment and distances. */
+function sweepSensitivity(config: BalanceConfig): SensitivityPoint[] {
+  const rng = new SeededRandom(config.seed + 2);
+  const base = profileStats(config, config.baseProfile);
+  const points: SensitivityPoint[] = [];
+
+  for (const stat of config.sensitivity.stats) {
+    for (const value of config.sensitivity.values) {
+      const stats = { ...base, [stat]: value };
+      const pooled = new DuelTally();
+      for (const weapon of config.weapons) {
+        for (const armor of config.armors) {
+          for (const distance of config.distances) {
+            pooled.merge(runDuels({
+              a: fighter(stats, weapon, armor, config.helmet),
+              b: fighter(base, weapon, armor, config.helmet),
+              distance,
+            }, config.trials, rng));
+          }
+        }
+      }
+      points.push({ stat, value, summary: pooled.summary() });
+    }
+  }
+  return points;
+}
+
+/** Merge the tallies of the given cells. */
+function pool(cells: Cell[]): DuelTally {
+  const pooled = new DuelTally();
+  for (const cell of cells) pooled.merge(cell.tally);
+  return pooled;
+}
+
+/**
+ * Pooled win rate of every row against every column.
+ *
+ * @returns matrix[a][b] = row a's win rate against column b
+ */
+function winRateMatrix(cells: Cell[], names: string[]): Record<string, Record<string, number>> {
+  const matrix: Record<string, Record<string, number>> = {};
+  for (const a of names) {
+    matrix[a] = {};
+    for (const b of names) {
+      matrix[a][b] = pool(cells.filter(c => c.a === a && c.b === b)).summary().winRateA;
+    }
+  }
+  return matrix;
+}
+
+// ============================================================================
+// --- Targets ---
+// ============================================================================
+
+/** A target and what was measured for it */
+interface TargetCheck extends BalanceTarget {
+  value: number;
+  pass: boolean;
+}
+
+/** Measure every target against the sweep cells. */
+function checkTargets(config: BalanceConfig, profileCells: Cell[], weaponCells: Cell[]): TargetCheck[] {
+  return config.targets.map(target => {
+    const cells = (target.matrix === 'profiles' ? profileCells : weaponCells).filter(c =>
+      c.a === target.a &&
+      c.b === target.b &&
+      (target.weapon === undefined || c.weapon === target.weapon) &&
+      (target.armor === undefined || c.armor === target.armor) &&
+      (target.distance === undefined || c.distance === target.distance)
+    );
+    if (cells.length === 0) throw new Error(`Target '${target.name}' matches no duel cells`);
+
+    const summary = pool(cells).summary();
+    const value = target.metric === 'ttkP50Ms' ? summary.ttkMs.p50 : summary.winRateA;
+    return { ...target, value, pass: value >= target.min && value <= target.max };
+  });
+}
+
+// ============================================================================
+// --- Output ---
+// ============================================================================
+
+/** Format a rate for CSV. */
+function rate(value: number): string {
+  return value.toFixed(4);
+}
+
+/** Join rows into CSV text (values are plain names and numbers, so no quoting). */
+function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.join(',')).join('\n') + '\n';
+}
+
+/** A win rate matrix as CSV, rows against columns. */
+function matrixCsv(matrix: Record<string, Record<string, number>>): string {
+  const names = Object.keys(matrix);
+  return toCsv([
+    ['a\\b', ...names],
+    ...names.map(a => [a, ...names.map(b => rate(matrix[a][b]))]),
+  ]);
+}
+
+/** Every cell of a sweep as CSV. */
+function cellsCsv(cells: Cell[]): string {
+  return toCsv([
+    ['a', 'b', 'weapon', 'armor', 'distance', 'trials', 'winsA', 'winsB', 'draws', 'winRateA',
+      'hitRateA', 'hitRateB', 'headshotKillRate', 'ttkMeanMs', 'ttkP10Ms', 'ttkP50Ms', 'ttkP90Ms'],
+    ...cells.map(cell => {
+      const s = cell.tally.summary();
+      return [
+        cell.a, cell.b, cell.weapon ?? '', cell.armor, cell.distance, s.trials, s.winsA, s.winsB, s.draws,
+        rate(s.winRateA), rate(s.hitRateA), rate(s.hitRateB), rate(s.headshotKillRate),
+        Math.round(s.ttkMs.mean), s.ttkMs.p10, s.ttkMs.p50, s.ttkMs.p90,
+      ];
+    }),
+  ]);
+}
+
+/** A time-to-kill bucket of one weapon mirror */
+interface TtkRow {
+  weapon: string;
+  armor: ArmorOption;
+  distance: number;
+  ttkMs: number;
+  count: number;
+  /** Share of the cell's decisive duels */
+  share: number;
+}
+
+/** Time-to-kill distributions of the weapon mirrors (same weapon on both sides). */
+function ttkDistributions(weaponCells: Cell[]): TtkRow[] {
+  const rows: TtkRow[] = [];
+  for (const cell of weaponCells) {
+    if (cell.a !== cell.b) continue;
+    const decisive = cell.tally.winsA + cell.tally.winsB;
+    for (const { ttkMs, count } of cell.tally.ttkDistribution()) {
+      rows.push({ weapon: cell.a, armor: cell.armor, distance: cell.distance, ttkMs, count, share: count / decisive });
+    }
+  }
+  return rows;
+}
+
+// ============================================================================
+// --- Main ---
+// ============================================================================
+
+/** Run every sweep, write the results and check the targets. */
+function main(): void {
+  let config: BalanceConfig;
+  let outDir: string;
+  try {
+    ({ config, outDir } = parseArgs(process.argv.slice(2)));
+  } catch (err) {
+    console.error(`[Balance] ${err instanceof Error ? err.message : String(err)}`);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const started = Date.now();
+  const profileCells = sweepProfiles(config);
+  const weaponCells = sweepWeapons(config);
+  const sensitivity = sweepSensitivity(config);
+  const duels = (profileCells.length + weaponCells.length) * config.trials +
+    sensitivity.length * config.weapons.length * config.armors.length * config.distances.length * config.trials;
+  console.log(`[Balance] ${duels} duels in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+  let checks: TargetCheck[];
+  try {
+    checks = checkTargets(config, profileCells, weaponCells);
+  } catch (err) {
+    console.error(`[Balance] ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  const profileMatrix = winRateMatrix(profileCells, Object.keys(config.profiles));
+  const weaponMatrix = winRateMatrix(weaponCells, config.weapons);
+  const ttk = ttkDistributions(weaponCells);
+
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, 'results.json'), JSON.stringify({
+    config,
+    profileMatrix,
+    weaponMatrix,
+    profileCells: profileCells.map(({ tally, ...cell }) => ({ ...cell, ...tally.summary() })),
+    weaponCells: weaponCells.map(({ tally, ...cell }) => ({ ...cell, ...tally.summary() })),
+    ttk,
+    sensitivity,
+    targets: checks,
+  }, null, 2));
+  writeFileSync(join(outDir, 'profile-matrix.csv'), matrixCsv(profileMatrix));
+  writeFileSync(join(outDir, 'weapon-matrix.csv'), matrixCsv(weaponMatrix));
+  writeFileSync(join(outDir, 'profile-duels.csv'), cellsCsv(profileCells));
+  writeFileSync(join(outDir, 'weapon-duels.csv'), cellsCsv(weaponCells));
+  writeFileSync(join(outDir, 'ttk.csv'), toCsv([
+    ['weapon', 'armor', 'distance', 'ttkMs', 'count', 'share'],
+    ...ttk.map(row => [row.weapon, row.armor, row.distance, row.ttkMs, row.count, rate(row.share)]),
+  ]));
+  writeFileSync(join(outDir, 'sensitivity.csv'), toCsv([
+    ['stat', 'value', 'winRate', 'hitRate', 'ttkP50Ms'],
+    ...sensitivity.map(p => [p.stat, p.value, rate(p.summary.winRateA), rate(p.summary.hitRateA), p.summary.ttkMs.p50]),
+  ]));
+  console.log(`[Balance] Results written to ${outDir}`);
+
+  for (const check of checks) {
+    console.log(
+      `[Balance] ${check.pass ? 'PASS' : 'FAIL'} ${check.name}: ` +
+      `${check.metric === 'ttkP50Ms' ? `${check.value}ms` : check.value.toFixed(3)} ` +
+      `(target ${check.min}-${check.max})`
+    );
+  }
+  if (checks.some(check => !check.pass)) process.exit(1);
+}
+
+main();
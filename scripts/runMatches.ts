@@ -0,0 +1,239 @@
+/**
+ * @file runMatches.ts
+ * @description Plays bot-vs-bot matches headlessly and writes their results.
+ *
+ * Each match runs through HeadlessMatch (no sockets, no timers) as fast as
+ * the simulation allows. Match i uses seed + i, so any match can be played
+ * again on its own with --seed.
+ *
+ * Usage:
+ *   npm run sim:matches -- [options]
+ *
+ * Options:
+ *   --seed <n>          First match seed (default 1)
+ *   --matches <n>       Number of matches (default 1)
+ *   --map <id>          Map ID (default: the default map)
+ *   --p1 <atk>/<def>    Player 1 bot plans, e.g. RUSH_B/STACK_A (default SPLIT/SPREAD)
+ *   --p2 <atk>/<def>    Player 2 bot plans
+ *   --config <file>     JSON file of rule overrides (see HeadlessMatchConfig)
+ *   --out <dir>         Output directory (default sim-results/)
+ *   --replays           Also write each match's replay file
+ *
+ * Writes <out>/match-<seed>.json per match (score, per-round outcomes and
+ * kills, economy curve, plant/defuse/detonation counts) and prints a summary.
+ * Exits with code 1 on bad arguments, or when at least
+ * MIN_ROUNDS_FOR_OUTCOME_CHECK rounds were played and every one of them ran
+ * out the clock: then the bots never fought a round to a finish, and the
+ * plant, defuse and win-rate numbers say nothing about the game.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { HeadlessMatch } from '../server/src/game/HeadlessMatch.js';
+import type { HeadlessMatchConfig, HeadlessMatchResult } from '../server/src/game/HeadlessMatch.js';
+import { BOT_ATTACK_PLANS, BOT_DEFENSE_PLANS, DEFAULT_BOT_STRATEGY } from '../shared/simulation/BotAI.js';
+import type { BotStrategy, BotAttackPlan, BotDefensePlan } from '../shared/simulation/BotAI.js';
+import { DEFAULT_MAP_ID } from '../shared/maps/MapRegistry.js';
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** Fewest rounds over which "no round ended by bomb or elimination" counts as a failure */
+const MIN_ROUNDS_FOR_OUTCOME_CHECK = 10;
+
+// ============================================================================
+// --- Arguments ---
+// ============================================================================
+
+/** Parsed command line */
+interface RunOptions {
+  seed: number;
+  matches: number;
+  mapId: string;
+  player1: BotStrategy;
+  player2: BotStrategy;
+  config: Partial<HeadlessMatchConfig>;
+  outDir: string;
+  replays: boolean;
+}
+
+const USAGE =
+  'Usage: npm run sim:matches -- [--seed <n>] [--matches <n>] [--map <id>] ' +
+  '[--p1 <attack>/<defense>] [--p2 <attack>/<defense>] [--config <file>] [--out <dir>] [--replays]';
+
+/**
+ * Parse a bot plan pair such as "RUSH_B/STACK_A".
+ *
+ * @param value - Argument value
+ */
+function parseStrategy(value: string): BotStrategy {
+  const [attack, defense] = value.split('/');
+  if (!BOT_ATTACK_PLANS.includes(attack as BotAttackPlan)) {
+    throw new Error(`Unknown attack plan '${attack}' (one of ${BOT_ATTACK_PLANS.join(', ')})`);
+  }
+  if (!BOT_DEFENSE_PLANS.includes(defense as BotDefensePlan)) {
+    throw new Error(`Unknown defense plan '${defense}' (one of ${BOT_DEFENSE_PLANS.join(', ')})`);
+  }
+  return { attack: attack as BotAttackPlan, defense: defense as BotDefensePlan };
+}
+
+/**
+ * Parse a whole-number argument.
+ *
+ * @param flag - Flag name, for the error message
+ * @param value - Argument value
+ * @param min - Smallest allowed value
+ */
+function parseInteger(flag: string, value: string, min: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    throw new Error(`${flag} must be an integer >= ${min} (got '${value}')`);
+  }
+  return n;
+}
+
+/**
+ * Parse the command line into run options.
+ *
+ * @param args - Arguments after the script name
+ */
+function parseArgs(args: string[]): RunOptions {
+  const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+  const options: RunOptions = {
+    seed: 1,
+    matches: 1,
+    mapId: DEFAULT_MAP_ID,
+    player1: { ...DEFAULT_BOT_STRATEGY },
+    player2: { ...DEFAULT_BOT_STRATEGY },
+    config: {},
+    outDir: join(root, 'sim-results'),
+    replays: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === '--replays') {
+      options.replays = true;
+      continue;
+    }
+
+    const value = args[++i];
+    if (value === undefined) throw new Error(`${flag} needs a value`);
+
+    switch (flag) {
+      case '--seed': options.seed = parseInteger(flag, value, 0); break;
+      case '--matches': options.matches = parseInteger(flag, value, 1); break;
+      case '--map': options.mapId = value; break;
+      case '--p1': options.player1 = parseStrategy(value); break;
+      case '--p2': options.player2 = parseStrategy(value); break;
+      case '--config':
+        options.config = JSON.parse(readFileSync(value, 'utf8')) as Partial<HeadlessMatchConfig>;
+        break;
+      case '--out': options.outDir = resolve(value); break;
+      default: throw new Error(`Unknown option '${flag}'`);
+    }
+  }
+
+  return options;
+}
+
+// ============================================================================
+// --- Main ---
+// ============================================================================
+
+/**
+ * Print the totals over all matches played.
+ *
+ * @param results - Every match result
+ * @param elapsedMs - Wall-clock time spent
+ */
+function printSummary(results: HeadlessMatchResult[], elapsedMs: number): void {
+  const sum = (pick: (r: HeadlessMatchResult) => number): number =>
+    results.reduce((total, r) => total + pick(r), 0);
+  const rounds = sum(r => r.rounds.length);
+
+  console.log(
+    `[Sim] ${results.length} matches in ${(elapsedMs / 1000).toFixed(1)}s — ` +
+    `P1 won ${sum(r => (r.winner === 1 ? 1 : 0))}, P2 won ${sum(r => (r.winner === 2 ? 1 : 0))}`
+  );
+  console.log(
+    `[Sim] ${rounds} rounds, ${(rounds / results.length).toFixed(1)} per match — ` +
+    `kills P1 ${sum(r => r.kills.player1)} / P2 ${sum(r => r.kills.player2)}, ` +
+    `${sum(r => r.objectives.plants)} plants, ${sum(r => r.objectives.defuses)} defuses, ` +
+    `${sum(r => r.objectives.detonations)} detonations`
+  );
+}
+
+/**
+ * Whether the matches were decided by play: false if enough rounds were
+ * played and every one ended on the clock (no elimination, defuse or
+ * detonation), which means the bots are stuck rather than the sides even.
+ *
+ * @param results - Every match result
+ */
+function hasDecidedRounds(results: HeadlessMatchResult[]): boolean {
+  const rounds = results.flatMap(r => r.rounds);
+  if (rounds.length < MIN_ROUNDS_FOR_OUTCOME_CHECK) return true;
+  return rounds.some(round => round.reason !== 'TIME');
+}
+
+/** Play the requested matches and write their results. */
+function main(): void {
+  let options: RunOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`[Sim] ${err instanceof Error ? err.message : String(err)}`);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  mkdirSync(options.outDir, { recursive: true });
+  const started = Date.now();
+  const results: HeadlessMatchResult[] = [];
+
+  for (let i = 0; i < options.matches; i++) {
+    const seed = options.seed + i;
+    let match: HeadlessMatch;
+    try {
+      match = new HeadlessMatch({
+        seed,
+        mapId: options.mapId,
+        strategies: { player1: options.player1, player2: options.player2 },
+        config: options.config,
+      });
+    } catch (err) {
+      console.error(`[Sim] ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+
+    const result = match.run();
+    results.push(result);
+
+    writeFileSync(join(options.outDir, `match-${seed}.json`), JSON.stringify(result, null, 2));
+    if (options.replays) {
+      writeFileSync(join(options.outDir, `match-${seed}.replay.json`), JSON.stringify(match.getReplay()));
+    }
+
+    console.log(
+      `[Sim] seed ${seed}: P${result.winner} wins ${result.score.player1}-${result.score.player2} ` +
+      `(${result.rounds.map(r => r.reason[0]).join('')})`
+    );
+  }
+
+  printSummary(results, Date.now() - started);
+  console.log(`[Sim] Results written to ${options.outDir}`);
+
+  if (!hasDecidedRounds(results)) {
+    const rounds = results.reduce((total, r) => total + r.rounds.length, 0);
+    console.error(
+      `[Sim] FAIL: all ${rounds} rounds ended on time — none by elimination, defuse or detonation. ` +
+      'The bots are not playing the objective, so these results are not meaningful.'
+    );
+    process.exit(1);
+  }
+}
+
+main();
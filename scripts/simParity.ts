@@ -0,0 +1,382 @@
+/**
+ * @file simParity.ts
+ * @description Determinism check for the shared simulation engine.
+ *
+ * Plays the same match twice in lockstep: same seed, same map, bots on
+ * both sides, and a fixed script of player commands (moves, utility,
+ * stance changes) queued on the same ticks. After every tick both players'
+ * fog-of-war filtered states, the tick's events and its kill records must
+ * be identical between the two runs. A third run with a different seed
+ * must diverge, proving the seed actually reaches the engine.
+ *
+ * The engine alone agreeing with itself does not prove the client plays
+ * what the server played, so a last check runs a server match (the
+ * HeadlessMatch loop, recorded the way GameRoom records), then feeds the
+ * recorded seed, briefings and inputs through the client's round driver
+ * (client/src/simulation/LocalRound.ts, the code single-player runs).
+ * Every round must end on the same tick, with the same winner and the same
+ * kill records as on the server.
+ *
+ * Usage:
+ *   npm run sim:parity
+ *   npx tsx scripts/simParity.ts [seed]
+ *
+ * Exits with code 1 on the first divergence.
+ */
+
+import { Simulation } from '../shared/simulation/Simulation.js';
+import type { SimulationInput } from '../shared/simulation/Simulation.js';
+import { BotAI } from '../shared/simulation/BotAI.js';
+import { BAZAAR_MAP } from '../shared/maps/bazaar.js';
+import { getMap } from '../shared/maps/MapRegistry.js';
+import { HeadlessMatch } from '../server/src/game/HeadlessMatch.js';
+import { createLocalSimulation, briefLocalRound, runLocalTick } from '../client/src/simulation/LocalRound.js';
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** Rounds played per run (sides swap halfway) */
+const ROUNDS = 4;
+
+/** Tick cap per round: 105s live + 40s bomb timer at 5 ticks/sec */
+const MAX_TICKS_PER_ROUND = (105 + 40) * 5;
+
+/** Default match seed when none is passed on the command line */
+const DEFAULT_SEED = 1337;
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** One player command, queued on a fixed tick of a round */
+interface ScriptedCommand {
+  /** Round the command belongs to (0-based) */
+  round: number;
+  /** Tick of the round on which it is queued, before runTick() */
+  tick: number;
+  /** Which player issues it */
+  playerNumber: 1 | 2;
+  /** Command type (MOVE, RUSH, USE_UTILITY, ...) */
+  type: string;
+  /** Soldier index (0-4) */
+  soldierIndex: number;
+  /** Target position for movement and utility commands */
+  target?: { x: number; z: number };
+  /** Utility thrown by USE_UTILITY commands */
+  utilityType?: string;
+  /** Stance for SET_STANCE commands */
+  stance?: string;
+}
+
+/** One simulated match advanced tick by tick */
+interface ParityRun {
+  /** The engine under test */
+  simulation: Simulation;
+  /** Bots playing both squads */
+  bots: [BotAI, BotAI];
+}
+
+// ============================================================================
+// --- Command Script ---
+// ============================================================================
+
+/**
+ * Player commands layered on top of the bots' orders, so the check covers
+ * radio delays, cooldown rejections, grenade scatter and stance changes.
+ */
+const COMMAND_SCRIPT: ScriptedCommand[] = [
+  { round: 0, tick: 5, playerNumber: 1, type: 'RUSH', soldierIndex: 0, target: { x: 1500, z: 1000 } },
+  { round: 0, tick: 6, playerNumber: 1, type: 'MOVE', soldierIndex: 0, target: { x: 1400, z: 900 } },
+  { round: 0, tick: 20, playerNumber: 1, type: 'USE_UTILITY', soldierIndex: 1, target: { x: 1500, z: 1000 }, utilityType: 'SMOKE' },
+  { round: 0, tick: 25, playerNumber: 2, type: 'USE_UTILITY', soldierIndex: 2, target: { x: 1200, z: 1000 }, utilityType: 'FLASH' },
+  { round: 1, tick: 10, playerNumber: 2, type: 'SET_STANCE', soldierIndex: 3, stance: 'AGGRESSIVE' },
+  { round: 1, tick: 30, playerNumber: 1, type: 'USE_UTILITY', soldierIndex: 4, target: { x: 1600, z: 800 }, utilityType: 'MOLOTOV' },
+  { round: 2, tick: 15, playerNumber: 2, type: 'HOLD', soldierIndex: 0 },
+  { round: 2, tick: 40, playerNumber: 1, type: 'USE_UTILITY', soldierIndex: 2, target: { x: 1700, z: 1200 }, utilityType: 'FRAG' },
+  { round: 3, tick: 12, playerNumber: 1, type: 'REGROUP', soldierIndex: 1 },
+];
+
+/** Utility every soldier carries into each round */
+const ROUND_UTILITY = ['SMOKE', 'FLASH', 'FRAG', 'MOLOTOV'];
+
+// ============================================================================
+// --- Match Driver ---
+// ============================================================================
+
+/**
+ * Create a match on Bazaar with bots for both players.
+ *
+ * @param seed - Match seed
+ * @returns The run, ready for its first round
+ */
+function createRun(seed: number): ParityRun {
+  const simulation = new Simulation(seed);
+  simulation.setWalls(BAZAAR_MAP.walls, BAZAAR_MAP.dimensions.width, BAZAAR_MAP.dimensions.height);
+  simulation.setCover(BAZAAR_MAP.cover);
+
+  return {
+    simulation,
+    bots: [new BotAI(simulation, 1, seed + 1), new BotAI(simulation, 2, seed + 2)],
+  };
+}
+
+/**
+ * Set up a round: spawn both squads, hand out rifles and utility, and
+ * brief both bots with their strategy routes.
+ *
+ * @param run - The run to prepare
+ * @param round - Round number (0-based)
+ */
+function startRound(run: ParityRun, round: number): void {
+  const player1Side = round < ROUNDS / 2 ? 'ATTACKER' : 'DEFENDER';
+  run.simulation.initializeRound(
+    player1Side,
+    BAZAAR_MAP.spawnZones.attacker,
+    BAZAAR_MAP.spawnZones.defender,
+    round !== 0 && round !== ROUNDS / 2
+  );
+
+  for (const playerNumber of [1, 2] as const) {
+    const side = (playerNumber === 1) === (player1Side === 'ATTACKER') ? 'ATTACKER' : 'DEFENDER';
+    for (let i = 0; i < 5; i++) {
+      run.simulation.setLoadout(playerNumber, i, {
+        currentWeapon: side === 'ATTACKER' ? 'RIFLE' : 'SMG',
+        armor: 'HEAVY_ARMOR',
+        helmet: true,
+        utility: [...ROUND_UTILITY],
+        defuseKit: side === 'DEFENDER',
+      });
+    }
+
+    const bot = run.bots[playerNumber - 1];
+    bot.planStrategy(side).forEach((route, i) => {
+      if (route.length > 0) run.simulation.assignRoute(playerNumber, i, route);
+    });
+    bot.initializeRound(side);
+  }
+}
+
+/**
+ * Advance a run by one tick: bots decide, scripted commands are queued,
+ * then the engine ticks.
+ *
+ * @param run - The run to advance
+ * @param round - Current round (0-based)
+ * @param roundTick - Ticks already played this round
+ * @returns Serialized snapshot of everything observable after the tick,
+ *   and whether the round ended
+ */
+function step(run: ParityRun, round: number, roundTick: number): { snapshot: string; roundEnded: boolean } {
+  const { simulation, bots } = run;
+
+  bots[0].update(simulation.getFilteredState(1));
+  bots[1].update(simulation.getFilteredState(2));
+
+  for (const cmd of COMMAND_SCRIPT) {
+    if (cmd.round !== round || cmd.tick !== roundTick) continue;
+    simulation.queueCommand(cmd.playerNumber, cmd.type, cmd.soldierIndex, cmd.target, cmd.utilityType, cmd.stance);
+  }
+
+  const result = simulation.runTick();
+  const snapshot = JSON.stringify({
+    player1: simulation.getFilteredState(1),
+    player2: simulation.getFilteredState(2),
+    events: result.events,
+    kills: result.kills,
+    roundEnded: result.roundEnded,
+    winningSide: result.winningSide,
+  });
+
+  return { snapshot, roundEnded: result.roundEnded };
+}
+
+/**
+ * Find the first key path at which two snapshots differ (for the report).
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @param path - Path to the values so far
+ * @returns Dotted path of the first difference, or null if equal
+ */
+function firstDifference(a: unknown, b: unknown, path: string = ''): string | null {
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return a === b ? null : (path || '(root)');
+  }
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    const diff = firstDifference(
+      (a as Record<string, unknown>)[key],
+      (b as Record<string, unknown>)[key],
+      path ? `${path}.${key}` : key
+    );
+    if (diff) return diff;
+  }
+  return null;
+}
+
+// ============================================================================
+// --- Checks ---
+// ============================================================================
+
+/**
+ * Play two runs in lockstep and compare their snapshots every tick.
+ *
+ * @param seedA - Seed for the first run
+ * @param seedB - Seed for the second run
+ * @returns The first diverging tick, or null if every tick matched
+ */
+function compareRuns(seedA: number, seedB: number): { round: number; tick: number; path: string } | null {
+  const runA = createRun(seedA);
+  const runB = createRun(seedB);
+
+  for (let round = 0; round < ROUNDS; round++) {
+    startRound(runA, round);
+    startRound(runB, round);
+
+    for (let tick = 0; tick < MAX_TICKS_PER_ROUND; tick++) {
+      const a = step(runA, round, tick);
+      const b = step(runB, round, tick);
+
+      if (a.snapshot !== b.snapshot) {
+        const path = firstDifference(JSON.parse(a.snapshot), JSON.parse(b.snapshot)) ?? '(unknown)';
+        return { round, tick, path };
+      }
+      if (a.roundEnded) break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Feed one recorded server input to the client's engine.
+ *
+ * @param simulation - The client's engine
+ * @param input - The recorded input
+ */
+function applyRecordedInput(simulation: Simulation, input: SimulationInput): void {
+  switch (input.kind) {
+    case 'COMMAND':
+      simulation.queueCommand(
+        input.playerNumber,
+        input.type,
+        input.soldierIndex,
+        input.targetPosition,
+        input.utilityType,
+        input.stance,
+        input.targetSoldierIndex
+      );
+      break;
+
+    case 'BOT_ORDER':
+      simulation.executeBotCommand(input.playerNumber, input.type, input.soldierIndex, input.targetPosition);
+      break;
+
+    case 'FACING':
+      simulation.setFacing(input.playerNumber, input.soldierIndex, input.rotation);
+      break;
+  }
+}
+
+/**
+ * Play a match on the server's loop, then replay its recording through
+ * the client's round driver and compare every round's outcome.
+ *
+ * @param seed - Match seed
+ * @returns Rounds compared and the first mismatch (null if all matched)
+ */
+function replayServerMatchOnClient(seed: number): { rounds: number; mismatch: string | null } {
+  const match = new HeadlessMatch({ seed });
+  match.run();
+  const replay = match.getReplay();
+
+  const map = getMap(replay.mapId);
+  if (!map) {
+    throw new Error(`Replay uses unknown map '${replay.mapId}'`);
+  }
+  const simulation = createLocalSimulation(replay.matchSeed, map);
+
+  for (const round of replay.rounds) {
+    briefLocalRound(simulation, map, round);
+
+    let nextInput = 0;
+    let end: { tick: number; winningSide: string | null } | null = null;
+    while (simulation.getTick() < round.endTick) {
+      while (nextInput < round.inputs.length && round.inputs[nextInput].tick <= simulation.getTick()) {
+        applyRecordedInput(simulation, round.inputs[nextInput++]);
+      }
+      const { result } = runLocalTick(simulation, 1, null);
+      if (result.roundEnded) {
+        end = { tick: simulation.getTick(), winningSide: result.winningSide };
+        break;
+      }
+    }
+
+    /* Inputs queued after the last tick never ran, but their radio-delay rolls still drew from the PRNG */
+    while (nextInput < round.inputs.length) {
+      applyRecordedInput(simulation, round.inputs[nextInput++]);
+    }
+
+    const where = `round ${round.roundNumber}`;
+    if (round.endedBy === 'SIMULATION') {
+      if (!end || end.tick !== round.endTick || end.winningSide !== round.winningSide) {
+        const client = end ? `tick ${end.tick} (${end.winningSide})` : 'no end';
+        return {
+          rounds: round.roundNumber,
+          mismatch: `${where}: client ${client}, server tick ${round.endTick} (${round.winningSide})`,
+        };
+      }
+    } else if (end) {
+      return {
+        rounds: round.roundNumber,
+        mismatch: `${where}: client ended at tick ${end.tick}, server ran to the phase timeout`,
+      };
+    }
+
+    const clientKills = JSON.stringify(simulation.getRoundKills());
+    if (clientKills !== JSON.stringify(round.kills)) {
+      return { rounds: round.roundNumber, mismatch: `${where}: kill records differ` };
+    }
+  }
+
+  return { rounds: replay.rounds.length, mismatch: null };
+}
+
+/** Run the parity checks and exit non-zero on failure. */
+function main(): void {
+  const seed = Number(process.argv[2] ?? DEFAULT_SEED);
+  if (!Number.isInteger(seed)) {
+    console.error(`[Parity] Invalid seed: ${process.argv[2]}`);
+    process.exit(1);
+  }
+
+  const divergence = compareRuns(seed, seed);
+  if (divergence) {
+    console.error(
+      `[Parity] FAIL: seed ${seed} diverged in round ${divergence.round + 1}, ` +
+      `tick ${divergence.tick} at ${divergence.path}`
+    );
+    process.exit(1);
+  }
+  console.log(`[Parity] Seed ${seed}: ${ROUNDS} rounds identical tick by tick`);
+
+  if (!compareRuns(seed, seed + 1)) {
+    console.error(`[Parity] FAIL: seeds ${seed} and ${seed + 1} produced identical matches`);
+    process.exit(1);
+  }
+  console.log(`[Parity] Seeds ${seed} and ${seed + 1} diverge as expected`);
+
+  const served = replayServerMatchOnClient(seed);
+  if (served.mismatch) {
+    console.error(`[Parity] FAIL: server match ${seed} replayed on the client diverged — ${served.mismatch}`);
+    process.exit(1);
+  }
+  if (served.rounds === 0) {
+    console.error(`[Parity] FAIL: server match ${seed} recorded no rounds`);
+    process.exit(1);
+  }
+  console.log(`[Parity] Server match ${seed}: ${served.rounds} rounds replayed identically through the client round driver`);
+}
+
+main();
@@ -0,0 +1,449 @@
+/**
+ * @file simScenarios.ts
+ * @description Behaviour checks for the shared simulation engine and its bots.
+ *
+ * Each scenario plays short bot-vs-bot rounds on Bazaar (or sets up a
+ * situation directly) and checks one rule that a regression once broke:
+ *
+ *   - A bomb carrier who fought and disengaged goes back to the plant
+ *     instead of standing at its staging point for the rest of the round
+ *   - When the carrier dies, another attacker fetches the dropped bomb
+ *   - Defenders go for a planted bomb and defuse it
+ *   - Bomb hand-offs, drops and pickups stay out of the defenders' events
+ *   - Weapon drops and pickups only reach the enemy where they can see them,
+ *     and a pickup order ignores weapons the squad can't see
+ *   - Gunfire only reaches the enemy as an exact shot while they see the
+ *     shooter
+ *
+ * Usage:
+ *   npm run sim:scenarios
+ *
+ * Exits with code 1 if any scenario fails.
+ */
+
+import { Simulation } from '../shared/simulation/Simulation.js';
+import type { FilteredGameState } from '../shared/simulation/Simulation.js';
+import { BotAI } from '../shared/simulation/BotAI.js';
+import { BAZAAR_MAP } from '../shared/maps/bazaar.js';
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** Tick cap per round: 105s live + 40s bomb timer at 5 ticks/sec */
+const MAX_TICKS_PER_ROUND = (105 + 40) * 5;
+
+/**
+ * Longest a living bomb carrier may stand still with no enemy in sight and
+ * the bomb unplanted: a bot holds its staging point for up to 50 ticks
+ * before heading for the plant, plus a few ticks of phase cooldown.
+ */
+const MAX_CARRIER_IDLE_TICKS = 60;
+
+/**
+ * Longest a dropped bomb may lie while attackers live: time for the farthest
+ * soldier to walk across the map, plus a fight on the way.
+ */
+const MAX_BOMB_RECOVERY_TICKS = 150;
+
+/** A bot only starts defusing this close to the bomb */
+const MAX_DEFUSE_DISTANCE = 60;
+
+/** Events that reveal who carries the bomb or where it was dropped */
+const BOMB_CARRIER_EVENTS = ['BOMB_GIVEN', 'BOMB_DROPPED', 'BOMB_PICKED_UP'];
+
+/** Events that reveal a dropped weapon or who took it */
+const GROUND_WEAPON_EVENTS = ['WEAPON_DROPPED', 'WEAPON_PICKED_UP'];
+
+/** Ticks a probing pickup order is given to execute (radio delay is at most 0.8s) */
+const PICKUP_PROBE_TICKS = 10;
+
+/** Seeds the bot rounds are played with */
+const SCENARIO_SEEDS = [1, 2, 3, 4, 5, 6];
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** A named check; returns why it failed, or null when it passed */
+interface Scenario {
+  name: string;
+  run: () => string | null;
+}
+
+/** One round between two bots, advanced tick by tick */
+interface BotRound {
+  simulation: Simulation;
+  bots: [BotAI, BotAI];
+}
+
+// ============================================================================
+// --- Round Driver ---
+// ============================================================================
+
+/**
+ * Set up the first round of a bot-vs-bot match on Bazaar: player 1
+ * attacks, every soldier carries a rifle and heavy armor, and both bots
+ * are briefed with their strategy routes.
+ *
+ * @param seed - Match seed
+ */
+function startBotRound(seed: number): BotRound {
+  const simulation = new Simulation(seed);
+  simulation.setWalls(BAZAAR_MAP.walls, BAZAAR_MAP.dimensions.width, BAZAAR_MAP.dimensions.height);
+  simulation.setCover(BAZAAR_MAP.cover);
+  simulation.initializeRound('ATTACKER', BAZAAR_MAP.spawnZones.attacker, BAZAAR_MAP.spawnZones.defender, false);
+
+  const bots: [BotAI, BotAI] = [new BotAI(simulation, 1, seed + 1), new BotAI(simulation, 2, seed + 2)];
+  for (const playerNumber of [1, 2] as const) {
+    const side = playerNumber === 1 ? 'ATTACKER' : 'DEFENDER';
+    for (let i = 0; i < 5; i++) {
+      simulation.setLoadout(playerNumber, i, {
+        currentWeapon: 'RIFLE',
+        armor: 'HEAVY_ARMOR',
+        helmet: true,
+        utility: [],
+        defuseKit: side === 'DEFENDER',
+      });
+    }
+
+    const bot = bots[playerNumber - 1];
+    bot.planStrategy(side).forEach((route, i) => {
+      if (route.length > 0) simulation.assignRoute(playerNumber, i, route);
+    });
+    bot.initializeRound(side);
+  }
+
+  return { simulation, bots };
+}
+
+/** Which player a soldier belongs to, from its ID ('p1_soldier_0', ...) */
+function ownerOf(soldierId: unknown): 1 | 2 {
+  return String(soldierId).startsWith('p1_') ? 1 : 2;
+}
+
+/**
+ * Let both bots decide, then run one tick.
+ *
+ * @returns The tick result
+ */
+function stepBotRound(round: BotRound): ReturnType<Simulation['runTick']> {
+  round.bots[0].update(round.simulation.getFilteredState(1));
+  round.bots[1].update(round.simulation.getFilteredState(2));
+  return round.simulation.runTick();
+}
+
+// ============================================================================
+// --- Scenarios ---
+// ============================================================================
+
+/**
+ * The attacking bot's bomb carrier never stalls, and in at least one round
+ * it fights, disengages and still plants.
+ */
+function carrierPlantsAfterFight(): string | null {
+  let foughtThenPlanted = 0;
+
+  for (const seed of SCENARIO_SEEDS) {
+    const round = startBotRound(seed);
+    let fought = false;
+    let idleTicks = 0;
+
+    for (let tick = 0; tick < MAX_TICKS_PER_ROUND; tick++) {
+      const result = stepBotRound(round);
+      const state: FilteredGameState = round.simulation.getFilteredState(1);
+
+      const carrier = state.ownSoldiers.find(s => s.alive && s.hasBomb);
+      if (carrier) {
+        if (carrier.detectedEnemies.length > 0) fought = true;
+        const idle = !state.bombPlanted && !carrier.isMoving && !carrier.isPlanting &&
+          carrier.detectedEnemies.length === 0;
+        idleTicks = idle ? idleTicks + 1 : 0;
+        if (idleTicks > MAX_CARRIER_IDLE_TICKS) {
+          return `seed ${seed}: carrier ${carrier.soldierId} idle with the bomb for ${idleTicks} ticks (tick ${tick})`;
+        }
+      }
+
+      if (fought && result.events.some(e => e.type === 'BOMB_PLANTED')) foughtThenPlanted++;
+      if (result.roundEnded) break;
+    }
+  }
+
+  return foughtThenPlanted > 0 ? null : `no carrier planted after a fight in seeds ${SCENARIO_SEEDS.join(', ')}`;
+}
+
+/**
+ * Whenever the attacking bot's carrier dies with teammates left alive, one
+ * of them picks the bomb up again (or the round ends before anyone could).
+ */
+function droppedBombRecovered(): string | null {
+  let recovered = 0;
+
+  for (const seed of SCENARIO_SEEDS) {
+    const round = startBotRound(seed);
+    let droppedAt: number | null = null;
+
+    for (let tick = 0; tick < MAX_TICKS_PER_ROUND; tick++) {
+      const result = stepBotRound(round);
+      for (const event of result.events) {
+        if (event.type === 'BOMB_DROPPED') droppedAt = tick;
+        if (event.type === 'BOMB_PICKED_UP') {
+          droppedAt = null;
+          recovered++;
+        }
+      }
+
+      const attackersAlive = round.simulation.getFilteredState(1).ownSoldiers.some(s => s.alive);
+      if (droppedAt !== null && attackersAlive && tick - droppedAt > MAX_BOMB_RECOVERY_TICKS) {
+        return `seed ${seed}: bomb dropped on tick ${droppedAt} still lies there on tick ${tick}`;
+      }
+      if (result.roundEnded) break;
+    }
+  }
+
+  return recovered > 0 ? null : `no dropped bomb was picked up in seeds ${SCENARIO_SEEDS.join(', ')}`;
+}
+
+/** In at least one round the defending bot gets a defuse, and no defuse ever starts far from the bomb. */
+function defendersDefuse(): string | null {
+  let defuses = 0;
+
+  for (const seed of SCENARIO_SEEDS) {
+    const round = startBotRound(seed);
+
+    for (let tick = 0; tick < MAX_TICKS_PER_ROUND; tick++) {
+      const result = stepBotRound(round);
+      const state = round.simulation.getFilteredState(2);
+      const bomb = state.bombPosition;
+      for (const soldier of state.ownSoldiers) {
+        if (!soldier.isDefusing || !bomb) continue;
+        const dist = Math.hypot(soldier.position.x - bomb.x, soldier.position.z - bomb.z);
+        if (dist > MAX_DEFUSE_DISTANCE) {
+          return `seed ${seed}: ${soldier.soldierId} defusing ${Math.round(dist)} units from the bomb`;
+        }
+      }
+
+      if (result.events.some(e => e.type === 'BOMB_DEFUSED')) defuses++;
+      if (result.roundEnded) break;
+    }
+  }
+
+  return defuses > 0 ? null : `no bomb was defused in seeds ${SCENARIO_SEEDS.join(', ')}`;
+}
+
+/**
+ * The defending player's event stream (the same recipient rule GameRoom and
+ * the client apply) never carries a bomb hand-off, drop or pickup, while the
+ * attackers do receive them. The carrier hands the bomb over at spawn so
+ * every round has at least a BOMB_GIVEN.
+ */
+function bombEventsHiddenFromDefenders(): string | null {
+  let seenByAttackers = 0;
+
+  for (const seed of SCENARIO_SEEDS) {
+    const round = startBotRound(seed);
+    const soldiers = round.simulation.getFilteredState(1).ownSoldiers;
+    const carrierIndex = soldiers.findIndex(s => s.hasBomb);
+    const receiverIndex = carrierIndex === 0 ? 1 : 0;
+    round.simulation.queueCommand(1, 'GIVE_BOMB', carrierIndex, undefined, undefined, undefined, receiverIndex);
+
+    for (let tick = 0; tick < MAX_TICKS_PER_ROUND; tick++) {
+      const result = stepBotRound(round);
+      for (const event of result.events) {
+        if (!BOMB_CARRIER_EVENTS.includes(event.type)) continue;
+        if (event.recipient === undefined || event.recipient === 2) {
+          return `seed ${seed}: ${event.type} on tick ${event.tick} reaches the defenders`;
+        }
+        seenByAttackers++;
+      }
+      if (result.roundEnded) break;
+    }
+  }
+
+  return seenByAttackers > 0 ? null : `no bomb hand-off, drop or pickup happened in seeds ${SCENARIO_SEEDS.join(', ')}`;
+}
+
+/**
+ * Weapon drop and pickup events always name a recipient, and the enemy of
+ * the soldier who dropped a weapon only hears of it when the weapon shows
+ * up in their own view (or is picked up on the spot).
+ */
+function weaponEventsFollowSight(): string | null {
+  let drops = 0;
+
+  for (const seed of SCENARIO_SEEDS) {
+    const round = startBotRound(seed);
+
+    for (let tick = 0; tick < MAX_TICKS_PER_ROUND; tick++) {
+      const result = stepBotRound(round);
+      const pickedUp = new Set(result.events
+        .filter(e => e.type === 'WEAPON_PICKED_UP')
+        .map(e => e.data.itemId));
+
+      for (const event of result.events) {
+        if (!GROUND_WEAPON_EVENTS.includes(event.type)) continue;
+        if (event.recipient === undefined) {
+          return `seed ${seed}: ${event.type} on tick ${event.tick} is sent to both players`;
+        }
+        if (event.type !== 'WEAPON_DROPPED') continue;
+        drops++;
+
+        const enemy = ownerOf(event.data.soldierId) === 1 ? 2 : 1;
+        if (event.recipient !== enemy) continue;
+        const inView = round.simulation.getFilteredState(enemy).groundWeapons
+          .some(item => item.id === event.data.itemId);
+        if (!inView && !pickedUp.has(event.data.itemId)) {
+          return `seed ${seed}: player ${enemy} told about ${event.data.itemId} without seeing it`;
+        }
+      }
+      if (result.roundEnded) break;
+    }
+  }
+
+  return drops > 0 ? null : `no weapon was dropped in seeds ${SCENARIO_SEEDS.join(', ')}`;
+}
+
+/**
+ * Once an enemy weapon on the ground is out of a player's sight, a
+ * PICKUP_WEAPON order aimed right at it never sends a soldier for it.
+ * A soldier may still go for it if it came into sight before the order
+ * arrived (and keeps going if it drops out of sight on the way).
+ * The probing player's bot is paused so its own orders don't replace the probe.
+ */
+function pickupIgnoresUnseenWeapons(): string | null {
+  let probes = 0;
+
+  for (const seed of SCENARIO_SEEDS) {
+    const round = startBotRound(seed);
+    /** Enemy weapons on the ground: item ID -> who dropped it and where */
+    const dropped = new Map<unknown, { owner: 1 | 2; x: number; z: number }>();
+
+    for (let tick = 0; tick < MAX_TICKS_PER_ROUND; tick++) {
+      const result = stepBotRound(round);
+      if (result.roundEnded) break;
+
+      for (const event of result.events) {
+        if (event.type === 'WEAPON_DROPPED' && event.recipient === ownerOf(event.data.soldierId)) {
+          dropped.set(event.data.itemId, {
+            owner: ownerOf(event.data.soldierId),
+            x: Number(event.data.x),
+            z: Number(event.data.z),
+          });
+        }
+        if (event.type === 'WEAPON_PICKED_UP') dropped.delete(event.data.itemId);
+      }
+
+      /* Look for a dropped weapon its owner's enemy can no longer see */
+      let probe: { itemId: unknown; prober: 1 | 2; x: number; z: number } | null = null;
+      for (const [itemId, item] of dropped) {
+        const prober: 1 | 2 = item.owner === 1 ? 2 : 1;
+        const view = round.simulation.getFilteredState(prober);
+        if (view.groundWeapons.some(g => g.id === itemId) || !view.ownSoldiers.some(s => s.alive)) continue;
+        probe = { itemId, prober, x: item.x, z: item.z };
+        break;
+      }
+      if (!probe) continue;
+
+      probes++;
+      const { itemId, prober } = probe;
+      const soldier = round.simulation.getFilteredState(prober).ownSoldiers.find(s => s.alive)!;
+      let ordered = false;
+      let seenBefore = false;
+      for (let probeTick = 0; probeTick < PICKUP_PROBE_TICKS; probeTick++) {
+        if (!ordered) {
+          ordered = round.simulation.queueCommand(
+            prober, 'PICKUP_WEAPON', soldier.index, { x: probe.x, z: probe.z }
+          ).accepted;
+        }
+        const other: 1 | 2 = prober === 1 ? 2 : 1;
+        round.bots[other - 1].update(round.simulation.getFilteredState(other));
+        const probeResult = round.simulation.runTick();
+
+        const after = round.simulation.getFilteredState(prober);
+        const goingFor = after.ownSoldiers[soldier.index].pickupTargetId === itemId;
+        const seen = after.groundWeapons.some(g => g.id === itemId);
+        if (goingFor && !seen && !seenBefore) {
+          return `seed ${seed}: ${soldier.soldierId} sent for ${String(itemId)} it cannot see`;
+        }
+        if (goingFor || probeResult.roundEnded) break;
+        seenBefore = seen;
+      }
+      break;
+    }
+  }
+
+  return probes > 0 ? null : `no dropped weapon went out of the enemy's sight in seeds ${SCENARIO_SEEDS.join(', ')}`;
+}
+
+/**
+ * SHOT_FIRED (which carries the exact muzzle position) always names a
+ * recipient, and only reaches the shooter's enemy while that enemy sees the
+ * shooter. A shooter who killed the only soldier watching them is let off,
+ * since the dead lose their sight before the view is read. At least one
+ * shot must have been kept from an enemy who could not see the shooter.
+ */
+function shotsFollowSight(): string | null {
+  let hiddenShots = 0;
+
+  for (const seed of SCENARIO_SEEDS) {
+    const round = startBotRound(seed);
+
+    for (let tick = 0; tick < MAX_TICKS_PER_ROUND; tick++) {
+      const result = stepBotRound(round);
+      const shots = result.events.filter(e => e.type === 'SHOT_FIRED');
+      const killers = new Set(result.events.filter(e => e.type === 'KILL').map(e => e.data.killerId));
+
+      for (const event of shots) {
+        if (event.recipient === undefined) {
+          return `seed ${seed}: SHOT_FIRED on tick ${event.tick} is sent to both players`;
+        }
+        const enemy = ownerOf(event.data.shooterId) === 1 ? 2 : 1;
+        if (event.recipient !== enemy) {
+          const toEnemy = shots.some(e => e.recipient === enemy && e.data.shooterId === event.data.shooterId);
+          if (!toEnemy) hiddenShots++;
+          continue;
+        }
+        const seen = round.simulation.getFilteredState(enemy).visibleEnemies
+          .some(s => s.soldierId === event.data.shooterId);
+        if (!seen && !killers.has(event.data.shooterId)) {
+          return `seed ${seed}: player ${enemy} told where unseen ${String(event.data.shooterId)} fired from`;
+        }
+      }
+      if (result.roundEnded) break;
+    }
+  }
+
+  return hiddenShots > 0 ? null : `no shot was fired by an unseen shooter in seeds ${SCENARIO_SEEDS.join(', ')}`;
+}
+
+const SCENARIOS: Scenario[] = [
+  { name: 'Bomb carrier plants after a fight', run: carrierPlantsAfterFight },
+  { name: 'Attackers recover a dropped bomb', run: droppedBombRecovered },
+  { name: 'Defenders retake and defuse', run: defendersDefuse },
+  { name: 'Bomb carrier events stay with the attackers', run: bombEventsHiddenFromDefenders },
+  { name: 'Weapon events follow line of sight', run: weaponEventsFollowSight },
+  { name: 'Pickup orders ignore unseen weapons', run: pickupIgnoresUnseenWeapons },
+  { name: 'Shots only reach an enemy who sees the shooter', run: shotsFollowSight },
+];
+
+// ============================================================================
+// --- Main ---
+// ============================================================================
+
+/** Run every scenario and exit non-zero if any failed. */
+function main(): void {
+  let failed = 0;
+  for (const scenario of SCENARIOS) {
+    const failure = scenario.run();
+    if (failure) {
+      failed++;
+      console.error(`[Scenarios] FAIL ${scenario.name}: ${failure}`);
+    } else {
+      console.log(`[Scenarios] PASS ${scenario.name}`);
+    }
+  }
+
+  if (failed > 0) process.exit(1);
+}
+
+main();
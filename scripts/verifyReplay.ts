@@ -0,0 +1,59 @@
+/**
+ * @file verifyReplay.ts
+ * @description Replays recorded matches and checks they reproduce.
+ *
+ * Loads each replay file, rebuilds the match through ReplayPlayer and
+ * compares every round's outcome and kill records with the recording.
+ *
+ * Usage:
+ *   npm run replay:verify -- replays/<file>.json [more files...]
+ *
+ * Exits with code 1 if any file cannot be loaded or any round differs.
+ */
+
+import { readFileSync } from 'fs';
+import { ReplayPlayer } from '../shared/simulation/ReplayPlayer.js';
+import type { ReplayFile } from '../shared/simulation/Replay.js';
+
+/**
+ * Verify one replay file and print the result per round.
+ *
+ * @param filePath - Path to the replay JSON
+ * @returns Whether the whole replay reproduced
+ */
+function verifyFile(filePath: string): boolean {
+  let player: ReplayPlayer;
+  try {
+    const replay = JSON.parse(readFileSync(filePath, 'utf8')) as ReplayFile;
+    player = new ReplayPlayer(replay);
+  } catch (err) {
+    console.error(`[Replay] ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+    return false;
+  }
+
+  const result = player.verify();
+  for (const round of result.rounds) {
+    if (round.ok) {
+      console.log(`[Replay] ${filePath}: round ${round.roundNumber} OK`);
+    } else {
+      console.error(`[Replay] ${filePath}: round ${round.roundNumber} MISMATCH`);
+      for (const mismatch of round.mismatches) console.error(`  - ${mismatch}`);
+    }
+  }
+  console.log(`[Replay] ${filePath}: ${result.ok ? 'reproduced' : 'DIVERGED'} (${result.rounds.length} rounds)`);
+  return result.ok;
+}
+
+/** Verify every file given on the command line. */
+function main(): void {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    console.error('Usage: npm run replay:verify -- <replay.json> [more...]');
+    process.exit(1);
+  }
+
+  const allOk = files.map(verifyFile).every(ok => ok);
+  process.exit(allOk ? 0 : 1);
+}
+
+main();
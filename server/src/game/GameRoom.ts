@@ -5,18 +5,20 @@
  * Each GameRoom encapsulates:
  *   - Game state machine (BUY -> STRATEGY -> LIVE -> POST_PLANT -> ROUND_END)
  *   - Phase timer management
- *   - Server-authoritative simulation via ServerSimulation
+ *   - Server-authoritative simulation via the shared Simulation engine
  *   - Command validation and routing (anti-cheat)
  *   - Economy tracking for both players
  *   - Fog-of-war filtered state broadcasting to each player
- *   - Reconnection handling (60-second timeout)
+ *   - Reconnection handling (60-second timeout, resumed via session token)
+ *   - Bot takeover of a disconnected player's squad until they resume
+ *   - Replay recording (seed, loadouts, plans, inputs), written when the room closes
  *
  * Architecture:
  *   GameRoom
  *     ├── Phase timer (setInterval)
  *     ├── Player 1 state (socket ID, connected, ready, economy)
  *     ├── Player 2 state (socket ID, connected, ready, economy)
- *     └── ServerSimulation (tick-based authoritative game simulation)
+ *     └── Simulation (shared/simulation, tick-based authoritative game simulation)
  *           ├── Runs at 5 ticks/sec during LIVE_PHASE and POST_PLANT
  *           ├── Processes queued commands from both players
  *           ├── Updates movement, detection, combat, bomb actions
@@ -25,117 +27,39 @@
  */
 
 import type { Server } from 'socket.io';
-import { ServerSimulation } from '../simulation/ServerSimulation.js';
-import type { TickResult, FilteredGameState } from '../simulation/ServerSimulation.js';
+import { Simulation } from '../../../shared/simulation/Simulation.js';
+import type { TickResult, FilteredGameState, SoldierLoadout } from '../../../shared/simulation/Simulation.js';
+import { BotAI } from '../../../shared/simulation/BotAI.js';
+import { ReplayRecorder } from '../../../shared/simulation/Replay.js';
+import type { ReplayStrategy, ReplayRoundEnd } from '../../../shared/simulation/Replay.js';
+import { DEFAULT_MAP_ID, getMap } from '../../../shared/maps/MapRegistry.js';
+import type { MapData } from '../../../shared/types/MapTypes.js';
+import { writeReplay } from './ReplayStore.js';
+import {
+  PHASE_DURATIONS,
+  TICK_RATE_MS,
+  ROUNDS_PER_HALF,
+  ROUNDS_TO_WIN,
+  STARTING_MONEY,
+  applyRoundEconomy,
+  priceBuyOrder,
+} from './MatchRules.js';
+import {
+  validateSendCommand,
+  validateSendBuyOrder,
+  validateStrategyPlan,
+  formatValidationErrors,
+} from '../../../shared/util/MessageValidation.js';
+import type { ValidationContext, ValidationError } from '../../../shared/util/MessageValidation.js';
+import type { BuyOrder } from '../../../shared/types/MessageTypes.js';
 
 // ============================================================================
 // --- Constants ---
 // ============================================================================
 
-/** Phase durations in seconds (matches client-side values from GameConstants.ts) */
-const PHASE_DURATIONS: Record<string, number> = {
-  BUY_PHASE: 20,
-  STRATEGY_PHASE: 15,
-  LIVE_PHASE: 105,  // 1:45
-  POST_PLANT: 40,
-  ROUND_END: 5,
-};
-
-/** Rounds per half (side swap happens after this many rounds) */
-const ROUNDS_PER_HALF = 4;
-
-/** Rounds needed to win the match */
-const ROUNDS_TO_WIN = 5;
-
 /** Reconnection timeout in milliseconds (60 seconds) */
 const RECONNECT_TIMEOUT_MS = 60000;
 
-/** Simulation tick rate in milliseconds (5 ticks per second) */
-const TICK_RATE_MS = 200;
-
-/** Starting money for each player at the beginning of the match */
-const STARTING_MONEY = 800;
-
-/** Maximum money a player can accumulate */
-const MAX_MONEY = 16000;
-
-/** Win reward for the winning team */
-const WIN_REWARD = 3250;
-
-/** Loss rewards based on consecutive loss streak (index = streak count - 1) */
-const LOSS_STREAK_REWARDS = [1400, 1900, 2400, 2900, 3400];
-
-/** Kill reward per weapon type */
-const KILL_REWARDS: Record<string, number> = {
-  PISTOL: 300,
-  SMG: 600,
-  RIFLE: 300,
-  AWP: 100,
-  SHOTGUN: 900,
-  LMG: 300,
-};
-
-/** Bomb plant/defuse bonus for the team that achieves it */
-const OBJECTIVE_BONUS = 300;
-
-/**
- * Bazaar map spawn zones (hardcoded for now — will be loaded from map data).
- * These match the values in client/src/assets/maps/bazaar.ts.
- */
-const BAZAAR_ATTACKER_SPAWN = { x: 100, z: 200, width: 300, height: 1600 };
-const BAZAAR_DEFENDER_SPAWN = { x: 2550, z: 200, width: 300, height: 1600 };
-
-/**
- * Bazaar map walls (hardcoded subset of key walls for LOS checks).
- * Full wall data will be imported from the map data file in a future iteration.
- * For the prototype, we include the boundary walls and the major structural walls.
- */
-const BAZAAR_WALLS = [
-  /* Map boundary walls */
-  { x: 0, z: 0, width: 3000, height: 20 },       // Top boundary
-  { x: 0, z: 1980, width: 3000, height: 20 },     // Bottom boundary
-  { x: 0, z: 0, width: 20, height: 2000 },        // Left boundary
-  { x: 2980, z: 0, width: 20, height: 2000 },     // Right boundary
-
-  /* A Long lane walls */
-  { x: 420, z: 130, width: 180, height: 340 },    // T-side A long corner
-  { x: 780, z: 20, width: 40, height: 420 },      // A long left wall
-  { x: 780, z: 530, width: 240, height: 40 },     // A long cross wall
-  { x: 1120, z: 20, width: 40, height: 420 },     // A long right wall
-  { x: 1120, z: 530, width: 200, height: 40 },    // A long right cross wall
-
-  /* Mid lane walls */
-  { x: 780, z: 700, width: 40, height: 600 },     // Mid left wall
-  { x: 1120, z: 700, width: 40, height: 600 },    // Mid right wall
-  { x: 850, z: 960, width: 240, height: 40 },     // Mid cross wall
-
-  /* B tunnels walls */
-  { x: 420, z: 1520, width: 180, height: 340 },   // T-side B tunnel entrance
-  { x: 780, z: 1400, width: 40, height: 580 },    // B tunnel left wall
-  { x: 1120, z: 1400, width: 40, height: 580 },   // B tunnel right wall
-  { x: 780, z: 1400, width: 380, height: 40 },    // B tunnel top wall
-
-  /* A site structures */
-  { x: 1600, z: 100, width: 40, height: 410 },    // A site left wall
-  { x: 1600, z: 100, width: 630, height: 40 },    // A site top wall
-  { x: 2190, z: 100, width: 40, height: 410 },    // A site right wall
-
-  /* B site structures */
-  { x: 1600, z: 1400, width: 40, height: 410 },   // B site left wall
-  { x: 1600, z: 1770, width: 630, height: 40 },   // B site bottom wall
-  { x: 2190, z: 1400, width: 40, height: 410 },   // B site right wall
-
-  /* CT connector walls */
-  { x: 2300, z: 500, width: 40, height: 180 },    // CT connector top wall
-  { x: 2300, z: 1320, width: 40, height: 180 },   // CT connector bottom wall
-];
-
-/**
- * Valid command types that the server will accept from clients.
- * Any command with a type not in this list will be rejected.
- */
-const VALID_COMMAND_TYPES = ['MOVE', 'RUSH', 'HOLD', 'RETREAT', 'USE_UTILITY', 'PLANT_BOMB', 'DEFUSE_BOMB', 'REGROUP'];
-
 // ============================================================================
 // --- Types ---
 // ============================================================================
@@ -161,19 +85,25 @@ interface PlayerState {
   reconnectTimer: ReturnType<typeof setTimeout> | null;
 }
 
-/**
- * Parsed and validated command from a client.
- * After validation, this is passed to the ServerSimulation.
- */
-interface ValidatedCommand {
-  /** Command type (MOVE, RUSH, HOLD, etc.) */
-  type: string;
-  /** Target soldier index (0-4) */
+/** Outcome of a single buy order, sent back to the buying player */
+interface BuyOrderResult {
+  /** Soldier index the order targeted (-1 if the order was malformed) */
   soldierIndex: number;
-  /** Target position for movement commands */
-  targetPosition?: { x: number; z: number };
-  /** Utility type for USE_UTILITY commands */
-  utilityType?: string;
+  /** Whether the order was accepted and charged */
+  accepted: boolean;
+  /** Amount charged (0 if rejected) */
+  cost: number;
+  /** Why the order was rejected (only set when rejected) */
+  reason?: string;
+  /** The soldier's authoritative equipment after this order (same shape as the order) */
+  equipment?: {
+    primary: string | null;
+    sidearm: string;
+    armor: string | null;
+    helmet: boolean;
+    utility: string[];
+    defuseKit: boolean;
+  };
 }
 
 // ============================================================================
@@ -187,7 +117,7 @@ interface ValidatedCommand {
  *   1. Created by SocketServer when two players are matched
  *   2. startMatch() begins the first round (BUY_PHASE)
  *   3. Phase timer ticks every second, advancing phases when time expires
- *   4. During LIVE_PHASE, simulation ticks run at 5/sec via ServerSimulation
+ *   4. During LIVE_PHASE, simulation ticks run at 5/sec via the Simulation engine
  *   5. Each tick: process commands -> simulate -> broadcast filtered state
  *   6. Match ends when one player reaches ROUNDS_TO_WIN (5)
  *   7. Room is cleaned up and players can re-queue
@@ -242,7 +172,7 @@ export class GameRoom {
    * The server-authoritative simulation engine for this match.
    * Created once when the room is constructed and reused across rounds.
    */
-  private simulation: ServerSimulation;
+  private simulation: Simulation;
 
   /** Strategy plans submitted by each player (waypoints per soldier) */
   private strategyPlans: {
@@ -250,6 +180,27 @@ export class GameRoom {
     player2: { x: number; z: number }[][] | null;
   } = { player1: null, player2: null };
 
+  /** The map this match is played on (walls, cover, spawns and bounds) */
+  private map: MapData;
+
+  /** Map limits every client message is validated against, from the loaded map */
+  private validationContext: ValidationContext;
+
+  /** Stances submitted with each player's strategy plan (null entries keep the current stance) */
+  private strategyStances: {
+    player1: (string | null)[] | null;
+    player2: (string | null)[] | null;
+  } = { player1: null, player2: null };
+
+  /** Bots standing in for disconnected players (null while the player is connected) */
+  private bots: Record<1 | 2, BotAI | null> = { 1: null, 2: null };
+
+  /** Records the match for replay; written out when the room is destroyed */
+  private replay: ReplayRecorder;
+
+  /** Called once when the room is destroyed, so the socket layer can forget it */
+  private onDestroyed: (room: GameRoom) => void;
+
   /**
    * Create a new game room.
    *
@@ -257,15 +208,26 @@ export class GameRoom {
    * @param io - Socket.io server instance
    * @param player1SocketId - Socket ID of player 1
    * @param player2SocketId - Socket ID of player 2
+   * @param onDestroyed - Callback invoked once the match has ended or been abandoned
    */
   constructor(
     roomId: string,
     io: Server,
     player1SocketId: string,
-    player2SocketId: string
+    player2SocketId: string,
+    onDestroyed: (room: GameRoom) => void = () => {}
   ) {
     this.roomId = roomId;
     this.io = io;
+    this.onDestroyed = onDestroyed;
+
+    /* Every match is played on the default map until map selection exists */
+    const map = getMap(DEFAULT_MAP_ID);
+    if (!map) {
+      throw new Error(`Unknown map '${DEFAULT_MAP_ID}'`);
+    }
+    this.map = map;
+    this.validationContext = { dimensions: map.dimensions };
 
     /* Initialize player states with starting money */
     this.player1 = {
@@ -293,10 +255,15 @@ export class GameRoom {
      * The seed is generated once per match for deterministic replay.
      */
     const matchSeed = Math.floor(Math.random() * 2147483647);
-    this.simulation = new ServerSimulation(matchSeed);
+    this.simulation = new Simulation(matchSeed);
 
     /* Load map wall data into the simulation for LOS checks */
-    this.simulation.setWalls(BAZAAR_WALLS);
+    this.simulation.setWalls(this.map.walls, this.map.dimensions.width, this.map.dimensions.height);
+    this.simulation.setCover(this.map.cover);
+
+    /* Record the seed and every accepted input so the match can be replayed */
+    this.replay = new ReplayRecorder(matchSeed, DEFAULT_MAP_ID);
+    this.replay.attach(this.simulation);
   }
 
   // --------------------------------------------------------------------------
@@ -312,22 +279,26 @@ export class GameRoom {
     this.player1Side = 'ATTACKER';
 
     /* Initialize the simulation for the first round */
-    this.initializeSimulationForRound();
+    this.initializeSimulationForRound(false);
 
     this.startPhase('BUY_PHASE');
     console.log(`[Room ${this.roomId}] Match started — Round 1, Buy Phase`);
   }
 
   /**
-   * Initialize the ServerSimulation for a new round.
+   * Initialize the simulation for a new round.
    * Sets up soldiers at spawn positions based on current sides.
+   *
+   * @param keepSurvivorLoadouts - Whether last round's survivors keep their gear
    */
-  private initializeSimulationForRound(): void {
+  private initializeSimulationForRound(keepSurvivorLoadouts: boolean): void {
     this.simulation.initializeRound(
       this.player1Side,
-      BAZAAR_ATTACKER_SPAWN,
-      BAZAAR_DEFENDER_SPAWN
+      this.map.spawnZones.attacker,
+      this.map.spawnZones.defender,
+      keepSurvivorLoadouts
     );
+    this.replay.startRound(this.roundNumber, this.player1Side, keepSurvivorLoadouts);
   }
 
   // --------------------------------------------------------------------------
@@ -380,6 +351,11 @@ export class GameRoom {
       `[Room ${this.roomId}] Phase: ${phase} (${this.timeRemaining}s)` +
       ` — Round ${this.roundNumber}`
     );
+
+    /* Let bots play the new phase for any absent player (may ready up and advance it) */
+    for (const playerNumber of [1, 2] as const) {
+      if (this.bots[playerNumber]) this.runBotPhase(playerNumber);
+    }
   }
 
   /**
@@ -413,12 +389,12 @@ export class GameRoom {
 
       case 'LIVE_PHASE':
         /* Time expired without bomb plant -> defenders win */
-        this.endRound('DEFENDER');
+        this.endRound('DEFENDER', 'PHASE_TIMER');
         break;
 
       case 'POST_PLANT':
         /* Bomb timer expired -> bomb detonates, attackers win */
-        this.endRound('ATTACKER');
+        this.endRound('ATTACKER', 'PHASE_TIMER');
         break;
 
       case 'ROUND_END':
@@ -444,19 +420,20 @@ export class GameRoom {
 
   /**
    * Apply stored strategy plans to the simulation when LIVE_PHASE starts.
-   * Strategy plans set initial waypoints for soldiers at round start.
+   * Each soldier walks its whole planned route in order; the simulation
+   * re-paths every leg around walls. The plans and the loadouts bought
+   * this round are recorded for the replay.
    */
   private applyStrategyPlans(): void {
+    this.recordBriefing();
+
     /* Apply player 1's strategy plans */
     if (this.strategyPlans.player1) {
       for (let i = 0; i < this.strategyPlans.player1.length && i < 5; i++) {
         const waypoints = this.strategyPlans.player1[i];
         if (waypoints && waypoints.length > 0) {
-          /**
-           * Queue a MOVE command for each soldier with a zero delay
-           * (strategy plans execute immediately at round start).
-           */
-          this.simulation.queueCommand(1, 'MOVE', i, waypoints[0]);
+          /* Strategy plans execute immediately at round start (no radio delay) */
+          this.simulation.assignRoute(1, i, waypoints);
         }
       }
     }
@@ -466,14 +443,52 @@ export class GameRoom {
       for (let i = 0; i < this.strategyPlans.player2.length && i < 5; i++) {
         const waypoints = this.strategyPlans.player2[i];
         if (waypoints && waypoints.length > 0) {
-          this.simulation.queueCommand(2, 'MOVE', i, waypoints[0]);
+          this.simulation.assignRoute(2, i, waypoints);
         }
       }
     }
 
+    /* Apply briefed stances for both players */
+    for (const playerNumber of [1, 2] as const) {
+      const stances = playerNumber === 1 ? this.strategyStances.player1 : this.strategyStances.player2;
+      if (!stances) continue;
+      stances.forEach((stance, i) => {
+        if (stance) this.simulation.setStance(playerNumber, i, stance);
+      });
+    }
+
     /* Clear strategy plans after applying */
     this.strategyPlans.player1 = null;
     this.strategyPlans.player2 = null;
+    this.strategyStances.player1 = null;
+    this.strategyStances.player2 = null;
+  }
+
+  /**
+   * Record every soldier's loadout and the strategy plans about to be
+   * applied, exactly as applyStrategyPlans() will apply them.
+   */
+  private recordBriefing(): void {
+    const loadoutsOf = (playerNumber: 1 | 2): SoldierLoadout[] =>
+      [0, 1, 2, 3, 4]
+        .map(i => this.simulation.getLoadout(playerNumber, i))
+        .filter((loadout): loadout is SoldierLoadout => loadout !== null);
+
+    const strategyOf = (
+      plans: { x: number; z: number }[][] | null,
+      stances: (string | null)[] | null
+    ): ReplayStrategy => ({
+      routes: [0, 1, 2, 3, 4].map(i => plans?.[i] ?? []),
+      stances: [0, 1, 2, 3, 4].map(i => stances?.[i] ?? null),
+    });
+
+    this.replay.recordBriefing(
+      { player1: loadoutsOf(1), player2: loadoutsOf(2) },
+      {
+        player1: strategyOf(this.strategyPlans.player1, this.strategyStances.player1),
+        player2: strategyOf(this.strategyPlans.player2, this.strategyStances.player2),
+      }
+    );
   }
 
   // --------------------------------------------------------------------------
@@ -504,7 +519,7 @@ export class GameRoom {
    * Run one authoritative simulation tick.
    *
    * Pipeline:
-   *   1. Run ServerSimulation.runTick() (movement, detection, combat, bomb, etc.)
+   *   1. Run Simulation.runTick() (movement, detection, combat, bomb, etc.)
    *   2. Check for bomb plant -> POST_PLANT transition
    *   3. Check for round-end conditions (elimination, bomb defuse/detonate)
    *   4. Generate fog-of-war filtered state for each player
@@ -513,6 +528,11 @@ export class GameRoom {
   private simulationTick(): void {
     this.tick++;
 
+    /* Step 0: Bots give orders for absent players, from their own filtered view */
+    for (const playerNumber of [1, 2] as const) {
+      this.bots[playerNumber]?.update(this.simulation.getFilteredState(playerNumber));
+    }
+
     /* Step 1: Run the authoritative simulation tick */
     const tickResult: TickResult = this.simulation.runTick();
 
@@ -552,7 +572,7 @@ export class GameRoom {
         this.bombDefused = true;
       }
 
-      this.endRound(tickResult.winningSide);
+      this.endRound(tickResult.winningSide, 'SIMULATION');
       return; // Stop processing — round is over
     }
 
@@ -570,7 +590,7 @@ export class GameRoom {
       phase: this.phase,
       timeRemaining: this.timeRemaining,
       state: filteredStateP1,
-      events: tickResult.events,
+      events: this.eventsForPlayer(tickResult, 1),
       kills: tickResult.kills,
     });
 
@@ -579,7 +599,7 @@ export class GameRoom {
       phase: this.phase,
       timeRemaining: this.timeRemaining,
       state: filteredStateP2,
-      events: tickResult.events,
+      events: this.eventsForPlayer(tickResult, 2),
       kills: tickResult.kills,
     });
   }
@@ -593,9 +613,11 @@ export class GameRoom {
    * Updates score, economy, and transitions to ROUND_END phase.
    *
    * @param winningSide - Which side won ('ATTACKER' or 'DEFENDER')
+   * @param endedBy - Whether the simulation or the phase clock ended the round
    */
-  private endRound(winningSide: 'ATTACKER' | 'DEFENDER'): void {
+  private endRound(winningSide: 'ATTACKER' | 'DEFENDER', endedBy: ReplayRoundEnd): void {
     this.stopSimulationTicks();
+    this.replay.endRound(winningSide, endedBy, this.simulation.getTick(), this.simulation.getRoundKills());
 
     /* Determine which player won */
     const p1Won = this.player1Side === winningSide;
@@ -608,7 +630,7 @@ export class GameRoom {
     }
 
     /* Update loss streaks and award economy */
-    this.updateEconomy(p1Won, winningSide);
+    this.updateEconomy(p1Won);
 
     /* Collect round kill data for the summary */
     const roundKills = this.simulation.getRoundKills();
@@ -645,52 +667,20 @@ export class GameRoom {
 
   /**
    * Update economy for both players after a round ends.
-   * Awards win/loss rewards, kill rewards, and objective bonuses.
+   * Awards win/loss rewards, kill rewards, and objective bonuses (see MatchRules.ts).
    *
    * @param p1Won - Whether player 1 won the round
-   * @param winningSide - Which side won ('ATTACKER' or 'DEFENDER')
    */
-  private updateEconomy(p1Won: boolean, winningSide: 'ATTACKER' | 'DEFENDER'): void {
-    /* Calculate win and loss rewards */
-    const winner = p1Won ? this.player1 : this.player2;
-    const loser = p1Won ? this.player2 : this.player1;
-
-    /* Winner gets the flat win reward */
-    winner.money += WIN_REWARD;
-    winner.lossStreak = 0;
-
-    /* Loser gets loss streak reward (escalating) */
-    loser.lossStreak++;
-    const streakIndex = Math.min(loser.lossStreak - 1, LOSS_STREAK_REWARDS.length - 1);
-    loser.money += LOSS_STREAK_REWARDS[streakIndex];
-
-    /* Award kill rewards based on weapon used */
-    const roundKills = this.simulation.getRoundKills();
-    for (const kill of roundKills) {
-      const weaponReward = KILL_REWARDS[kill.weapon] ?? 300;
-      if (kill.killerId.startsWith('p1')) {
-        this.player1.money += weaponReward;
-      } else {
-        this.player2.money += weaponReward;
-      }
-    }
-
-    /* Award objective bonus (bomb plant/defuse) */
-    if (this.bombPlanted) {
-      /* Attackers get a bonus for planting regardless of round outcome */
-      const attackerPlayer = this.player1Side === 'ATTACKER' ? this.player1 : this.player2;
-      attackerPlayer.money += OBJECTIVE_BONUS;
-    }
-
-    if (this.bombDefused) {
-      /* Defenders get a bonus for defusing */
-      const defenderPlayer = this.player1Side === 'DEFENDER' ? this.player1 : this.player2;
-      defenderPlayer.money += OBJECTIVE_BONUS;
-    }
-
-    /* Clamp money to the maximum */
-    this.player1.money = Math.min(this.player1.money, MAX_MONEY);
-    this.player2.money = Math.min(this.player2.money, MAX_MONEY);
+  private updateEconomy(p1Won: boolean): void {
+    applyRoundEconomy(
+      this.player1,
+      this.player2,
+      p1Won,
+      this.player1Side,
+      this.simulation.getRoundKills(),
+      this.bombPlanted,
+      this.bombDefused
+    );
   }
 
   /**
@@ -700,7 +690,8 @@ export class GameRoom {
     this.roundNumber++;
 
     /* Side swap at the halfway point */
-    if (this.roundNumber === ROUNDS_PER_HALF + 1) {
+    const isSideSwap = this.roundNumber === ROUNDS_PER_HALF + 1;
+    if (isSideSwap) {
       this.player1Side = this.player1Side === 'ATTACKER' ? 'DEFENDER' : 'ATTACKER';
 
       /* Reset economy on side swap */
@@ -717,8 +708,8 @@ export class GameRoom {
     this.bombDefused = false;
     this.tick = 0;
 
-    /* Re-initialize the simulation for the new round */
-    this.initializeSimulationForRound();
+    /* Re-initialize the simulation (survivors keep their gear unless sides swapped) */
+    this.initializeSimulationForRound(!isSideSwap);
 
     /* Start buy phase for the new round */
     this.startPhase('BUY_PHASE');
@@ -753,120 +744,187 @@ export class GameRoom {
 
   /**
    * Handle a tactical command from a player.
-   * Validates the command structure, checks for anti-cheat violations,
-   * and queues it in the ServerSimulation for the next tick.
+   * Validates the SEND_COMMAND payload against the shared message schema,
+   * checks for anti-cheat violations, and queues it in the simulation.
    *
    * Anti-cheat validations:
-   *   - Command must have a valid type
+   *   - Command must have a valid type and the fields that type needs
    *   - Soldier index must be 0-4
    *   - Player can only command their own soldiers
-   *   - Target position must be within map bounds
+   *   - Target position must be within the map dimensions
    *   - Can only command alive soldiers
+   *   - Each soldier accepts one command per cooldown window (0.5s)
+   *
+   * The player is answered with COMMAND_DELAYED (radio delay of the accepted
+   * command) or COMMAND_REJECTED (reason and time until a retry can land).
    *
    * @param playerNumber - Which player sent the command (1 or 2)
-   * @param command - The raw command data (will be validated)
+   * @param payload - The raw SEND_COMMAND payload (will be validated)
    */
-  handleCommand(playerNumber: 1 | 2, command: unknown): void {
+  handleCommand(playerNumber: 1 | 2, payload: unknown): void {
+    const player = playerNumber === 1 ? this.player1 : this.player2;
+
     /* Only accept commands during active phases */
     if (this.phase !== 'LIVE_PHASE' && this.phase !== 'POST_PLANT') {
+      this.emitToPlayer(player, 'COMMAND_REJECTED', {
+        soldierIndex: -1,
+        commandType: '',
+        reason: `Commands are not accepted during ${this.phase}`,
+        retryIn: 0,
+      });
       return;
     }
 
     /* Validate command structure */
-    const validated = this.validateCommand(command);
-    if (!validated) {
-      console.warn(`[Room ${this.roomId}] P${playerNumber}: Invalid command rejected`);
+    const checked = validateSendCommand(payload, this.validationContext);
+    if (!checked.ok) {
+      const reason = formatValidationErrors(checked.errors);
+      console.warn(`[Room ${this.roomId}] P${playerNumber}: Invalid command rejected (${reason})`);
+      this.emitToPlayer(player, 'COMMAND_REJECTED', {
+        soldierIndex: -1,
+        commandType: '',
+        reason: `Invalid command: ${reason}`,
+        retryIn: 0,
+      });
       return;
     }
+    const validated = checked.value.command;
 
     /**
      * Queue the validated command in the simulation.
-     * The simulation will process it after the radio delay.
+     * The simulation enforces the per-soldier cooldown and will process
+     * accepted commands after the radio delay.
      */
-    this.simulation.queueCommand(
+    const result = this.simulation.queueCommand(
       playerNumber,
       validated.type,
       validated.soldierIndex,
       validated.targetPosition,
-      validated.utilityType
+      validated.utilityType,
+      validated.stance,
+      validated.targetSoldierIndex
     );
+
+    if (!result.accepted) {
+      this.emitToPlayer(player, 'COMMAND_REJECTED', {
+        soldierIndex: validated.soldierIndex,
+        commandType: validated.type,
+        reason: result.reason,
+        retryIn: result.retryIn,
+      });
+      return;
+    }
+
+    this.emitToPlayer(player, 'COMMAND_DELAYED', {
+      soldierIndex: validated.soldierIndex,
+      commandType: validated.type,
+      delay: result.delay,
+    });
   }
 
   /**
-   * Validate a raw command object from the client.
-   * Returns a clean ValidatedCommand or null if invalid.
+   * Handle a buy order from a player.
+   * Each order carries the full loadout wanted for one soldier. Orders are
+   * processed in sequence against the player's money; only items the soldier
+   * does not already own are charged, and gear left out of an order is
+   * dropped without a refund. Every order gets an accept/reject result.
+   * A malformed batch is refused as a whole with INVALID_MESSAGE.
    *
-   * @param command - Raw command data from the client
-   * @returns Validated command or null if invalid
+   * @param playerNumber - Which player sent the order (1 or 2)
+   * @param payload - The raw SEND_BUY_ORDER payload (will be validated)
    */
-  private validateCommand(command: unknown): ValidatedCommand | null {
-    /* Command must be a non-null object */
-    if (!command || typeof command !== 'object') return null;
-
-    const cmd = command as Record<string, unknown>;
+  handleBuyOrder(playerNumber: 1 | 2, payload: unknown): void {
+    if (this.phase !== 'BUY_PHASE') {
+      return;
+    }
 
-    /* Validate command type */
-    if (typeof cmd.type !== 'string' || !VALID_COMMAND_TYPES.includes(cmd.type)) {
-      return null;
+    const player = playerNumber === 1 ? this.player1 : this.player2;
+    const checked = validateSendBuyOrder(payload);
+    if (!checked.ok) {
+      this.rejectMessage(playerNumber, 'SEND_BUY_ORDER', checked.errors);
+      return;
     }
 
-    /* Validate soldier index (must be 0-4) */
-    if (typeof cmd.soldierIndex !== 'number' || cmd.soldierIndex < 0 || cmd.soldierIndex > 4) {
-      return null;
+    const results = checked.value.orders.map(order => this.processBuyOrder(playerNumber, order));
+
+    const rejected = results.filter(r => !r.accepted);
+    if (rejected.length > 0) {
+      console.log(
+        `[Room ${this.roomId}] P${playerNumber} buy: ${rejected.length}/${results.length} orders rejected` +
+        ` (${rejected.map(r => r.reason).join('; ')})`
+      );
     }
-    const soldierIndex = Math.floor(cmd.soldierIndex);
-
-    /* Validate target position if provided */
-    let targetPosition: { x: number; z: number } | undefined;
-    if (cmd.targetPosition && typeof cmd.targetPosition === 'object') {
-      const tp = cmd.targetPosition as Record<string, unknown>;
-      if (typeof tp.x === 'number' && typeof tp.z === 'number') {
-        /* Clamp position to map bounds (Bazaar: 3000x2000) */
-        targetPosition = {
-          x: Math.max(0, Math.min(3000, tp.x)),
-          z: Math.max(0, Math.min(2000, tp.z)),
-        };
-      }
+
+    this.emitToPlayer(player, 'BUY_ORDER_RESULT', {
+      results,
+      money: player.money,
+    });
+  }
+
+  /**
+   * Price and apply a single (schema-validated) buy order.
+   *
+   * @param playerNumber - Which player sent the order (1 or 2)
+   * @param order - The validated order
+   * @returns The order outcome
+   */
+  private processBuyOrder(playerNumber: 1 | 2, order: BuyOrder): BuyOrderResult {
+    const reject = (soldierIndex: number, reason: string): BuyOrderResult => ({
+      soldierIndex,
+      accepted: false,
+      cost: 0,
+      reason,
+      equipment: this.currentEquipment(playerNumber, soldierIndex),
+    });
+
+    const { soldierIndex } = order;
+    const owned = this.simulation.getLoadout(playerNumber, soldierIndex);
+    if (!owned) {
+      return reject(-1, 'Invalid soldier index');
     }
 
-    /* Movement commands require a target position */
-    if ((cmd.type === 'MOVE' || cmd.type === 'RUSH') && !targetPosition) {
-      return null;
+    /* Price only what the soldier does not already own (the pistol is free) */
+    const priced = priceBuyOrder(owned, order, this.sideOf(playerNumber));
+    if (!priced.ok) {
+      return reject(soldierIndex, priced.reason);
     }
+    const { loadout, cost } = priced;
 
-    /* Validate utility type if provided */
-    let utilityType: string | undefined;
-    if (typeof cmd.utilityType === 'string') {
-      utilityType = cmd.utilityType;
+    const player = playerNumber === 1 ? this.player1 : this.player2;
+    if (cost > player.money) {
+      return reject(soldierIndex, `Cannot afford loadout ($${cost}, have $${player.money})`);
     }
 
+    player.money -= cost;
+    this.simulation.setLoadout(playerNumber, soldierIndex, loadout);
+
     return {
-      type: cmd.type,
       soldierIndex,
-      targetPosition,
-      utilityType,
+      accepted: true,
+      cost,
+      equipment: this.currentEquipment(playerNumber, soldierIndex),
     };
   }
 
   /**
-   * Handle a buy order from a player.
-   * Validates affordability and applies the purchase.
+   * Read a soldier's loadout back in the Equipment shape used by buy orders.
    *
-   * @param playerNumber - Which player sent the order (1 or 2)
-   * @param orders - Array of buy order data
+   * @param playerNumber - Which player owns the soldier (1 or 2)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @returns The soldier's equipment, or undefined if the index is invalid
    */
-  handleBuyOrder(playerNumber: 1 | 2, orders: unknown[]): void {
-    if (this.phase !== 'BUY_PHASE') {
-      return;
-    }
+  private currentEquipment(playerNumber: 1 | 2, soldierIndex: number): BuyOrderResult['equipment'] {
+    const loadout = this.simulation.getLoadout(playerNumber, soldierIndex);
+    if (!loadout) return undefined;
 
-    /**
-     * TODO: Validate the buy orders against the player's economy.
-     * For now, acknowledge the order and trust the client.
-     * Full buy validation will be added in the anti-cheat pass.
-     */
-    const player = playerNumber === 1 ? this.player1 : this.player2;
-    this.emitToPlayer(player, 'BUY_ORDER_ACCEPTED', { orders });
+    return {
+      primary: loadout.currentWeapon === 'PISTOL' ? null : loadout.currentWeapon,
+      sidearm: 'PISTOL',
+      armor: loadout.armor,
+      helmet: loadout.helmet,
+      utility: loadout.utility,
+      defuseKit: loadout.defuseKit,
+    };
   }
 
   /**
@@ -891,43 +949,31 @@ export class GameRoom {
   /**
    * Handle a strategy plan submission from a player.
    * Stores the waypoints for each soldier to follow when LIVE_PHASE starts.
+   * A plan with any malformed or off-map waypoint is refused with INVALID_MESSAGE.
    *
    * @param playerNumber - Which player submitted the plan (1 or 2)
-   * @param plans - Waypoint plans for the player's 5 soldiers
+   * @param payload - The raw STRATEGY_PLAN payload (will be validated)
    */
-  handleStrategyPlan(playerNumber: 1 | 2, plans: unknown): void {
+  handleStrategyPlan(playerNumber: 1 | 2, payload: unknown): void {
     if (this.phase !== 'STRATEGY_PHASE') {
       return;
     }
 
-    /* Validate plans structure: should be an array of arrays of positions */
-    if (!Array.isArray(plans)) return;
-
-    const validPlans: { x: number; z: number }[][] = [];
-    for (const soldierPlan of plans) {
-      if (!Array.isArray(soldierPlan)) {
-        validPlans.push([]);
-        continue;
-      }
-
-      const waypoints: { x: number; z: number }[] = [];
-      for (const wp of soldierPlan) {
-        if (wp && typeof wp === 'object' && typeof wp.x === 'number' && typeof wp.z === 'number') {
-          /* Clamp waypoints to map bounds */
-          waypoints.push({
-            x: Math.max(0, Math.min(3000, wp.x)),
-            z: Math.max(0, Math.min(2000, wp.z)),
-          });
-        }
-      }
-      validPlans.push(waypoints);
+    const checked = validateStrategyPlan(payload, this.validationContext);
+    if (!checked.ok) {
+      this.rejectMessage(playerNumber, 'STRATEGY_PLAN', checked.errors);
+      return;
     }
+    const validPlans = checked.value.plans;
+    const validStances: (string | null)[] | null = checked.value.stances ?? null;
 
     /* Store the validated plans */
     if (playerNumber === 1) {
       this.strategyPlans.player1 = validPlans;
+      this.strategyStances.player1 = validStances;
     } else {
       this.strategyPlans.player2 = validPlans;
+      this.strategyStances.player2 = validStances;
     }
 
     /* Acknowledge receipt */
@@ -935,16 +981,35 @@ export class GameRoom {
     this.emitToPlayer(player, 'STRATEGY_PLAN_ACCEPTED', {});
   }
 
+  /**
+   * Answer a message that failed schema validation.
+   * Sends the structured errors back so the client can see which field was wrong.
+   *
+   * @param playerNumber - Which player sent the message (1 or 2)
+   * @param messageType - The C2S message type that was refused
+   * @param errors - Validation errors for the payload
+   */
+  private rejectMessage(playerNumber: 1 | 2, messageType: string, errors: ValidationError[]): void {
+    console.warn(
+      `[Room ${this.roomId}] P${playerNumber}: Invalid ${messageType} rejected (${formatValidationErrors(errors)})`
+    );
+    const player = playerNumber === 1 ? this.player1 : this.player2;
+    this.emitToPlayer(player, 'INVALID_MESSAGE', { messageType, errors });
+  }
+
   /**
    * Handle a player disconnecting.
    * Starts a 60-second reconnection timer. If the timer expires,
-   * the disconnected player forfeits.
+   * the disconnected player forfeits. Until then a bot plays their squad.
    *
    * @param playerNumber - Which player disconnected (1 or 2)
    */
   handleDisconnect(playerNumber: 1 | 2): void {
+    if (this.destroyed) return;
+
     const player = playerNumber === 1 ? this.player1 : this.player2;
     player.connected = false;
+    if (player.reconnectTimer) clearTimeout(player.reconnectTimer);
 
     /* Notify the other player */
     const otherPlayer = playerNumber === 1 ? this.player2 : this.player1;
@@ -974,6 +1039,138 @@ export class GameRoom {
       `[Room ${this.roomId}] Player ${playerNumber} disconnected` +
       ` — ${RECONNECT_TIMEOUT_MS / 1000}s to reconnect`
     );
+
+    /* A bot plays the absent player's squad for the rest of the reconnect window */
+    this.startBotControl(playerNumber);
+  }
+
+  /**
+   * Handle a player coming back on a new socket (RESUME_SESSION).
+   * Cancels the forfeit timer, points the seat at the new socket, tells the
+   * opponent, and sends the returning player a full snapshot of the match.
+   *
+   * @param playerNumber - Which player reconnected (1 or 2)
+   * @param socketId - The player's new Socket.io socket ID
+   */
+  handleReconnect(playerNumber: 1 | 2, socketId: string): void {
+    const player = playerNumber === 1 ? this.player1 : this.player2;
+    if (player.reconnectTimer) {
+      clearTimeout(player.reconnectTimer);
+      player.reconnectTimer = null;
+    }
+    player.socketId = socketId;
+    player.connected = true;
+    this.stopBotControl(playerNumber);
+
+    const otherPlayer = playerNumber === 1 ? this.player2 : this.player1;
+    this.emitToPlayer(otherPlayer, 'OPPONENT_RECONNECTED', {});
+
+    this.emitToPlayer(player, 'SESSION_RESUMED', {
+      roomId: this.roomId,
+      playerNumber,
+      phase: this.phase,
+      timeRemaining: this.timeRemaining,
+      roundNumber: this.roundNumber,
+      score: this.score,
+      player1Side: this.player1Side,
+      economy: {
+        player1Money: this.player1.money,
+        player2Money: this.player2.money,
+      },
+      tick: this.tick,
+      state: this.simulation.getFilteredState(playerNumber),
+    });
+
+    console.log(`[Room ${this.roomId}] Player ${playerNumber} resumed session`);
+  }
+
+  // --------------------------------------------------------------------------
+  // Bot Takeover
+  // --------------------------------------------------------------------------
+
+  /**
+   * Hand a disconnected player's squad to a BotAI and tell both
+   * players (BOT_CONTROL) so the opponent can show the squad as bot-controlled.
+   * The bot picks up the current phase straight away.
+   *
+   * @param playerNumber - Which player disconnected (1 or 2)
+   */
+  private startBotControl(playerNumber: 1 | 2): void {
+    if (this.bots[playerNumber]) return;
+
+    const bot = new BotAI(this.simulation, playerNumber, Math.floor(Math.random() * 2147483647));
+    bot.initializeRound(this.sideOf(playerNumber));
+    this.bots[playerNumber] = bot;
+
+    this.broadcast('BOT_CONTROL', { playerNumber, active: true });
+    console.log(`[Room ${this.roomId}] Bot took over Player ${playerNumber}'s squad`);
+
+    this.runBotPhase(playerNumber);
+  }
+
+  /**
+   * Give a resumed player their squad back. Soldiers keep the bot's last
+   * orders until the player gives new ones.
+   *
+   * @param playerNumber - Which player resumed (1 or 2)
+   */
+  private stopBotControl(playerNumber: 1 | 2): void {
+    if (!this.bots[playerNumber]) return;
+    this.bots[playerNumber] = null;
+
+    this.broadcast('BOT_CONTROL', { playerNumber, active: false });
+    console.log(`[Room ${this.roomId}] Player ${playerNumber} took back control from the bot`);
+  }
+
+  /**
+   * Play the current phase for a bot-controlled player: buy in BUY_PHASE,
+   * submit the default plan in STRATEGY_PHASE (readying up after either so
+   * the opponent is not kept waiting), and reset the bot's soldier states
+   * when LIVE_PHASE starts.
+   *
+   * @param playerNumber - Which player the bot stands in for (1 or 2)
+   */
+  private runBotPhase(playerNumber: 1 | 2): void {
+    const bot = this.bots[playerNumber];
+    if (!bot) return;
+    const side = this.sideOf(playerNumber);
+    const player = playerNumber === 1 ? this.player1 : this.player2;
+
+    switch (this.phase) {
+      case 'BUY_PHASE': {
+        const loadouts = [0, 1, 2, 3, 4].map(i => this.simulation.getLoadout(playerNumber, i));
+        const results = bot.planBuys(player.money, side, loadouts)
+          .map(order => this.processBuyOrder(playerNumber, order));
+        const spent = results.reduce((total, r) => total + r.cost, 0);
+        console.log(
+          `[Room ${this.roomId}] Bot P${playerNumber} buy: ` +
+          `${results.filter(r => r.accepted).length} orders, $${spent} spent`
+        );
+        this.handleReadyUp(playerNumber);
+        break;
+      }
+
+      case 'STRATEGY_PHASE':
+        if (playerNumber === 1) {
+          this.strategyPlans.player1 = bot.planStrategy(side);
+          this.strategyStances.player1 = null;
+        } else {
+          this.strategyPlans.player2 = bot.planStrategy(side);
+          this.strategyStances.player2 = null;
+        }
+        this.handleReadyUp(playerNumber);
+        break;
+
+      case 'LIVE_PHASE':
+        bot.initializeRound(side);
+        break;
+    }
+  }
+
+  /** Which side the given player is on this half. */
+  private sideOf(playerNumber: 1 | 2): 'ATTACKER' | 'DEFENDER' {
+    if (playerNumber === 1) return this.player1Side;
+    return this.player1Side === 'ATTACKER' ? 'DEFENDER' : 'ATTACKER';
   }
 
   // --------------------------------------------------------------------------
@@ -990,6 +1187,17 @@ export class GameRoom {
     this.io.to(this.roomId).emit(event, data);
   }
 
+  /**
+   * Events of a tick that a player may receive. Events with a recipient
+   * (e.g. SOUND_HEARD pings) are private to that player.
+   *
+   * @param tickResult - The simulation tick result
+   * @param playerNumber - The receiving player
+   */
+  private eventsForPlayer(tickResult: TickResult, playerNumber: 1 | 2): TickResult['events'] {
+    return tickResult.events.filter(event => event.recipient === undefined || event.recipient === playerNumber);
+  }
+
   /**
    * Emit a message to a specific player.
    *
@@ -1008,7 +1216,8 @@ export class GameRoom {
 
   /**
    * Destroy the room and clean up all timers and resources.
-   * Called when the match ends or is abandoned.
+   * Called when the match ends or is abandoned. The replay of the rounds
+   * played so far is written out.
    */
   private destroy(): void {
     if (this.destroyed) return;
@@ -1016,12 +1225,18 @@ export class GameRoom {
 
     this.stopPhaseTimer();
     this.stopSimulationTicks();
+    this.simulation.setInputListener(null);
+
+    if (this.replay.getRoundCount() > 0) {
+      void writeReplay(this.roomId, this.replay.finish(this.score));
+    }
 
     /* Clear reconnection timers */
     if (this.player1.reconnectTimer) clearTimeout(this.player1.reconnectTimer);
     if (this.player2.reconnectTimer) clearTimeout(this.player2.reconnectTimer);
 
     console.log(`[Room ${this.roomId}] Room destroyed`);
+    this.onDestroyed(this);
   }
 
   // --------------------------------------------------------------------------
@@ -1036,4 +1251,7 @@ export class GameRoom {
 
   /** Get the current score. */
   getScore(): { player1: number; player2: number } { return { ...this.score }; }
+
+  /** Whether the match is over and the room can no longer be joined. */
+  isDestroyed(): boolean { return this.destroyed; }
 }
@@ -0,0 +1,490 @@
+/**
+ * @file HeadlessMatch.ts
+ * @description Plays a whole match between two bots, with no sockets and no timers.
+ *
+ * GameRoom can only run a match in real time: phases advance on setInterval
+ * timers and the simulation ticks every 200ms. HeadlessMatch runs the same
+ * match loop back to back, as fast as the simulation allows:
+ *
+ *   BUY (bots buy, priced by MatchRules) -> STRATEGY (bots brief their plans)
+ *   -> LIVE / POST_PLANT (bots + Simulation.runTick until the simulation or
+ *   the phase clock ends the round) -> economy -> next round / side swap
+ *
+ * Phase clocks are counted in simulation ticks instead of wall-clock
+ * seconds. Everything random comes from the match seed (the simulation)
+ * and seed-derived bot seeds, so a seed always plays out the same match.
+ *
+ * The match is recorded like a real one, so a result can be inspected in
+ * the replay viewer or checked with `npm run replay:verify`.
+ *
+ * Usage (see scripts/runMatches.ts):
+ *   const match = new HeadlessMatch({ seed: 42, strategies: { player1: { attack: 'RUSH_B', defense: 'SPREAD' } } });
+ *   const result = match.run();
+ *   const replay = match.getReplay();
+ */
+
+import { Simulation } from '../../../shared/simulation/Simulation.js';
+import type { SoldierLoadout, KillRecord } from '../../../shared/simulation/Simulation.js';
+import { BotAI, DEFAULT_BOT_STRATEGY } from '../../../shared/simulation/BotAI.js';
+import type { BotStrategy } from '../../../shared/simulation/BotAI.js';
+import { ReplayRecorder } from '../../../shared/simulation/Replay.js';
+import type { ReplayFile, ReplayRoundEnd } from '../../../shared/simulation/Replay.js';
+import { getMap, DEFAULT_MAP_ID } from '../../../shared/maps/MapRegistry.js';
+import type { MapData } from '../../../shared/types/MapTypes.js';
+import {
+  PHASE_DURATIONS,
+  TICK_RATE_MS,
+  ROUNDS_PER_HALF,
+  ROUNDS_TO_WIN,
+  STARTING_MONEY,
+  applyRoundEconomy,
+  priceBuyOrder,
+} from './MatchRules.js';
+import type { EconomyAccount } from './MatchRules.js';
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** Match rules a headless match can be run with (defaults: MatchRules.ts) */
+export interface HeadlessMatchConfig {
+  /** Rounds per half (sides swap and money resets after this many) */
+  roundsPerHalf: number;
+  /** Rounds needed to win the match */
+  roundsToWin: number;
+  /** Money each player starts each half with */
+  startingMoney: number;
+  /** LIVE_PHASE length in seconds (defenders win when it runs out) */
+  livePhaseSeconds: number;
+  /** POST_PLANT length in seconds (attackers win when it runs out) */
+  postPlantSeconds: number;
+}
+
+/** What to play */
+export interface HeadlessMatchOptions {
+  /** Match seed (simulation seed; the bots' seeds are derived from it) */
+  seed: number;
+  /** Map ID (see MapRegistry.ts); defaults to DEFAULT_MAP_ID */
+  mapId?: string;
+  /** Bot plan per player (defaults to DEFAULT_BOT_STRATEGY) */
+  strategies?: { player1?: BotStrategy; player2?: BotStrategy };
+  /** Rule overrides */
+  config?: Partial<HeadlessMatchConfig>;
+}
+
+/**
+ * How a round was decided:
+ *   ELIMINATION — one side was wiped out
+ *   DEFUSE      — the defenders defused the bomb
+ *   DETONATION  — the bomb went off (or the post-plant clock ran out)
+ *   TIME        — the live clock ran out without a plant
+ */
+export type HeadlessRoundReason = 'ELIMINATION' | 'DEFUSE' | 'DETONATION' | 'TIME';
+
+/** One player's money over one round */
+export interface HeadlessRoundEconomy {
+  /** Money when the buy phase started */
+  startMoney: number;
+  /** Money spent in the buy phase */
+  spent: number;
+  /** Money after the round's rewards */
+  endMoney: number;
+}
+
+/** Outcome of one round */
+export interface HeadlessRoundResult {
+  /** Round number (1-based) */
+  roundNumber: number;
+  /** Which side player 1 played */
+  player1Side: 'ATTACKER' | 'DEFENDER';
+  /** Side that won */
+  winningSide: 'ATTACKER' | 'DEFENDER';
+  /** Player that won */
+  winner: 1 | 2;
+  /** How the round was decided */
+  reason: HeadlessRoundReason;
+  /** Whether the simulation or the phase clock ended the round */
+  endedBy: ReplayRoundEnd;
+  /** Simulation ticks the round lasted */
+  endTick: number;
+  /** Whether the bomb was planted */
+  bombPlanted: boolean;
+  /** Kill records of the round */
+  kills: KillRecord[];
+  /** Money per player over the round */
+  economy: { player1: HeadlessRoundEconomy; player2: HeadlessRoundEconomy };
+}
+
+/** Outcome of a whole match */
+export interface HeadlessMatchResult {
+  /** Match seed */
+  seed: number;
+  /** Map ID played */
+  mapId: string;
+  /** Bot plan per player */
+  strategies: { player1: BotStrategy; player2: BotStrategy };
+  /** Rules the match was played with */
+  config: HeadlessMatchConfig;
+  /** Player that won the match */
+  winner: 1 | 2;
+  /** Final score */
+  score: { player1: number; player2: number };
+  /** Kill totals */
+  kills: {
+    player1: number;
+    player2: number;
+    headshots: number;
+    wallbangs: number;
+    /** Kills per weapon ID */
+    byWeapon: Record<string, number>;
+  };
+  /** Bomb objective totals */
+  objectives: { plants: number; defuses: number; detonations: number };
+  /** Money per player, round by round */
+  economy: {
+    roundNumber: number;
+    player1: HeadlessRoundEconomy;
+    player2: HeadlessRoundEconomy;
+  }[];
+  /** Per-round outcomes, in order */
+  rounds: HeadlessRoundResult[];
+  /** Simulation ticks run over the whole match */
+  totalTicks: number;
+}
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** Default rules: the ones GameRoom plays by */
+export const DEFAULT_HEADLESS_CONFIG: HeadlessMatchConfig = {
+  roundsPerHalf: ROUNDS_PER_HALF,
+  roundsToWin: ROUNDS_TO_WIN,
+  startingMoney: STARTING_MONEY,
+  livePhaseSeconds: PHASE_DURATIONS.LIVE_PHASE,
+  postPlantSeconds: PHASE_DURATIONS.POST_PLANT,
+};
+
+// ============================================================================
+// --- HeadlessMatch Class ---
+// ============================================================================
+
+/**
+ * One bot-vs-bot match, played to completion by run().
+ */
+export class HeadlessMatch {
+  /** Match seed */
+  private seed: number;
+
+  /** Map ID played */
+  private mapId: string;
+
+  /** Map played */
+  private map: MapData;
+
+  /** Rules the match is played with */
+  private config: HeadlessMatchConfig;
+
+  /** Bot plan per player */
+  private strategies: { player1: BotStrategy; player2: BotStrategy };
+
+  /** The match simulation */
+  private simulation: Simulation;
+
+  /** Bot per player */
+  private bots: Record<1 | 2, BotAI>;
+
+  /** Money and loss streak per player */
+  private accounts: Record<1 | 2, EconomyAccount>;
+
+  /** Records the match for replay */
+  private replay: ReplayRecorder;
+
+  /** Which side player 1 plays this half */
+  private player1Side: 'ATTACKER' | 'DEFENDER' = 'ATTACKER';
+
+  /** Score so far */
+  private score = { player1: 0, player2: 0 };
+
+  /** Round outcomes so far */
+  private rounds: HeadlessRoundResult[] = [];
+
+  /** Simulation ticks run so far */
+  private totalTicks: number = 0;
+
+  /**
+   * Set up a match. Throws if the map is unknown, or a rule is unknown or
+   * not a positive number.
+   *
+   * @param options - Seed, map, bot plans and rule overrides
+   */
+  constructor(options: HeadlessMatchOptions) {
+    const mapId = options.mapId ?? DEFAULT_MAP_ID;
+    const map = getMap(mapId);
+    if (!map) {
+      throw new Error(`Unknown map '${mapId}'`);
+    }
+
+    const config = { ...DEFAULT_HEADLESS_CONFIG, ...options.config };
+    for (const [key, value] of Object.entries(config)) {
+      if (!(key in DEFAULT_HEADLESS_CONFIG)) {
+        throw new Error(`Unknown match config '${key}'`);
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`Match config '${key}' must be a positive number (got ${value})`);
+      }
+    }
+
+    this.seed = options.seed;
+    this.mapId = mapId;
+    this.map = map;
+    this.config = config;
+    this.strategies = {
+      player1: { ...(options.strategies?.player1 ?? DEFAULT_BOT_STRATEGY) },
+      player2: { ...(options.strategies?.player2 ?? DEFAULT_BOT_STRATEGY) },
+    };
+
+    this.simulation = new Simulation(this.seed);
+    this.simulation.setWalls(map.walls, map.dimensions.width, map.dimensions.height);
+    this.simulation.setCover(map.cover);
+
+    this.bots = {
+      1: new BotAI(this.simulation, 1, this.seed + 1, this.strategies.player1),
+      2: new BotAI(this.simulation, 2, this.seed + 2, this.strategies.player2),
+    };
+    this.accounts = {
+      1: { money: config.startingMoney, lossStreak: 0 },
+      2: { money: config.startingMoney, lossStreak: 0 },
+    };
+
+    this.replay = new ReplayRecorder(this.seed, mapId);
+    this.replay.attach(this.simulation);
+  }
+
+  // --------------------------------------------------------------------------
+  // Match Loop
+  // --------------------------------------------------------------------------
+
+  /**
+   * Play the match to the end.
+   *
+   * @returns Score, kills, economy curve and objective counts
+   */
+  run(): HeadlessMatchResult {
+    let roundNumber = 1;
+    let keepSurvivorLoadouts = false;
+
+    while (this.score.player1 < this.config.roundsToWin && this.score.player2 < this.config.roundsToWin) {
+      this.rounds.push(this.playRound(roundNumber, keepSurvivorLoadouts));
+      roundNumber++;
+
+      /* Side swap at the halfway point (economy resets, gear is lost) */
+      keepSurvivorLoadouts = roundNumber !== this.config.roundsPerHalf + 1;
+      if (!keepSurvivorLoadouts) {
+        this.player1Side = this.player1Side === 'ATTACKER' ? 'DEFENDER' : 'ATTACKER';
+        for (const account of [this.accounts[1], this.accounts[2]]) {
+          account.money = this.config.startingMoney;
+          account.lossStreak = 0;
+        }
+      }
+    }
+
+    return this.buildResult();
+  }
+
+  /** The match recorded as a replay file (complete once run() returns). */
+  getReplay(): ReplayFile {
+    return this.replay.finish(this.score);
+  }
+
+  /**
+   * Play one round: buy, brief, then tick until it is decided.
+   *
+   * @param roundNumber - Round number (1-based)
+   * @param keepSurvivorLoadouts - Whether last round's survivors keep their gear
+   */
+  private playRound(roundNumber: number, keepSurvivorLoadouts: boolean): HeadlessRoundResult {
+    const simulation = this.simulation;
+    simulation.initializeRound(
+      this.player1Side,
+      this.map.spawnZones.attacker,
+      this.map.spawnZones.defender,
+      keepSurvivorLoadouts
+    );
+    this.replay.startRound(roundNumber, this.player1Side, keepSurvivorLoadouts);
+
+    /* BUY_PHASE */
+    const startMoney = { 1: this.accounts[1].money, 2: this.accounts[2].money };
+    for (const playerNumber of [1, 2] as const) this.buy(playerNumber);
+
+    /* STRATEGY_PHASE -> LIVE_PHASE: the plans take effect on the first tick */
+    const plans = {
+      1: this.bots[1].planStrategy(this.sideOf(1)),
+      2: this.bots[2].planStrategy(this.sideOf(2)),
+    };
+    this.replay.recordBriefing(
+      { player1: this.loadoutsOf(1), player2: this.loadoutsOf(2) },
+      {
+        player1: { routes: plans[1], stances: [null, null, null, null, null] },
+        player2: { routes: plans[2], stances: [null, null, null, null, null] },
+      }
+    );
+    for (const playerNumber of [1, 2] as const) {
+      plans[playerNumber].forEach((route, i) => {
+        if (route.length > 0) simulation.assignRoute(playerNumber, i, route);
+      });
+      this.bots[playerNumber].initializeRound(this.sideOf(playerNumber));
+    }
+
+    /* LIVE_PHASE / POST_PLANT, with the phase clock counted in ticks */
+    const liveTicks = Math.round(this.config.livePhaseSeconds * 1000 / TICK_RATE_MS);
+    const postPlantTicks = Math.round(this.config.postPlantSeconds * 1000 / TICK_RATE_MS);
+    let phaseTicks = 0;
+    let bombPlanted = false;
+    let winningSide: 'ATTACKER' | 'DEFENDER';
+    let endedBy: ReplayRoundEnd;
+    let reason: HeadlessRoundReason;
+
+    for (;;) {
+      for (const playerNumber of [1, 2] as const) {
+        this.bots[playerNumber].update(simulation.getFilteredState(playerNumber));
+      }
+      const tickResult = simulation.runTick();
+      this.totalTicks++;
+      phaseTicks++;
+
+      /* Bomb planted -> POST_PLANT (the clock restarts) */
+      if (!bombPlanted && simulation.getFilteredState(1).bombPlanted) {
+        bombPlanted = true;
+        phaseTicks = 0;
+      }
+
+      if (tickResult.roundEnded && tickResult.winningSide) {
+        winningSide = tickResult.winningSide;
+        endedBy = 'SIMULATION';
+        if (tickResult.events.some(e => e.type === 'BOMB_DEFUSED')) reason = 'DEFUSE';
+        else if (tickResult.events.some(e => e.type === 'BOMB_EXPLODED')) reason = 'DETONATION';
+        else reason = 'ELIMINATION';
+        break;
+      }
+      if (phaseTicks >= (bombPlanted ? postPlantTicks : liveTicks)) {
+        winningSide = bombPlanted ? 'ATTACKER' : 'DEFENDER';
+        endedBy = 'PHASE_TIMER';
+        reason = bombPlanted ? 'DETONATION' : 'TIME';
+        break;
+      }
+    }
+
+    /* ROUND_END: score and economy */
+    const kills = simulation.getRoundKills();
+    this.replay.endRound(winningSide, endedBy, simulation.getTick(), kills);
+
+    const p1Won = this.player1Side === winningSide;
+    if (p1Won) this.score.player1++;
+    else this.score.player2++;
+
+    const spent = { 1: startMoney[1] - this.accounts[1].money, 2: startMoney[2] - this.accounts[2].money };
+    applyRoundEconomy(
+      this.accounts[1],
+      this.accounts[2],
+      p1Won,
+      this.player1Side,
+      kills,
+      bombPlanted,
+      reason === 'DEFUSE'
+    );
+
+    return {
+      roundNumber,
+      player1Side: this.player1Side,
+      winningSide,
+      winner: p1Won ? 1 : 2,
+      reason,
+      endedBy,
+      endTick: simulation.getTick(),
+      bombPlanted,
+      kills: kills.map(k => ({ ...k })),
+      economy: {
+        player1: { startMoney: startMoney[1], spent: spent[1], endMoney: this.accounts[1].money },
+        player2: { startMoney: startMoney[2], spent: spent[2], endMoney: this.accounts[2].money },
+      },
+    };
+  }
+
+  /**
+   * Let a player's bot buy for the round. Orders are priced and charged
+   * exactly as GameRoom prices them; unaffordable orders are skipped.
+   *
+   * @param playerNumber - Which player buys (1 or 2)
+   */
+  private buy(playerNumber: 1 | 2): void {
+    const account = this.accounts[playerNumber];
+    const side = this.sideOf(playerNumber);
+    const loadouts = [0, 1, 2, 3, 4].map(i => this.simulation.getLoadout(playerNumber, i));
+
+    for (const order of this.bots[playerNumber].planBuys(account.money, side, loadouts)) {
+      const owned = this.simulation.getLoadout(playerNumber, order.soldierIndex);
+      if (!owned) continue;
+
+      const priced = priceBuyOrder(owned, order, side);
+      if (!priced.ok || priced.cost > account.money) continue;
+
+      account.money -= priced.cost;
+      this.simulation.setLoadout(playerNumber, order.soldierIndex, priced.loadout);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  /** Every soldier's loadout for a player (index 0-4). */
+  private loadoutsOf(playerNumber: 1 | 2): SoldierLoadout[] {
+    return [0, 1, 2, 3, 4]
+      .map(i => this.simulation.getLoadout(playerNumber, i))
+      .filter((loadout): loadout is SoldierLoadout => loadout !== null);
+  }
+
+  /** Which side the given player is on this half. */
+  private sideOf(playerNumber: 1 | 2): 'ATTACKER' | 'DEFENDER' {
+    if (playerNumber === 1) return this.player1Side;
+    return this.player1Side === 'ATTACKER' ? 'DEFENDER' : 'ATTACKER';
+  }
+
+  /** Summarize the played rounds into the match result. */
+  private buildResult(): HeadlessMatchResult {
+    const kills = { player1: 0, player2: 0, headshots: 0, wallbangs: 0, byWeapon: {} as Record<string, number> };
+    const objectives = { plants: 0, defuses: 0, detonations: 0 };
+
+    for (const round of this.rounds) {
+      for (const kill of round.kills) {
+        if (kill.killerId.startsWith('p1')) kills.player1++;
+        else kills.player2++;
+        if (kill.headshot) kills.headshots++;
+        if (kill.wallbang) kills.wallbangs++;
+        kills.byWeapon[kill.weapon] = (kills.byWeapon[kill.weapon] ?? 0) + 1;
+      }
+      if (round.bombPlanted) objectives.plants++;
+      if (round.reason === 'DEFUSE') objectives.defuses++;
+      if (round.reason === 'DETONATION') objectives.detonations++;
+    }
+
+    return {
+      seed: this.seed,
+      mapId: this.mapId,
+      strategies: { player1: { ...this.strategies.player1 }, player2: { ...this.strategies.player2 } },
+      config: { ...this.config },
+      winner: this.score.player1 >= this.config.roundsToWin ? 1 : 2,
+      score: { ...this.score },
+      kills,
+      objectives,
+      economy: this.rounds.map(round => ({
+        roundNumber: round.roundNumber,
+        player1: { ...round.economy.player1 },
+        player2: { ...round.economy.player2 },
+      })),
+      rounds: this.rounds,
+      totalTicks: this.totalTicks,
+    };
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * @file MatchRules.ts
+ * @description Server match rules shared by GameRoom and the headless match runner.
+ *
+ * Holds the parts of a match that do not depend on sockets or timers:
+ *   - Phase durations, tick rate and match length (rounds per half, rounds to win)
+ *   - The in-match economy (starting money, round rewards, kill rewards,
+ *     objective bonuses, money cap)
+ *   - Buy order pricing (only gear the soldier does not already own is charged)
+ *
+ * Keeping them in one place means a simulated match (HeadlessMatch.ts)
+ * plays by exactly the rules of a real one.
+ */
+
+import type { SoldierLoadout, KillRecord } from '../../../shared/simulation/Simulation.js';
+import {
+  WEAPONS,
+  ARMOR,
+  UTILITY,
+  HELMET_COST,
+  DEFUSE_KIT_COST,
+} from '../../../shared/constants/WeaponData.js';
+import type { BuyOrder } from '../../../shared/types/MessageTypes.js';
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** Phase durations in seconds (matches client-side values from GameConstants.ts) */
+export const PHASE_DURATIONS: Record<string, number> = {
+  BUY_PHASE: 20,
+  STRATEGY_PHASE: 15,
+  LIVE_PHASE: 105,  // 1:45
+  POST_PLANT: 40,
+  ROUND_END: 5,
+};
+
+/** Simulation tick rate in milliseconds (5 ticks per second) */
+export const TICK_RATE_MS = 200;
+
+/** Rounds per half (side swap happens after this many rounds) */
+export const ROUNDS_PER_HALF = 4;
+
+/** Rounds needed to win the match */
+export const ROUNDS_TO_WIN = 5;
+
+/** Starting money for each player at the beginning of the match (and after the side swap) */
+export const STARTING_MONEY = 800;
+
+/** Maximum money a player can accumulate */
+export const MAX_MONEY = 16000;
+
+/** Win reward for the winning team */
+const WIN_REWARD = 3250;
+
+/** Loss rewards based on consecutive loss streak (index = streak count - 1) */
+const LOSS_STREAK_REWARDS = [1400, 1900, 2400, 2900, 3400];
+
+/** Kill reward per weapon type */
+const KILL_REWARDS: Record<string, number> = {
+  PISTOL: 300,
+  SMG: 600,
+  RIFLE: 300,
+  AWP: 100,
+  SHOTGUN: 900,
+  LMG: 300,
+};
+
+/** Bomb plant/defuse bonus for the team that achieves it */
+const OBJECTIVE_BONUS = 300;
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** A player's money and loss streak (GameRoom's PlayerState satisfies this) */
+export interface EconomyAccount {
+  /** Current money */
+  money: number;
+  /** Consecutive round losses (for loss streak bonus) */
+  lossStreak: number;
+}
+
+/** Result of pricing a buy order against what the soldier owns */
+export type PricedBuyOrder =
+  | { ok: true; loadout: SoldierLoadout; cost: number }
+  | { ok: false; reason: string };
+
+// ============================================================================
+// --- Economy ---
+// ============================================================================
+
+/**
+ * Update economy for both players after a round ends.
+ * Awards win/loss rewards, kill rewards, and objective bonuses.
+ *
+ * @param player1 - Player 1's account (updated in place)
+ * @param player2 - Player 2's account (updated in place)
+ * @param p1Won - Whether player 1 won the round
+ * @param player1Side - Which side player 1 played this round
+ * @param roundKills - Kill records of the round
+ * @param bombPlanted - Whether the bomb was planted this round
+ * @param bombDefused - Whether the bomb was defused this round
+ */
+export function applyRoundEconomy(
+  player1: EconomyAccount,
+  player2: EconomyAccount,
+  p1Won: boolean,
+  player1Side: 'ATTACKER' | 'DEFENDER',
+  roundKills: KillRecord[],
+  bombPlanted: boolean,
+  bombDefused: boolean
+): void {
+  /* Calculate win and loss rewards */
+  const winner = p1Won ? player1 : player2;
+  const loser = p1Won ? player2 : player1;
+
+  /* Winner gets the flat win reward */
+  winner.money += WIN_REWARD;
+  winner.lossStreak = 0;
+
+  /* Loser gets loss streak reward (escalating) */
+  loser.lossStreak++;
+  const streakIndex = Math.min(loser.lossStreak - 1, LOSS_STREAK_REWARDS.length - 1);
+  loser.money += LOSS_STREAK_REWARDS[streakIndex];
+
+  /* Award kill rewards based on weapon used */
+  for (const kill of roundKills) {
+    const weaponReward = KILL_REWARDS[kill.weapon] ?? 300;
+    if (kill.killerId.startsWith('p1')) {
+      player1.money += weaponReward;
+    } else {
+      player2.money += weaponReward;
+    }
+  }
+
+  /* Award objective bonus (bomb plant/defuse) */
+  if (bombPlanted) {
+    /* Attackers get a bonus for planting regardless of round outcome */
+    const attackerPlayer = player1Side === 'ATTACKER' ? player1 : player2;
+    attackerPlayer.money += OBJECTIVE_BONUS;
+  }
+
+  if (bombDefused) {
+    /* Defenders get a bonus for defusing */
+    const defenderPlayer = player1Side === 'DEFENDER' ? player1 : player2;
+    defenderPlayer.money += OBJECTIVE_BONUS;
+  }
+
+  /* Clamp money to the maximum */
+  player1.money = Math.min(player1.money, MAX_MONEY);
+  player2.money = Math.min(player2.money, MAX_MONEY);
+}
+
+// ============================================================================
+// --- Buy Orders ---
+// ============================================================================
+
+/**
+ * Price a (schema-validated) buy order against the soldier's current gear.
+ * Only what the soldier does not already own is charged (the pistol is
+ * free); whether the player can afford it is left to the caller.
+ *
+ * @param owned - The soldier's current loadout
+ * @param order - The validated order
+ * @param side - Which side the buying player is on this round
+ * @returns The loadout to apply and its cost, or why the order is refused
+ */
+export function priceBuyOrder(
+  owned: SoldierLoadout,
+  order: BuyOrder,
+  side: 'ATTACKER' | 'DEFENDER'
+): PricedBuyOrder {
+  const { primary, armor, helmet, utility, defuseKit } = order.equipment;
+
+  /* Defuse kits are defender-only */
+  if (defuseKit && !owned.defuseKit && side !== 'DEFENDER') {
+    return { ok: false, reason: 'Only defenders can buy defuse kits' };
+  }
+
+  const loadout: SoldierLoadout = {
+    currentWeapon: primary ?? 'PISTOL',
+    armor,
+    helmet,
+    utility: [...utility],
+    defuseKit,
+  };
+
+  let cost = 0;
+  if (loadout.currentWeapon !== 'PISTOL' && loadout.currentWeapon !== owned.currentWeapon) {
+    cost += WEAPONS[loadout.currentWeapon as keyof typeof WEAPONS].cost;
+  }
+  if (loadout.armor !== null && loadout.armor !== owned.armor) {
+    cost += ARMOR[loadout.armor as keyof typeof ARMOR].cost;
+  }
+  if (helmet && !owned.helmet) {
+    cost += HELMET_COST;
+  }
+  if (defuseKit && !owned.defuseKit) {
+    cost += DEFUSE_KIT_COST;
+  }
+  const carried = [...owned.utility];
+  for (const item of loadout.utility) {
+    const carriedIdx = carried.indexOf(item);
+    if (carriedIdx >= 0) {
+      carried.splice(carriedIdx, 1);
+    } else {
+      cost += UTILITY[item as keyof typeof UTILITY].cost;
+    }
+  }
+
+  return { ok: true, loadout, cost };
+}
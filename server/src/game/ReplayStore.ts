@@ -0,0 +1,48 @@
+/**
+ * @file ReplayStore.ts
+ * @description Writes finished matches' replay files to disk.
+ *
+ * One JSON file per match, named after the room and the time it was
+ * written, in REPLAY_DIR (env var) or replays/ at the project root.
+ * Check a replay with: npm run replay:verify -- <file>
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { ReplayFile } from '../../../shared/simulation/Replay.js';
+
+// ============================================================================
+// --- Configuration ---
+// ============================================================================
+
+/** Directory replays are written to */
+const REPLAY_DIR = process.env.REPLAY_DIR
+  ?? path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../replays');
+
+// ============================================================================
+// --- Writing ---
+// ============================================================================
+
+/**
+ * Write a match's replay file. Failures are logged, never thrown: losing
+ * a replay must not take the server down.
+ *
+ * @param roomId - Room the match was played in (used in the file name)
+ * @param replay - The finished replay
+ * @returns Path of the written file, or null if writing failed
+ */
+export async function writeReplay(roomId: string, replay: ReplayFile): Promise<string | null> {
+  const stamp = replay.recordedAt.replace(/[:.]/g, '-');
+  const filePath = path.join(REPLAY_DIR, `${stamp}_${roomId.replace(/[^\w-]/g, '_')}.json`);
+
+  try {
+    await mkdir(REPLAY_DIR, { recursive: true });
+    await writeFile(filePath, JSON.stringify(replay));
+    console.log(`[Replay] Saved ${replay.rounds.length} rounds to ${filePath}`);
+    return filePath;
+  } catch (err) {
+    console.error(`[Replay] Could not save replay for room ${roomId}:`, err);
+    return null;
+  }
+}
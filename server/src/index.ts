@@ -14,7 +14,7 @@
  *     └── SocketServer (network/SocketServer.ts)
  *           ├── MatchmakingQueue (matchmaking/MatchmakingQueue.ts)
  *           └── GameRoom[] (game/GameRoom.ts)
- *                 └── ServerSimulation (simulation/ServerSimulation.ts)
+ *                 └── Simulation (shared/simulation/Simulation.ts)
  */
 
 import express from 'express';
@@ -83,8 +83,11 @@ const io = new SocketServer(httpServer, {
     origin: ['http://localhost:3000', 'http://localhost:4000'],
     methods: ['GET', 'POST'],
   },
-  /** Increase the max buffer size for large state updates */
-  maxHttpBufferSize: 1e6, // 1MB
+  /**
+   * Largest message accepted from a client. The biggest legitimate C2S
+   * payload (a full strategy plan) is a few KB, so anything near this is abuse.
+   */
+  maxHttpBufferSize: 32 * 1024, // 32KB
 });
 
 /** Set up all Socket.io event handlers (connection, disconnect, messages) */
@@ -0,0 +1,210 @@
+/**
+ * @file RateLimiter.ts
+ * @description Per-socket flood protection for incoming client messages.
+ *
+ * Each socket gets one token bucket per event type. Every message costs one
+ * token; tokens refill continuously up to the bucket's capacity, so short
+ * bursts are fine but a sustained flood runs dry. Oversized arrays (buy
+ * orders, strategy waypoints) are refused before any handler walks them.
+ *
+ * Every refused message counts as a violation. A socket that racks up too
+ * many violations within a short window is reported for disconnection, so
+ * one abusive client cannot keep a room's tick busy.
+ *
+ * Usage (see SocketServer.ts):
+ *   const limiter = new SocketRateLimiter();
+ *   const verdict = limiter.check('SEND_COMMAND', data);
+ *   if (!verdict.allowed) { ...log verdict.reason, disconnect if verdict.disconnect... }
+ */
+
+import { MESSAGE_LIMITS } from '../../../shared/util/MessageValidation.js';
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** Token bucket settings: burst size and sustained messages per second */
+interface BucketConfig {
+  /** Maximum tokens (largest burst accepted at once) */
+  capacity: number;
+  /** Tokens regained per second (sustained rate) */
+  refillPerSecond: number;
+}
+
+/**
+ * Limits per event type. SEND_COMMAND allows each of the 5 soldiers a command
+ * per server cooldown (0.5s) with headroom for a burst; the phase messages
+ * are sent a handful of times per round at most.
+ */
+const EVENT_LIMITS: Record<string, BucketConfig> = {
+  SEND_COMMAND: { capacity: 20, refillPerSecond: 10 },
+  SEND_BUY_ORDER: { capacity: 10, refillPerSecond: 2 },
+  STRATEGY_PLAN: { capacity: 10, refillPerSecond: 2 },
+  READY_UP: { capacity: 5, refillPerSecond: 1 },
+  JOIN_QUEUE: { capacity: 3, refillPerSecond: 0.2 },
+  LEAVE_QUEUE: { capacity: 3, refillPerSecond: 0.2 },
+  RESUME_SESSION: { capacity: 3, refillPerSecond: 0.2 },
+};
+
+/** Limits for any event type not listed above */
+const DEFAULT_LIMIT: BucketConfig = { capacity: 5, refillPerSecond: 1 };
+
+/** Violations within VIOLATION_WINDOW_MS that get a socket disconnected */
+const MAX_VIOLATIONS = 30;
+
+/** Sliding window for counting violations (milliseconds) */
+const VIOLATION_WINDOW_MS = 10000;
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** Outcome of checking one incoming message */
+export type RateLimitVerdict =
+  | { allowed: true }
+  | {
+      allowed: false;
+      /** Why the message was refused (for logs) */
+      reason: string;
+      /** Whether the socket has exceeded its violation budget and should be dropped */
+      disconnect: boolean;
+    };
+
+/** Live state of one token bucket */
+interface Bucket {
+  /** Tokens currently available (fractional while refilling) */
+  tokens: number;
+  /** Time of the last refill (milliseconds) */
+  lastRefill: number;
+}
+
+// ============================================================================
+// --- Payload Caps ---
+// ============================================================================
+
+/**
+ * Check the array lengths of a payload without walking its contents.
+ * Shape errors are left to the message validator; only sizes that could
+ * make a handler do unbounded work are refused here.
+ *
+ * @param event - The event name
+ * @param data - The raw payload
+ * @returns A reason string if the payload is oversized, null otherwise
+ */
+function checkPayloadCaps(event: string, data: unknown): string | null {
+  if (!data || typeof data !== 'object') return null;
+  const payload = data as Record<string, unknown>;
+
+  if (event === 'SEND_BUY_ORDER' && Array.isArray(payload.orders) &&
+      payload.orders.length > MESSAGE_LIMITS.squadSize) {
+    return `${payload.orders.length} buy orders (max ${MESSAGE_LIMITS.squadSize})`;
+  }
+
+  if (event === 'STRATEGY_PLAN' && Array.isArray(payload.plans)) {
+    if (payload.plans.length > MESSAGE_LIMITS.squadSize) {
+      return `${payload.plans.length} soldier plans (max ${MESSAGE_LIMITS.squadSize})`;
+    }
+    for (const plan of payload.plans) {
+      if (Array.isArray(plan) && plan.length > MESSAGE_LIMITS.maxWaypoints) {
+        return `${plan.length} waypoints in one plan (max ${MESSAGE_LIMITS.maxWaypoints})`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// --- SocketRateLimiter Class ---
+// ============================================================================
+
+/**
+ * Token-bucket rate limiter and violation tracker for a single socket.
+ * Create one per connection; it holds no timers, so it needs no cleanup.
+ */
+export class SocketRateLimiter {
+  /** Token bucket per event type (created on first use) */
+  private buckets: Map<string, Bucket> = new Map();
+
+  /** Times of recent violations (milliseconds), oldest first */
+  private violations: number[] = [];
+
+  /** Clock source (injectable for deterministic checks) */
+  private now: () => number;
+
+  /**
+   * Create a limiter for one socket.
+   *
+   * @param now - Clock returning milliseconds (defaults to Date.now)
+   */
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /**
+   * Check one incoming message against the payload caps and its event's
+   * token bucket. Accepted messages consume a token; refused ones count
+   * as a violation.
+   *
+   * @param event - The event name (e.g. 'SEND_COMMAND')
+   * @param data - The raw payload
+   * @returns Whether the message may be handled
+   */
+  check(event: string, data: unknown): RateLimitVerdict {
+    const oversized = checkPayloadCaps(event, data);
+    if (oversized) {
+      return this.violation(`${event} payload too large: ${oversized}`);
+    }
+
+    if (!this.take(event)) {
+      return this.violation(`${event} rate limit exceeded`);
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Refill the event's bucket for the elapsed time and take one token.
+   *
+   * @param event - The event name
+   * @returns True if a token was available
+   */
+  private take(event: string): boolean {
+    const config = EVENT_LIMITS[event] ?? DEFAULT_LIMIT;
+    const now = this.now();
+
+    let bucket = this.buckets.get(event);
+    if (!bucket) {
+      bucket = { tokens: config.capacity, lastRefill: now };
+      this.buckets.set(event, bucket);
+    }
+
+    const elapsed = (now - bucket.lastRefill) / 1000;
+    bucket.tokens = Math.min(config.capacity, bucket.tokens + elapsed * config.refillPerSecond);
+    bucket.lastRefill = now;
+
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Record a violation and decide whether the socket has used up its budget.
+   *
+   * @param reason - Why the message was refused
+   * @returns The refusal verdict
+   */
+  private violation(reason: string): RateLimitVerdict {
+    const now = this.now();
+    this.violations.push(now);
+    while (this.violations.length > 0 && now - this.violations[0] > VIOLATION_WINDOW_MS) {
+      this.violations.shift();
+    }
+
+    return {
+      allowed: false,
+      reason,
+      disconnect: this.violations.length >= MAX_VIOLATIONS,
+    };
+  }
+}
@@ -9,14 +9,34 @@
  *   - SEND_BUY_ORDER → GameRoom
  *   - READY_UP → GameRoom
  *   - STRATEGY_PLAN → GameRoom
+ *   - RESUME_SESSION → re-attach a reconnecting socket to its seat
+ *
+ * Every payload is checked against the shared C2S message schema
+ * (shared/util/MessageValidation.ts): JOIN_QUEUE and READY_UP here, the
+ * map-dependent messages inside the GameRoom. Malformed messages are answered
+ * with INVALID_MESSAGE listing the offending fields.
+ *
+ * Before any of that, each message passes the socket's SocketRateLimiter
+ * (token bucket per event type plus payload array caps). Refused messages
+ * are logged with the player ID; persistent offenders are disconnected.
  *
  * Tracks connected players and their active game rooms. Handles disconnection
- * with a 60-second reconnection window.
+ * with a 60-second reconnection window: each matched player gets a session
+ * token in MATCH_FOUND, and a new socket presenting it in RESUME_SESSION
+ * takes over the old player record, room seat and rate limiter. The tokens
+ * are revoked when the room is destroyed (match over or forfeited).
  */
 
 import type { Server, Socket } from 'socket.io';
+import { randomBytes } from 'crypto';
 import { MatchmakingQueue } from '../matchmaking/MatchmakingQueue.js';
 import { GameRoom } from '../game/GameRoom.js';
+import {
+  validateJoinQueue,
+  validateReadyUp,
+  validateResumeSession,
+} from '../../../shared/util/MessageValidation.js';
+import { SocketRateLimiter } from './RateLimiter.js';
 
 // ============================================================================
 // --- Player Tracking ---
@@ -37,11 +57,22 @@ interface ConnectedPlayer {
   currentRoom: GameRoom | null;
   /** Which player number they are in their room (1 or 2) */
   playerNumber: 1 | 2;
+  /** Flood protection for this player's incoming messages (kept across a resume) */
+  rateLimiter: SocketRateLimiter;
+  /** Token for resuming the current match after a reconnect (null outside a match) */
+  sessionToken: string | null;
 }
 
 /** Map of socket ID → ConnectedPlayer for all active connections */
 const connectedPlayers = new Map<string, ConnectedPlayer>();
 
+/**
+ * Map of session token → ConnectedPlayer for every player seated in a match.
+ * Entries outlive the socket so a reconnecting client can reclaim its seat,
+ * and are removed when the room is destroyed.
+ */
+const sessions = new Map<string, ConnectedPlayer>();
+
 /** Map of room ID → GameRoom for all active game rooms */
 const activeRooms = new Map<string, GameRoom>();
 
@@ -77,9 +108,33 @@ export function setupSocketHandlers(io: Server): void {
       displayName: `Player_${socket.id.slice(0, 4)}`,
       currentRoom: null,
       playerNumber: 1,
+      rateLimiter: new SocketRateLimiter(),
+      sessionToken: null,
     };
     connectedPlayers.set(socket.id, player);
 
+    /**
+     * Register a message handler behind the socket's rate limiter.
+     * Refused messages never reach the handler; a socket that keeps
+     * violating the limits is disconnected.
+     */
+    const on = (event: string, handler: (data: unknown) => void): void => {
+      socket.on(event, (data: unknown) => {
+        const verdict = player.rateLimiter.check(event, data);
+        if (verdict.allowed) {
+          handler(data);
+          return;
+        }
+
+        console.warn(`[Socket] Flood protection: ${player.playerId} (${player.displayName}) — ${verdict.reason}`);
+        if (verdict.disconnect && socket.connected) {
+          console.warn(`[Socket] Disconnecting ${player.playerId} for repeated limit violations`);
+          socket.emit('ERROR', { message: 'Disconnected for sending too many messages' });
+          socket.disconnect(true);
+        }
+      });
+    };
+
     // --- Message Handlers ---
 
     /**
@@ -87,7 +142,13 @@ export function setupSocketHandlers(io: Server): void {
      * Adds them to the matchmaking queue. When two players are queued,
      * the matchmaking callback fires and creates a game room.
      */
-    socket.on('JOIN_QUEUE', () => {
+    on('JOIN_QUEUE', (data: unknown) => {
+      const checked = validateJoinQueue(data);
+      if (!checked.ok) {
+        socket.emit('INVALID_MESSAGE', { messageType: 'JOIN_QUEUE', errors: checked.errors });
+        return;
+      }
+
       console.log(`[Socket] ${player.displayName} joining matchmaking queue`);
 
       /* Don't allow joining the queue if already in a room */
@@ -103,7 +164,7 @@ export function setupSocketHandlers(io: Server): void {
     /**
      * LEAVE_QUEUE: Player wants to stop searching for a match.
      */
-    socket.on('LEAVE_QUEUE', () => {
+    on('LEAVE_QUEUE', () => {
       matchmakingQueue.removePlayer(socket.id);
       socket.emit('QUEUE_LEFT', {});
     });
@@ -112,42 +173,95 @@ export function setupSocketHandlers(io: Server): void {
      * SEND_COMMAND: Player issues a tactical command during LIVE_PHASE.
      * Routes the command to the player's active game room.
      */
-    socket.on('SEND_COMMAND', (data: { command: unknown }) => {
+    on('SEND_COMMAND', (data: unknown) => {
       if (!player.currentRoom) {
         socket.emit('ERROR', { message: 'Not in a match' });
         return;
       }
-      player.currentRoom.handleCommand(player.playerNumber, data.command);
+      player.currentRoom.handleCommand(player.playerNumber, data);
     });
 
     /**
      * SEND_BUY_ORDER: Player purchases equipment during BUY_PHASE.
      * Routes the buy orders to the game room for validation.
      */
-    socket.on('SEND_BUY_ORDER', (data: { orders: unknown[] }) => {
+    on('SEND_BUY_ORDER', (data: unknown) => {
       if (!player.currentRoom) {
         socket.emit('ERROR', { message: 'Not in a match' });
         return;
       }
-      player.currentRoom.handleBuyOrder(player.playerNumber, data.orders);
+      player.currentRoom.handleBuyOrder(player.playerNumber, data);
     });
 
     /**
      * READY_UP: Player signals they're done with the current phase.
      * If both players ready up, the phase may advance early.
      */
-    socket.on('READY_UP', () => {
+    on('READY_UP', (data: unknown) => {
       if (!player.currentRoom) return;
+      const checked = validateReadyUp(data);
+      if (!checked.ok) {
+        socket.emit('INVALID_MESSAGE', { messageType: 'READY_UP', errors: checked.errors });
+        return;
+      }
       player.currentRoom.handleReadyUp(player.playerNumber);
     });
 
     /**
      * STRATEGY_PLAN: Player submits their soldier movement plans.
-     * Stores waypoints that soldiers will follow when LIVE_PHASE starts.
+     * Stores waypoints and stances that soldiers use when LIVE_PHASE starts.
      */
-    socket.on('STRATEGY_PLAN', (data: { plans: unknown }) => {
+    on('STRATEGY_PLAN', (data: unknown) => {
       if (!player.currentRoom) return;
-      player.currentRoom.handleStrategyPlan(player.playerNumber, data.plans);
+      player.currentRoom.handleStrategyPlan(player.playerNumber, data);
+    });
+
+    /**
+     * RESUME_SESSION: A reconnecting client reclaims its seat in a match.
+     * The new socket takes over the old player record's identity and room,
+     * the room cancels the forfeit timer and resends the full match state.
+     */
+    on('RESUME_SESSION', (data: unknown) => {
+      const checked = validateResumeSession(data);
+      if (!checked.ok) {
+        socket.emit('INVALID_MESSAGE', { messageType: 'RESUME_SESSION', errors: checked.errors });
+        return;
+      }
+
+      const token = checked.value.sessionToken;
+      const previous = sessions.get(token);
+      if (!previous || !previous.currentRoom || previous.currentRoom.isDestroyed()) {
+        sessions.delete(token);
+        socket.emit('RESUME_FAILED', { reason: 'Session expired or match already over' });
+        return;
+      }
+      if (player.currentRoom) {
+        socket.emit('RESUME_FAILED', { reason: 'Already in a match' });
+        return;
+      }
+
+      const room = previous.currentRoom;
+
+      /* If the old socket is somehow still open (second tab), cut it loose first */
+      if (previous !== player && previous.socket.connected) {
+        previous.currentRoom = null;
+        previous.sessionToken = null;
+        previous.socket.disconnect(true);
+      }
+
+      matchmakingQueue.removePlayer(socket.id);
+      player.playerId = previous.playerId;
+      player.displayName = previous.displayName;
+      player.currentRoom = room;
+      player.playerNumber = previous.playerNumber;
+      player.sessionToken = token;
+      /* Keep the old socket's buckets and violations, so reconnecting doesn't reset flood protection */
+      player.rateLimiter = previous.rateLimiter;
+      sessions.set(token, player);
+
+      socket.join(room.roomId);
+      room.handleReconnect(player.playerNumber, socket.id);
+      console.log(`[Socket] ${player.playerId} resumed session in ${room.roomId} on socket ${socket.id}`);
     });
 
     /**
@@ -161,7 +275,7 @@ export function setupSocketHandlers(io: Server): void {
       /* Remove from matchmaking queue if they were in it */
       matchmakingQueue.removePlayer(socket.id);
 
-      /* Handle disconnect from active game room */
+      /* Handle disconnect from active game room (the session stays resumable) */
       if (player.currentRoom) {
         player.currentRoom.handleDisconnect(player.playerNumber);
       }
@@ -199,7 +313,7 @@ function createGameRoom(io: Server, player1Id: string, player2Id: string): void
   const roomId = `room_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
   /** Create the game room */
-  const room = new GameRoom(roomId, io, player1Id, player2Id);
+  const room = new GameRoom(roomId, io, player1Id, player2Id, releaseRoom);
   activeRooms.set(roomId, room);
 
   /** Assign players to the room */
@@ -212,14 +326,22 @@ function createGameRoom(io: Server, player1Id: string, player2Id: string): void
   p1.socket.join(roomId);
   p2.socket.join(roomId);
 
+  /** Issue each player a session token for resuming after a disconnect */
+  for (const p of [p1, p2]) {
+    p.sessionToken = randomBytes(24).toString('base64url');
+    sessions.set(p.sessionToken, p);
+  }
+
   /** Notify both players that a match was found */
   p1.socket.emit('MATCH_FOUND', {
     roomId,
+    sessionToken: p1.sessionToken,
     playerNumber: 1,
     opponentName: p2.displayName,
   });
   p2.socket.emit('MATCH_FOUND', {
     roomId,
+    sessionToken: p2.sessionToken,
     playerNumber: 2,
     opponentName: p1.displayName,
   });
@@ -233,6 +355,30 @@ function createGameRoom(io: Server, player1Id: string, player2Id: string): void
   );
 }
 
+/**
+ * Forget a destroyed room: revoke its players' session tokens so a finished
+ * match can't be resumed, and free its players to queue again.
+ *
+ * @param room - The room that was just destroyed
+ */
+function releaseRoom(room: GameRoom): void {
+  activeRooms.delete(room.roomId);
+
+  for (const [token, p] of sessions) {
+    if (p.currentRoom !== room) continue;
+    sessions.delete(token);
+    p.sessionToken = null;
+  }
+
+  for (const p of connectedPlayers.values()) {
+    if (p.currentRoom !== room) continue;
+    p.currentRoom = null;
+    p.sessionToken = null;
+  }
+
+  console.log(`[Socket] Released ${room.roomId}`);
+}
+
 /**
  * Get the count of currently active game rooms.
  * Used for monitoring and health checks.
@@ -91,6 +91,12 @@ export const TIMING = {
    */
   commandDelayMax: 0.8,
 
+  /**
+   * Extra command delay in seconds when the soldier is in active combat.
+   * Orders are harder to hear and act on mid-firefight.
+   */
+  commandCombatExtraDelay: 0.2,
+
   /**
    * Minimum time between successive commands to the same soldier (seconds).
    * Prevents spam-clicking to micromanage soldiers frame-by-frame.
@@ -144,6 +150,178 @@ export const SIMULATION = {
   peripheralPenalty: 0.5,
 } as const;
 
+// ----------------------------------------------------------------------------
+// MOVEMENT MODE CONSTANTS
+// Trade-offs between the cautious MOVE order and the fast, loud RUSH order.
+// Used by both the client and server simulations so they stay in agreement.
+// ----------------------------------------------------------------------------
+
+/**
+ * RUSH order modifiers. A MOVE order applies none of these (all 1.0).
+ *
+ * Rushing gets a soldier to a position faster, but they sprint carelessly:
+ * they shoot worse on the move and are spotted from further away.
+ *
+ * Example: SPD=50 soldier with RIFLE(0.85), no armor, rushing
+ *   -> 200 * 1.0 * 0.85 * 1.0 * 1.3 = 221 px/s (vs 170 px/s on MOVE)
+ */
+export const RUSH = {
+  /** Multiplier on the speed from calculateMovementSpeed() while rushing */
+  speedMultiplier: 1.3,
+
+  /**
+   * Extra hit chance multiplier for a rushing shooter that is still moving.
+   * Stacks with the regular 0.5x moving penalty (0.5 * 0.6 = 0.3x total).
+   */
+  movingAccuracyMultiplier: 0.6,
+
+  /**
+   * Multiplier on the radius at which enemies can detect a rushing soldier.
+   * Sprinting footsteps and exposed movement cancel out part of their stealth.
+   */
+  detectionRadiusMultiplier: 1.4,
+} as const;
+
+// ----------------------------------------------------------------------------
+// STANCE CONSTANTS
+// How each soldier stance (AGGRESSIVE, DEFENSIVE, PASSIVE) shifts detection
+// and reaction. Behavioural differences live in the simulation itself.
+// ----------------------------------------------------------------------------
+
+/**
+ * Per-stance modifiers.
+ *
+ * - detectionMultiplier: scales the soldier's own detection radius
+ * - visibilityMultiplier: scales the radius at which enemies can detect the soldier
+ * - reactionMultiplier: scales the reaction delay before firing at a new target
+ *
+ * AGGRESSIVE soldiers push and chase, so they are easier to spot.
+ * DEFENSIVE soldiers hold an angle: they see further and react fastest.
+ * PASSIVE soldiers keep their heads down: hard to spot, but slow to respond.
+ */
+export const STANCE_MODIFIERS = {
+  AGGRESSIVE: { detectionMultiplier: 1.0, visibilityMultiplier: 1.15, reactionMultiplier: 0.9 },
+  DEFENSIVE: { detectionMultiplier: 1.15, visibilityMultiplier: 1.0, reactionMultiplier: 0.8 },
+  PASSIVE: { detectionMultiplier: 0.9, visibilityMultiplier: 0.8, reactionMultiplier: 1.25 },
+} as const;
+
+// ----------------------------------------------------------------------------
+// COVER CONSTANTS
+// When a cover object (crate, half-wall) protects a soldier.
+// How much it protects is the object's coverStrength (see StatFormulas.ts).
+// ----------------------------------------------------------------------------
+
+/**
+ * Cover geometry rules. A soldier counts as "behind cover" when the line from
+ * the shooter/observer to them crosses a cover object lying within
+ * protectionRange of the soldier. Cover far in front of a soldier does not help.
+ */
+export const COVER = {
+  /** Maximum distance between a soldier and the cover protecting them (pixels) */
+  protectionRange: 60,
+} as const;
+
+// ----------------------------------------------------------------------------
+// WALLBANG CONSTANTS
+// Shooting through thin walls at the last known position of an enemy.
+// A bullet passes when the wall resistance along its path (path length through
+// each wall x the wall material resistance) is within the weapon's penetration.
+// ----------------------------------------------------------------------------
+
+export const WALLBANG = {
+  /** Resistance per pixel of wall by material (unknown materials use 1.0) */
+  materialResistance: {
+    wood: 0.5,
+    sandstone: 1.0,
+    brick: 1.3,
+    concrete: 2.0,
+    metal: 3.0,
+  } as Record<string, number>,
+  /** How long after losing sight a soldier keeps firing at the last known position (seconds) */
+  memorySeconds: 3,
+  /** How far the enemy may have moved from the last known position and still be hit (pixels) */
+  targetRadius: 80,
+  /** Hit chance multiplier for firing blind through a wall */
+  accuracyMultiplier: 0.4,
+  /** Headshot chance multiplier for firing blind through a wall */
+  headshotMultiplier: 0.5,
+} as const;
+
+// ----------------------------------------------------------------------------
+// UTILITY VISIBILITY CONSTANTS
+// Which enemy grenades a player gets told about in multiplayer.
+// Own grenades are always shown; enemy decoys never are (they would give the fake away).
+// ----------------------------------------------------------------------------
+
+export const UTILITY_VISIBILITY = {
+  /** Enemy effects at least this large (radius, pixels) are noticed anywhere on the map */
+  noticeableRadius: 200,
+} as const;
+
+// ----------------------------------------------------------------------------
+// GRENADE THROW CONSTANTS
+// Flight of thrown utility. The landing scatter comes from the thrower's UTL
+// (see calculateThrowScatter); these control travel time and bouncing.
+// ----------------------------------------------------------------------------
+
+export const GRENADE = {
+  /** Ground speed of a thrown grenade along its path (pixels per second) */
+  throwSpeed: 500,
+  /** Bounces off walls before the grenade stops dead at the next wall */
+  maxBounces: 3,
+  /** Share of the remaining travel distance kept after each bounce */
+  bounceRestitution: 0.5,
+} as const;
+
+// ----------------------------------------------------------------------------
+// SOUND CONSTANTS
+// How far noises carry and how precisely enemies can place them.
+// Enemies in earshot get a fuzzed position ping (SOUND_HEARD), never the exact spot.
+// ----------------------------------------------------------------------------
+
+export const SOUND = {
+  /** Footstep radius while walking, before the STL modifier (pixels) */
+  footstepRadius: 200,
+  /** Footstep radius while rushing, before the STL modifier (pixels) */
+  rushFootstepRadius: 400,
+  /** Gunfire radius (pixels) */
+  gunfireRadius: 1000,
+  /** Radius of a grenade being thrown (pixels) */
+  utilityThrowRadius: 250,
+  /** Radius of the bomb being planted (pixels) */
+  plantRadius: 450,
+  /** Radius of the bomb being defused (pixels) */
+  defuseRadius: 450,
+  /** Footsteps are only heard every this many ticks, so moving soldiers don't ping every tick */
+  footstepIntervalTicks: 3,
+  /** Position error of a ping heard right at the edge of the sound radius (pixels) */
+  maxFuzz: 150,
+  /** Position error of a ping heard right next to the source (pixels) */
+  minFuzz: 30,
+  /** How long a ping stays in the listener's state (seconds) */
+  pingDurationSeconds: 2,
+  /** Chance per tick that an active decoy plays a fake gunshot (heard at gunfireRadius) */
+  decoyGunfireChance: 0.3,
+} as const;
+
+// ----------------------------------------------------------------------------
+// BOMB CARRIER CONSTANTS
+// Rules for dropping, picking up and handing over the unplanted bomb.
+// Used by both the client and server simulations so they stay in agreement.
+// ----------------------------------------------------------------------------
+
+/**
+ * Bomb carrier rules. When the carrier dies the bomb drops at their death
+ * position; any living attacker who walks within pickupRadius takes it.
+ */
+export const BOMB = {
+  /** Distance within which a living attacker picks up a dropped bomb (pixels) */
+  pickupRadius: 30,
+
+  /** Maximum distance between carrier and teammate for a GIVE_BOMB hand-off (pixels) */
+  giveRange: 120,
+} as const;
+
 // ----------------------------------------------------------------------------
 // SOLDIER CONSTANTS
 // Stat ranges, leveling limits, and roster constraints for soldiers.
@@ -213,3 +391,15 @@ export const MAP = {
    */
   cellSize: 50,
 } as const;
+
+/**
+ * Temporary pathfinding costs for utility on the ground.
+ * A* adds these to every cell whose centre is inside the area, so routes
+ * bend around fires unless the detour is very long. RUSH orders ignore them.
+ */
+export const PATH_HAZARDS = {
+  /** Extra cost for a cell inside a burning molotov (a cardinal step costs 1) */
+  fireCellCost: 20,
+  /** Extra cost for a cell inside a smoke cloud (0 lets routes go straight through) */
+  smokeCellCost: 2,
+} as const;
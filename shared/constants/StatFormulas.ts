@@ -15,7 +15,8 @@
 //   RCL = Recoil Control (reduces accuracy loss during sustained fire)
 //   CMP = Composure      (maintains performance under pressure)
 //   CLT = Clutch         (bonus performance when last alive)
-//   TWK = Teamwork       (bonus when near allies)
+//   UTL = Utility Usage  (grenade accuracy, flash strength)
+//   TWK = Teamwork       (bonus when near allies, faster radio orders)
 //
 // All stat values range from 1-100 (see SOLDIER constants in GameConstants.ts).
 // ============================================================================
@@ -127,6 +128,26 @@ export function calculateStealthModifier(stl: number): number {
   return 1.0 - stl / 200;
 }
 
+/**
+ * Calculates how far a soldier's footsteps carry, relative to the base radius.
+ *
+ * Formula: 1.2 - stl/125
+ *
+ * This produces a multiplier between 0.4 and 1.2:
+ *   - STL=0:   1.2 - 0/125   = 1.20 (heavy-footed, heard from further away)
+ *   - STL=50:  1.2 - 50/125  = 0.80
+ *   - STL=100: 1.2 - 100/125 = 0.40 (barely audible)
+ *
+ * Applied to SOUND.footstepRadius / SOUND.rushFootstepRadius only;
+ * gunfire, grenades and the bomb are equally loud for everyone.
+ *
+ * @param stl - The soldier's STL (Stealth) stat (0-100)
+ * @returns Footstep radius multiplier between 0.4 and 1.2
+ */
+export function calculateFootstepNoiseModifier(stl: number): number {
+  return 1.2 - stl / 125;
+}
+
 /**
  * Calculates the probability of detecting an enemy on a single simulation tick.
  *
@@ -233,13 +254,14 @@ export function calculateDistanceModifier(distancePixels: number): number {
 /**
  * Calculates the final hit probability after all modifiers are applied.
  *
- * Formula: clamp(baseHit * distanceMod * movingMod * weaponAccMod, 0.05, 0.95)
+ * Formula: clamp(baseHit * distanceMod * movingMod * weaponAccMod * coverMod, 0.05, 0.95)
  *
- * Combines four factors:
+ * Combines five factors:
  * 1. Base hit chance (from soldier ACC stat)
  * 2. Distance modifier (further = harder to hit)
  * 3. Moving penalty (0.5x if moving, 1.0x if stationary)
  * 4. Weapon accuracy modifier (from WeaponData accMod)
+ * 5. Target cover modifier (see calculateCoverHitModifier)
  *
  * The result is clamped to [0.05, 0.95] so there is always:
  *   - At least a 5% chance to hit (lucky shot)
@@ -263,13 +285,15 @@ export function calculateDistanceModifier(distancePixels: number): number {
  * @param distance - Distance to target in pixels
  * @param isMoving - Whether the shooting soldier is currently moving
  * @param weaponAccMod - The weapon's accuracy modifier from WeaponData
+ * @param coverStrength - Strength of the cover protecting the target (0 if none)
  * @returns Final hit probability, clamped to [0.05, 0.95]
  */
 export function calculateFinalHitChance(
   acc: number,
   distance: number,
   isMoving: boolean,
-  weaponAccMod: number
+  weaponAccMod: number,
+  coverStrength: number = 0
 ): number {
   /** Base hit probability from soldier ACC stat */
   const baseHit = calculateBaseHitChance(acc);
@@ -280,7 +304,10 @@ export function calculateFinalHitChance(
   /** Movement penalty: halved accuracy while moving */
   const movingMod = isMoving ? 0.5 : 1.0;
 
-  return clamp(baseHit * distanceMod * movingMod * weaponAccMod, 0.05, 0.95);
+  /** Less of the target's body is exposed behind cover */
+  const coverMod = calculateCoverHitModifier(coverStrength);
+
+  return clamp(baseHit * distanceMod * movingMod * weaponAccMod * coverMod, 0.05, 0.95);
 }
 
 /**
@@ -303,6 +330,169 @@ export function calculateHeadshotChance(acc: number): number {
   return 0.10 + acc / 500;
 }
 
+// ----------------------------------------------------------------------------
+// COMBAT FORMULAS: Wall Penetration
+// Bullets passing through thin walls (wallbangs). Wall resistance is the path
+// length through each wall times its material resistance (see WALLBANG).
+// ----------------------------------------------------------------------------
+
+/**
+ * Calculates the damage multiplier for a bullet passing through walls.
+ *
+ * Formula: 0.75 - (wallResistance / penetration) * 0.5
+ *
+ * Returns 0 if the weapon cannot penetrate (penetration 0, or the walls
+ * resist more than the weapon can punch through). Otherwise the bullet keeps
+ * between 75% (paper-thin wall) and 25% (wall right at the limit) of its damage:
+ *   - RIFLE (45) through 30px sandstone (30):  ~0.42
+ *   - AWP (90) through 30px sandstone (30):    ~0.58
+ *   - AWP (90) through 30px concrete (60):     ~0.42
+ *
+ * @param penetration - The weapon's penetration power (WeaponStats.penetration)
+ * @param wallResistance - Total wall resistance along the bullet path
+ * @returns Damage multiplier, 0 (blocked) or 0.25 to 0.75
+ */
+export function calculateWallbangDamageMultiplier(penetration: number, wallResistance: number): number {
+  if (penetration <= 0 || wallResistance > penetration) return 0;
+  return 0.75 - (wallResistance / penetration) * 0.5;
+}
+
+// ----------------------------------------------------------------------------
+// COMBAT FORMULAS: Cover
+// Partial cover (crates, half-walls) between a shooter and a soldier hugging
+// it. coverStrength comes from MapTypes.CoverObject (0 = none, 1 = full).
+// ----------------------------------------------------------------------------
+
+/**
+ * Calculates the hit chance multiplier against a target behind cover.
+ *
+ * Formula: 1.0 - coverStrength * 0.5
+ *
+ *   - No cover (0.0):     1.00 (fully exposed)
+ *   - Crate (0.4):        0.80
+ *   - Half-wall (0.6):    0.70
+ *   - Full cover (1.0):   0.50 (never more than halved)
+ *
+ * @param coverStrength - Strength of the cover protecting the target (0-1)
+ * @returns Hit chance multiplier, 0.5 to 1.0
+ */
+export function calculateCoverHitModifier(coverStrength: number): number {
+  return 1.0 - clamp(coverStrength, 0, 1) * 0.5;
+}
+
+/**
+ * Calculates the share of non-headshot hits that land on the legs.
+ *
+ * Formula: 0.2 + coverStrength * 0.4
+ *
+ * In the open 20% of body-level hits are leg hits. Behind cover, more of
+ * the shots that connect only clip an exposed leg:
+ *   - No cover (0.0):   0.20
+ *   - Crate (0.4):      0.36
+ *   - Half-wall (0.6):  0.44
+ *
+ * @param coverStrength - Strength of the cover protecting the target (0-1)
+ * @returns Leg share of non-headshot hits, 0.2 to 0.6
+ */
+export function calculateLegHitShare(coverStrength: number): number {
+  return 0.2 + clamp(coverStrength, 0, 1) * 0.4;
+}
+
+/**
+ * Calculates the detection radius multiplier for a soldier behind cover.
+ *
+ * Formula: 1.0 - coverStrength * 0.4 (stationary), 1.0 (moving)
+ *
+ * Cover only conceals a soldier who holds still behind it; anyone moving
+ * is as easy to spot as in the open:
+ *   - Holding behind a crate (0.4):      0.84
+ *   - Holding behind a half-wall (0.6):  0.76
+ *
+ * @param coverStrength - Strength of the cover between observer and target (0-1)
+ * @param isMoving - Whether the target is currently moving
+ * @returns Multiplier on the observer's effective detection radius, 0.6 to 1.0
+ */
+export function calculateCoverConcealment(coverStrength: number, isMoving: boolean): number {
+  if (isMoving) return 1.0;
+  return 1.0 - clamp(coverStrength, 0, 1) * 0.4;
+}
+
+// ----------------------------------------------------------------------------
+// UTILITY FORMULAS: Flashbangs
+// Shared by the client and server utility systems so a flash blinds the same
+// soldiers for the same time on both. Walls fully block a flash; callers skip
+// soldiers without wall line of sight before calling this.
+// ----------------------------------------------------------------------------
+
+/**
+ * Calculates how long a flashbang blinds a soldier.
+ *
+ * Formula: baseDuration * distance * facing * thrower UTL * smoke
+ *   - distance: 1.0 at the centre, 0.5 at the edge of the radius
+ *   - facing:   1.0 looking within 60° of the flash, falling linearly
+ *               to 0.2 when facing directly away
+ *   - UTL:      0.75 + UTL / 200 (0.75 at UTL 0, 1.0 at 50, 1.25 at 100)
+ *   - smoke:    0.4 when a smoke cloud sits between the soldier and the flash
+ *
+ * Examples (2s flash, thrower UTL 50, no smoke):
+ *   - Facing it, 100px away (400px radius):     ~1.75s
+ *   - Side-on (90°), 100px away:                1.4s
+ *   - Back turned, at the edge of the radius:   0.2s
+ *
+ * @param baseDuration - Full blind duration of the flash (seconds)
+ * @param distance - Distance from the soldier to the flash (pixels)
+ * @param radius - Flash radius (pixels)
+ * @param facingOffset - Angle between the soldier's facing and the flash (radians, 0 to PI)
+ * @param throwerUtl - The thrower's Utility Usage stat (1-100)
+ * @param smokeOccluded - Whether a smoke cloud blocks the view of the flash
+ * @returns Blind duration in seconds, 0 outside the radius
+ */
+export function calculateFlashBlindDuration(
+  baseDuration: number,
+  distance: number,
+  radius: number,
+  facingOffset: number,
+  throwerUtl: number,
+  smokeOccluded: boolean
+): number {
+  if (distance > radius) return 0;
+
+  const distanceFactor = 0.5 + 0.5 * (1 - distance / radius);
+
+  const fullFacing = Math.PI / 3;
+  const facing = clamp(Math.abs(facingOffset), 0, Math.PI);
+  const facingFactor = facing <= fullFacing
+    ? 1.0
+    : 1.0 - 0.8 * (facing - fullFacing) / (Math.PI - fullFacing);
+
+  const utlFactor = 0.75 + clamp(throwerUtl, 0, 100) / 200;
+  const smokeFactor = smokeOccluded ? 0.4 : 1.0;
+
+  return baseDuration * distanceFactor * facingFactor * utlFactor * smokeFactor;
+}
+
+// ----------------------------------------------------------------------------
+// UTILITY FORMULAS: Throwing
+// ----------------------------------------------------------------------------
+
+/**
+ * Calculates how far a thrown grenade may land from where it was aimed.
+ *
+ * Formula: throwDistance * (0.25 - UTL * 0.002)
+ *
+ * The scatter is a share of the throw distance, so long throws miss by more:
+ *   - UTL 0:   25% of the distance (600px throw: up to 150px off)
+ *   - UTL 50:  15% of the distance (600px throw: up to 90px off)
+ *   - UTL 100:  5% of the distance (600px throw: up to 30px off)
+ *
+ * @param utl - The thrower's Utility Usage stat (1-100)
+ * @param throwDistance - Distance from the thrower to the aim point (pixels)
+ * @returns Maximum landing offset from the aim point in pixels
+ */
+export function calculateThrowScatter(utl: number, throwDistance: number): number {
+  return throwDistance * (0.25 - clamp(utl, 0, 100) * 0.002);
+}
+
 // ----------------------------------------------------------------------------
 // COMBAT FORMULAS: Spray Control and Situational Modifiers
 // These handle sustained fire accuracy decay and psychological factors
@@ -453,6 +643,24 @@ export function calculateTeamworkModifier(twk: number, allyWithin300px: boolean)
   return 1.0;
 }
 
+/**
+ * Calculates the multiplier applied to a soldier's radio command delay.
+ * Soldiers who work well in a team pick up and act on orders faster.
+ *
+ * Formula: 1.2 - twk / 250
+ *
+ * Examples:
+ *   - TWK=1:   1.2 - 0.004 = 1.196 (orders take ~20% longer)
+ *   - TWK=50:  1.2 - 0.200 = 1.000 (baseline delay)
+ *   - TWK=100: 1.2 - 0.400 = 0.800 (orders land 20% faster)
+ *
+ * @param twk - The soldier's TWK (Teamwork) stat (1-100)
+ * @returns Command delay multiplier (0.8-1.2)
+ */
+export function calculateCommandDelayModifier(twk: number): number {
+  return 1.2 - clamp(twk, 0, 100) / 250;
+}
+
 // ----------------------------------------------------------------------------
 // DAMAGE CALCULATION
 // The final damage formula combines weapon stats, hit location,
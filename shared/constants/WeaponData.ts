@@ -44,6 +44,7 @@ export const WEAPONS: Record<WeaponId, WeaponStats> = {
     speedModifier: 0.95,        // Very light, minimal speed penalty
     killReward: 300,            // Standard kill reward
     rangeRating: 'MEDIUM',      // Effective at moderate distances
+    penetration: 0,             // Cannot shoot through walls
   },
 
   /**
@@ -64,6 +65,7 @@ export const WEAPONS: Record<WeaponId, WeaponStats> = {
     speedModifier: 0.90,        // Light weapon, decent mobility
     killReward: 600,            // Double standard reward (high risk close-range play)
     rangeRating: 'SHORT',       // Only effective in close quarters
+    penetration: 0,             // Cannot shoot through walls
   },
 
   /**
@@ -84,6 +86,7 @@ export const WEAPONS: Record<WeaponId, WeaponStats> = {
     speedModifier: 0.85,        // Moderate weight, noticeable speed reduction
     killReward: 300,            // Standard kill reward
     rangeRating: 'LONG',        // Effective at long range
+    penetration: 45,            // Punches through thin sandstone and brick
   },
 
   /**
@@ -105,6 +108,7 @@ export const WEAPONS: Record<WeaponId, WeaponStats> = {
     speedModifier: 0.78,        // Heaviest weapon, severe speed penalty
     killReward: 100,            // Lowest reward (weapon is already very powerful)
     rangeRating: 'VERY_LONG',   // Maximum effective range
+    penetration: 90,            // Punches through thin concrete
   },
 
   /**
@@ -126,6 +130,7 @@ export const WEAPONS: Record<WeaponId, WeaponStats> = {
     speedModifier: 0.90,        // Moderate weight, decent mobility for rushing
     killReward: 900,            // Highest reward (extreme risk required to use)
     rangeRating: 'SHORT',       // Only effective at close range (VERY_SHORT not in type)
+    penetration: 0,             // Pellets stop at any wall
   },
 
   /**
@@ -146,6 +151,7 @@ export const WEAPONS: Record<WeaponId, WeaponStats> = {
     speedModifier: 0.80,        // Very heavy, significant speed penalty
     killReward: 300,            // Standard kill reward
     rangeRating: 'LONG',        // Effective at long range (belt-fed stability)
+    penetration: 60,            // Punches through thin sandstone and brick
   },
 } as const;
 
@@ -0,0 +1,33 @@
+/**
+ * @file MapRegistry.ts
+ * @description Lookup of playable maps by their stable ID.
+ *
+ * Map IDs are what gets stored outside the code (replay files, match
+ * configs), so they must never change once a map ships. The display name
+ * lives on the MapData itself.
+ */
+
+import type { MapData } from '../types/MapTypes';
+import { BAZAAR_MAP } from './bazaar';
+
+// ============================================================================
+// --- Registry ---
+// ============================================================================
+
+/** Every playable map, keyed by map ID */
+export const MAPS: Record<string, MapData> = {
+  bazaar: BAZAAR_MAP,
+};
+
+/** Map every match is played on until map selection exists */
+export const DEFAULT_MAP_ID = 'bazaar';
+
+/**
+ * Look up a map by ID.
+ *
+ * @param mapId - Stable map ID (e.g. 'bazaar')
+ * @returns The map data, or null if no map has that ID
+ */
+export function getMap(mapId: string): MapData | null {
+  return Object.prototype.hasOwnProperty.call(MAPS, mapId) ? MAPS[mapId] : null;
+}
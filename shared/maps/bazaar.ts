@@ -31,7 +31,7 @@
  * @see MapData type in shared/types/MapTypes.ts
  */
 
-import type { MapData } from '@shared/types/MapTypes';
+import type { MapData } from '../types/MapTypes';
 
 // ============================================================================
 // --- Bazaar Map Data ---
@@ -217,37 +217,37 @@ export const BAZAAR_MAP: MapData = {
   // ==========================================================================
   cover: [
     // --- A Site cover ---
-    { x: 1850, z: 250, width: 60, height: 60, elevation: 50, destructible: true, health: 100 },
-    { x: 1700, z: 350, width: 40, height: 40, elevation: 50, destructible: true, health: 80 },
-    { x: 2050, z: 380, width: 50, height: 50, elevation: 50, destructible: false, health: 100 },
+    { x: 1850, z: 250, width: 60, height: 60, elevation: 50, destructible: true, health: 100, coverStrength: 0.4 },
+    { x: 1700, z: 350, width: 40, height: 40, elevation: 50, destructible: true, health: 80, coverStrength: 0.3 },
+    { x: 2050, z: 380, width: 50, height: 50, elevation: 50, destructible: false, health: 100, coverStrength: 0.6 },
 
     // --- A Long cover ---
-    { x: 600, z: 280, width: 70, height: 40, elevation: 50, destructible: true, health: 100 },
-    { x: 1100, z: 300, width: 60, height: 40, elevation: 50, destructible: false, health: 100 },
+    { x: 600, z: 280, width: 70, height: 40, elevation: 50, destructible: true, health: 100, coverStrength: 0.4 },
+    { x: 1100, z: 300, width: 60, height: 40, elevation: 50, destructible: false, health: 100, coverStrength: 0.6 },
 
     // --- Mid cover ---
-    { x: 650, z: 950, width: 50, height: 50, elevation: 50, destructible: true, health: 100 },
-    { x: 1200, z: 980, width: 40, height: 40, elevation: 50, destructible: false, health: 100 },
-    { x: 1450, z: 900, width: 35, height: 35, elevation: 50, destructible: true, health: 60 },
-    { x: 2000, z: 1000, width: 60, height: 40, elevation: 50, destructible: false, health: 100 },
+    { x: 650, z: 950, width: 50, height: 50, elevation: 50, destructible: true, health: 100, coverStrength: 0.4 },
+    { x: 1200, z: 980, width: 40, height: 40, elevation: 50, destructible: false, health: 100, coverStrength: 0.6 },
+    { x: 1450, z: 900, width: 35, height: 35, elevation: 50, destructible: true, health: 60, coverStrength: 0.3 },
+    { x: 2000, z: 1000, width: 60, height: 40, elevation: 50, destructible: false, health: 100, coverStrength: 0.6 },
 
     // --- B Tunnels cover ---
-    { x: 500, z: 1650, width: 50, height: 50, elevation: 50, destructible: true, health: 80 },
-    { x: 900, z: 1700, width: 60, height: 40, elevation: 50, destructible: false, health: 100 },
+    { x: 500, z: 1650, width: 50, height: 50, elevation: 50, destructible: true, health: 80, coverStrength: 0.4 },
+    { x: 900, z: 1700, width: 60, height: 40, elevation: 50, destructible: false, health: 100, coverStrength: 0.6 },
 
     // --- B Site cover ---
-    { x: 1900, z: 1650, width: 60, height: 60, elevation: 50, destructible: true, health: 100 },
-    { x: 1750, z: 1750, width: 40, height: 40, elevation: 50, destructible: true, health: 80 },
-    { x: 2050, z: 1580, width: 50, height: 30, elevation: 50, destructible: false, health: 100 },
+    { x: 1900, z: 1650, width: 60, height: 60, elevation: 50, destructible: true, health: 100, coverStrength: 0.4 },
+    { x: 1750, z: 1750, width: 40, height: 40, elevation: 50, destructible: true, health: 80, coverStrength: 0.3 },
+    { x: 2050, z: 1580, width: 50, height: 30, elevation: 50, destructible: false, health: 100, coverStrength: 0.6 },
 
     // --- CT Connector cover ---
-    { x: 2350, z: 800, width: 50, height: 50, elevation: 50, destructible: true, health: 100 },
-    { x: 2350, z: 1200, width: 45, height: 45, elevation: 50, destructible: true, health: 80 },
+    { x: 2350, z: 800, width: 50, height: 50, elevation: 50, destructible: true, health: 100, coverStrength: 0.4 },
+    { x: 2350, z: 1200, width: 45, height: 45, elevation: 50, destructible: true, health: 80, coverStrength: 0.4 },
   ],
 
   /**
-   * Navigation grid - generated at runtime by the movement system.
-   * Empty array here since the MovementSystem generates it from walls.
+   * Navigation grid - generated at runtime by the pathfinder.
+   * Empty array here since Pathfinding generates it from walls.
    */
   navGrid: [],
 };
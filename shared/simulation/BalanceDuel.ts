@@ -0,0 +1,386 @@
+/**
+ * @file BalanceDuel.ts
+ * @description Isolated 1v1 duels for balance testing.
+ *
+ * A duel is two soldiers who have just spotted each other at a fixed
+ * distance, each with a weapon, armor and optional helmet. It is resolved
+ * with the same pipeline as Simulation.resolveShot, tick by tick:
+ *
+ *   - On the first tick both acquire their target and roll a reaction delay
+ *     (REA stat, scaled by stance); the delay counts down on later ticks
+ *   - Once the delay has run out a soldier fires one shot per tick (the
+ *     simulation ignores weapon fire rate), with spray, composure, clutch
+ *     and teamwork modifiers, then rolls hit location and damage
+ *   - Who fires first within a tick is a coin flip, so neither seat is
+ *     favoured (in the Simulation player 1 always resolves first)
+ *
+ * Movement, detection, utility and walls are left out: the duel measures
+ * the stat formulas and weapon/armor tables alone.
+ *
+ * Usage (see scripts/balanceSim.ts):
+ *   const rng = new SeededRandom(1);
+ *   const tally = runDuels({ a, b, distance: 400 }, 1000, rng);
+ *   tally.summary().winRateA;
+ */
+
+import {
+  calculateReactionTime,
+  calculateFinalHitChance,
+  calculateSprayAccuracy,
+  calculateComposureModifier,
+  calculateClutchModifier,
+  calculateTeamworkModifier,
+  calculateHeadshotChance,
+  calculateLegHitShare,
+  calculateDamage,
+} from '../constants/StatFormulas';
+import { WEAPONS, ARMOR } from '../constants/WeaponData';
+import { SOLDIER, STANCE_MODIFIERS } from '../constants/GameConstants';
+import { WeaponId, ArmorType } from '../types/WeaponTypes';
+import type { SeededRandom } from '../util/RandomUtils';
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** The 10 core combat stats, in the order the Simulation lists them */
+export const DUEL_STAT_KEYS = ['ACC', 'REA', 'SPD', 'STL', 'AWR', 'RCL', 'CMP', 'CLT', 'UTL', 'TWK'] as const;
+
+/** Simulation tick rate in milliseconds (same as Simulation.ts) */
+const TICK_RATE_MS = 200;
+
+/** A duel nobody has won after this many ticks (30 seconds) is a draw */
+const DUEL_TIMEOUT_TICKS = 150;
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** One of the core combat stats */
+export type DuelStatKey = typeof DUEL_STAT_KEYS[number];
+
+/** A soldier's combat stats (same shape as the Simulation's soldier stats) */
+export type DuelStats = Record<DuelStatKey, number>;
+
+/** One side of a duel */
+export interface DuelFighter {
+  /** Combat stats */
+  stats: DuelStats;
+  /** Weapon carried */
+  weapon: WeaponId;
+  /** Body armor worn, if any */
+  armor: ArmorType | null;
+  /** Whether a helmet is worn */
+  helmet: boolean;
+  /** Stance (default DEFENSIVE, the Simulation's fallback) */
+  stance?: keyof typeof STANCE_MODIFIERS;
+  /** Whether the soldier is moving while shooting (default false) */
+  moving?: boolean;
+  /** Strength of the cover protecting this soldier, 0-1 (default 0) */
+  cover?: number;
+}
+
+/** A duel to resolve */
+export interface DuelSetup {
+  a: DuelFighter;
+  b: DuelFighter;
+  /** Distance between the two soldiers (pixels) */
+  distance: number;
+  /** Living teammates each soldier still has (default 0, a true 1v1) */
+  alliesAlive?: number;
+  /** Whether each soldier has a teammate within teamwork range (default false) */
+  allyNearby?: boolean;
+}
+
+/** Outcome of a single duel */
+export interface DuelResult {
+  /** Who won, or null if the duel timed out */
+  winner: 'A' | 'B' | null;
+  /** Ticks from spotting each other to the kill (or the timeout) */
+  ticks: number;
+  /** Shots fired by each side */
+  shots: { a: number; b: number };
+  /** Shots that connected, per side */
+  hits: { a: number; b: number };
+  /** Whether the killing shot was a headshot */
+  headshotKill: boolean;
+}
+
+/** Totals over many duels of one setup */
+export interface DuelSummary {
+  trials: number;
+  winsA: number;
+  winsB: number;
+  draws: number;
+  /** A's share of the duels, counting a draw as half a win */
+  winRateA: number;
+  /** Share of decisive duels ended by a headshot */
+  headshotKillRate: number;
+  /** Share of A's shots that hit */
+  hitRateA: number;
+  /** Share of B's shots that hit */
+  hitRateB: number;
+  /** Time to kill of decisive duels, in milliseconds */
+  ttkMs: { mean: number; p10: number; p50: number; p90: number };
+}
+
+/** Mutable per-fighter state during a duel */
+interface Combatant {
+  fighter: DuelFighter;
+  health: number;
+  reactionTimer: number;
+  shotsFired: number;
+  hits: number;
+}
+
+// ============================================================================
+// --- Duel ---
+// ============================================================================
+
+/**
+ * Resolve one duel.
+ *
+ * @param setup - The two fighters and the engagement
+ * @param rng - Random source (advanced by the duel)
+ */
+export function runDuel(setup: DuelSetup, rng: SeededRandom): DuelResult {
+  const a = createCombatant(setup.a, rng);
+  const b = createCombatant(setup.b, rng);
+  const dt = TICK_RATE_MS / 1000;
+
+  /* Tick 1 is the tick they spot each other; the reaction delay starts counting down after it */
+  for (let tick = 1; tick <= DUEL_TIMEOUT_TICKS; tick++) {
+    if (tick > 1) {
+      a.reactionTimer = Math.max(0, a.reactionTimer - dt);
+      b.reactionTimer = Math.max(0, b.reactionTimer - dt);
+    }
+
+    const order: [Combatant, Combatant][] = rng.next() < 0.5 ? [[a, b], [b, a]] : [[b, a], [a, b]];
+    for (const [shooter, target] of order) {
+      const hit = fireShot(shooter, target, setup, rng);
+      if (hit === null || target.health > 0) continue;
+
+      return {
+        winner: shooter === a ? 'A' : 'B',
+        ticks: tick - 1,
+        shots: { a: a.shotsFired, b: b.shotsFired },
+        hits: { a: a.hits, b: b.hits },
+        headshotKill: hit === 'head',
+      };
+    }
+  }
+
+  return {
+    winner: null,
+    ticks: DUEL_TIMEOUT_TICKS,
+    shots: { a: a.shotsFired, b: b.shotsFired },
+    hits: { a: a.hits, b: b.hits },
+    headshotKill: false,
+  };
+}
+
+/**
+ * Resolve many duels of the same setup.
+ *
+ * @param setup - The two fighters and the engagement
+ * @param trials - Number of duels
+ * @param rng - Random source (advanced by every duel)
+ */
+export function runDuels(setup: DuelSetup, trials: number, rng: SeededRandom): DuelTally {
+  const tally = new DuelTally();
+  for (let i = 0; i < trials; i++) {
+    tally.add(runDuel(setup, rng));
+  }
+  return tally;
+}
+
+/** Set a soldier up at the moment they spot their opponent. */
+function createCombatant(fighter: DuelFighter, rng: SeededRandom): Combatant {
+  const stance = STANCE_MODIFIERS[fighter.stance ?? 'DEFENSIVE'];
+  const reactionMs = calculateReactionTime(fighter.stats.REA, () => rng.next());
+  return {
+    fighter,
+    health: SOLDIER.maxHealth,
+    reactionTimer: (reactionMs / 1000) * stance.reactionMultiplier,
+    shotsFired: 0,
+    hits: 0,
+  };
+}
+
+/**
+ * Fire one shot if the shooter is ready (mirrors Simulation.resolveShot).
+ *
+ * @returns Where the shot hit, or null if it was not fired or missed
+ */
+function fireShot(
+  shooter: Combatant,
+  target: Combatant,
+  setup: DuelSetup,
+  rng: SeededRandom
+): 'head' | 'body' | 'legs' | null {
+  if (shooter.reactionTimer > 0 || shooter.health <= 0) return null;
+
+  shooter.shotsFired++;
+
+  const { stats, weapon } = shooter.fighter;
+  const alliesAlive = setup.alliesAlive ?? 0;
+  const coverStrength = target.fighter.cover ?? 0;
+
+  let hitChance = calculateFinalHitChance(
+    stats.ACC,
+    setup.distance,
+    shooter.fighter.moving ?? false,
+    WEAPONS[weapon].accuracyModifier,
+    coverStrength
+  );
+  if (shooter.shotsFired > 1) {
+    hitChance = calculateSprayAccuracy(hitChance, shooter.shotsFired, stats.RCL);
+  }
+  hitChance *= calculateComposureModifier(stats.CMP, shooter.health, 1, alliesAlive);
+  hitChance *= calculateClutchModifier(stats.CLT, alliesAlive);
+  hitChance *= calculateTeamworkModifier(stats.TWK, setup.allyNearby ?? false);
+  hitChance = Math.max(0.02, Math.min(0.98, hitChance));
+
+  if (rng.next() >= hitChance) return null;
+  shooter.hits++;
+
+  /* Hit location (cover shifts body hits toward the exposed legs) */
+  const headshotChance = calculateHeadshotChance(stats.ACC);
+  const effectiveHsChance = shooter.shotsFired > 1 ? headshotChance * 0.7 : headshotChance;
+  const bodyShare = 1 - calculateLegHitShare(coverStrength);
+  const locationRoll = rng.next();
+  let hitLocation: 'head' | 'body' | 'legs';
+  if (locationRoll < effectiveHsChance) {
+    hitLocation = 'head';
+  } else if (locationRoll < effectiveHsChance + (1 - effectiveHsChance) * bodyShare) {
+    hitLocation = 'body';
+  } else {
+    hitLocation = 'legs';
+  }
+
+  const weaponStats = WEAPONS[weapon];
+  const armor = target.fighter.armor ? ARMOR[target.fighter.armor] : null;
+  target.health -= calculateDamage(
+    weaponStats.bodyDamage,
+    weaponStats.headshotMultiplier,
+    hitLocation,
+    armor ? armor.bodyReduction : 0,
+    armor ? armor.legReduction : 0,
+    target.fighter.helmet,
+    weapon === WeaponId.AWP
+  );
+  return hitLocation;
+}
+
+// ============================================================================
+// --- Tally ---
+// ============================================================================
+
+/**
+ * Accumulates duel results. Times to kill are kept as a per-tick histogram,
+ * so tallies of different setups can be merged and still give exact
+ * percentiles.
+ */
+export class DuelTally {
+  winsA = 0;
+  winsB = 0;
+  draws = 0;
+  headshotKills = 0;
+  shotsA = 0;
+  shotsB = 0;
+  hitsA = 0;
+  hitsB = 0;
+  /** Decisive duels by time to kill, indexed by tick */
+  readonly ttkHistogram: number[] = [];
+
+  /** Total duels tallied */
+  get trials(): number {
+    return this.winsA + this.winsB + this.draws;
+  }
+
+  /** Add one duel result. */
+  add(result: DuelResult): void {
+    this.shotsA += result.shots.a;
+    this.shotsB += result.shots.b;
+    this.hitsA += result.hits.a;
+    this.hitsB += result.hits.b;
+
+    if (result.winner === null) {
+      this.draws++;
+      return;
+    }
+    if (result.winner === 'A') this.winsA++;
+    else this.winsB++;
+    if (result.headshotKill) this.headshotKills++;
+    this.ttkHistogram[result.ticks] = (this.ttkHistogram[result.ticks] ?? 0) + 1;
+  }
+
+  /** Add every duel of another tally. */
+  merge(other: DuelTally): void {
+    this.winsA += other.winsA;
+    this.winsB += other.winsB;
+    this.draws += other.draws;
+    this.headshotKills += other.headshotKills;
+    this.shotsA += other.shotsA;
+    this.shotsB += other.shotsB;
+    this.hitsA += other.hitsA;
+    this.hitsB += other.hitsB;
+    other.ttkHistogram.forEach((count, tick) => {
+      this.ttkHistogram[tick] = (this.ttkHistogram[tick] ?? 0) + (count ?? 0);
+    });
+  }
+
+  /** Win rate, hit rates and time-to-kill percentiles of the tallied duels. */
+  summary(): DuelSummary {
+    const trials = this.trials;
+    const decisive = this.winsA + this.winsB;
+    let ttkTotal = 0;
+    this.ttkHistogram.forEach((count, tick) => {
+      ttkTotal += (count ?? 0) * tick * TICK_RATE_MS;
+    });
+
+    return {
+      trials,
+      winsA: this.winsA,
+      winsB: this.winsB,
+      draws: this.draws,
+      winRateA: trials > 0 ? (this.winsA + this.draws / 2) / trials : 0,
+      headshotKillRate: decisive > 0 ? this.headshotKills / decisive : 0,
+      hitRateA: this.shotsA > 0 ? this.hitsA / this.shotsA : 0,
+      hitRateB: this.shotsB > 0 ? this.hitsB / this.shotsB : 0,
+      ttkMs: {
+        mean: decisive > 0 ? ttkTotal / decisive : 0,
+        p10: this.ttkPercentile(0.1),
+        p50: this.ttkPercentile(0.5),
+        p90: this.ttkPercentile(0.9),
+      },
+    };
+  }
+
+  /** Decisive duels per time to kill (ms), fastest first, leaving out times nobody died at. */
+  ttkDistribution(): { ttkMs: number; count: number }[] {
+    const buckets: { ttkMs: number; count: number }[] = [];
+    this.ttkHistogram.forEach((count, tick) => {
+      if (count) buckets.push({ ttkMs: tick * TICK_RATE_MS, count });
+    });
+    return buckets;
+  }
+
+  /**
+   * Time to kill (ms) below which the given share of decisive duels ended.
+   *
+   * @param fraction - Share of duels, 0-1
+   */
+  ttkPercentile(fraction: number): number {
+    const decisive = this.winsA + this.winsB;
+    if (decisive === 0) return 0;
+
+    const rank = Math.max(1, Math.ceil(fraction * decisive));
+    let seen = 0;
+    for (let tick = 0; tick < this.ttkHistogram.length; tick++) {
+      seen += this.ttkHistogram[tick] ?? 0;
+      if (seen >= rank) return tick * TICK_RATE_MS;
+    }
+    return (this.ttkHistogram.length - 1) * TICK_RATE_MS;
+  }
+}
@@ -0,0 +1,813 @@
+/**
+ * @file BotAI.ts
+ * @description Bot commander that plays a squad through the simulation engine.
+ *
+ * Plays player 2 in single-player, and stands in for a player who dropped
+ * out of a multiplayer match: while they are inside the reconnect window,
+ * GameRoom hands their squad to a bot so the opponent does not get free
+ * rounds against five idle soldiers.
+ *
+ * DESIGN:
+ *   - Each soldier has a BotSoldierState tracking its current objective
+ *   - Attackers: advance through a staging point, hold, then the bomb
+ *     carrier goes on to plant; if the carrier dies, the nearest soldier
+ *     fetches the dropped bomb and takes it in; after the plant the squad
+ *     falls back around the bomb
+ *   - Defenders: split across sites, hold key angles, rotate on contact;
+ *     once the bomb is down, the nearest soldier goes to defuse it
+ *   - Basic buys from the squad's own money (full buy / force / save)
+ *   - A strategy plan sending each soldier to its preset position, from
+ *     one of a few named plans per side (BotStrategy; split / 2-1-2 by default)
+ *
+ * The bot reads only its player's fog-of-war filtered state (no wallhacks),
+ * and its orders go through Simulation.executeBotCommand(), so movement
+ * uses the engine's A*. Repositioning offsets come from a seeded PRNG, so a
+ * bot's decisions are as reproducible as the simulation itself.
+ *
+ * Usage (see GameRoom.ts, HeadlessMatch.ts and client Game.ts):
+ *   const bot = new BotAI(simulation, playerNumber, seed);   // or seed, { attack: 'RUSH_B', defense: 'STACK_A' }
+ *   bot.planBuys(money, side, loadouts)   -> BuyOrder[]  (BUY_PHASE)
+ *   bot.planStrategy(side)                -> plans       (STRATEGY_PHASE)
+ *   bot.initializeRound(side)                            (LIVE_PHASE start)
+ *   bot.update(simulation.getFilteredState(playerNumber)) (every sim tick)
+ */
+
+import { SeededRandom } from '../util/RandomUtils';
+import { distance as vecDistance } from '../util/MathUtils';
+import { WEAPONS, ARMOR, HELMET_COST, DEFUSE_KIT_COST } from '../constants/WeaponData';
+import { WeaponId, ArmorType, type UtilityType } from '../types/WeaponTypes';
+import type { BuyOrder } from '../types/MessageTypes';
+import type { Simulation, FilteredGameState, SoldierLoadout } from './Simulation';
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** Position in the game world */
+interface Position {
+  x: number;
+  z: number;
+}
+
+/** Which side the bot is playing this round */
+type Side = 'ATTACKER' | 'DEFENDER';
+
+/** Named attacker plans (see ATTACKER_PLANS) */
+export type BotAttackPlan = 'SPLIT' | 'RUSH_A' | 'RUSH_B';
+
+/** Named defender setups (see DEFENDER_PLANS) */
+export type BotDefensePlan = 'SPREAD' | 'STACK_A' | 'STACK_B';
+
+/** Which plan a bot plays on each side */
+export interface BotStrategy {
+  /** Plan when attacking */
+  attack: BotAttackPlan;
+  /** Setup when defending */
+  defense: BotDefensePlan;
+}
+
+/** One of the bot's own soldiers, as seen in its filtered state */
+type BotSoldierView = FilteredGameState['ownSoldiers'][number];
+
+/**
+ * Possible states for an individual bot-controlled soldier.
+ */
+enum BotSoldierPhase {
+  /** Waiting at spawn — not yet given an objective */
+  IDLE = 'IDLE',
+  /** Moving toward an assigned staging point or objective */
+  MOVING_TO_OBJECTIVE = 'MOVING_TO_OBJECTIVE',
+  /** Arrived at objective, holding an angle and watching for enemies */
+  HOLDING_POSITION = 'HOLDING_POSITION',
+  /** Detected an enemy, stopping to engage in combat */
+  ENGAGING = 'ENGAGING',
+  /** (Attacker only) Moving to bomb plant zone */
+  MOVING_TO_PLANT = 'MOVING_TO_PLANT',
+  /** (Defender only) Rotating to help a teammate who called contact */
+  ROTATING = 'ROTATING',
+  /** (Attacker only) Walking to pick up the dropped bomb */
+  RECOVERING_BOMB = 'RECOVERING_BOMB',
+  /** (Defender only) Walking to the planted bomb to defuse it */
+  RETAKING = 'RETAKING',
+}
+
+/** Per-soldier state tracked by the bot */
+interface BotSoldierState {
+  /** Current AI phase for this soldier */
+  phase: BotSoldierPhase;
+  /** Assigned target position (objective, staging point, etc.) */
+  targetPosition: Position | null;
+  /** Which bomb site this soldier is assigned to ('A', 'B' or 'MID') */
+  assignedSite: string;
+  /** How long the soldier has been holding position (in ticks) */
+  holdTicks: number;
+  /** Whether this soldier has been given initial orders this round */
+  initialized: boolean;
+  /** Tick when the soldier last changed phase (prevents rapid flipping) */
+  lastPhaseChangeTick: number;
+}
+
+// ============================================================================
+// --- Preset Positions ---
+// ============================================================================
+
+/**
+ * Strategic positions on the Bazaar map (hand-placed coordinates).
+ */
+const MAP_POSITIONS = {
+  /** Attacker staging points — where T soldiers group before pushing */
+  attackerStaging: {
+    aLong: { x: 700, z: 300 },
+    aShort: { x: 1400, z: 400 },
+    mid: { x: 1200, z: 1000 },
+    bTunnels: { x: 1000, z: 1700 },
+    bShort: { x: 1500, z: 1650 },
+  },
+
+  /** Defender hold positions — angles defenders watch from */
+  defenderHold: {
+    aSiteDefault: { x: 2000, z: 300 },
+    aLong: { x: 1700, z: 250 },
+    midWindow: { x: 1850, z: 820 },
+    bSiteDefault: { x: 1950, z: 1650 },
+    bEntrance: { x: 1700, z: 1600 },
+  },
+
+  /** Bomb plant positions — centers of plant zones */
+  plantZones: {
+    A: { x: 1950, z: 325 },
+    B: { x: 1950, z: 1675 },
+  },
+};
+
+/**
+ * Attacker plans: staging point and target site per soldier (index 0
+ * carries the bomb, so its site is where the plant goes).
+ *   SPLIT  — 2 through A, 1 mid, 2 through B (default)
+ *   RUSH_A — 4 through A, mid player lurks
+ *   RUSH_B — 4 through B, mid player lurks
+ */
+const ATTACKER_PLANS: Record<BotAttackPlan, { staging: Position; site: string }[]> = {
+  SPLIT: [
+    { staging: MAP_POSITIONS.attackerStaging.aLong, site: 'A' },
+    { staging: MAP_POSITIONS.attackerStaging.aShort, site: 'A' },
+    { staging: MAP_POSITIONS.attackerStaging.mid, site: 'MID' },
+    { staging: MAP_POSITIONS.attackerStaging.bTunnels, site: 'B' },
+    { staging: MAP_POSITIONS.attackerStaging.bShort, site: 'B' },
+  ],
+  RUSH_A: [
+    { staging: MAP_POSITIONS.attackerStaging.aShort, site: 'A' },
+    { staging: MAP_POSITIONS.attackerStaging.aLong, site: 'A' },
+    { staging: MAP_POSITIONS.attackerStaging.mid, site: 'MID' },
+    { staging: MAP_POSITIONS.attackerStaging.aLong, site: 'A' },
+    { staging: MAP_POSITIONS.attackerStaging.aShort, site: 'A' },
+  ],
+  RUSH_B: [
+    { staging: MAP_POSITIONS.attackerStaging.bShort, site: 'B' },
+    { staging: MAP_POSITIONS.attackerStaging.bTunnels, site: 'B' },
+    { staging: MAP_POSITIONS.attackerStaging.mid, site: 'MID' },
+    { staging: MAP_POSITIONS.attackerStaging.bTunnels, site: 'B' },
+    { staging: MAP_POSITIONS.attackerStaging.bShort, site: 'B' },
+  ],
+};
+
+/**
+ * Defender setups: hold position and site per soldier.
+ *   SPREAD  — classic 2-1-2 (default)
+ *   STACK_A — 3 on A, 1 mid, 1 on B
+ *   STACK_B — 1 on A, 1 mid, 3 on B
+ */
+const DEFENDER_PLANS: Record<BotDefensePlan, { hold: Position; site: string }[]> = {
+  SPREAD: [
+    { hold: MAP_POSITIONS.defenderHold.aSiteDefault, site: 'A' },
+    { hold: MAP_POSITIONS.defenderHold.aLong, site: 'A' },
+    { hold: MAP_POSITIONS.defenderHold.midWindow, site: 'MID' },
+    { hold: MAP_POSITIONS.defenderHold.bSiteDefault, site: 'B' },
+    { hold: MAP_POSITIONS.defenderHold.bEntrance, site: 'B' },
+  ],
+  STACK_A: [
+    { hold: MAP_POSITIONS.defenderHold.aSiteDefault, site: 'A' },
+    { hold: MAP_POSITIONS.defenderHold.aLong, site: 'A' },
+    { hold: MAP_POSITIONS.defenderHold.midWindow, site: 'MID' },
+    { hold: MAP_POSITIONS.plantZones.A, site: 'A' },
+    { hold: MAP_POSITIONS.defenderHold.bSiteDefault, site: 'B' },
+  ],
+  STACK_B: [
+    { hold: MAP_POSITIONS.defenderHold.aSiteDefault, site: 'A' },
+    { hold: MAP_POSITIONS.plantZones.B, site: 'B' },
+    { hold: MAP_POSITIONS.defenderHold.midWindow, site: 'MID' },
+    { hold: MAP_POSITIONS.defenderHold.bSiteDefault, site: 'B' },
+    { hold: MAP_POSITIONS.defenderHold.bEntrance, site: 'B' },
+  ],
+};
+
+/** Every attacker plan name, for validating configs */
+export const BOT_ATTACK_PLANS = Object.keys(ATTACKER_PLANS) as BotAttackPlan[];
+
+/** Every defender setup name, for validating configs */
+export const BOT_DEFENSE_PLANS = Object.keys(DEFENDER_PLANS) as BotDefensePlan[];
+
+/** The plans a bot plays unless told otherwise */
+export const DEFAULT_BOT_STRATEGY: BotStrategy = { attack: 'SPLIT', defense: 'SPREAD' };
+
+// ============================================================================
+// --- Tuning Constants ---
+// ============================================================================
+
+/** Minimum ticks between phase changes for a single soldier */
+const MIN_PHASE_CHANGE_INTERVAL = 3;
+
+/** Distance at which a soldier counts as arrived at its objective (game units) */
+const ARRIVAL_DISTANCE = 80;
+
+/** Ticks a soldier holds before repositioning (or, carrying the bomb, going to plant) */
+const MAX_HOLD_TICKS = 50;
+
+/** Distance from a contact at which a rotating soldier stops */
+const ROTATION_STOP_DISTANCE = 200;
+
+/** Attackers further than this from the planted bomb fall back toward it */
+const POST_PLANT_GUARD_DISTANCE = 300;
+
+/** Distance from the planted bomb at which a retaking defender starts the defuse */
+const DEFUSE_START_DISTANCE = 40;
+
+/** Ticks without enemies before an engaging soldier returns to its objective */
+const DISENGAGE_TICKS = 5;
+
+/** On a full buy, this many defenders (lowest indices) also take a defuse kit */
+const KIT_BUYERS = 2;
+
+// ============================================================================
+// --- BotAI Class ---
+// ============================================================================
+
+/**
+ * Plays one player's squad: player 2 in single-player, or a multiplayer
+ * player while they are disconnected (created when they drop, discarded
+ * when they resume).
+ */
+export class BotAI {
+  /** Simulation the bot issues its orders to */
+  private simulation: Simulation;
+
+  /** Which player's soldiers the bot controls */
+  private playerNumber: 1 | 2;
+
+  /** PRNG for repositioning offsets */
+  private rng: SeededRandom;
+
+  /** Which named plan the bot plays on each side */
+  private strategy: BotStrategy;
+
+  /** Per-soldier AI state, indexed by soldier index (0-4) */
+  private soldierStates: BotSoldierState[] = [];
+
+  /** Which side the bot is playing */
+  private botSide: Side = 'DEFENDER';
+
+  /** Current simulation tick (from the filtered state) */
+  private currentTick: number = 0;
+
+  /**
+   * Create a bot for one player's squad.
+   *
+   * @param simulation - The room's simulation
+   * @param playerNumber - Which player the bot stands in for (1 or 2)
+   * @param seed - Seed for the bot's own PRNG
+   * @param strategy - Which plan to play on each side (split / 2-1-2 by default)
+   */
+  constructor(simulation: Simulation, playerNumber: 1 | 2, seed: number, strategy: BotStrategy = DEFAULT_BOT_STRATEGY) {
+    this.simulation = simulation;
+    this.playerNumber = playerNumber;
+    this.rng = new SeededRandom(seed);
+    this.strategy = { ...strategy };
+  }
+
+  // --------------------------------------------------------------------------
+  // Buy & Strategy Phases
+  // --------------------------------------------------------------------------
+
+  /**
+   * Choose basic buys for the squad. The whole team buys to the best tier
+   * it can afford for everyone: rifles with armor and helmet, else SMGs with
+   * a vest. Gear a soldier already owns costs nothing, so survivors make a
+   * full buy cheaper. If even the force buy is out of reach for the whole
+   * squad, soldiers are armed with it one at a time while the money lasts;
+   * the squad only saves when not one more soldier can be equipped.
+   * Orders are priced again by the caller, which refuses any the money
+   * runs out on.
+   *
+   * @param money - The player's current money
+   * @param side - Which side the player is on this round
+   * @param loadouts - Each soldier's current loadout (index 0-4)
+   * @returns Buy orders for the soldiers whose gear should change
+   */
+  planBuys(money: number, side: Side, loadouts: (SoldierLoadout | null)[]): BuyOrder[] {
+    for (const fullBuy of [true, false]) {
+      const orders = this.tierOrders(fullBuy, side, loadouts);
+      const total = orders.reduce((sum, order) => sum + orderCost(order, loadouts[order.soldierIndex]), 0);
+      if (total <= money) return orders;
+    }
+
+    /* Not enough to force-buy everyone: arm who we can */
+    const orders: BuyOrder[] = [];
+    let left = money;
+    for (const order of this.tierOrders(false, side, loadouts)) {
+      const cost = orderCost(order, loadouts[order.soldierIndex]);
+      if (cost > left) continue;
+      orders.push(order);
+      left -= cost;
+    }
+    return orders;
+  }
+
+  /**
+   * Buy orders bringing every soldier up to one tier. Soldiers keep any
+   * primary they already carry.
+   *
+   * @param fullBuy - Rifle, vest, helmet (and kits) if true; SMG and vest if false
+   * @param side - Which side the player is on this round
+   * @param loadouts - Each soldier's current loadout (index 0-4)
+   */
+  private tierOrders(fullBuy: boolean, side: Side, loadouts: (SoldierLoadout | null)[]): BuyOrder[] {
+    const orders: BuyOrder[] = [];
+    loadouts.forEach((owned, i) => {
+      if (!owned) return;
+
+      const ownsPrimary = owned.currentWeapon !== WeaponId.PISTOL;
+      const primary = ownsPrimary
+        ? owned.currentWeapon as WeaponId
+        : (fullBuy ? WeaponId.RIFLE : WeaponId.SMG);
+      const armor = (owned.armor as ArmorType | null) ?? ArmorType.LIGHT_VEST;
+      const helmet = owned.helmet || fullBuy;
+      const defuseKit = owned.defuseKit || (side === 'DEFENDER' && fullBuy && i < KIT_BUYERS);
+
+      /* Nothing new to buy for this soldier */
+      if (ownsPrimary && armor === owned.armor && helmet === owned.helmet && defuseKit === owned.defuseKit) {
+        return;
+      }
+
+      orders.push({
+        soldierIndex: i,
+        equipment: {
+          primary,
+          sidearm: WeaponId.PISTOL,
+          armor,
+          helmet,
+          utility: owned.utility as UtilityType[],
+          defuseKit,
+        },
+      });
+    });
+
+    return orders;
+  }
+
+  /**
+   * Build the strategy plan: each soldier walks to its staging (attackers)
+   * or hold (defenders) position in the bot's plan for that side.
+   *
+   * @param side - Which side the player is on this round
+   * @returns One single-waypoint route per soldier
+   */
+  planStrategy(side: Side): Position[][] {
+    return side === 'ATTACKER'
+      ? ATTACKER_PLANS[this.strategy.attack].map(plan => [{ ...plan.staging }])
+      : DEFENDER_PLANS[this.strategy.defense].map(plan => [{ ...plan.hold }]);
+  }
+
+  // --------------------------------------------------------------------------
+  // Round Lifecycle
+  // --------------------------------------------------------------------------
+
+  /**
+   * Reset all per-soldier state for a new round (or for taking over mid-round).
+   *
+   * @param botSide - Which side the bot is playing this round
+   */
+  initializeRound(botSide: Side): void {
+    this.botSide = botSide;
+    this.currentTick = 0;
+
+    this.soldierStates = [];
+    for (let i = 0; i < 5; i++) {
+      const plan = botSide === 'ATTACKER'
+        ? ATTACKER_PLANS[this.strategy.attack][i]
+        : DEFENDER_PLANS[this.strategy.defense][i];
+      this.soldierStates.push({
+        phase: BotSoldierPhase.IDLE,
+        targetPosition: null,
+        assignedSite: plan.site,
+        holdTicks: 0,
+        initialized: false,
+        /* No change yet, so the first order is never held back by the cooldown */
+        lastPhaseChangeTick: -Infinity,
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Main Update Loop (called once per simulation tick)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Run one tick of decision-making for the bot's soldiers.
+   *
+   * Decision priority per soldier:
+   *   1. If dead → skip
+   *   2. If enemies detected → ENGAGING (stop and fight)
+   *   3. If not initialized → assign first objective
+   *   3b. If fetching the dropped bomb → take it to plant once picked up
+   *   3c. If retaking → defuse on reaching the bomb
+   *   4. If at objective → HOLDING_POSITION (or plant, if that was the objective)
+   *   5. If holding too long → reposition, or take the bomb to its site
+   *   5b. If the bomb is planted (attacker) → fall back around it
+   *   6. If teammate has contact → consider rotating
+   *   7. If still idle after a fight → resume the objective (the bomb
+   *      carrier heads for the plant)
+   *
+   * @param state - The bot player's fog-of-war filtered state
+   */
+  update(state: FilteredGameState): void {
+    this.currentTick = state.tick;
+
+    /* Any soldier with contact marks where the fight is (for rotations) */
+    let contactPosition: Position | null = null;
+    for (const soldier of state.ownSoldiers) {
+      if (soldier.alive && soldier.detectedEnemies.length > 0) {
+        contactPosition = { ...soldier.position };
+      }
+    }
+
+    /* The carrier died: send someone for the bomb */
+    this.assignBombRecovery(state);
+
+    /* The bomb is down: send someone to defuse it */
+    this.assignRetake(state);
+
+    for (const soldier of state.ownSoldiers) {
+      const aiState = this.soldierStates[soldier.index];
+      if (!soldier.alive || !aiState) continue;
+
+      /* Step 1: Check for enemy contact — highest priority */
+      if (soldier.detectedEnemies.length > 0) {
+        this.handleEngagement(soldier, aiState, state.visibleEnemies);
+        continue;
+      }
+
+      /* Step 2: If was engaging but enemies gone, wait a bit before resuming */
+      if (aiState.phase === BotSoldierPhase.ENGAGING) {
+        aiState.holdTicks++;
+        if (aiState.holdTicks >= DISENGAGE_TICKS) {
+          this.changePhase(aiState, BotSoldierPhase.IDLE);
+          aiState.holdTicks = 0;
+        }
+        continue;
+      }
+
+      /* Step 3: First-time initialization — send to assigned position */
+      if (!aiState.initialized) {
+        this.assignInitialObjective(soldier, aiState);
+        continue;
+      }
+
+      /* Step 3b: Fetching the bomb — plant once it is picked up, give up if it is gone */
+      if (aiState.phase === BotSoldierPhase.RECOVERING_BOMB) {
+        if (this.canPlant(soldier, state)) {
+          this.moveToPlant(soldier, aiState);
+        } else if (!state.droppedBombPosition) {
+          this.changePhase(aiState, BotSoldierPhase.IDLE);
+        }
+        continue;
+      }
+
+      /* Step 3c: Retaking — start the defuse at the bomb, keep at it once started */
+      if (aiState.phase === BotSoldierPhase.RETAKING) {
+        const bomb = state.bombPosition;
+        if (bomb && !soldier.isDefusing && vecDistance(soldier.position, bomb) <= DEFUSE_START_DISTANCE) {
+          this.simulation.executeBotCommand(this.playerNumber, 'DEFUSE_BOMB', soldier.index);
+        } else if (bomb && !soldier.isDefusing && !soldier.isMoving) {
+          this.moveTo(soldier, bomb);
+        }
+        continue;
+      }
+
+      /* Step 4: Check if arrived at objective */
+      if (aiState.phase === BotSoldierPhase.MOVING_TO_OBJECTIVE ||
+          aiState.phase === BotSoldierPhase.ROTATING ||
+          aiState.phase === BotSoldierPhase.MOVING_TO_PLANT) {
+        if (aiState.targetPosition) {
+          const dist = vecDistance(soldier.position, aiState.targetPosition);
+          if (dist < ARRIVAL_DISTANCE || soldier.waypoints.length === 0) {
+            const plant = aiState.phase === BotSoldierPhase.MOVING_TO_PLANT &&
+              this.canPlant(soldier, state) && !soldier.isPlanting;
+            this.simulation.executeBotCommand(this.playerNumber, plant ? 'PLANT_BOMB' : 'HOLD', soldier.index);
+            this.changePhase(aiState, BotSoldierPhase.HOLDING_POSITION);
+            aiState.holdTicks = 0;
+          }
+        }
+      }
+
+      /* Step 5: While holding, count ticks and consider moving on */
+      if (aiState.phase === BotSoldierPhase.HOLDING_POSITION && !soldier.isPlanting) {
+        aiState.holdTicks++;
+        this.faceTowardThreat(soldier);
+
+        if (aiState.holdTicks >= MAX_HOLD_TICKS) {
+          if (this.canPlant(soldier, state)) {
+            this.moveToPlant(soldier, aiState);
+          } else {
+            this.repositionNearby(soldier, aiState);
+          }
+        }
+      }
+
+      /* Step 5b: After the plant, attackers gather around the bomb to stop the defuse */
+      if (this.botSide === 'ATTACKER' && state.bombPlanted && state.bombPosition &&
+          (aiState.phase === BotSoldierPhase.HOLDING_POSITION || aiState.phase === BotSoldierPhase.IDLE) &&
+          !soldier.isPlanting &&
+          vecDistance(soldier.position, state.bombPosition) > POST_PLANT_GUARD_DISTANCE) {
+        this.rotateToward(soldier, aiState, state.bombPosition);
+        continue;
+      }
+
+      /* Step 6: Consider rotation if a teammate has contact and we're idle/holding */
+      if (contactPosition && !soldier.hasBomb &&
+          (aiState.phase === BotSoldierPhase.HOLDING_POSITION ||
+           aiState.phase === BotSoldierPhase.IDLE)) {
+        const distToContact = vecDistance(soldier.position, contactPosition);
+        if (distToContact > ROTATION_STOP_DISTANCE * 2 && this.shouldRotate(soldier.index, aiState)) {
+          this.rotateToward(soldier, aiState, contactPosition);
+        }
+      }
+
+      /* Step 7: Back from a fight with nowhere to go — pick the objective up again */
+      if (aiState.phase === BotSoldierPhase.IDLE &&
+          this.currentTick - aiState.lastPhaseChangeTick >= MIN_PHASE_CHANGE_INTERVAL) {
+        this.resumeObjective(soldier, aiState, state);
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Decision Handlers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Send a soldier to its planned staging (attacker) or hold (defender) position.
+   */
+  private assignInitialObjective(soldier: BotSoldierView, aiState: BotSoldierState): void {
+    const targetPos = this.botSide === 'ATTACKER'
+      ? { ...ATTACKER_PLANS[this.strategy.attack][soldier.index].staging }
+      : { ...DEFENDER_PLANS[this.strategy.defense][soldier.index].hold };
+
+    this.moveTo(soldier, targetPos);
+    aiState.targetPosition = targetPos;
+    aiState.initialized = true;
+    this.changePhase(aiState, BotSoldierPhase.MOVING_TO_OBJECTIVE);
+  }
+
+  /**
+   * Send the nearest free soldier (alive, not fighting, not changing phase
+   * too soon) to pick up the dropped bomb, unless one is already on the way.
+   * The simulation hands the bomb over when they reach it.
+   */
+  private assignBombRecovery(state: FilteredGameState): void {
+    const dropped = state.droppedBombPosition;
+    if (this.botSide !== 'ATTACKER' || state.bombPlanted || !dropped) return;
+    if (this.soldierStates.some(s => s.phase === BotSoldierPhase.RECOVERING_BOMB)) return;
+
+    let nearest: BotSoldierView | null = null;
+    let nearestDist = Infinity;
+    for (const soldier of state.ownSoldiers) {
+      const aiState = this.soldierStates[soldier.index];
+      if (!soldier.alive || !aiState || soldier.detectedEnemies.length > 0) continue;
+      if (this.currentTick - aiState.lastPhaseChangeTick < MIN_PHASE_CHANGE_INTERVAL) continue;
+
+      const dist = vecDistance(soldier.position, dropped);
+      if (dist < nearestDist) {
+        nearestDist = dist;
+        nearest = soldier;
+      }
+    }
+    if (!nearest) return;
+
+    const aiState = this.soldierStates[nearest.index];
+    this.simulation.executeBotCommand(this.playerNumber, 'PICKUP_BOMB', nearest.index);
+    aiState.targetPosition = { ...dropped };
+    aiState.initialized = true;
+    aiState.holdTicks = 0;
+    this.changePhase(aiState, BotSoldierPhase.RECOVERING_BOMB);
+  }
+
+  /**
+   * Send the nearest free defender to the planted bomb, unless one is
+   * already retaking or defusing.
+   */
+  private assignRetake(state: FilteredGameState): void {
+    const bomb = state.bombPosition;
+    if (this.botSide !== 'DEFENDER' || !state.bombPlanted || !bomb) return;
+    if (this.soldierStates.some(s => s.phase === BotSoldierPhase.RETAKING)) return;
+    if (state.ownSoldiers.some(s => s.alive && s.isDefusing)) return;
+
+    let nearest: BotSoldierView | null = null;
+    let nearestDist = Infinity;
+    for (const soldier of state.ownSoldiers) {
+      const aiState = this.soldierStates[soldier.index];
+      if (!soldier.alive || !aiState || soldier.detectedEnemies.length > 0) continue;
+      if (this.currentTick - aiState.lastPhaseChangeTick < MIN_PHASE_CHANGE_INTERVAL) continue;
+
+      const dist = vecDistance(soldier.position, bomb);
+      if (dist < nearestDist) {
+        nearestDist = dist;
+        nearest = soldier;
+      }
+    }
+    if (!nearest) return;
+
+    const aiState = this.soldierStates[nearest.index];
+    this.moveTo(nearest, bomb);
+    aiState.targetPosition = { ...bomb };
+    aiState.initialized = true;
+    aiState.holdTicks = 0;
+    this.changePhase(aiState, BotSoldierPhase.RETAKING);
+  }
+
+  /**
+   * Put a soldier who disengaged from a fight back to work: the bomb carrier
+   * takes the bomb to its site, everyone else returns to the position they
+   * were heading for or holding.
+   */
+  private resumeObjective(soldier: BotSoldierView, aiState: BotSoldierState, state: FilteredGameState): void {
+    if (this.canPlant(soldier, state)) {
+      this.moveToPlant(soldier, aiState);
+      return;
+    }
+
+    const target = aiState.targetPosition;
+    if (target && vecDistance(soldier.position, target) >= ARRIVAL_DISTANCE) {
+      this.moveTo(soldier, target);
+      this.changePhase(aiState, BotSoldierPhase.MOVING_TO_OBJECTIVE);
+    } else {
+      this.changePhase(aiState, BotSoldierPhase.HOLDING_POSITION);
+    }
+    aiState.holdTicks = 0;
+  }
+
+  /**
+   * Stop a soldier who has detected enemies and turn it toward the nearest one.
+   * The shooting itself is left to the simulation's combat step.
+   */
+  private handleEngagement(
+    soldier: BotSoldierView,
+    aiState: BotSoldierState,
+    visibleEnemies: FilteredGameState['visibleEnemies']
+  ): void {
+    if (aiState.phase !== BotSoldierPhase.ENGAGING) {
+      this.changePhase(aiState, BotSoldierPhase.ENGAGING);
+    }
+
+    /* Stop moving — hold position and fight (a plant in progress carries on) */
+    if (soldier.isMoving || soldier.waypoints.length > 0) {
+      this.simulation.executeBotCommand(this.playerNumber, 'HOLD', soldier.index);
+    }
+    aiState.holdTicks = 0;
+
+    let nearestDist = Infinity;
+    let nearestPos: Position | null = null;
+    for (const enemy of visibleEnemies) {
+      if (!enemy.position || !enemy.alive || !soldier.detectedEnemies.includes(enemy.soldierId ?? '')) continue;
+
+      const dist = vecDistance(soldier.position, enemy.position);
+      if (dist < nearestDist) {
+        nearestDist = dist;
+        nearestPos = enemy.position;
+      }
+    }
+
+    if (nearestPos) {
+      const dx = nearestPos.x - soldier.position.x;
+      const dz = nearestPos.z - soldier.position.z;
+      this.simulation.setFacing(this.playerNumber, soldier.index, Math.atan2(dz, dx));
+    }
+  }
+
+  /**
+   * Face the most likely threat direction: defenders look toward T spawn
+   * (left), attackers toward the sites (right).
+   */
+  private faceTowardThreat(soldier: BotSoldierView): void {
+    const rotation = this.botSide === 'DEFENDER' ? Math.PI : 0;
+    this.simulation.setFacing(this.playerNumber, soldier.index, rotation);
+  }
+
+  /**
+   * Shuffle a soldier to a spot within ±100 units after holding too long,
+   * so it is never completely static.
+   */
+  private repositionNearby(soldier: BotSoldierView, aiState: BotSoldierState): void {
+    const offsetX = this.rng.nextFloat(-100, 100);
+    const offsetZ = this.rng.nextFloat(-100, 100);
+
+    const newTarget: Position = {
+      x: Math.max(50, Math.min(2950, soldier.position.x + offsetX)),
+      z: Math.max(50, Math.min(1950, soldier.position.z + offsetZ)),
+    };
+
+    this.moveTo(soldier, newTarget);
+    aiState.targetPosition = newTarget;
+    aiState.holdTicks = 0;
+    this.changePhase(aiState, BotSoldierPhase.MOVING_TO_OBJECTIVE);
+  }
+
+  /**
+   * Whether a soldier can take the bomb in: an attacker carrying it, before any plant.
+   */
+  private canPlant(soldier: BotSoldierView, state: FilteredGameState): boolean {
+    return this.botSide === 'ATTACKER' && soldier.hasBomb && !state.bombPlanted;
+  }
+
+  /**
+   * Walk the bomb carrier to the plant zone of its assigned site
+   * (the mid player plants A). The plant starts on arrival.
+   */
+  private moveToPlant(soldier: BotSoldierView, aiState: BotSoldierState): void {
+    const target = { ...MAP_POSITIONS.plantZones[aiState.assignedSite === 'B' ? 'B' : 'A'] };
+
+    this.moveTo(soldier, target);
+    aiState.targetPosition = target;
+    aiState.holdTicks = 0;
+    this.changePhase(aiState, BotSoldierPhase.MOVING_TO_PLANT);
+  }
+
+  /**
+   * Whether a soldier should rotate toward a teammate's contact.
+   * The mid player always goes; on each site only the second soldier does.
+   */
+  private shouldRotate(index: number, aiState: BotSoldierState): boolean {
+    if (this.currentTick - aiState.lastPhaseChangeTick < MIN_PHASE_CHANGE_INTERVAL * 3) {
+      return false;
+    }
+    if (aiState.assignedSite === 'MID') return true;
+    return index === 1 || index === 4;
+  }
+
+  /**
+   * Send a soldier toward a contact, stopping ROTATION_STOP_DISTANCE short of it.
+   */
+  private rotateToward(soldier: BotSoldierView, aiState: BotSoldierState, contactPos: Position): void {
+    const dx = contactPos.x - soldier.position.x;
+    const dz = contactPos.z - soldier.position.z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+
+    if (dist < ROTATION_STOP_DISTANCE) return; /* Already close enough */
+
+    const ratio = (dist - ROTATION_STOP_DISTANCE) / dist;
+    const target: Position = {
+      x: soldier.position.x + dx * ratio,
+      z: soldier.position.z + dz * ratio,
+    };
+
+    this.moveTo(soldier, target);
+    aiState.targetPosition = target;
+    this.changePhase(aiState, BotSoldierPhase.ROTATING);
+  }
+
+  // --------------------------------------------------------------------------
+  // Utility Methods
+  // --------------------------------------------------------------------------
+
+  /** Order a soldier to a position (pathed by the simulation, no radio delay). */
+  private moveTo(soldier: BotSoldierView, target: Position): void {
+    this.simulation.executeBotCommand(this.playerNumber, 'MOVE', soldier.index, target);
+  }
+
+  /**
+   * Change a soldier's phase, ignoring changes that come too soon after the
+   * last one (ENGAGING is always allowed).
+   */
+  private changePhase(aiState: BotSoldierState, newPhase: BotSoldierPhase): void {
+    if (this.currentTick - aiState.lastPhaseChangeTick < MIN_PHASE_CHANGE_INTERVAL &&
+        newPhase !== BotSoldierPhase.ENGAGING) {
+      return;
+    }
+
+    aiState.phase = newPhase;
+    aiState.lastPhaseChangeTick = this.currentTick;
+  }
+}
+
+/**
+ * What a buy order adds to a soldier's current gear costs (only new items
+ * are charged, as in MatchRules.priceBuyOrder; the bot never buys utility).
+ */
+function orderCost(order: BuyOrder, owned: SoldierLoadout | null): number {
+  const { primary, armor, helmet, defuseKit } = order.equipment;
+  let cost = 0;
+  if (primary && primary !== WeaponId.PISTOL && primary !== owned?.currentWeapon) cost += WEAPONS[primary].cost;
+  if (armor && armor !== owned?.armor) cost += ARMOR[armor].cost;
+  if (helmet && !owned?.helmet) cost += HELMET_COST;
+  if (defuseKit && !owned?.defuseKit) cost += DEFUSE_KIT_COST;
+  return cost;
+}
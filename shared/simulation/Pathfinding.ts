@@ -1,14 +1,13 @@
 /**
- * @file ServerPathfinding.ts
- * @description Server-side A* pathfinding and path smoothing.
+ * @file Pathfinding.ts
+ * @description A* pathfinding and path smoothing for the shared simulation.
  *
- * This is a standalone implementation of A* pathfinding for the server
- * simulation. It mirrors the client's MovementSystem (client/src/simulation/Movement.ts)
- * but uses only local types — no dependency on client modules or @shared aliases.
+ * Used by the simulation engine to route soldiers, and by the client to
+ * preview strategy plan routes exactly as the engine will walk them.
  *
  * Architecture:
- *   ServerSimulation
- *     └── ServerPathfinding (this file)
+ *   Simulation
+ *     └── Pathfinding (this file)
  *           ├── Generates a navigation grid from wall data
  *           ├── Runs A* pathfinding with 8-directional movement
  *           └── Smooths paths by removing redundant waypoints
@@ -17,6 +16,10 @@
  * Each cell is either walkable (true) or blocked by a wall (false).
  * A* finds the shortest path through walkable cells using 8-directional
  * movement with Manhattan distance heuristic.
+ *
+ * Temporary hazards (molotov fires, smokes) add extra cost to the cells
+ * they cover, so routes bend around them. Callers can ignore hazards
+ * (RUSH orders run straight through on purpose).
  */
 
 // ============================================================================
@@ -37,6 +40,16 @@ interface WallRect {
   height: number;
 }
 
+/** A temporary circular area that is costly to walk through */
+export interface PathHazard {
+  /** Centre of the area */
+  position: Position;
+  /** Radius in game units */
+  radius: number;
+  /** Extra A* cost for each cell whose centre lies inside the area */
+  cost: number;
+}
+
 /** Node in the A* open set (priority queue) */
 interface AStarNode {
   /** Column index in the navigation grid */
@@ -76,22 +89,22 @@ const NEIGHBORS: [number, number, number][] = [
 ];
 
 // ============================================================================
-// --- ServerPathfinding Class ---
+// --- Pathfinding Class ---
 // ============================================================================
 
 /**
- * Server-side pathfinding system using A* on a navigation grid.
+ * Pathfinding system using A* on a navigation grid.
  *
  * One instance is created per map. The navigation grid is generated once
  * from the wall data and reused for all pathfinding queries.
  *
  * @example
  * ```ts
- * const pathfinder = new ServerPathfinding(3000, 2000, walls);
+ * const pathfinder = new Pathfinding(3000, 2000, walls);
  * const path = pathfinder.findPath({ x: 100, z: 100 }, { x: 500, z: 300 });
  * ```
  */
-export class ServerPathfinding {
+export class Pathfinding {
   /** 2D boolean grid: true = walkable, false = blocked by wall */
   private navGrid: boolean[][];
 
@@ -104,6 +117,12 @@ export class ServerPathfinding {
   /** Reference to the map walls for LOS checks during path smoothing */
   private walls: WallRect[];
 
+  /** Active hazards (fires, smokes) that routes should avoid */
+  private hazards: PathHazard[] = [];
+
+  /** Extra cost of entering each cell, from the active hazards */
+  private hazardCost: number[][];
+
   /**
    * Create a new pathfinding system for the given map dimensions and walls.
    *
@@ -116,6 +135,52 @@ export class ServerPathfinding {
     this.cols = Math.ceil(mapWidth / CELL_SIZE);
     this.rows = Math.ceil(mapHeight / CELL_SIZE);
     this.navGrid = this.generateNavGrid();
+    this.hazardCost = this.generateHazardCost();
+  }
+
+  // --------------------------------------------------------------------------
+  // Temporary Hazards
+  // --------------------------------------------------------------------------
+
+  /**
+   * Replace the active hazards. Called whenever fires or smokes appear or
+   * expire. Cells whose centre is inside a hazard get its cost added
+   * (overlapping hazards stack).
+   *
+   * @param hazards - All hazards currently on the map
+   */
+  setHazards(hazards: PathHazard[]): void {
+    this.hazards = hazards.map(h => ({ ...h, position: { ...h.position } }));
+    this.hazardCost = this.generateHazardCost();
+  }
+
+  /** Build the per-cell hazard cost grid from the active hazards. */
+  private generateHazardCost(): number[][] {
+    const grid: number[][] = [];
+
+    for (let row = 0; row < this.rows; row++) {
+      grid[row] = new Array(this.cols).fill(0);
+    }
+
+    for (const hazard of this.hazards) {
+      const minCol = Math.max(0, Math.floor((hazard.position.x - hazard.radius) / CELL_SIZE));
+      const maxCol = Math.min(this.cols - 1, Math.floor((hazard.position.x + hazard.radius) / CELL_SIZE));
+      const minRow = Math.max(0, Math.floor((hazard.position.z - hazard.radius) / CELL_SIZE));
+      const maxRow = Math.min(this.rows - 1, Math.floor((hazard.position.z + hazard.radius) / CELL_SIZE));
+
+      for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
+          const centre = this.gridToWorld(col, row);
+          const dx = centre.x - hazard.position.x;
+          const dz = centre.z - hazard.position.z;
+          if (dx * dx + dz * dz <= hazard.radius * hazard.radius) {
+            grid[row][col] += hazard.cost;
+          }
+        }
+      }
+    }
+
+    return grid;
   }
 
   // --------------------------------------------------------------------------
@@ -185,9 +250,10 @@ export class ServerPathfinding {
    *
    * @param from - Starting world position
    * @param to - Target world position
+   * @param ignoreHazards - Route straight through fires and smokes (RUSH)
    * @returns Array of world-position waypoints (empty if no path found)
    */
-  findPath(from: Position, to: Position): Position[] {
+  findPath(from: Position, to: Position, ignoreHazards: boolean = false): Position[] {
     /* Convert world coordinates to grid coordinates */
     const startGrid = this.worldToGrid(from);
     const endGrid = this.worldToGrid(to);
@@ -230,7 +296,7 @@ export class ServerPathfinding {
 
       /* Check if we reached the goal */
       if (current.col === endGrid.col && current.row === endGrid.row) {
-        return this.reconstructAndSmooth(cameFrom, endGrid, from, to);
+        return this.reconstructAndSmooth(cameFrom, endGrid, from, to, ignoreHazards);
       }
 
       closedSet[current.row][current.col] = true;
@@ -252,7 +318,8 @@ export class ServerPathfinding {
           }
         }
 
-        const tentativeG = gScore[current.row][current.col] + cost;
+        const hazardCost = ignoreHazards ? 0 : this.hazardCost[nr][nc];
+        const tentativeG = gScore[current.row][current.col] + cost + hazardCost;
 
         if (tentativeG < gScore[nr][nc]) {
           gScore[nr][nc] = tentativeG;
@@ -292,13 +359,15 @@ export class ServerPathfinding {
    * @param endGrid - Goal grid coordinates
    * @param worldFrom - Original world start position
    * @param worldTo - Original world end position
+   * @param ignoreHazards - Let smoothing cut through hazards
    * @returns Smoothed array of world-position waypoints
    */
   private reconstructAndSmooth(
     cameFrom: (null | { col: number; row: number })[][],
     endGrid: { col: number; row: number },
     worldFrom: Position,
-    worldTo: Position
+    worldTo: Position,
+    ignoreHazards: boolean
   ): Position[] {
     /* Follow cameFrom pointers from goal to start */
     const gridPath: { col: number; row: number }[] = [];
@@ -321,7 +390,7 @@ export class ServerPathfinding {
     }
 
     /* Apply path smoothing */
-    return this.smoothPath(worldPath);
+    return this.smoothPath(worldPath, ignoreHazards);
   }
 
   /**
@@ -330,11 +399,14 @@ export class ServerPathfinding {
    * line-of-sight (no walls blocking) to a farther waypoint.
    *
    * This reduces the zigzag pattern inherent in grid-based pathfinding.
+   * Unless hazards are ignored, a shortcut may not cut through a hazard
+   * the A* route went around.
    *
    * @param path - Raw path from A*
+   * @param ignoreHazards - Let shortcuts cut through hazards
    * @returns Smoothed path with redundant waypoints removed
    */
-  private smoothPath(path: Position[]): Position[] {
+  private smoothPath(path: Position[], ignoreHazards: boolean): Position[] {
     if (path.length <= 2) return [...path];
 
     const smoothed: Position[] = [path[0]];
@@ -345,7 +417,10 @@ export class ServerPathfinding {
 
       /* Try to skip ahead as far as possible while maintaining LOS */
       for (let check = path.length - 1; check > current + 1; check--) {
-        if (this.hasLOS(path[current], path[check])) {
+        if (
+          this.hasLOS(path[current], path[check]) &&
+          (ignoreHazards || !this.crossesHazard(path[current], path[check]))
+        ) {
           farthestVisible = check;
           break;
         }
@@ -375,6 +450,45 @@ export class ServerPathfinding {
     return true;
   }
 
+  /**
+   * Check if a shortcut passes through a hazard that neither of its ends
+   * is already inside (a route starting or ending in fire has to cross it).
+   *
+   * @param from - Start position
+   * @param to - End position
+   * @returns True if the segment enters a hazard from outside
+   */
+  private crossesHazard(from: Position, to: Position): boolean {
+    for (const hazard of this.hazards) {
+      if (this.dist(from, hazard.position) <= hazard.radius) continue;
+      if (this.dist(to, hazard.position) <= hazard.radius) continue;
+      if (this.pointToSegmentDistance(hazard.position, from, to) <= hazard.radius) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Euclidean distance between two positions. */
+  private dist(a: Position, b: Position): number {
+    const dx = a.x - b.x;
+    const dz = a.z - b.z;
+    return Math.sqrt(dx * dx + dz * dz);
+  }
+
+  /** Shortest distance from a point to a line segment. */
+  private pointToSegmentDistance(point: Position, segStart: Position, segEnd: Position): number {
+    const dx = segEnd.x - segStart.x;
+    const dz = segEnd.z - segStart.z;
+    const segLengthSq = dx * dx + dz * dz;
+    if (segLengthSq === 0) return this.dist(point, segStart);
+
+    const t = Math.max(0, Math.min(1,
+      ((point.x - segStart.x) * dx + (point.z - segStart.z) * dz) / segLengthSq
+    ));
+    return this.dist(point, { x: segStart.x + t * dx, z: segStart.z + t * dz });
+  }
+
   /**
    * Check if a line segment intersects a rectangle.
    * Uses Liang-Barsky parametric line clipping.
@@ -423,6 +537,15 @@ export class ServerPathfinding {
   // Grid Utility Methods
   // --------------------------------------------------------------------------
 
+  /**
+   * Check if a world position is in a walkable grid cell.
+   */
+  isWalkable(pos: Position): boolean {
+    const { col, row } = this.worldToGrid(pos);
+    if (!this.isValid(col, row)) return false;
+    return this.navGrid[row][col];
+  }
+
   /**
    * Convert a world position to grid coordinates.
    * Divides by cell size and floors to get the cell index.
@@ -0,0 +1,263 @@
+/**
+ * @file Replay.ts
+ * @description Versioned replay file format and the recorder that builds it.
+ *
+ * The Simulation is deterministic (see RandomUtils.ts), so a match does not
+ * need to be stored tick by tick. A replay holds only the inputs:
+ *
+ *   - The match seed and map ID
+ *   - Per round: sides, every soldier's loadout and each player's strategy
+ *     plan (routes and stances) as the round went live
+ *   - Every accepted mid-round input (player commands, bot orders and bot
+ *     facing changes), tagged with the tick it was given on
+ *   - Per round: how it ended and its kill records, so a replay can prove
+ *     it reproduces the match (ReplayPlayer.verify)
+ *
+ * Only finished rounds are stored; a match abandoned mid-round keeps the
+ * rounds played so far.
+ *
+ * Usage (see GameRoom.ts):
+ *   const recorder = new ReplayRecorder(seed, 'bazaar');
+ *   recorder.attach(simulation);
+ *   recorder.startRound(1, 'ATTACKER', false);     // at round setup
+ *   recorder.recordBriefing(loadouts, strategy);    // as LIVE_PHASE starts
+ *   recorder.endRound('DEFENDER', 'SIMULATION', simulation.getTick(), simulation.getRoundKills());
+ *   const file = recorder.finish(score);
+ */
+
+import type { Simulation, SimulationInput, SoldierLoadout, KillRecord } from './Simulation';
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/**
+ * Replay format version. Bump whenever the file layout or anything that
+ * changes simulation results for the same inputs changes; ReplayPlayer
+ * refuses files of any other version.
+ */
+export const REPLAY_VERSION = 3;
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** A point on the map (world units) */
+interface ReplayPosition {
+  x: number;
+  z: number;
+}
+
+/** One player's strategy plan as it was applied when the round went live */
+export interface ReplayStrategy {
+  /** Route waypoints per soldier (index 0-4, empty if the soldier had no plan) */
+  routes: ReplayPosition[][];
+  /** Briefed stance per soldier (null keeps the current stance) */
+  stances: (string | null)[];
+}
+
+/**
+ * What ended a round:
+ *   SIMULATION  — the engine reported it (elimination, defuse, detonation)
+ *   PHASE_TIMER — the LIVE or POST_PLANT clock ran out first
+ */
+export type ReplayRoundEnd = 'SIMULATION' | 'PHASE_TIMER';
+
+/** Everything needed to replay and check one round */
+export interface ReplayRound {
+  /** Round number (1-based) */
+  roundNumber: number;
+  /** Which side player 1 played */
+  player1Side: 'ATTACKER' | 'DEFENDER';
+  /** Whether last round's survivors kept their gear (false at match start and side swap) */
+  keepSurvivorLoadouts: boolean;
+  /** Every soldier's loadout as the round went live (index 0-4) */
+  loadouts: { player1: SoldierLoadout[]; player2: SoldierLoadout[] };
+  /** Strategy plans applied as the round went live */
+  strategy: { player1: ReplayStrategy; player2: ReplayStrategy };
+  /** Accepted mid-round inputs, in the order they were applied */
+  inputs: SimulationInput[];
+  /** Side that won the round */
+  winningSide: 'ATTACKER' | 'DEFENDER';
+  /** What ended the round */
+  endedBy: ReplayRoundEnd;
+  /** Simulation ticks run before the round ended */
+  endTick: number;
+  /** Kill records of the round, in order */
+  kills: KillRecord[];
+}
+
+/** A complete replay file */
+export interface ReplayFile {
+  /** Format version (REPLAY_VERSION when written) */
+  version: number;
+  /** Seed the match simulation was created with */
+  matchSeed: number;
+  /** Stable map ID (see MapRegistry.ts) */
+  mapId: string;
+  /** When recording started (ISO 8601) */
+  recordedAt: string;
+  /** Finished rounds, in order */
+  rounds: ReplayRound[];
+  /** Score when the replay was written */
+  finalScore: { player1: number; player2: number };
+}
+
+// ============================================================================
+// --- ReplayRecorder Class ---
+// ============================================================================
+
+/**
+ * Builds a ReplayFile while a match is played. The owner of the match
+ * (GameRoom) tells it about round boundaries; mid-round inputs arrive from
+ * the simulation's input listener.
+ */
+export class ReplayRecorder {
+  /** Seed of the recorded match */
+  private matchSeed: number;
+
+  /** Map ID of the recorded match */
+  private mapId: string;
+
+  /** When recording started */
+  private recordedAt: string;
+
+  /** Finished rounds */
+  private rounds: ReplayRound[] = [];
+
+  /** Round being played (null between rounds) */
+  private current: ReplayRound | null = null;
+
+  /**
+   * Create a recorder for one match.
+   *
+   * @param matchSeed - Seed the simulation was created with
+   * @param mapId - Stable ID of the map being played
+   */
+  constructor(matchSeed: number, mapId: string) {
+    this.matchSeed = matchSeed;
+    this.mapId = mapId;
+    this.recordedAt = new Date().toISOString();
+  }
+
+  /**
+   * Start listening to the simulation's mid-round inputs.
+   *
+   * @param simulation - The match's simulation
+   */
+  attach(simulation: Simulation): void {
+    simulation.setInputListener(input => this.current?.inputs.push(input));
+  }
+
+  /**
+   * Begin recording a round. Call right after Simulation.initializeRound().
+   * An unfinished previous round is discarded.
+   *
+   * @param roundNumber - Round number (1-based)
+   * @param player1Side - Which side player 1 plays
+   * @param keepSurvivorLoadouts - Value passed to initializeRound()
+   */
+  startRound(roundNumber: number, player1Side: 'ATTACKER' | 'DEFENDER', keepSurvivorLoadouts: boolean): void {
+    this.current = {
+      roundNumber,
+      player1Side,
+      keepSurvivorLoadouts,
+      loadouts: { player1: [], player2: [] },
+      strategy: { player1: emptyStrategy(), player2: emptyStrategy() },
+      inputs: [],
+      winningSide: 'DEFENDER',
+      endedBy: 'PHASE_TIMER',
+      endTick: 0,
+      kills: [],
+    };
+  }
+
+  /**
+   * Record the loadouts and strategy plans the round went live with.
+   * Inputs given before this call (none in a normal match) are kept.
+   *
+   * @param loadouts - Every soldier's loadout, per player (index 0-4)
+   * @param strategy - Strategy plan applied for each player
+   */
+  recordBriefing(
+    loadouts: { player1: SoldierLoadout[]; player2: SoldierLoadout[] },
+    strategy: { player1: ReplayStrategy; player2: ReplayStrategy }
+  ): void {
+    if (!this.current) return;
+    this.current.loadouts = {
+      player1: loadouts.player1.map(copyLoadout),
+      player2: loadouts.player2.map(copyLoadout),
+    };
+    this.current.strategy = {
+      player1: copyStrategy(strategy.player1),
+      player2: copyStrategy(strategy.player2),
+    };
+  }
+
+  /**
+   * Finish the current round and add it to the replay.
+   *
+   * @param winningSide - Side that won
+   * @param endedBy - Whether the simulation or the phase clock ended it
+   * @param endTick - Simulation ticks run this round
+   * @param kills - Kill records of the round
+   */
+  endRound(
+    winningSide: 'ATTACKER' | 'DEFENDER',
+    endedBy: ReplayRoundEnd,
+    endTick: number,
+    kills: KillRecord[]
+  ): void {
+    if (!this.current) return;
+    this.current.winningSide = winningSide;
+    this.current.endedBy = endedBy;
+    this.current.endTick = endTick;
+    this.current.kills = kills.map(k => ({ ...k }));
+    this.rounds.push(this.current);
+    this.current = null;
+  }
+
+  /**
+   * Build the replay file from the rounds finished so far.
+   *
+   * @param finalScore - Match score to store
+   * @returns The replay, ready to be serialized as JSON
+   */
+  finish(finalScore: { player1: number; player2: number }): ReplayFile {
+    return {
+      version: REPLAY_VERSION,
+      matchSeed: this.matchSeed,
+      mapId: this.mapId,
+      recordedAt: this.recordedAt,
+      rounds: this.rounds,
+      finalScore: { ...finalScore },
+    };
+  }
+
+  /** Number of finished rounds recorded so far. */
+  getRoundCount(): number {
+    return this.rounds.length;
+  }
+}
+
+// ============================================================================
+// --- Helpers ---
+// ============================================================================
+
+/** A strategy with no routes and no stance changes for all 5 soldiers. */
+function emptyStrategy(): ReplayStrategy {
+  return { routes: [[], [], [], [], []], stances: [null, null, null, null, null] };
+}
+
+/** Deep copy of a loadout. */
+function copyLoadout(loadout: SoldierLoadout): SoldierLoadout {
+  return { ...loadout, utility: [...loadout.utility] };
+}
+
+/** Deep copy of a strategy plan. */
+function copyStrategy(strategy: ReplayStrategy): ReplayStrategy {
+  return {
+    routes: strategy.routes.map(route => route.map(wp => ({ x: wp.x, z: wp.z }))),
+    stances: [...strategy.stances],
+  };
+}
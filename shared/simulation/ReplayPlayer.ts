@@ -0,0 +1,337 @@
+/**
+ * @file ReplayPlayer.ts
+ * @description Rebuilds a recorded match from its replay file.
+ *
+ * Creates a fresh Simulation from the replay's seed and map, then feeds it
+ * each round's loadouts, strategy plans and mid-round inputs on the ticks
+ * they were originally given. Because the engine is deterministic, this
+ * reproduces the match exactly; verify() proves it by checking every
+ * round ends the same way with the same kill records.
+ *
+ * The simulation's random stream runs across rounds, so rounds can only be
+ * played in order. seekRound() replays earlier rounds headlessly to reach
+ * a later one.
+ *
+ * Usage:
+ *   const player = new ReplayPlayer(replay);
+ *   const result = player.verify();           // whole match, pass/fail per round
+ *
+ *   player.seekRound(2);                       // step through round 3 yourself
+ *   while (player.stepTick()) { ...player.getSimulation().getFilteredState(1)... }
+ */
+
+import { Simulation } from './Simulation';
+import type { TickResult, SimulationInput } from './Simulation';
+import { REPLAY_VERSION } from './Replay';
+import type { ReplayFile, ReplayRound } from './Replay';
+import { getMap } from '../maps/MapRegistry';
+import type { MapData } from '../types/MapTypes';
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/** Outcome of replaying one round against its recording */
+export interface RoundVerification {
+  /** Round number (1-based) */
+  roundNumber: number;
+  /** Whether the replayed round matched the recording */
+  ok: boolean;
+  /** What differed (empty when ok) */
+  mismatches: string[];
+}
+
+/** Outcome of replaying a whole match */
+export interface ReplayVerification {
+  /** Whether every round matched */
+  ok: boolean;
+  /** Per-round results, in order */
+  rounds: RoundVerification[];
+}
+
+// ============================================================================
+// --- ReplayPlayer Class ---
+// ============================================================================
+
+/**
+ * Plays a replay file back through the shared Simulation engine.
+ */
+export class ReplayPlayer {
+  /** The replay being played */
+  private replay: ReplayFile;
+
+  /** Map the match was played on */
+  private map: MapData;
+
+  /** Simulation rebuilt from the replay (recreated when seeking backwards) */
+  private simulation: Simulation;
+
+  /** Index of the round being played (-1 before the first) */
+  private roundIndex: number = -1;
+
+  /** Next input of the current round to apply */
+  private nextInput: number = 0;
+
+  /** Whether the current round has reached its recorded end */
+  private roundOver: boolean = true;
+
+  /** Where the simulation's own round end happened this round (null if it has not) */
+  private simulationEnd: { tick: number; winningSide: string | null } | null = null;
+
+  /** Inputs of the current round the simulation refused on replay */
+  private refusedInputs: string[] = [];
+
+  /**
+   * Load a replay. Throws if the file's version is not supported or its
+   * map is unknown.
+   *
+   * @param replay - Parsed replay file
+   */
+  constructor(replay: ReplayFile) {
+    if (replay.version !== REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version ${replay.version} (expected ${REPLAY_VERSION})`);
+    }
+    const map = getMap(replay.mapId);
+    if (!map) {
+      throw new Error(`Replay uses unknown map '${replay.mapId}'`);
+    }
+
+    this.replay = replay;
+    this.map = map;
+    this.simulation = this.createSimulation();
+  }
+
+  // --------------------------------------------------------------------------
+  // Round Control
+  // --------------------------------------------------------------------------
+
+  /**
+   * Set up the given round, ready for its first tick. Earlier rounds are
+   * replayed without stopping; going backwards restarts from the seed.
+   *
+   * @param index - Round index (0-based) into the replay's rounds
+   */
+  seekRound(index: number): void {
+    if (index < 0 || index >= this.replay.rounds.length) {
+      throw new Error(`Replay has no round index ${index}`);
+    }
+
+    if (index <= this.roundIndex) {
+      this.simulation = this.createSimulation();
+      this.roundIndex = -1;
+    } else if (this.roundIndex >= 0) {
+      /* Finish the round in progress; its random draws shape later rounds */
+      while (this.stepTick()) { /* keep stepping */ }
+    }
+
+    while (this.roundIndex < index - 1) {
+      this.beginRound(this.roundIndex + 1);
+      while (this.stepTick()) { /* keep stepping */ }
+    }
+    this.beginRound(index);
+  }
+
+  /**
+   * Run one tick of the current round: apply the inputs recorded for it,
+   * then advance the simulation.
+   *
+   * @returns The tick's result, or null if the round had already ended
+   */
+  stepTick(): TickResult | null {
+    const round = this.getRound();
+    if (!round || this.roundOver) return null;
+
+    const tick = this.simulation.getTick();
+    while (this.nextInput < round.inputs.length && round.inputs[this.nextInput].tick <= tick) {
+      this.applyInput(round.inputs[this.nextInput]);
+      this.nextInput++;
+    }
+
+    const result = this.simulation.runTick();
+    if (result.roundEnded && !this.simulationEnd) {
+      this.simulationEnd = { tick: this.simulation.getTick(), winningSide: result.winningSide };
+    }
+    if (this.simulation.getTick() >= round.endTick || result.roundEnded) {
+      this.roundOver = true;
+
+      /* Commands queued after the last tick never ran, but their radio-delay rolls still drew from the PRNG */
+      while (this.nextInput < round.inputs.length) {
+        this.applyInput(round.inputs[this.nextInput]);
+        this.nextInput++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Check the current round, played to its end, against its recording.
+   *
+   * @returns Whether the outcome and kill records match, with any differences
+   */
+  checkRound(): RoundVerification {
+    const round = this.getRound();
+    if (!round) throw new Error('No round is being replayed');
+    while (this.stepTick()) { /* keep stepping */ }
+
+    const mismatches = [...this.refusedInputs];
+    const end = this.simulationEnd;
+
+    if (round.endedBy === 'SIMULATION') {
+      if (!end) {
+        mismatches.push(`recorded round end at tick ${round.endTick} did not happen`);
+      } else if (end.tick !== round.endTick || end.winningSide !== round.winningSide) {
+        mismatches.push(
+          `round ended at tick ${end.tick} (${end.winningSide}), ` +
+          `recorded tick ${round.endTick} (${round.winningSide})`
+        );
+      }
+    } else if (end) {
+      mismatches.push(`round ended at tick ${end.tick} (${end.winningSide}) before the recorded phase timeout`);
+    }
+
+    const kills = this.simulation.getRoundKills();
+    if (kills.length !== round.kills.length) {
+      mismatches.push(`${kills.length} kills replayed, ${round.kills.length} recorded`);
+    } else {
+      const first = kills.findIndex((kill, i) => JSON.stringify(kill) !== JSON.stringify(round.kills[i]));
+      if (first >= 0) {
+        mismatches.push(
+          `kill ${first + 1} differs: replayed ${kills[first].killerId} -> ${kills[first].victimId} ` +
+          `at tick ${kills[first].tick}, recorded ${round.kills[first].killerId} -> ` +
+          `${round.kills[first].victimId} at tick ${round.kills[first].tick}`
+        );
+      }
+    }
+
+    return { roundNumber: round.roundNumber, ok: mismatches.length === 0, mismatches };
+  }
+
+  /**
+   * Replay the whole match from the seed and check every round.
+   *
+   * @returns Per-round results and whether all of them matched
+   */
+  verify(): ReplayVerification {
+    const rounds: RoundVerification[] = [];
+    for (let i = 0; i < this.replay.rounds.length; i++) {
+      this.seekRound(i);
+      rounds.push(this.checkRound());
+    }
+    return { ok: rounds.every(r => r.ok), rounds };
+  }
+
+  // --------------------------------------------------------------------------
+  // Accessors
+  // --------------------------------------------------------------------------
+
+  /** The simulation being driven (read its filtered states for display). */
+  getSimulation(): Simulation {
+    return this.simulation;
+  }
+
+  /** The recording of the round being played, or null before the first. */
+  getRound(): ReplayRound | null {
+    return this.replay.rounds[this.roundIndex] ?? null;
+  }
+
+  /** Index (0-based) of the round being played, -1 before the first. */
+  getRoundIndex(): number {
+    return this.roundIndex;
+  }
+
+  /** Whether the current round has reached its recorded end. */
+  isRoundOver(): boolean {
+    return this.roundOver;
+  }
+
+  /** The map the replay was recorded on. */
+  getMap(): MapData {
+    return this.map;
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  /** Create a simulation for the replay's seed and map. */
+  private createSimulation(): Simulation {
+    const simulation = new Simulation(this.replay.matchSeed);
+    simulation.setWalls(this.map.walls, this.map.dimensions.width, this.map.dimensions.height);
+    simulation.setCover(this.map.cover);
+    return simulation;
+  }
+
+  /**
+   * Set up a round as GameRoom did: spawn, equip, then brief the plans.
+   *
+   * @param index - Round index (0-based)
+   */
+  private beginRound(index: number): void {
+    const round = this.replay.rounds[index];
+    this.roundIndex = index;
+    this.nextInput = 0;
+    this.roundOver = false;
+    this.simulationEnd = null;
+    this.refusedInputs = [];
+
+    this.simulation.initializeRound(
+      round.player1Side,
+      this.map.spawnZones.attacker,
+      this.map.spawnZones.defender,
+      round.keepSurvivorLoadouts
+    );
+
+    for (const playerNumber of [1, 2] as const) {
+      const loadouts = playerNumber === 1 ? round.loadouts.player1 : round.loadouts.player2;
+      loadouts.forEach((loadout, i) => this.simulation.setLoadout(playerNumber, i, loadout));
+    }
+    for (const playerNumber of [1, 2] as const) {
+      const strategy = playerNumber === 1 ? round.strategy.player1 : round.strategy.player2;
+      strategy.routes.forEach((route, i) => {
+        if (route.length > 0) this.simulation.assignRoute(playerNumber, i, route);
+      });
+    }
+    for (const playerNumber of [1, 2] as const) {
+      const strategy = playerNumber === 1 ? round.strategy.player1 : round.strategy.player2;
+      strategy.stances.forEach((stance, i) => {
+        if (stance) this.simulation.setStance(playerNumber, i, stance);
+      });
+    }
+  }
+
+  /**
+   * Feed one recorded input back into the simulation.
+   *
+   * @param input - The recorded input
+   */
+  private applyInput(input: SimulationInput): void {
+    switch (input.kind) {
+      case 'COMMAND': {
+        const result = this.simulation.queueCommand(
+          input.playerNumber,
+          input.type,
+          input.soldierIndex,
+          input.targetPosition,
+          input.utilityType,
+          input.stance,
+          input.targetSoldierIndex
+        );
+        if (!result.accepted) {
+          this.refusedInputs.push(
+            `P${input.playerNumber} ${input.type} for soldier ${input.soldierIndex} ` +
+            `at tick ${input.tick} was refused: ${result.reason}`
+          );
+        }
+        break;
+      }
+
+      case 'BOT_ORDER':
+        this.simulation.executeBotCommand(input.playerNumber, input.type, input.soldierIndex, input.targetPosition);
+        break;
+
+      case 'FACING':
+        this.simulation.setFacing(input.playerNumber, input.soldierIndex, input.rotation);
+        break;
+    }
+  }
+}
@@ -0,0 +1,2923 @@
+/**
+ * @file Simulation.ts
+ * @description Deterministic game simulation engine shared by client and server.
+ *
+ * Headless: no rendering, timers or sockets. Given the same seed, map and
+ * inputs (loadouts, strategy routes, commands queued on the same ticks) it
+ * produces the same state on every tick, wherever it runs. All randomness
+ * comes from the seeded PRNG; it never reads the clock.
+ *
+ * Runs at 5 ticks/sec:
+ *   - Multiplayer: GameRoom runs it as the authoritative server simulation
+ *   - Single-player: the client's Game.ts runs it locally against the bot
+ *   - Parity check: scripts/simParity.ts runs it twice and compares every tick
+ *
+ * Simulation tick pipeline:
+ *   1. Process queued commands (both players)
+ *   2. Update movement (A* pathfinding + SPD stat)
+ *   3. Run detection (vision cone + LOS + probabilistic roll)
+ *   4. Resolve combat (stat-driven firefights)
+ *   5. Tick utility effects (smoke, molotov, flash timers)
+ *   6. Update bomb plant/defuse progress
+ *   7. Check round-end conditions
+ *   8. Generate events and fog-of-war filtered state updates
+ *
+ * Architecture:
+ *   GameRoom (server) / Game (client, single-player)
+ *     └── Simulation (this file)
+ *           ├── Uses shared StatFormulas for all calculations
+ *           ├── Uses shared WeaponData for item stats
+ *           ├── Uses shared PRNG (SeededRandom) for determinism
+ *           └── Produces GameEvent[] and filtered state per tick
+ */
+
+import { SeededRandom } from '../util/RandomUtils';
+import { getCoverStrength, segmentLengthInRect, traceBouncingPath, pointToSegmentDistance } from '../util/MathUtils';
+import { WEAPONS } from '../constants/WeaponData';
+import {
+  calculateMovementSpeed,
+  calculateDetectionRadius,
+  calculateStealthModifier,
+  calculateBaseHitChance,
+  calculateFinalHitChance,
+  calculateHeadshotChance,
+  calculateDamage,
+  calculateSprayAccuracy,
+  calculateComposureModifier,
+  calculateClutchModifier,
+  calculateTeamworkModifier,
+  calculateReactionTime,
+  calculateLegHitShare,
+  calculateCoverConcealment,
+  calculateWallbangDamageMultiplier,
+  calculateFootstepNoiseModifier,
+  calculateThrowScatter,
+  calculateCommandDelayModifier,
+} from '../constants/StatFormulas';
+import { SIMULATION, TIMING, RUSH, STANCE_MODIFIERS, BOMB, COVER, WALLBANG, SOUND, UTILITY_VISIBILITY, GRENADE, PATH_HAZARDS } from '../constants/GameConstants';
+import { Pathfinding } from './Pathfinding';
+import { UtilityEffectSystem } from './UtilityEffects';
+
+// ============================================================================
+// --- Types ---
+// ============================================================================
+
+/**
+ * Position in the game world (same as client Position).
+ */
+interface Position {
+  x: number;
+  z: number;
+}
+
+/**
+ * Soldier runtime state inside the simulation.
+ * Mirrors client SoldierRuntimeState; players only ever see it through
+ * getFilteredState().
+ */
+interface SimSoldierState {
+  /** Index of this soldier in the team (0-4) */
+  index: number;
+  /** Reference ID to the soldier's persistent data */
+  soldierId: string;
+  /** Current world position */
+  position: Position;
+  /** Direction the soldier is facing, in radians */
+  rotation: number;
+  /** Current health points (0-100) */
+  health: number;
+  /** Whether the soldier is still alive this round */
+  alive: boolean;
+  /** Currently equipped weapon */
+  currentWeapon: string;
+  /** Armor type equipped (null if none) */
+  armor: string | null;
+  /** Whether the soldier has a helmet */
+  helmet: boolean;
+  /** Remaining utility items */
+  utility: string[];
+  /** Whether this soldier has a defuse kit */
+  defuseKit: boolean;
+  /** Current stance: AGGRESSIVE, DEFENSIVE, PASSIVE */
+  stance: string;
+  /** Whether the soldier is currently moving */
+  isMoving: boolean;
+  /** Whether the soldier is in active combat */
+  isInCombat: boolean;
+  /** ID of current combat target */
+  currentTarget: string | null;
+  /** Seconds left before the soldier can fire at a newly acquired target */
+  reactionTimer: number;
+  /** Last position the current target was seen at (AGGRESSIVE soldiers chase it) */
+  lastKnownTargetPosition: Position | null;
+  /** Tick the current target was last seen at (wallbangs stop after WALLBANG.memorySeconds) */
+  lastKnownTargetTick: number;
+  /** Queue of positions to move to */
+  waypoints: Position[];
+  /** Strategy plan route, walked leg by leg in order (empty if none) */
+  route: Position[];
+  /** Index of the route waypoint currently being walked toward */
+  routeIndex: number;
+  /** Whether this soldier carries the bomb */
+  hasBomb: boolean;
+  /** Ground weapon this soldier was ordered to pick up (null if none) */
+  pickupTargetId: string | null;
+  /** Whether this soldier's weapon has already been dropped on death */
+  weaponDropped: boolean;
+  /** Whether this soldier is planting the bomb */
+  isPlanting: boolean;
+  /** Whether this soldier is defusing the bomb */
+  isDefusing: boolean;
+  /** Whether this soldier is falling back under a RETREAT order */
+  isRetreating: boolean;
+  /** Whether this soldier is moving under a RUSH order (fast, loud, inaccurate) */
+  isRushing: boolean;
+  /** Plant/defuse action progress in seconds */
+  actionProgress: number;
+  /** The 10 core combat stats */
+  stats: {
+    ACC: number;
+    REA: number;
+    SPD: number;
+    STL: number;
+    AWR: number;
+    RCL: number;
+    CMP: number;
+    CLT: number;
+    UTL: number;
+    TWK: number;
+  };
+  /** IDs of enemies this soldier currently detects */
+  detectedEnemies: string[];
+  /** Number of consecutive shots fired */
+  shotsFired: number;
+  /** Whether this soldier is blinded */
+  isBlinded: boolean;
+  /** Seconds remaining on blind effect */
+  blindedTimer: number;
+}
+
+/**
+ * A queued command waiting to be executed.
+ * Commands have a delay period before they take effect
+ * (simulates radio communication delay).
+ */
+interface QueuedCommand {
+  /** Which player issued the command (1 or 2) */
+  playerNumber: 1 | 2;
+  /** The command type */
+  type: string;
+  /** Target soldier index (0-4) */
+  soldierIndex: number;
+  /** Target position for movement commands */
+  targetPosition?: Position;
+  /** Utility type for USE_UTILITY commands */
+  utilityType?: string;
+  /** New stance for SET_STANCE commands */
+  stance?: string;
+  /** Receiving teammate for GIVE_BOMB commands (nearest if omitted) */
+  targetSoldierIndex?: number;
+  /** Game time when this command becomes executable */
+  executeAt: number;
+}
+
+/**
+ * A game event generated during simulation.
+ * Sent to clients for rendering visual/audio effects.
+ */
+export interface SimEvent {
+  /** Event type (SHOT_FIRED, HIT, KILL, etc.) */
+  type: string;
+  /** Tick when the event occurred */
+  tick: number;
+  /** Event-specific data payload */
+  data: Record<string, unknown>;
+  /** Only delivered to this player (private intel such as SOUND_HEARD); everyone if omitted */
+  recipient?: 1 | 2;
+}
+
+/**
+ * A utility effect (smoke, molotov, flash, ...) as a player is allowed to see it.
+ * The thrower is left out so enemy effects don't reveal who threw them.
+ */
+export interface VisibleUtilityEffect {
+  /** Unique ID for this effect instance */
+  id: string;
+  /** Utility type (SMOKE, FLASH, FRAG, MOLOTOV, DECOY) */
+  type: string;
+  /** World position where the effect is centred */
+  position: Position;
+  /** Effect radius in pixels */
+  radius: number;
+  /** Time remaining before the effect expires (seconds) */
+  timeRemaining: number;
+  /** Total duration of the effect (seconds) */
+  totalDuration: number;
+  /** Which team owns this effect (1 or 2) */
+  ownerTeam: 1 | 2;
+}
+
+/** Kind of noise that produced a sound ping */
+export type SoundType = 'FOOTSTEPS' | 'GUNFIRE' | 'UTILITY' | 'PLANT' | 'DEFUSE';
+
+/**
+ * An approximate position where a player's soldiers heard an enemy.
+ * The position is deliberately fuzzed; it is never the exact source.
+ */
+export interface SoundPing {
+  /** Unique ID for this ping (per round) */
+  id: string;
+  /** What was heard */
+  soundType: SoundType;
+  /** Fuzzed position of the noise */
+  position: Position;
+  /** Tick the sound was heard on */
+  tick: number;
+}
+
+/**
+ * A weapon lying on the ground after its owner died or swapped it.
+ * Any living soldier can pick it up.
+ */
+export interface GroundWeapon {
+  /** Unique ID for this ground item (per round) */
+  id: string;
+  /** Weapon type (RIFLE, AWP, etc.) */
+  weaponId: string;
+  /** Where the weapon lies */
+  position: Position;
+}
+
+/**
+ * Kill record generated when a soldier dies.
+ */
+export interface KillRecord {
+  killerId: string;
+  victimId: string;
+  weapon: string;
+  headshot: boolean;
+  /** Whether the killing shot went through a wall */
+  wallbang: boolean;
+  tick: number;
+}
+
+/**
+ * Result of a simulation tick. Contains events and round-end info.
+ */
+export interface TickResult {
+  /** Events generated this tick (shots, kills, etc.) */
+  events: SimEvent[];
+  /** Whether the round ended this tick */
+  roundEnded: boolean;
+  /** Winning side if the round ended, null otherwise */
+  winningSide: 'ATTACKER' | 'DEFENDER' | null;
+  /** Kill records generated this tick */
+  kills: KillRecord[];
+}
+
+/**
+ * Outcome of queueing a player command. Accepted commands report their
+ * radio delay; rejected ones report why and how long until a retry can land.
+ */
+export type CommandQueueResult =
+  | { accepted: true; delay: number }
+  | { accepted: false; reason: string; retryIn: number };
+
+/**
+ * One mid-round order that changed the simulation, as reported to the
+ * input listener. Together with the seed, loadouts and strategy plans these
+ * are everything needed to replay a round (see Replay.ts).
+ *
+ *   COMMAND   — player command accepted by queueCommand (radio delay applies)
+ *   BOT_ORDER — bot order executed at once by executeBotCommand
+ *   FACING    — bot turning a soldier with setFacing
+ */
+export type SimulationInput =
+  | {
+      kind: 'COMMAND';
+      /** Ticks run this round when the command was queued */
+      tick: number;
+      playerNumber: 1 | 2;
+      type: string;
+      soldierIndex: number;
+      targetPosition?: Position;
+      utilityType?: string;
+      stance?: string;
+      targetSoldierIndex?: number;
+    }
+  | {
+      kind: 'BOT_ORDER';
+      /** Ticks run this round when the order was given */
+      tick: number;
+      playerNumber: 1 | 2;
+      type: string;
+      soldierIndex: number;
+      targetPosition?: Position;
+    }
+  | {
+      kind: 'FACING';
+      /** Ticks run this round when the soldier was turned */
+      tick: number;
+      playerNumber: 1 | 2;
+      soldierIndex: number;
+      rotation: number;
+    };
+
+/**
+ * Equipment a soldier carries into a round. Bought during BUY_PHASE and
+ * kept by survivors into the next round.
+ */
+export interface SoldierLoadout {
+  /** Equipped weapon (PISTOL if no primary was bought) */
+  currentWeapon: string;
+  /** Armor type (null if none) */
+  armor: string | null;
+  /** Whether the soldier has a helmet */
+  helmet: boolean;
+  /** Utility items carried (max 4) */
+  utility: string[];
+  /** Whether the soldier has a defuse kit */
+  defuseKit: boolean;
+}
+
+/**
+ * How far a soldier has progressed along its strategy plan route.
+ * Only reported for the player's own soldiers.
+ */
+export interface RouteProgress {
+  /** Soldier index in the team (0-4) */
+  soldierIndex: number;
+  /** Number of route waypoints already reached */
+  completedWaypoints: number;
+  /** Total number of waypoints in the route (0 if no plan) */
+  totalWaypoints: number;
+  /** Route waypoint currently being walked toward (null when done) */
+  currentTarget: Position | null;
+}
+
+/**
+ * Fog-of-war filtered state for one player.
+ * Contains their own soldiers (full state) and visible enemies (partial state).
+ */
+export interface FilteredGameState {
+  /** All of the player's own soldiers (full information) */
+  ownSoldiers: SimSoldierState[];
+  /** Enemy soldiers that are currently visible (detected by own team) */
+  visibleEnemies: Partial<SimSoldierState>[];
+  /** Whether the bomb has been planted */
+  bombPlanted: boolean;
+  /** Bomb position (null if not planted or not visible) */
+  bombPosition: Position | null;
+  /** Position of the dropped, unplanted bomb (attackers always; defenders only with LOS) */
+  droppedBombPosition: Position | null;
+  /** Dropped weapons any own soldier has line of sight to */
+  groundWeapons: GroundWeapon[];
+  /** Recent sound pings heard by this player's soldiers (never the enemy's) */
+  soundPings: SoundPing[];
+  /** Active utility effects: own ones, plus enemy ones in sight or big enough to notice */
+  utilityEffects: VisibleUtilityEffect[];
+  /** Bomb site identifier */
+  bombSite: string | null;
+  /** Bomb timer (only visible to defenders when planted) */
+  bombTimer: number;
+  /** Strategy plan route progress for each own soldier */
+  routeProgress: RouteProgress[];
+  /** Current tick number */
+  tick: number;
+}
+
+// ============================================================================
+// --- Constants ---
+// ============================================================================
+
+/** Simulation tick rate in milliseconds */
+const TICK_RATE_MS = 200;
+
+/** Range within which allies provide a teamwork bonus (300px) */
+const TEAMWORK_RANGE = 300;
+
+/** Retreating soldiers only return fire at enemies closer than this (px) */
+const RETREAT_RETURN_FIRE_RANGE = 250;
+
+/** Fallback distances tried when searching for a retreat point, nearest first (px) */
+const RETREAT_SEARCH_DISTANCES = [150, 300, 450, 600];
+
+/** Angular offsets from the spawn direction tried at each retreat distance (radians) */
+const RETREAT_SEARCH_ANGLES = [0, Math.PI / 6, -Math.PI / 6, Math.PI / 3, -Math.PI / 3];
+
+/** AGGRESSIVE soldiers chasing a target stop this far short of it (px) */
+const CHASE_STOP_DISTANCE = 150;
+
+/** Valid soldier stances */
+const STANCES = ['AGGRESSIVE', 'DEFENSIVE', 'PASSIVE'];
+
+/** Per-tick chance to spot a target in the main vision cone, at point-blank range */
+const DETECTION_BASE_CHANCE = 0.6;
+
+/** Share of DETECTION_BASE_CHANCE lost at the edge of the detection radius */
+const DETECTION_RANGE_FALLOFF = 0.4;
+
+/** Half-width of the main vision cone (radians) */
+const DETECTION_HALF_CONE = (SIMULATION.detectionConeDegrees / 2) * Math.PI / 180;
+
+/** Half-width of the cone plus peripheral vision (radians) */
+const DETECTION_HALF_PERIPHERAL = DETECTION_HALF_CONE + SIMULATION.peripheralAngle * Math.PI / 180;
+
+/** Distance within which a soldier picks up a ground weapon (px) */
+const WEAPON_PICKUP_RADIUS = 30;
+
+/** PICKUP_WEAPON picks the ground weapon nearest its target, within this distance (px) */
+const WEAPON_PICKUP_SEARCH_RADIUS = 150;
+
+// ============================================================================
+// --- Simulation Class ---
+// ============================================================================
+
+/**
+ * Deterministic game simulation for a single match.
+ *
+ * Manages:
+ *   - Complete game state for both teams
+ *   - Command queue with radio delay
+ *   - Per-tick simulation of movement, detection, combat, utility, bomb
+ *   - Event generation for client rendering
+ *   - Fog-of-war filtered state output
+ */
+export class Simulation {
+  /** Seeded PRNG for deterministic simulation */
+  private rng: SeededRandom;
+
+  /** Current game time in seconds (accumulated from ticks) */
+  private gameTime: number = 0;
+
+  /** Current simulation tick number */
+  private tick: number = 0;
+
+  /** Player 1's soldiers (5 total) */
+  private player1Soldiers: SimSoldierState[] = [];
+
+  /** Player 2's soldiers (5 total) */
+  private player2Soldiers: SimSoldierState[] = [];
+
+  /** Which side player 1 is on */
+  private player1Side: 'ATTACKER' | 'DEFENDER' = 'ATTACKER';
+
+  /** Queued commands waiting to be executed */
+  private commandQueue: QueuedCommand[] = [];
+
+  /** Kill records for the current round */
+  private roundKills: KillRecord[] = [];
+
+  /** Whether the bomb has been planted this round */
+  private bombPlanted: boolean = false;
+
+  /** Bomb position (null if not planted) */
+  private bombPosition: Position | null = null;
+
+  /** Bomb site identifier */
+  private bombSite: string | null = null;
+
+  /** Where the bomb lies after its carrier died (null while carried or planted) */
+  private droppedBombPosition: Position | null = null;
+
+  /** Weapons dropped by dead soldiers or swapped out this round */
+  private groundWeapons: GroundWeapon[] = [];
+
+  /** Counter for ground weapon IDs */
+  private nextGroundWeaponId: number = 0;
+
+  /** Sound pings each player has heard recently (expire after SOUND.pingDurationSeconds) */
+  private soundPings: Record<1 | 2, SoundPing[]> = { 1: [], 2: [] };
+
+  /** Counter for sound ping IDs */
+  private nextSoundPingId: number = 0;
+
+  /** Bomb timer in seconds (counts down when planted) */
+  private bombTimer: number = 0;
+
+  /** Whether the bomb was defused this round */
+  private bombDefused: boolean = false;
+
+  /** Events generated during the current tick (reset each tick) */
+  private tickEvents: SimEvent[] = [];
+
+  /** Wall data for LOS checks (loaded from map) */
+  private walls: Array<{
+    x: number; z: number; width: number; height: number; material?: string; thickness?: number;
+  }> = [];
+
+  /** Cover objects (crates, half-walls) that protect soldiers hugging them */
+  private cover: Array<{ x: number; z: number; width: number; height: number; coverStrength: number }> = [];
+
+  /** A* pathfinding system for wall-aware movement (null until walls are set) */
+  private pathfinder: Pathfinding | null = null;
+
+  /** Utility system managing smoke, flash, frag, molotov, decoy effects */
+  private utilitySystem: UtilityEffectSystem = new UtilityEffectSystem();
+
+  /** Game time of the last accepted command per soldier (cooldown tracking) */
+  private lastCommandTime: Record<1 | 2, number[]> = { 1: [], 2: [] };
+
+  /** IDs of the fires and smokes currently registered as pathfinding hazards */
+  private hazardEffectIds: Set<string> = new Set();
+
+  /** Map width in game units (set when walls are loaded) */
+  private mapWidth: number = 3000;
+
+  /** Map height in game units (set when walls are loaded) */
+  private mapHeight: number = 2000;
+
+  /** Spawn zone center per player for the current round (retreat fallback) */
+  private spawnCenters: Record<1 | 2, Position> = { 1: { x: 0, z: 0 }, 2: { x: 0, z: 0 } };
+
+  /** Told about every mid-round input (replay recording), null when nobody listens */
+  private inputListener: ((input: SimulationInput) => void) | null = null;
+
+  /**
+   * Create a new simulation.
+   *
+   * @param seed - RNG seed for deterministic simulation
+   */
+  constructor(seed: number) {
+    this.rng = new SeededRandom(seed);
+  }
+
+  // --------------------------------------------------------------------------
+  // Initialization
+  // --------------------------------------------------------------------------
+
+  /**
+   * Initialize soldiers for a new round.
+   * Places soldiers at spawn positions and assigns default equipment.
+   * Soldiers who survived the previous round keep their loadout unless
+   * keepSurvivorLoadouts is false (match start and side swap).
+   *
+   * @param player1Side - Which side player 1 is on
+   * @param attackerSpawn - Spawn zone for the attacking team
+   * @param defenderSpawn - Spawn zone for the defending team
+   * @param keepSurvivorLoadouts - Whether survivors carry their gear over
+   */
+  initializeRound(
+    player1Side: 'ATTACKER' | 'DEFENDER',
+    attackerSpawn: { x: number; z: number; width: number; height: number },
+    defenderSpawn: { x: number; z: number; width: number; height: number },
+    keepSurvivorLoadouts: boolean = false,
+  ): void {
+    /** Snapshot survivor gear before the soldiers are recreated */
+    const carriedOver: Record<1 | 2, (SoldierLoadout | null)[]> = {
+      1: this.player1Soldiers.map(s => (keepSurvivorLoadouts && s.alive ? this.copyLoadout(s) : null)),
+      2: this.player2Soldiers.map(s => (keepSurvivorLoadouts && s.alive ? this.copyLoadout(s) : null)),
+    };
+
+    this.player1Side = player1Side;
+    this.gameTime = 0;
+    this.tick = 0;
+    this.commandQueue = [];
+    this.lastCommandTime = { 1: [], 2: [] };
+    this.roundKills = [];
+    this.utilitySystem.clearAll();
+    this.hazardEffectIds = new Set();
+    this.pathfinder?.setHazards([]);
+    this.bombPlanted = false;
+    this.bombPosition = null;
+    this.bombSite = null;
+    this.bombTimer = 0;
+    this.bombDefused = false;
+    this.droppedBombPosition = null;
+    this.groundWeapons = [];
+    this.nextGroundWeaponId = 0;
+    this.soundPings = { 1: [], 2: [] };
+    this.nextSoundPingId = 0;
+
+    /** Determine spawn zones based on player 1's side */
+    const p1Spawn = player1Side === 'ATTACKER' ? attackerSpawn : defenderSpawn;
+    const p2Spawn = player1Side === 'ATTACKER' ? defenderSpawn : attackerSpawn;
+    this.spawnCenters = {
+      1: { x: p1Spawn.x + p1Spawn.width / 2, z: p1Spawn.z + p1Spawn.height / 2 },
+      2: { x: p2Spawn.x + p2Spawn.width / 2, z: p2Spawn.z + p2Spawn.height / 2 },
+    };
+
+    /** Create soldiers for both teams */
+    this.player1Soldiers = this.createTeamSoldiers('p1', p1Spawn, player1Side === 'ATTACKER');
+    this.player2Soldiers = this.createTeamSoldiers('p2', p2Spawn, player1Side !== 'ATTACKER');
+
+    /** Restore carried-over gear */
+    for (const playerNumber of [1, 2] as const) {
+      carriedOver[playerNumber].forEach((loadout, i) => {
+        if (loadout) this.setLoadout(playerNumber, i, loadout);
+      });
+    }
+  }
+
+  /**
+   * Create 5 soldiers for a team at their spawn positions.
+   *
+   * @param teamPrefix - ID prefix ('p1' or 'p2')
+   * @param spawn - Spawn zone rectangle
+   * @param isAttacker - Whether this team is attacking
+   * @returns Array of 5 initialized soldier states
+   */
+  private createTeamSoldiers(
+    teamPrefix: string,
+    spawn: { x: number; z: number; width: number; height: number },
+    isAttacker: boolean
+  ): SimSoldierState[] {
+    const soldiers: SimSoldierState[] = [];
+
+    /** Default stat profiles per soldier index (same as client createVariedStats) */
+    const profiles = [
+      { ACC: 65, REA: 70, SPD: 60, STL: 30, AWR: 50, RCL: 55, CMP: 55, CLT: 40, UTL: 35, TWK: 45 },
+      { ACC: 45, REA: 45, SPD: 50, STL: 45, AWR: 55, RCL: 45, CMP: 50, CLT: 35, UTL: 70, TWK: 65 },
+      { ACC: 75, REA: 60, SPD: 35, STL: 40, AWR: 55, RCL: 50, CMP: 60, CLT: 45, UTL: 30, TWK: 40 },
+      { ACC: 50, REA: 55, SPD: 55, STL: 75, AWR: 65, RCL: 40, CMP: 50, CLT: 70, UTL: 35, TWK: 25 },
+      { ACC: 55, REA: 45, SPD: 40, STL: 50, AWR: 65, RCL: 70, CMP: 70, CLT: 40, UTL: 40, TWK: 55 },
+    ];
+
+    for (let i = 0; i < 5; i++) {
+      const soldier: SimSoldierState = {
+        index: i,
+        soldierId: `${teamPrefix}_soldier_${i}`,
+        position: {
+          x: spawn.x + spawn.width * 0.2 + (spawn.width * 0.6 * (i / 4)),
+          z: spawn.z + spawn.height / 2,
+        },
+        rotation: isAttacker ? 0 : Math.PI,
+        health: 100,
+        alive: true,
+        currentWeapon: 'PISTOL',
+        armor: null,
+        helmet: false,
+        utility: [],
+        defuseKit: false,
+        stance: 'DEFENSIVE',
+        isMoving: false,
+        isInCombat: false,
+        currentTarget: null,
+        reactionTimer: 0,
+        lastKnownTargetPosition: null,
+        lastKnownTargetTick: 0,
+        waypoints: [],
+        route: [],
+        routeIndex: 0,
+        hasBomb: isAttacker && i === 0,
+        pickupTargetId: null,
+        weaponDropped: false,
+        isPlanting: false,
+        isDefusing: false,
+        isRetreating: false,
+        isRushing: false,
+        actionProgress: 0,
+        stats: profiles[i],
+        detectedEnemies: [],
+        shotsFired: 0,
+        isBlinded: false,
+        blindedTimer: 0,
+      };
+      soldiers.push(soldier);
+    }
+
+    return soldiers;
+  }
+
+  /**
+   * Set the wall data for LOS checks and initialize pathfinding.
+   * Called once when the map is loaded.
+   *
+   * @param walls - Array of wall rectangles (material and thickness drive wall penetration)
+   * @param mapWidth - Map width in game units (default 3000)
+   * @param mapHeight - Map height in game units (default 2000)
+   */
+  setWalls(
+    walls: Array<{ x: number; z: number; width: number; height: number; material?: string; thickness?: number }>,
+    mapWidth: number = 3000,
+    mapHeight: number = 2000
+  ): void {
+    this.walls = walls;
+    this.mapWidth = mapWidth;
+    this.mapHeight = mapHeight;
+
+    /**
+     * Create the A* pathfinding system from the wall data.
+     * This generates a navigation grid (60x40 for a 3000x2000 map with 50px cells).
+     */
+    this.pathfinder = new Pathfinding(mapWidth, mapHeight, walls);
+  }
+
+  /**
+   * Set the cover objects used for hit chance and detection.
+   * Cover does not block movement or LOS; it only protects soldiers behind it.
+   *
+   * @param cover - Array of cover rectangles with their coverStrength (0-1)
+   */
+  setCover(
+    cover: Array<{ x: number; z: number; width: number; height: number; coverStrength: number }>
+  ): void {
+    this.cover = cover;
+  }
+
+  // --------------------------------------------------------------------------
+  // Command Queue
+  // --------------------------------------------------------------------------
+
+  /**
+   * Queue a command from a player. The command will be executed after
+   * a radio delay (0.3-0.8 seconds, scaled by the soldier's TWK, plus
+   * 0.2s while in combat). Each soldier accepts at most one command per
+   * cooldown window so a modified client cannot micro-manage every tick.
+   *
+   * @param playerNumber - Which player sent the command (1 or 2)
+   * @param type - Command type (MOVE, RUSH, HOLD, etc.)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @param targetPosition - Target position for movement commands
+   * @param utilityType - Utility type for USE_UTILITY commands
+   * @param stance - New stance for SET_STANCE commands
+   * @param targetSoldierIndex - Receiving teammate for GIVE_BOMB commands
+   * @returns Whether the command was accepted, with its delay or retry time
+   */
+  queueCommand(
+    playerNumber: 1 | 2,
+    type: string,
+    soldierIndex: number,
+    targetPosition?: Position,
+    utilityType?: string,
+    stance?: string,
+    targetSoldierIndex?: number
+  ): CommandQueueResult {
+    const soldiers = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    const soldier = soldiers[soldierIndex];
+    if (!soldier || !soldier.alive) {
+      return { accepted: false, reason: 'Soldier is dead', retryIn: 0 };
+    }
+
+    /** Per-soldier cooldown: reject commands sent too soon after the last one */
+    const lastTime = this.lastCommandTime[playerNumber][soldierIndex];
+    if (lastTime !== undefined && this.gameTime - lastTime < TIMING.commandCooldown) {
+      return {
+        accepted: false,
+        reason: 'Command cooldown',
+        retryIn: TIMING.commandCooldown - (this.gameTime - lastTime),
+      };
+    }
+    this.lastCommandTime[playerNumber][soldierIndex] = this.gameTime;
+
+    /** Radio delay: random in the base range, scaled by TWK, longer under fire */
+    const baseDelay = TIMING.commandDelayMin +
+      this.rng.next() * (TIMING.commandDelayMax - TIMING.commandDelayMin);
+    const delay = baseDelay * calculateCommandDelayModifier(soldier.stats.TWK) +
+      (soldier.isInCombat ? TIMING.commandCombatExtraDelay : 0);
+
+    this.commandQueue.push({
+      playerNumber,
+      type,
+      soldierIndex,
+      targetPosition,
+      utilityType,
+      stance,
+      targetSoldierIndex,
+      executeAt: this.gameTime + delay,
+    });
+
+    this.inputListener?.({
+      kind: 'COMMAND',
+      tick: this.tick,
+      playerNumber,
+      type,
+      soldierIndex,
+      targetPosition: targetPosition ? { x: targetPosition.x, z: targetPosition.z } : undefined,
+      utilityType,
+      stance,
+      targetSoldierIndex,
+    });
+
+    return { accepted: true, delay };
+  }
+
+  // --------------------------------------------------------------------------
+  // Loadouts
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get a copy of a soldier's current loadout.
+   *
+   * @param playerNumber - Which player owns the soldier (1 or 2)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @returns The soldier's loadout, or null if the index is invalid
+   */
+  getLoadout(playerNumber: 1 | 2, soldierIndex: number): SoldierLoadout | null {
+    const soldiers = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    const soldier = soldiers[soldierIndex];
+    return soldier ? this.copyLoadout(soldier) : null;
+  }
+
+  /**
+   * Equip a soldier with a loadout. The caller (GameRoom or Game) is responsible
+   * for validating the items and charging for them.
+   *
+   * @param playerNumber - Which player owns the soldier (1 or 2)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @param loadout - Validated loadout to apply
+   */
+  setLoadout(playerNumber: 1 | 2, soldierIndex: number, loadout: SoldierLoadout): void {
+    const soldiers = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    const soldier = soldiers[soldierIndex];
+    if (!soldier) return;
+
+    soldier.currentWeapon = loadout.currentWeapon;
+    soldier.armor = loadout.armor;
+    soldier.helmet = loadout.helmet;
+    soldier.utility = [...loadout.utility];
+    soldier.defuseKit = loadout.defuseKit;
+  }
+
+  /**
+   * Copy the equipment fields of a soldier into a standalone loadout.
+   */
+  private copyLoadout(soldier: SimSoldierState): SoldierLoadout {
+    return {
+      currentWeapon: soldier.currentWeapon,
+      armor: soldier.armor,
+      helmet: soldier.helmet,
+      utility: [...soldier.utility],
+      defuseKit: soldier.defuseKit,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Strategy Routes
+  // --------------------------------------------------------------------------
+
+  /**
+   * Assign a full strategy plan route to a soldier. The soldier walks the
+   * route waypoints in order, re-pathing each leg with A* so walls between
+   * consecutive waypoints are navigated around.
+   *
+   * Routes are briefed before the round, so unlike live commands they
+   * take effect immediately (no radio delay). Any later movement command
+   * overrides the remaining route.
+   *
+   * @param playerNumber - Which player owns the soldier (1 or 2)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @param route - Validated route waypoints, in walking order
+   */
+  assignRoute(playerNumber: 1 | 2, soldierIndex: number, route: Position[]): void {
+    const soldiers = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    const soldier = soldiers[soldierIndex];
+    if (!soldier || !soldier.alive) return;
+
+    soldier.route = route.map(wp => ({ x: wp.x, z: wp.z }));
+    soldier.routeIndex = 0;
+    this.startRouteLeg(soldier);
+  }
+
+  /**
+   * Set a soldier's stance directly (strategy plan briefing, no radio delay).
+   * Unknown stances are ignored.
+   *
+   * @param playerNumber - Which player owns the soldier (1 or 2)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @param stance - AGGRESSIVE, DEFENSIVE or PASSIVE
+   */
+  setStance(playerNumber: 1 | 2, soldierIndex: number, stance: string): void {
+    const soldiers = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    const soldier = soldiers[soldierIndex];
+    if (!soldier || !STANCES.includes(stance)) return;
+    soldier.stance = stance;
+  }
+
+  /**
+   * Path the soldier toward its current route waypoint.
+   * Waypoints the soldier is already standing on are skipped.
+   */
+  private startRouteLeg(soldier: SimSoldierState): void {
+    const ARRIVAL_DIST = 5;
+
+    while (soldier.routeIndex < soldier.route.length) {
+      const target = soldier.route[soldier.routeIndex];
+      if (this.distance(soldier.position, target) >= ARRIVAL_DIST) {
+        soldier.waypoints = this.findPathTo(soldier.position, target);
+        soldier.isMoving = true;
+        return;
+      }
+      soldier.routeIndex++;
+    }
+
+    soldier.waypoints = [];
+    soldier.isMoving = false;
+  }
+
+  /**
+   * Advance to the next route leg once the current leg has been walked.
+   * Called by the movement step when a soldier's waypoint queue empties.
+   */
+  private advanceRoute(soldier: SimSoldierState): void {
+    if (soldier.routeIndex >= soldier.route.length) return;
+    soldier.routeIndex++;
+    this.startRouteLeg(soldier);
+  }
+
+  /**
+   * Drop whatever is left of a soldier's strategy route.
+   * Used when a live command takes over the soldier's movement.
+   */
+  private cancelRoute(soldier: SimSoldierState): void {
+    soldier.route = [];
+    soldier.routeIndex = 0;
+  }
+
+  /**
+   * Build a wall-aware waypoint list from one position to another.
+   * Routes bend around fires and smokes unless ignoreHazards is set (RUSH).
+   * Falls back to direct movement if pathfinding is unavailable or
+   * returns no path.
+   */
+  private findPathTo(from: Position, to: Position, ignoreHazards: boolean = false): Position[] {
+    if (this.pathfinder) {
+      const path = this.pathfinder.findPath(from, to, ignoreHazards);
+      if (path.length > 1) {
+        /* Skip the first waypoint (it's the current position) */
+        return path.slice(1);
+      }
+    }
+    return [{ x: to.x, z: to.z }];
+  }
+
+  // --------------------------------------------------------------------------
+  // Bot Control
+  // --------------------------------------------------------------------------
+
+  /**
+   * Execute an order for a bot-controlled soldier right away.
+   * The bot (single-player opponent, or stand-in for a disconnected player)
+   * is the commander itself, so its orders skip the radio delay and the
+   * per-soldier cooldown.
+   *
+   * @param playerNumber - Which player's soldier to order (1 or 2)
+   * @param type - Command type (MOVE, HOLD, PLANT_BOMB, ...)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @param targetPosition - Destination for movement commands
+   */
+  executeBotCommand(
+    playerNumber: 1 | 2,
+    type: string,
+    soldierIndex: number,
+    targetPosition?: Position
+  ): void {
+    const target = targetPosition ? { x: targetPosition.x, z: targetPosition.z } : undefined;
+    this.inputListener?.({ kind: 'BOT_ORDER', tick: this.tick, playerNumber, type, soldierIndex, targetPosition: target });
+
+    this.executeCommand({
+      playerNumber,
+      type,
+      soldierIndex,
+      targetPosition: target,
+      executeAt: this.gameTime,
+    });
+  }
+
+  /**
+   * Turn a living soldier to face a direction (bot holding angles).
+   *
+   * @param playerNumber - Which player owns the soldier (1 or 2)
+   * @param soldierIndex - Target soldier index (0-4)
+   * @param rotation - Facing direction in radians
+   */
+  setFacing(playerNumber: 1 | 2, soldierIndex: number, rotation: number): void {
+    const soldiers = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    const soldier = soldiers[soldierIndex];
+    if (!soldier || !soldier.alive || soldier.rotation === rotation) return;
+    soldier.rotation = rotation;
+    this.inputListener?.({ kind: 'FACING', tick: this.tick, playerNumber, soldierIndex, rotation });
+  }
+
+  /**
+   * Report every later mid-round input to a listener (or stop with null).
+   * GameRoom uses this to record matches for replay.
+   *
+   * @param listener - Called with each input as it is applied
+   */
+  setInputListener(listener: ((input: SimulationInput) => void) | null): void {
+    this.inputListener = listener;
+  }
+
+  // --------------------------------------------------------------------------
+  // Simulation Tick
+  // --------------------------------------------------------------------------
+
+  /**
+   * Run one simulation tick. This is the main entry point called by GameRoom
+   * (or Game in single-player) at TICK_RATE_MS intervals during LIVE_PHASE
+   * and POST_PLANT.
+   *
+   * @returns TickResult containing events and round-end status
+   */
+  runTick(): TickResult {
+    this.tick++;
+    this.gameTime += TICK_RATE_MS / 1000;
+
+    /** Accumulates events generated during this tick */
+    this.tickEvents = [];
+    const kills: KillRecord[] = [];
+
+    /* Step 1: Process commands that have passed their delay */
+    this.processCommands();
+
+    /* Step 2: Update movement */
+    this.updateMovement();
+
+    /* Step 3: Update detection */
+    this.updateDetection();
+
+    /* Step 4: Resolve combat (generates SHOT_FIRED, HIT, KILL events) */
+    const combatKills = this.updateCombat();
+    kills.push(...combatKills);
+    this.roundKills.push(...combatKills);
+
+    /* Step 4b: Stance behaviour (AGGRESSIVE chases, PASSIVE avoids fights) */
+    this.updateStanceBehaviour();
+
+    /* Step 5: Tick utility effects (smoke, molotov, flash, frag) */
+    this.updateUtility();
+
+    /* Step 6: Update blind timers (flash grenade effect) */
+    this.updateBlindTimers();
+
+    /* Step 6b: Drop weapons of the dead, pick up weapons walked over */
+    this.updateGroundWeapons();
+
+    /* Step 7: Update bomb actions (may generate BOMB_PLANTED, BOMB_DEFUSED, BOMB_EXPLODED) */
+    this.updateBombActions();
+
+    /* Step 7b: Let enemies hear footsteps, gunfire, grenades and the bomb */
+    this.updateSounds();
+
+    /* Step 8: Check round-end conditions */
+    const roundEnd = this.checkRoundEnd();
+
+    return {
+      events: this.tickEvents,
+      roundEnded: roundEnd.ended,
+      winningSide: roundEnd.winner,
+      kills,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 1: Process Commands
+  // --------------------------------------------------------------------------
+
+  /**
+   * Process all commands in the queue that have passed their delay period.
+   * Removes executed commands from the queue.
+   */
+  private processCommands(): void {
+    const readyCommands: QueuedCommand[] = [];
+    const remaining: QueuedCommand[] = [];
+
+    for (const cmd of this.commandQueue) {
+      if (cmd.executeAt <= this.gameTime) {
+        readyCommands.push(cmd);
+      } else {
+        remaining.push(cmd);
+      }
+    }
+    this.commandQueue = remaining;
+
+    for (const cmd of readyCommands) {
+      this.executeCommand(cmd);
+    }
+  }
+
+  /**
+   * Execute a single command. Updates the target soldier's state.
+   * Uses A* pathfinding for movement commands to navigate around walls.
+   */
+  private executeCommand(cmd: QueuedCommand): void {
+    const soldiers = cmd.playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    const soldier = soldiers[cmd.soldierIndex];
+    if (!soldier || !soldier.alive) return;
+
+    /* Any new order other than a utility throw, stance change or bomb hand-off ends a retreat or rush */
+    if (cmd.type !== 'USE_UTILITY' && cmd.type !== 'SET_STANCE' && cmd.type !== 'GIVE_BOMB') {
+      soldier.isRetreating = false;
+      soldier.isRushing = false;
+      soldier.pickupTargetId = null;
+    }
+
+    switch (cmd.type) {
+      case 'MOVE':
+      case 'RUSH':
+        if (cmd.targetPosition) {
+          /**
+           * Use A* pathfinding to find a wall-aware path from the soldier's
+           * current position to the target. A live move overrides the
+           * remaining strategy route.
+           */
+          this.cancelRoute(soldier);
+          soldier.isRushing = cmd.type === 'RUSH';
+          /* A RUSH runs straight through fire and smoke on purpose */
+          soldier.waypoints = this.findPathTo(soldier.position, cmd.targetPosition, soldier.isRushing);
+        }
+        break;
+
+      case 'HOLD':
+        this.cancelRoute(soldier);
+        soldier.waypoints = [];
+        soldier.isMoving = false;
+        break;
+
+      case 'RETREAT': {
+        /**
+         * Disengage and fall back: to the ordered position if one was given,
+         * otherwise to the nearest spot toward our spawn that is out of
+         * sight of the enemies this soldier currently detects.
+         */
+        const fallback = cmd.targetPosition
+          ? { ...cmd.targetPosition }
+          : this.chooseRetreatPoint(soldier, cmd.playerNumber);
+        this.cancelRoute(soldier);
+        soldier.isPlanting = false;
+        soldier.isDefusing = false;
+        soldier.actionProgress = 0;
+        soldier.waypoints = this.findPathTo(soldier.position, fallback);
+        soldier.isMoving = true;
+        soldier.isRetreating = true;
+        break;
+      }
+
+      case 'PLANT_BOMB':
+        if (soldier.hasBomb && !this.bombPlanted) {
+          this.cancelRoute(soldier);
+          soldier.isPlanting = true;
+          soldier.actionProgress = 0;
+          soldier.waypoints = [];
+          soldier.isMoving = false;
+        }
+        break;
+
+      case 'PICKUP_BOMB':
+        /* Walk to the dropped bomb; updateBombCarrier hands it over on arrival */
+        if (this.droppedBombPosition && this.isAttacker(cmd.playerNumber)) {
+          this.cancelRoute(soldier);
+          soldier.waypoints = this.findPathTo(soldier.position, this.droppedBombPosition);
+          soldier.isMoving = true;
+        }
+        break;
+
+      case 'PICKUP_WEAPON': {
+        /**
+         * Walk to the ground weapon nearest the target position (or the
+         * soldier, if no target was given) and swap to it on arrival.
+         * Only weapons in the player's own view count, so an order can't
+         * find one nobody on the squad can see.
+         */
+        const searchFrom = cmd.targetPosition ?? soldier.position;
+        let item: GroundWeapon | null = null;
+        let nearestDist = WEAPON_PICKUP_SEARCH_RADIUS;
+        for (const ground of this.groundWeapons) {
+          if (!this.canSeeGround(cmd.playerNumber, ground.position)) continue;
+          const dist = this.distance(searchFrom, ground.position);
+          if (dist <= nearestDist) {
+            nearestDist = dist;
+            item = ground;
+          }
+        }
+
+        if (item) {
+          this.cancelRoute(soldier);
+          soldier.pickupTargetId = item.id;
+          soldier.waypoints = this.findPathTo(soldier.position, item.position);
+          soldier.isMoving = true;
+        }
+        break;
+      }
+
+      case 'GIVE_BOMB': {
+        /**
+         * Hand the bomb to the named teammate, or the nearest living one.
+         * The receiver must be within BOMB.giveRange; otherwise nothing happens.
+         */
+        if (!soldier.hasBomb || soldier.isPlanting) break;
+
+        let receiver: SimSoldierState | null = null;
+        if (cmd.targetSoldierIndex !== undefined) {
+          receiver = soldiers[cmd.targetSoldierIndex] ?? null;
+        } else {
+          let nearestDist = Infinity;
+          for (const ally of soldiers) {
+            if (ally === soldier || !ally.alive) continue;
+            const dist = this.distance(soldier.position, ally.position);
+            if (dist < nearestDist) {
+              nearestDist = dist;
+              receiver = ally;
+            }
+          }
+        }
+
+        if (
+          receiver && receiver !== soldier && receiver.alive &&
+          this.distance(soldier.position, receiver.position) <= BOMB.giveRange
+        ) {
+          soldier.hasBomb = false;
+          receiver.hasBomb = true;
+
+          /** Generate BOMB_GIVEN event (attackers only: it names the new carrier) */
+          this.tickEvents.push({
+            type: 'BOMB_GIVEN',
+            tick: this.tick,
+            data: {
+              fromId: soldier.soldierId,
+              toId: receiver.soldierId,
+            },
+            recipient: cmd.playerNumber,
+          });
+        }
+        break;
+      }
+
+      case 'DEFUSE_BOMB':
+        if (this.bombPlanted && !this.bombDefused) {
+          this.cancelRoute(soldier);
+          soldier.isDefusing = true;
+          soldier.actionProgress = 0;
+          soldier.waypoints = [];
+          soldier.isMoving = false;
+        }
+        break;
+
+      case 'USE_UTILITY': {
+        /**
+         * Throw a utility item toward the target position.
+         * Removes the utility from the soldier's inventory and launches it
+         * along a scattered, wall-bouncing flight path. The effect starts
+         * where the grenade comes to rest (see UtilityEffectSystem.tick).
+         */
+        if (cmd.utilityType && cmd.targetPosition && soldier.utility.length > 0) {
+          const utilIdx = soldier.utility.indexOf(cmd.utilityType);
+          if (utilIdx !== -1) {
+            /* Remove the utility from the soldier's inventory */
+            soldier.utility.splice(utilIdx, 1);
+
+            const path = this.computeThrowPath(soldier, cmd.targetPosition);
+            const grenade = this.utilitySystem.launchUtility(
+              cmd.utilityType,
+              path,
+              soldier.soldierId,
+              cmd.playerNumber
+            );
+            const rest = path[path.length - 1];
+
+            /**
+             * Generate UTILITY_USED event (thrower's player only: the path
+             * would reveal the thrower and the grenade type to the enemy,
+             * who hears the throw as a sound ping instead)
+             */
+            this.tickEvents.push({
+              type: 'UTILITY_USED',
+              tick: this.tick,
+              data: {
+                soldierId: soldier.soldierId,
+                utilityType: cmd.utilityType,
+                ownerTeam: cmd.playerNumber,
+                originX: soldier.position.x,
+                originZ: soldier.position.z,
+                targetX: cmd.targetPosition.x,
+                targetZ: cmd.targetPosition.z,
+                landX: rest.x,
+                landZ: rest.z,
+                path,
+                flightTime: grenade.flightTime,
+              },
+              recipient: cmd.playerNumber,
+            });
+          }
+        }
+        break;
+      }
+
+      case 'SET_STANCE':
+        if (cmd.stance && STANCES.includes(cmd.stance)) {
+          soldier.stance = cmd.stance;
+        }
+        break;
+
+      case 'REGROUP': {
+        /**
+         * Find the nearest alive ally and move toward them.
+         * Useful for consolidating forces before a push.
+         */
+        let nearestAlly: Position | null = null;
+        let nearestDist = Infinity;
+        for (const ally of soldiers) {
+          if (ally.soldierId === soldier.soldierId || !ally.alive) continue;
+          const d = this.distance(soldier.position, ally.position);
+          if (d < nearestDist) {
+            nearestDist = d;
+            nearestAlly = { ...ally.position };
+          }
+        }
+        if (nearestAlly) {
+          this.cancelRoute(soldier);
+          soldier.waypoints = this.findPathTo(soldier.position, nearestAlly);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Pick a fallback point for a RETREAT order without an explicit target.
+   *
+   * Candidates fan out from the soldier toward its own spawn, nearest first.
+   * The first walkable candidate that is no closer to any detected enemy and
+   * out of every detected enemy's line of sight wins. Falls back to the
+   * spawn center if no candidate qualifies.
+   */
+  private chooseRetreatPoint(soldier: SimSoldierState, playerNumber: 1 | 2): Position {
+    const spawn = this.spawnCenters[playerNumber];
+    const enemyTeam = playerNumber === 1 ? this.player2Soldiers : this.player1Soldiers;
+    const threats = enemyTeam.filter(
+      e => e.alive && soldier.detectedEnemies.includes(e.soldierId)
+    );
+
+    const baseAngle = Math.atan2(spawn.z - soldier.position.z, spawn.x - soldier.position.x);
+    const spawnDist = this.distance(soldier.position, spawn);
+
+    for (const dist of RETREAT_SEARCH_DISTANCES) {
+      if (dist >= spawnDist) break;
+
+      for (const offset of RETREAT_SEARCH_ANGLES) {
+        const candidate: Position = {
+          x: Math.max(0, Math.min(this.mapWidth, soldier.position.x + Math.cos(baseAngle + offset) * dist)),
+          z: Math.max(0, Math.min(this.mapHeight, soldier.position.z + Math.sin(baseAngle + offset) * dist)),
+        };
+
+        if (this.pathfinder && !this.pathfinder.isWalkable(candidate)) continue;
+
+        const isSafe = threats.every(enemy =>
+          this.distance(candidate, enemy.position) >= this.distance(soldier.position, enemy.position) &&
+          !this.hasLineOfSight(enemy.position, candidate)
+        );
+        if (isSafe) return candidate;
+      }
+    }
+
+    return { ...spawn };
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 2: Movement
+  // --------------------------------------------------------------------------
+
+  /**
+   * Update soldier positions based on their waypoints and SPD stat.
+   * Uses calculateMovementSpeed() from StatFormulas.
+   */
+  private updateMovement(): void {
+    const allSoldiers = [...this.player1Soldiers, ...this.player2Soldiers];
+    const dt = TICK_RATE_MS / 1000;
+
+    for (const soldier of allSoldiers) {
+      if (!soldier.alive || soldier.waypoints.length === 0) {
+        soldier.isMoving = false;
+        continue;
+      }
+
+      const target = soldier.waypoints[0];
+      const dx = target.x - soldier.position.x;
+      const dz = target.z - soldier.position.z;
+      const dist = Math.sqrt(dx * dx + dz * dz);
+
+      /** Calculate speed from SPD stat, weapon weight, and armor */
+      const weaponStats = WEAPONS[soldier.currentWeapon as keyof typeof WEAPONS];
+      const weaponSpeedMod = weaponStats ? weaponStats.speedModifier : 0.95;
+      const armorPenalty = soldier.armor ? 0.95 : 1.0;
+      let speed = calculateMovementSpeed(soldier.stats.SPD, weaponSpeedMod, armorPenalty);
+
+      /**
+       * DEFENSIVE soldiers stop and hold the angle while engaged, then
+       * resume their path once the fight is over. Explicit RUSH and
+       * RETREAT orders override this.
+       */
+      if (
+        soldier.stance === 'DEFENSIVE' && soldier.isInCombat &&
+        !soldier.isRushing && !soldier.isRetreating
+      ) {
+        soldier.isMoving = false;
+        continue;
+      }
+
+      /* Rushing soldiers sprint; MOVE keeps the cautious base speed */
+      if (soldier.isRushing) speed *= RUSH.speedMultiplier;
+
+      /* Soldiers in combat move at 50% speed (suppression) */
+      if (soldier.isInCombat) speed *= 0.5;
+
+      const ARRIVAL_DIST = 5;
+
+      if (dist < ARRIVAL_DIST) {
+        soldier.position.x = target.x;
+        soldier.position.z = target.z;
+        soldier.waypoints.shift();
+
+        /* Leg finished — continue with the next strategy route waypoint */
+        if (soldier.waypoints.length === 0) {
+          soldier.isRetreating = false;
+          soldier.isRushing = false;
+          this.advanceRoute(soldier);
+        }
+        soldier.isMoving = soldier.waypoints.length > 0;
+      } else {
+        const moveAmount = speed * dt;
+        const ratio = Math.min(moveAmount / dist, 1);
+        soldier.position.x += dx * ratio;
+        soldier.position.z += dz * ratio;
+        soldier.rotation = Math.atan2(dz, dx);
+        soldier.isMoving = true;
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 3: Detection
+  // --------------------------------------------------------------------------
+
+  /**
+   * Run detection for all alive soldiers. For each observer and enemy:
+   *   1. Range: the observer's AWR radius (scaled by stance), shrunk by the
+   *      target's stealth, stance and cover, grown if the target is rushing
+   *   2. Vision cone: SIMULATION.detectionConeDegrees wide, plus
+   *      SIMULATION.peripheralAngle of peripheral vision on each side
+   *   3. Line of sight: walls and smoke block it
+   *   4. Roll: DETECTION_BASE_CHANCE, falling off toward the edge of the
+   *      radius and scaled by SIMULATION.peripheralPenalty in the periphery
+   * Enemies already spotted stay spotted while in LOS and slightly past range.
+   */
+  private updateDetection(): void {
+    this.detectEnemiesForTeam(this.player1Soldiers, this.player2Soldiers);
+    this.detectEnemiesForTeam(this.player2Soldiers, this.player1Soldiers);
+  }
+
+  /**
+   * Run detection for one team against the enemy team.
+   */
+  private detectEnemiesForTeam(
+    team: SimSoldierState[],
+    enemies: SimSoldierState[]
+  ): void {
+    for (const soldier of team) {
+      if (!soldier.alive || soldier.isBlinded) {
+        soldier.detectedEnemies = [];
+        continue;
+      }
+
+      const newDetected: string[] = [];
+      const detectionRadius =
+        calculateDetectionRadius(soldier.stats.AWR) * this.stanceModifiers(soldier).detectionMultiplier;
+
+      for (const enemy of enemies) {
+        if (!enemy.alive) continue;
+
+        const dx = enemy.position.x - soldier.position.x;
+        const dz = enemy.position.z - soldier.position.z;
+        const dist = Math.sqrt(dx * dx + dz * dz);
+
+        /** Apply stealth modifier to detection radius (rushers are spotted from further away) */
+        const stealthMod = calculateStealthModifier(enemy.stats.STL);
+        const rushMod = enemy.isRushing ? RUSH.detectionRadiusMultiplier : 1.0;
+        const stanceMod = this.stanceModifiers(enemy).visibilityMultiplier;
+        const coverMod = this.coverConcealment(soldier, enemy);
+        const effectiveRadius = detectionRadius * stealthMod * rushMod * stanceMod * coverMod;
+
+        if (dist > effectiveRadius) continue;
+
+        /** Vision cone: the main cone, or the peripheral band either side of it */
+        const angleToEnemy = Math.atan2(dz, dx);
+        let angleDiff = angleToEnemy - soldier.rotation;
+        /* Normalize to [-PI, PI] */
+        while (angleDiff > Math.PI) angleDiff -= Math.PI * 2;
+        while (angleDiff < -Math.PI) angleDiff += Math.PI * 2;
+
+        const inMainCone = Math.abs(angleDiff) <= DETECTION_HALF_CONE;
+        if (!inMainCone && Math.abs(angleDiff) > DETECTION_HALF_PERIPHERAL) continue;
+
+        /** Line of sight: walls and smoke */
+        if (!this.hasLineOfSight(soldier.position, enemy.position)) continue;
+
+        /**
+         * Detection roll. Closer enemies are easier to spot: the chance
+         * falls from DETECTION_BASE_CHANCE at point-blank range by
+         * DETECTION_RANGE_FALLOFF of itself at the edge of the radius.
+         */
+        let detectChance = DETECTION_BASE_CHANCE * (1 - (dist / effectiveRadius) * DETECTION_RANGE_FALLOFF);
+        if (!inMainCone) detectChance *= SIMULATION.peripheralPenalty;
+        if (this.rng.next() >= detectChance) continue;
+
+        newDetected.push(enemy.soldierId);
+      }
+
+      /**
+       * Keep previously detected enemies visible if they're still in LOS
+       * (prevents flickering from probabilistic detection).
+       */
+      for (const prevId of soldier.detectedEnemies) {
+        if (newDetected.includes(prevId)) continue;
+        const prevEnemy = enemies.find(e => e.soldierId === prevId);
+        if (!prevEnemy || !prevEnemy.alive) continue;
+
+        if (this.hasLineOfSight(soldier.position, prevEnemy.position)) {
+          const dx = prevEnemy.position.x - soldier.position.x;
+          const dz = prevEnemy.position.z - soldier.position.z;
+          const dist = Math.sqrt(dx * dx + dz * dz);
+          const stealthMod = calculateStealthModifier(prevEnemy.stats.STL);
+          const rushMod = prevEnemy.isRushing ? RUSH.detectionRadiusMultiplier : 1.0;
+          const stanceMod = this.stanceModifiers(prevEnemy).visibilityMultiplier;
+          const coverMod = this.coverConcealment(soldier, prevEnemy);
+          const effectiveRadius = detectionRadius * stealthMod * rushMod * stanceMod * coverMod * 1.2;
+          if (dist <= effectiveRadius) {
+            newDetected.push(prevId);
+          }
+        }
+      }
+
+      soldier.detectedEnemies = newDetected;
+
+      /* Auto-aim toward nearest detected enemy when standing still */
+      if (newDetected.length > 0 && !soldier.isMoving) {
+        let nearestDist = Infinity;
+        let nearestEnemy: SimSoldierState | null = null;
+
+        for (const enemy of enemies) {
+          if (!enemy.alive || !newDetected.includes(enemy.soldierId)) continue;
+          const dx = enemy.position.x - soldier.position.x;
+          const dz = enemy.position.z - soldier.position.z;
+          const d = Math.sqrt(dx * dx + dz * dz);
+          if (d < nearestDist) {
+            nearestDist = d;
+            nearestEnemy = enemy;
+          }
+        }
+
+        if (nearestEnemy) {
+          const dx = nearestEnemy.position.x - soldier.position.x;
+          const dz = nearestEnemy.position.z - soldier.position.z;
+          soldier.rotation = Math.atan2(dz, dx);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check line of sight between two positions.
+   * Returns false if any wall OR active smoke blocks the view.
+   */
+  private hasLineOfSight(a: Position, b: Position): boolean {
+    /* Check walls */
+    if (!this.hasWallLineOfSight(a, b)) {
+      return false;
+    }
+
+    /* Check smoke clouds blocking LOS */
+    if (this.utilitySystem.isLOSBlockedBySmoke(a, b)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check line of sight between two positions against walls only.
+   * Used where smoke should not count, e.g. seeing the smoke cloud itself.
+   */
+  private hasWallLineOfSight(a: Position, b: Position): boolean {
+    for (const wall of this.walls) {
+      if (this.lineIntersectsRect(a, b, wall)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Check if a line segment intersects a rectangle.
+   * Uses separating axis test.
+   */
+  private lineIntersectsRect(
+    a: Position,
+    b: Position,
+    rect: { x: number; z: number; width: number; height: number }
+  ): boolean {
+    const left = rect.x;
+    const right = rect.x + rect.width;
+    const top = rect.z;
+    const bottom = rect.z + rect.height;
+
+    /**
+     * Check if the line segment from a to b intersects the rectangle.
+     * Uses parametric line clipping (Cohen-Sutherland style).
+     */
+    let t0 = 0;
+    let t1 = 1;
+    const dx = b.x - a.x;
+    const dz = b.z - a.z;
+
+    const edges = [
+      { p: -dx, q: a.x - left },
+      { p: dx, q: right - a.x },
+      { p: -dz, q: a.z - top },
+      { p: dz, q: bottom - a.z },
+    ];
+
+    for (const { p, q } of edges) {
+      if (Math.abs(p) < 1e-10) {
+        if (q < 0) return false;
+      } else {
+        const r = q / p;
+        if (p < 0) {
+          t0 = Math.max(t0, r);
+        } else {
+          t1 = Math.min(t1, r);
+        }
+        if (t0 > t1) return false;
+      }
+    }
+
+    return true;
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 4: Combat
+  // --------------------------------------------------------------------------
+
+  /**
+   * Resolve combat between mutually detected soldiers.
+   * Returns kill records generated this tick.
+   */
+  private updateCombat(): KillRecord[] {
+    const kills: KillRecord[] = [];
+    const resolvedPairs = new Set<string>();
+
+    /* Count down reaction delays from targets acquired on earlier ticks */
+    const dt = TICK_RATE_MS / 1000;
+    for (const soldier of [...this.player1Soldiers, ...this.player2Soldiers]) {
+      soldier.reactionTimer = Math.max(0, soldier.reactionTimer - dt);
+    }
+
+    /** Check P1 soldiers shooting at P2 */
+    for (const soldier of this.player1Soldiers) {
+      if (!soldier.alive) continue;
+      for (const enemyId of soldier.detectedEnemies) {
+        const enemy = this.player2Soldiers.find(e => e.soldierId === enemyId);
+        if (!enemy || !enemy.alive) continue;
+
+        const pairKey = [soldier.soldierId, enemy.soldierId].sort().join(':');
+        if (resolvedPairs.has(pairKey)) continue;
+        resolvedPairs.add(pairKey);
+
+        const mutualDetection = enemy.detectedEnemies.includes(soldier.soldierId);
+        this.engageTarget(soldier, enemy);
+        if (mutualDetection) {
+          this.engageTarget(enemy, soldier);
+        }
+
+        /* Resolve shots */
+        const killA = this.resolveShot(soldier, enemy, this.player1Soldiers, this.player2Soldiers);
+        if (killA) kills.push(killA);
+
+        if (mutualDetection && enemy.alive && soldier.alive) {
+          const killB = this.resolveShot(enemy, soldier, this.player2Soldiers, this.player1Soldiers);
+          if (killB) kills.push(killB);
+        }
+      }
+    }
+
+    /** Check P2 soldiers for one-sided detection */
+    for (const soldier of this.player2Soldiers) {
+      if (!soldier.alive) continue;
+      for (const enemyId of soldier.detectedEnemies) {
+        const enemy = this.player1Soldiers.find(e => e.soldierId === enemyId);
+        if (!enemy || !enemy.alive) continue;
+
+        const pairKey = [soldier.soldierId, enemy.soldierId].sort().join(':');
+        if (resolvedPairs.has(pairKey)) continue;
+        resolvedPairs.add(pairKey);
+
+        this.engageTarget(soldier, enemy);
+
+        const kill = this.resolveShot(soldier, enemy, this.player2Soldiers, this.player1Soldiers);
+        if (kill) kills.push(kill);
+      }
+    }
+
+    /* Clear combat status for soldiers with no detected enemies */
+    for (const soldier of [...this.player1Soldiers, ...this.player2Soldiers]) {
+      if (!soldier.alive) continue;
+      if (soldier.detectedEnemies.length === 0) {
+        soldier.isInCombat = false;
+        soldier.currentTarget = null;
+        soldier.shotsFired = 0;
+      }
+    }
+
+    /* Soldiers who just lost sight of their target may keep firing through thin walls */
+    this.updateWallbangs(kills);
+
+    return kills;
+  }
+
+  /**
+   * Mark a soldier as engaging an enemy. Acquiring a new target starts a
+   * reaction delay (REA stat, scaled by stance) before the first shot.
+   * A soldier sticks with their current target while it stays in sight,
+   * so seeing several enemies does not keep resetting the reaction delay.
+   */
+  private engageTarget(soldier: SimSoldierState, enemy: SimSoldierState): void {
+    soldier.isInCombat = true;
+    const current = soldier.currentTarget;
+    if (current !== null && current !== enemy.soldierId && soldier.detectedEnemies.includes(current)) return;
+
+    if (current !== enemy.soldierId) {
+      const reactionMs = calculateReactionTime(soldier.stats.REA, () => this.rng.next());
+      soldier.reactionTimer = (reactionMs / 1000) * this.stanceModifiers(soldier).reactionMultiplier;
+    }
+    soldier.currentTarget = enemy.soldierId;
+    soldier.lastKnownTargetPosition = { ...enemy.position };
+    soldier.lastKnownTargetTick = this.tick;
+  }
+
+  /**
+   * Resolve a single shot from shooter at target.
+   * Uses the full stat-driven combat pipeline.
+   *
+   * @returns KillRecord if the target was killed, null otherwise
+   */
+  private resolveShot(
+    shooter: SimSoldierState,
+    target: SimSoldierState,
+    shooterTeam: SimSoldierState[],
+    targetTeam: SimSoldierState[]
+  ): KillRecord | null {
+    if (shooter.isBlinded) return null;
+
+    /* Soldiers only fire at the target they are engaged with */
+    if (shooter.currentTarget !== target.soldierId) return null;
+
+    /* Still reacting to a newly acquired target */
+    if (shooter.reactionTimer > 0) return null;
+
+    /* Retreating and PASSIVE soldiers hold fire unless the enemy is at close range */
+    if (
+      (shooter.isRetreating || shooter.stance === 'PASSIVE') &&
+      this.distance(shooter.position, target.position) > RETREAT_RETURN_FIRE_RANGE
+    ) {
+      return null;
+    }
+
+    shooter.shotsFired++;
+
+    /* Calculate hit chance using the full stat pipeline */
+    const weaponStats = WEAPONS[shooter.currentWeapon as keyof typeof WEAPONS];
+    const weaponAccMod = weaponStats ? weaponStats.accuracyModifier : 0.85;
+    const dist = this.distance(shooter.position, target.position);
+    const coverStrength = getCoverStrength(shooter.position, target.position, this.cover, COVER.protectionRange);
+
+    let hitChance = calculateFinalHitChance(
+      shooter.stats.ACC,
+      dist,
+      shooter.isMoving,
+      weaponAccMod,
+      coverStrength
+    );
+
+    /* Rushing shooters take a further penalty on top of the moving penalty */
+    if (shooter.isRushing && shooter.isMoving) {
+      hitChance *= RUSH.movingAccuracyMultiplier;
+    }
+
+    /* Spray degradation */
+    if (shooter.shotsFired > 1) {
+      hitChance = calculateSprayAccuracy(hitChance, shooter.shotsFired, shooter.stats.RCL);
+    }
+
+    /* Composure modifier */
+    const alliesAlive = shooterTeam.filter(s => s.alive && s.soldierId !== shooter.soldierId).length;
+    const enemiesDetected = shooter.detectedEnemies.length;
+    hitChance *= calculateComposureModifier(shooter.stats.CMP, shooter.health, enemiesDetected, alliesAlive);
+
+    /* Clutch modifier */
+    hitChance *= calculateClutchModifier(shooter.stats.CLT, alliesAlive);
+
+    /* Teamwork modifier */
+    const hasAllyNearby = shooterTeam.some(ally => {
+      if (ally.soldierId === shooter.soldierId || !ally.alive) return false;
+      return this.distance(shooter.position, ally.position) <= TEAMWORK_RANGE;
+    });
+    hitChance *= calculateTeamworkModifier(shooter.stats.TWK, hasAllyNearby);
+
+    /* Clamp */
+    hitChance = Math.max(0.02, Math.min(0.98, hitChance));
+
+    /**
+     * Generate SHOT_FIRED event for rendering muzzle flash and sound.
+     * This fires even if the shot misses.
+     */
+    this.pushShotFiredEvent(shooter, {
+      shooterId: shooter.soldierId,
+      weaponId: shooter.currentWeapon,
+      originX: shooter.position.x,
+      originZ: shooter.position.z,
+      directionRad: Math.atan2(
+        target.position.z - shooter.position.z,
+        target.position.x - shooter.position.x
+      ),
+    });
+
+    /* Roll hit/miss */
+    if (this.rng.next() >= hitChance) return null;
+
+    /* Determine hit location (cover shifts body hits toward the exposed legs) */
+    const headshotChance = calculateHeadshotChance(shooter.stats.ACC);
+    const effectiveHsChance = shooter.shotsFired > 1 ? headshotChance * 0.7 : headshotChance;
+    const bodyShare = 1 - calculateLegHitShare(coverStrength);
+    const locationRoll = this.rng.next();
+    let hitLocation: 'head' | 'body' | 'legs';
+    if (locationRoll < effectiveHsChance) {
+      hitLocation = 'head';
+    } else if (locationRoll < effectiveHsChance + (1 - effectiveHsChance) * bodyShare) {
+      hitLocation = 'body';
+    } else {
+      hitLocation = 'legs';
+    }
+
+    const damage = this.calculateShotDamage(shooter, target, hitLocation);
+    return this.applyHit(shooter, target, damage, hitLocation, false);
+  }
+
+  /**
+   * Fire through thin walls at the last known position of a lost target.
+   *
+   * A soldier wallbangs when they lost sight of their target less than
+   * WALLBANG.memorySeconds ago, are holding still, and carry a weapon whose
+   * penetration beats the walls between them and that position. The shot
+   * only connects if an enemy is still within WALLBANG.targetRadius of it.
+   *
+   * @param kills - Kill records for this tick (wallbang kills are appended)
+   */
+  private updateWallbangs(kills: KillRecord[]): void {
+    const memoryTicks = (WALLBANG.memorySeconds * 1000) / TICK_RATE_MS;
+
+    for (const playerNumber of [1, 2] as const) {
+      const team = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+      const enemies = playerNumber === 1 ? this.player2Soldiers : this.player1Soldiers;
+
+      for (const soldier of team) {
+        if (!soldier.alive || soldier.isBlinded || soldier.isMoving) continue;
+        if (soldier.isRetreating || soldier.stance === 'PASSIVE') continue;
+        if (soldier.detectedEnemies.length > 0 || !soldier.lastKnownTargetPosition) continue;
+        if (this.tick - soldier.lastKnownTargetTick > memoryTicks) continue;
+
+        const weaponStats = WEAPONS[soldier.currentWeapon as keyof typeof WEAPONS];
+        if (!weaponStats || weaponStats.penetration <= 0) continue;
+
+        /* Only fire when a wall the weapon can punch through hides the spot */
+        const aimPoint = soldier.lastKnownTargetPosition;
+        const aimResistance = this.wallResistance(soldier.position, aimPoint);
+        if (aimResistance === 0 || aimResistance > weaponStats.penetration) continue;
+
+        const kill = this.resolveWallbangShot(soldier, aimPoint, enemies, team);
+        if (kill) kills.push(kill);
+      }
+    }
+  }
+
+  /**
+   * Resolve a single blind shot through walls at a remembered position.
+   * Hits the nearest living enemy still near that position, with reduced
+   * accuracy, fewer headshots and damage scaled by the walls in the way.
+   *
+   * @returns KillRecord if the shot killed an enemy, null otherwise
+   */
+  private resolveWallbangShot(
+    shooter: SimSoldierState,
+    aimPoint: Position,
+    enemies: SimSoldierState[],
+    shooterTeam: SimSoldierState[]
+  ): KillRecord | null {
+    const weaponStats = WEAPONS[shooter.currentWeapon as keyof typeof WEAPONS];
+
+    this.pushShotFiredEvent(shooter, {
+      shooterId: shooter.soldierId,
+      weaponId: shooter.currentWeapon,
+      originX: shooter.position.x,
+      originZ: shooter.position.z,
+      directionRad: Math.atan2(
+        aimPoint.z - shooter.position.z,
+        aimPoint.x - shooter.position.x
+      ),
+      wallbang: true,
+    });
+
+    /* Find the enemy (if any) still close to where the target was last seen */
+    let target: SimSoldierState | null = null;
+    let offset: number = WALLBANG.targetRadius;
+    for (const enemy of enemies) {
+      if (!enemy.alive) continue;
+      const d = this.distance(enemy.position, aimPoint);
+      if (d <= offset) {
+        offset = d;
+        target = enemy;
+      }
+    }
+    if (!target) return null;
+
+    /* The path to where the enemy actually stands may cross different walls */
+    const damageMultiplier = calculateWallbangDamageMultiplier(
+      weaponStats.penetration,
+      this.wallResistance(shooter.position, target.position)
+    );
+    if (damageMultiplier <= 0) return null;
+
+    /* Firing blind: less accurate, and worse the further the enemy has moved */
+    const alliesAlive = shooterTeam.filter(s => s.alive && s.soldierId !== shooter.soldierId).length;
+    let hitChance = calculateFinalHitChance(
+      shooter.stats.ACC,
+      this.distance(shooter.position, target.position),
+      false,
+      weaponStats.accuracyModifier
+    );
+    hitChance *= WALLBANG.accuracyMultiplier * (1 - offset / WALLBANG.targetRadius);
+    hitChance *= calculateComposureModifier(shooter.stats.CMP, shooter.health, 0, alliesAlive);
+    hitChance = Math.max(0, Math.min(0.98, hitChance));
+
+    if (this.rng.next() >= hitChance) return null;
+
+    const headshotChance = calculateHeadshotChance(shooter.stats.ACC) * WALLBANG.headshotMultiplier;
+    const locationRoll = this.rng.next();
+    let hitLocation: 'head' | 'body' | 'legs';
+    if (locationRoll < headshotChance) {
+      hitLocation = 'head';
+    } else if (locationRoll < headshotChance + (1 - headshotChance) * 0.8) {
+      hitLocation = 'body';
+    } else {
+      hitLocation = 'legs';
+    }
+
+    const damage = Math.max(1, Math.round(this.calculateShotDamage(shooter, target, hitLocation) * damageMultiplier));
+    return this.applyHit(shooter, target, damage, hitLocation, true);
+  }
+
+  /**
+   * Total wall resistance along a bullet path: the distance travelled inside
+   * each wall (capped at the wall's thickness, if set) times the resistance
+   * of its material. Smoke does not stop bullets and is ignored.
+   *
+   * @returns 0 if no wall is in the way
+   */
+  private wallResistance(a: Position, b: Position): number {
+    let resistance = 0;
+    for (const wall of this.walls) {
+      let pathLength = segmentLengthInRect(a, b, wall);
+      if (pathLength <= 0) continue;
+      if (wall.thickness !== undefined) pathLength = Math.min(pathLength, wall.thickness);
+      const material = wall.material ?? 'concrete';
+      resistance += pathLength * (WALLBANG.materialResistance[material] ?? 1.0);
+    }
+    return resistance;
+  }
+
+  /**
+   * Damage of a shot that connects, before any wall penetration loss.
+   * Applies the weapon, hit location, armor and helmet.
+   */
+  private calculateShotDamage(
+    shooter: SimSoldierState,
+    target: SimSoldierState,
+    hitLocation: 'head' | 'body' | 'legs'
+  ): number {
+    const weaponStats = WEAPONS[shooter.currentWeapon as keyof typeof WEAPONS];
+
+    let armorBodyReduction = 0;
+    let armorLegReduction = 0;
+    if (target.armor === 'HEAVY_ARMOR') {
+      armorBodyReduction = 0.50;
+      armorLegReduction = 0.15;
+    } else if (target.armor === 'LIGHT_VEST') {
+      armorBodyReduction = 0.30;
+    }
+
+    const isAwp = shooter.currentWeapon === 'AWP';
+    return calculateDamage(
+      weaponStats ? weaponStats.bodyDamage : 25,
+      weaponStats ? weaponStats.headshotMultiplier : 2.5,
+      hitLocation,
+      armorBodyReduction,
+      armorLegReduction,
+      target.helmet,
+      isAwp
+    );
+  }
+
+  /**
+   * Apply damage from a shot that connected, emitting HIT and (if the target
+   * dies) KILL events. Wallbang hits are flagged on both events.
+   *
+   * @returns KillRecord if the target was killed, null otherwise
+   */
+  private applyHit(
+    shooter: SimSoldierState,
+    target: SimSoldierState,
+    damage: number,
+    hitLocation: 'head' | 'body' | 'legs',
+    wallbang: boolean
+  ): KillRecord | null {
+    /* Apply damage */
+    target.health -= damage;
+
+    /** Generate HIT event for rendering hit markers */
+    this.tickEvents.push({
+      type: 'HIT',
+      tick: this.tick,
+      data: {
+        shooterId: shooter.soldierId,
+        victimId: target.soldierId,
+        damage,
+        hitLocation,
+        isHeadshot: hitLocation === 'head',
+        wallbang,
+      },
+    });
+
+    /* Interrupt plant/defuse on hit */
+    if (target.isPlanting || target.isDefusing) {
+      target.isPlanting = false;
+      target.isDefusing = false;
+      target.actionProgress = 0;
+    }
+
+    /* Check for kill */
+    if (target.health <= 0) {
+      target.health = 0;
+      target.alive = false;
+      target.isMoving = false;
+      target.isInCombat = false;
+      target.currentTarget = null;
+      target.waypoints = [];
+      target.detectedEnemies = [];
+
+      /* Target is down — nothing left to chase */
+      shooter.lastKnownTargetPosition = null;
+
+      /** Generate KILL event for kill feed */
+      this.tickEvents.push({
+        type: 'KILL',
+        tick: this.tick,
+        data: {
+          killerId: shooter.soldierId,
+          victimId: target.soldierId,
+          weaponId: shooter.currentWeapon,
+          headshot: hitLocation === 'head',
+          wallbang,
+        },
+      });
+
+      return {
+        killerId: shooter.soldierId,
+        victimId: target.soldierId,
+        weapon: shooter.currentWeapon,
+        headshot: hitLocation === 'head',
+        wallbang,
+        tick: this.tick,
+      };
+    }
+
+    return null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 4b: Stance Behaviour
+  // --------------------------------------------------------------------------
+
+  /**
+   * Apply stance-driven behaviour:
+   *   - AGGRESSIVE: idle soldiers push toward the nearest detected enemy,
+   *     or chase the last position a lost target was seen at.
+   *   - DEFENSIVE: holds the angle while engaged (handled in updateMovement).
+   *   - PASSIVE: falls back out of sight as soon as enemies are spotted.
+   * Soldiers that are planting, defusing or retreating are left alone.
+   */
+  private updateStanceBehaviour(): void {
+    for (const playerNumber of [1, 2] as const) {
+      const team = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+      const enemies = playerNumber === 1 ? this.player2Soldiers : this.player1Soldiers;
+
+      for (const soldier of team) {
+        if (!soldier.alive || soldier.isPlanting || soldier.isDefusing || soldier.isRetreating) continue;
+
+        if (soldier.stance === 'PASSIVE') {
+          if (soldier.detectedEnemies.length > 0) {
+            this.cancelRoute(soldier);
+            soldier.isRushing = false;
+            soldier.waypoints = this.findPathTo(
+              soldier.position,
+              this.chooseRetreatPoint(soldier, playerNumber)
+            );
+            soldier.isMoving = true;
+            soldier.isRetreating = true;
+          }
+          continue;
+        }
+
+        /* AGGRESSIVE only takes over idle soldiers — orders and routes come first */
+        if (soldier.stance !== 'AGGRESSIVE' || soldier.waypoints.length > 0) continue;
+
+        let nearest: SimSoldierState | null = null;
+        let nearestDist = Infinity;
+        for (const enemy of enemies) {
+          if (!enemy.alive || !soldier.detectedEnemies.includes(enemy.soldierId)) continue;
+          const d = this.distance(soldier.position, enemy.position);
+          if (d < nearestDist) {
+            nearestDist = d;
+            nearest = enemy;
+          }
+        }
+
+        if (nearest) {
+          /* Close the distance, stopping short of the target */
+          if (nearestDist > CHASE_STOP_DISTANCE) {
+            const ratio = (nearestDist - CHASE_STOP_DISTANCE) / nearestDist;
+            soldier.waypoints = this.findPathTo(soldier.position, {
+              x: soldier.position.x + (nearest.position.x - soldier.position.x) * ratio,
+              z: soldier.position.z + (nearest.position.z - soldier.position.z) * ratio,
+            });
+          }
+        } else if (soldier.lastKnownTargetPosition) {
+          /* Lost sight of the target — chase where it was last seen */
+          soldier.waypoints = this.findPathTo(soldier.position, soldier.lastKnownTargetPosition);
+          soldier.lastKnownTargetPosition = null;
+        }
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 5: Utility Effects
+  // --------------------------------------------------------------------------
+
+  /**
+   * Tick all active utility effects.
+   * Lands grenades in flight, then applies frag damage, flash blind,
+   * molotov DPS, and smoke/decoy timers.
+   * Called once per simulation tick.
+   */
+  private updateUtility(): void {
+    const dt = TICK_RATE_MS / 1000;
+    const allSoldiers = [...this.player1Soldiers, ...this.player2Soldiers];
+    this.utilitySystem.tick(dt, allSoldiers, (a, b) => this.hasWallLineOfSight(a, b));
+    this.updatePathHazards();
+  }
+
+  /**
+   * Keep pathfinding hazards in step with the fires and smokes on the map.
+   * When a new molotov lands, soldiers walking a route through it re-path
+   * around it. Rushing soldiers keep going straight through.
+   */
+  private updatePathHazards(): void {
+    if (!this.pathfinder) return;
+
+    const hazardEffects = this.utilitySystem.getActiveEffects().filter(e =>
+      (e.type === 'MOLOTOV' && PATH_HAZARDS.fireCellCost > 0) ||
+      (e.type === 'SMOKE' && PATH_HAZARDS.smokeCellCost > 0)
+    );
+    const unchanged = hazardEffects.length === this.hazardEffectIds.size &&
+      hazardEffects.every(e => this.hazardEffectIds.has(e.id));
+    if (unchanged) return;
+
+    const newFires = hazardEffects.filter(e => e.type === 'MOLOTOV' && !this.hazardEffectIds.has(e.id));
+    this.hazardEffectIds = new Set(hazardEffects.map(e => e.id));
+    this.pathfinder.setHazards(hazardEffects.map(e => ({
+      position: e.position,
+      radius: e.radius,
+      cost: e.type === 'MOLOTOV' ? PATH_HAZARDS.fireCellCost : PATH_HAZARDS.smokeCellCost,
+    })));
+
+    if (newFires.length === 0) return;
+
+    for (const soldier of [...this.player1Soldiers, ...this.player2Soldiers]) {
+      if (!soldier.alive || soldier.isRushing || soldier.waypoints.length === 0) continue;
+
+      /* Does the rest of the current leg run through one of the new fires? */
+      const legPoints = [soldier.position, ...soldier.waypoints];
+      const throughFire = newFires.some(fire =>
+        legPoints.slice(1).some((point, i) =>
+          pointToSegmentDistance(fire.position, legPoints[i], point) <= fire.radius
+        )
+      );
+      if (!throughFire) continue;
+
+      const destination = soldier.waypoints[soldier.waypoints.length - 1];
+      soldier.waypoints = this.findPathTo(soldier.position, destination);
+    }
+  }
+
+  /**
+   * Work out where a thrown grenade flies. The aim point is scattered by the
+   * thrower's UTL (more on long throws), then the grenade slides toward it,
+   * bouncing off walls (GRENADE.maxBounces, GRENADE.bounceRestitution).
+   *
+   * @param soldier - The thrower
+   * @param target - Where the thrower aimed
+   * @returns Flight path from the thrower to the resting point
+   */
+  private computeThrowPath(soldier: SimSoldierState, target: Position): Position[] {
+    const scatter = calculateThrowScatter(soldier.stats.UTL, this.distance(soldier.position, target));
+    const angle = this.rng.next() * Math.PI * 2;
+    const offset = Math.sqrt(this.rng.next()) * scatter;
+    const aim = {
+      x: Math.max(0, Math.min(this.mapWidth, target.x + Math.cos(angle) * offset)),
+      z: Math.max(0, Math.min(this.mapHeight, target.z + Math.sin(angle) * offset)),
+    };
+
+    return traceBouncingPath(soldier.position, aim, this.walls, GRENADE.maxBounces, GRENADE.bounceRestitution)
+      .map(p => ({ x: p.x, z: p.z }));
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 6: Blind Timers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Decrement blind timers for all soldiers.
+   * When the timer reaches 0, the soldier is no longer blinded.
+   */
+  private updateBlindTimers(): void {
+    const dt = TICK_RATE_MS / 1000;
+    for (const soldier of [...this.player1Soldiers, ...this.player2Soldiers]) {
+      if (soldier.isBlinded) {
+        soldier.blindedTimer -= dt;
+        if (soldier.blindedTimer <= 0) {
+          soldier.isBlinded = false;
+          soldier.blindedTimer = 0;
+        }
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 6b: Ground Weapons
+  // --------------------------------------------------------------------------
+
+  /**
+   * Drop the primary weapon of every soldier who died this tick, then let
+   * living soldiers pick weapons up:
+   *   - A soldier ordered to PICKUP_WEAPON takes that weapon on reaching it.
+   *   - Anyone else walking over a weapon takes it only if it costs more
+   *     than what they carry, so soldiers don't swap back and forth.
+   * The swapped-out primary is left on the ground. Pistols never drop,
+   * since every soldier carries one as a sidearm.
+   */
+  private updateGroundWeapons(): void {
+    const allSoldiers = [...this.player1Soldiers, ...this.player2Soldiers];
+
+    /* Dead soldiers drop their primary where they fell */
+    for (const soldier of allSoldiers) {
+      if (soldier.alive || soldier.weaponDropped) continue;
+      soldier.weaponDropped = true;
+      if (soldier.currentWeapon === 'PISTOL') continue;
+
+      const item = this.dropWeapon(soldier.currentWeapon, soldier.position);
+
+      /** Generate WEAPON_DROPPED event */
+      this.pushGroundWeaponEvent('WEAPON_DROPPED', soldier, item.position, {
+        soldierId: soldier.soldierId,
+        weaponId: item.weaponId,
+        itemId: item.id,
+        x: item.position.x,
+        z: item.position.z,
+      });
+    }
+
+    if (this.groundWeapons.length === 0) return;
+
+    for (const soldier of allSoldiers) {
+      if (!soldier.alive || soldier.isPlanting || soldier.isDefusing) continue;
+
+      const item = this.groundWeapons.find(ground => {
+        if (this.distance(soldier.position, ground.position) > WEAPON_PICKUP_RADIUS) return false;
+        if (ground.id === soldier.pickupTargetId) return true;
+        return this.weaponCost(ground.weaponId) > this.weaponCost(soldier.currentWeapon);
+      });
+      if (!item) continue;
+
+      /* Swap: take the ground weapon, leave our primary in its place */
+      this.groundWeapons = this.groundWeapons.filter(ground => ground !== item);
+      const previous = soldier.currentWeapon;
+      soldier.currentWeapon = item.weaponId;
+      soldier.pickupTargetId = null;
+      soldier.shotsFired = 0;
+      if (previous !== 'PISTOL') {
+        this.dropWeapon(previous, soldier.position);
+      }
+
+      /** Generate WEAPON_PICKED_UP event */
+      this.pushGroundWeaponEvent('WEAPON_PICKED_UP', soldier, item.position, {
+        soldierId: soldier.soldierId,
+        weaponId: item.weaponId,
+        itemId: item.id,
+        droppedWeaponId: previous !== 'PISTOL' ? previous : null,
+      });
+    }
+  }
+
+  /**
+   * Emit a SHOT_FIRED event to the shooter's own player, and to the enemy
+   * only if one of their living soldiers detects the shooter (the same rule
+   * getFilteredState applies to visibleEnemies). An unseen shooter is only
+   * heard, through a fuzzed SOUND_HEARD ping.
+   *
+   * @param shooter - Soldier who fired
+   * @param data - Event payload (carries the exact muzzle position)
+   */
+  private pushShotFiredEvent(shooter: SimSoldierState, data: Record<string, unknown>): void {
+    const owner: 1 | 2 = this.player1Soldiers.includes(shooter) ? 1 : 2;
+    const enemy: 1 | 2 = owner === 1 ? 2 : 1;
+    const enemySoldiers = enemy === 1 ? this.player1Soldiers : this.player2Soldiers;
+
+    this.tickEvents.push({ type: 'SHOT_FIRED', tick: this.tick, data, recipient: owner });
+    if (enemySoldiers.some(s => s.alive && s.detectedEnemies.includes(shooter.soldierId))) {
+      this.tickEvents.push({ type: 'SHOT_FIRED', tick: this.tick, data: { ...data }, recipient: enemy });
+    }
+  }
+
+  /**
+   * Emit a ground-weapon event to the soldier's own player, and to the
+   * enemy only if one of their living soldiers can see where it happened
+   * (the same rule getFilteredState applies to groundWeapons).
+   *
+   * @param type - Event type
+   * @param soldier - Soldier who dropped or picked up the weapon
+   * @param position - Where on the ground it happened
+   * @param data - Event payload
+   */
+  private pushGroundWeaponEvent(
+    type: string,
+    soldier: SimSoldierState,
+    position: Position,
+    data: Record<string, unknown>
+  ): void {
+    const owner: 1 | 2 = this.player1Soldiers.includes(soldier) ? 1 : 2;
+    const enemy: 1 | 2 = owner === 1 ? 2 : 1;
+
+    this.tickEvents.push({ type, tick: this.tick, data, recipient: owner });
+    if (this.canSeeGround(enemy, position)) {
+      this.tickEvents.push({ type, tick: this.tick, data: { ...data }, recipient: enemy });
+    }
+  }
+
+  /**
+   * Place a weapon on the ground.
+   *
+   * @param weaponId - Weapon type to drop
+   * @param position - Where it lands
+   * @returns The new ground item
+   */
+  private dropWeapon(weaponId: string, position: Position): GroundWeapon {
+    const item: GroundWeapon = {
+      id: `weapon_${this.nextGroundWeaponId++}`,
+      weaponId,
+      position: { ...position },
+    };
+    this.groundWeapons.push(item);
+    return item;
+  }
+
+  /** Look up a weapon's buy price (0 if unknown). */
+  private weaponCost(weaponId: string): number {
+    return WEAPONS[weaponId as keyof typeof WEAPONS]?.cost ?? 0;
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 6: Bomb Actions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Update bomb plant/defuse progress.
+   */
+  private updateBombActions(): void {
+    const dt = TICK_RATE_MS / 1000;
+
+    this.updateBombCarrier();
+
+    for (const soldier of [...this.player1Soldiers, ...this.player2Soldiers]) {
+      if (!soldier.alive) continue;
+
+      /* Update planting progress */
+      if (soldier.isPlanting) {
+        soldier.actionProgress += dt;
+        if (soldier.actionProgress >= (TIMING?.plantSeconds ?? 3)) {
+          soldier.isPlanting = false;
+          soldier.actionProgress = 0;
+          soldier.hasBomb = false;
+          this.bombPlanted = true;
+          this.bombPosition = { ...soldier.position };
+
+          /**
+           * Determine which bomb site based on soldier position.
+           * Site A is in the upper half (z < 1000), Site B in the lower half.
+           */
+          this.bombSite = soldier.position.z < 1000 ? 'A' : 'B';
+          this.bombTimer = TIMING?.postPlantSeconds ?? 40;
+
+          /** Generate BOMB_PLANTED event */
+          this.tickEvents.push({
+            type: 'BOMB_PLANTED',
+            tick: this.tick,
+            data: {
+              planterId: soldier.soldierId,
+              siteId: this.bombSite,
+              x: soldier.position.x,
+              z: soldier.position.z,
+            },
+          });
+        }
+      }
+
+      /* Update defusing progress */
+      if (soldier.isDefusing) {
+        const defuseTime = soldier.defuseKit
+          ? (TIMING?.defuseWithKitSeconds ?? 3)
+          : (TIMING?.defuseSeconds ?? 5);
+        soldier.actionProgress += dt;
+        if (soldier.actionProgress >= defuseTime) {
+          soldier.isDefusing = false;
+          soldier.actionProgress = 0;
+          this.bombDefused = true;
+
+          /** Generate BOMB_DEFUSED event */
+          this.tickEvents.push({
+            type: 'BOMB_DEFUSED',
+            tick: this.tick,
+            data: {
+              defuserId: soldier.soldierId,
+              hadKit: soldier.defuseKit,
+            },
+          });
+        }
+      }
+    }
+
+    /* Tick bomb timer when planted */
+    if (this.bombPlanted && !this.bombDefused) {
+      this.bombTimer -= dt;
+
+      /* Bomb exploded — generate event */
+      if (this.bombTimer <= 0) {
+        this.tickEvents.push({
+          type: 'BOMB_EXPLODED',
+          tick: this.tick,
+          data: {
+            x: this.bombPosition?.x ?? 0,
+            z: this.bombPosition?.z ?? 0,
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Drop the bomb where a dead carrier fell, and let the nearest living
+   * attacker within BOMB.pickupRadius pick a dropped bomb up.
+   * Runs after combat and utility so deaths from any source are covered.
+   */
+  private updateBombCarrier(): void {
+    if (this.bombPlanted) return;
+
+    /* Carrier died this tick — the bomb falls at their feet */
+    for (const soldier of [...this.player1Soldiers, ...this.player2Soldiers]) {
+      if (soldier.alive || !soldier.hasBomb) continue;
+
+      soldier.hasBomb = false;
+      this.droppedBombPosition = { ...soldier.position };
+
+      /**
+       * Generate BOMB_DROPPED event (attackers only: defenders learn where the
+       * bomb lies through droppedBombPosition, which needs line of sight)
+       */
+      this.tickEvents.push({
+        type: 'BOMB_DROPPED',
+        tick: this.tick,
+        data: {
+          soldierId: soldier.soldierId,
+          x: soldier.position.x,
+          z: soldier.position.z,
+        },
+        recipient: this.attackingPlayer(),
+      });
+    }
+
+    if (!this.droppedBombPosition) return;
+
+    /* Nearest living attacker standing on the bomb picks it up */
+    const attackers = this.isAttacker(1) ? this.player1Soldiers : this.player2Soldiers;
+    let carrier: SimSoldierState | null = null;
+    let nearestDist: number = BOMB.pickupRadius;
+    for (const soldier of attackers) {
+      if (!soldier.alive) continue;
+      const dist = this.distance(soldier.position, this.droppedBombPosition);
+      if (dist <= nearestDist) {
+        nearestDist = dist;
+        carrier = soldier;
+      }
+    }
+
+    if (carrier) {
+      carrier.hasBomb = true;
+
+      /** Generate BOMB_PICKED_UP event (attackers only: it names the new carrier) */
+      this.tickEvents.push({
+        type: 'BOMB_PICKED_UP',
+        tick: this.tick,
+        data: {
+          soldierId: carrier.soldierId,
+          x: this.droppedBombPosition.x,
+          z: this.droppedBombPosition.z,
+        },
+        recipient: this.attackingPlayer(),
+      });
+      this.droppedBombPosition = null;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 7b: Sound
+  // --------------------------------------------------------------------------
+
+  /**
+   * Collect this tick's noises and ping the enemies who hear them.
+   *
+   * Noises come from moving soldiers (footsteps, louder when rushing and
+   * quieter with STL), SHOT_FIRED and UTILITY_USED events, and soldiers
+   * planting or defusing. Each source makes at most one ping per tick, for
+   * its loudest noise. A player hears it if any of their living soldiers is
+   * within the noise radius and none of them can already see the source.
+   * The ping position is fuzzed, more so the further the listener is.
+   *
+   * Active decoys play fake gunshots (heard at gunfire range) and footsteps
+   * to the opposing team, unless a listener close enough to see the decoy
+   * has line of sight to it. Fake footsteps carry as far as the thrower's
+   * own walking footsteps and on the same beat, and fake pings use the same
+   * types and IDs as real ones, so the protocol can't tell them apart.
+   */
+  private updateSounds(): void {
+    /* Forget pings older than the ping duration */
+    const oldestTick = this.tick - (SOUND.pingDurationSeconds * 1000) / TICK_RATE_MS;
+    for (const playerNumber of [1, 2] as const) {
+      this.soundPings[playerNumber] = this.soundPings[playerNumber].filter(ping => ping.tick > oldestTick);
+    }
+
+    /** Loudest noise made by each soldier this tick */
+    const noises = new Map<string, { soundType: SoundType; radius: number }>();
+    const addNoise = (soldierId: string, soundType: SoundType, radius: number): void => {
+      const existing = noises.get(soldierId);
+      if (!existing || radius > existing.radius) {
+        noises.set(soldierId, { soundType, radius });
+      }
+    };
+
+    const allSoldiers = [...this.player1Soldiers, ...this.player2Soldiers];
+    for (const soldier of allSoldiers) {
+      if (!soldier.alive) continue;
+      if (soldier.isPlanting) addNoise(soldier.soldierId, 'PLANT', SOUND.plantRadius);
+      if (soldier.isDefusing) addNoise(soldier.soldierId, 'DEFUSE', SOUND.defuseRadius);
+      if (soldier.isMoving && this.tick % SOUND.footstepIntervalTicks === 0) {
+        const baseRadius = soldier.isRushing ? SOUND.rushFootstepRadius : SOUND.footstepRadius;
+        addNoise(soldier.soldierId, 'FOOTSTEPS', baseRadius * calculateFootstepNoiseModifier(soldier.stats.STL));
+      }
+    }
+
+    for (const event of this.tickEvents) {
+      if (event.type === 'SHOT_FIRED') {
+        addNoise(event.data.shooterId as string, 'GUNFIRE', SOUND.gunfireRadius);
+      } else if (event.type === 'UTILITY_USED') {
+        addNoise(event.data.soldierId as string, 'UTILITY', SOUND.utilityThrowRadius);
+      }
+    }
+
+    for (const [soldierId, noise] of noises) {
+      const source = allSoldiers.find(s => s.soldierId === soldierId);
+      if (!source) continue;
+
+      const listenerPlayer: 1 | 2 = this.player1Soldiers.includes(source) ? 2 : 1;
+      const listeners = listenerPlayer === 1 ? this.player1Soldiers : this.player2Soldiers;
+
+      /* No need to hear what the team already sees */
+      if (listeners.some(s => s.alive && s.detectedEnemies.includes(soldierId))) continue;
+
+      this.hearNoise(listenerPlayer, noise.soundType, source.position, noise.radius);
+    }
+
+    for (const decoy of this.utilitySystem.getActiveDecoys()) {
+      const listenerPlayer: 1 | 2 = decoy.ownerTeam === 1 ? 2 : 1;
+      const listeners = listenerPlayer === 1 ? this.player1Soldiers : this.player2Soldiers;
+
+      /* A listener who can see the decoy knows nobody is there */
+      if (listeners.some(s =>
+        s.alive &&
+        this.distance(s.position, decoy.position) <= decoy.radius &&
+        this.hasLineOfSight(s.position, decoy.position)
+      )) continue;
+
+      if (this.rng.next() < SOUND.decoyGunfireChance) {
+        this.hearNoise(listenerPlayer, 'GUNFIRE', decoy.position, SOUND.gunfireRadius);
+      } else if (this.tick % SOUND.footstepIntervalTicks === 0) {
+        /* Sound like the thrower walking, so the radius doesn't give the decoy away */
+        const thrower = allSoldiers.find(s => s.soldierId === decoy.ownerId);
+        const stealth = thrower ? calculateFootstepNoiseModifier(thrower.stats.STL) : 1;
+        this.hearNoise(listenerPlayer, 'FOOTSTEPS', decoy.position, SOUND.footstepRadius * stealth);
+      }
+    }
+  }
+
+  /**
+   * Ping a player about a noise if any of their living soldiers is within
+   * its radius. Idle soldiers who heard it (not moving, no target) turn
+   * toward the ping, which can leave them facing away from real threats.
+   *
+   * @param playerNumber - The player whose soldiers may hear the noise
+   * @param soundType - What kind of noise it is
+   * @param source - Exact position of the noise
+   * @param radius - How far the noise carries (pixels)
+   */
+  private hearNoise(playerNumber: 1 | 2, soundType: SoundType, source: Position, radius: number): void {
+    const listeners = (playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers)
+      .filter(s => s.alive && this.distance(s.position, source) <= radius);
+    if (listeners.length === 0) return;
+
+    const nearestDist = Math.min(...listeners.map(s => this.distance(s.position, source)));
+    const ping = this.addSoundPing(playerNumber, soundType, source, nearestDist / radius);
+
+    for (const listener of listeners) {
+      if (listener.isMoving || listener.currentTarget !== null || listener.isPlanting || listener.isDefusing) continue;
+      listener.rotation = Math.atan2(
+        ping.position.z - listener.position.z,
+        ping.position.x - listener.position.x
+      );
+    }
+  }
+
+  /**
+   * Record a fuzzed sound ping for a player and emit a SOUND_HEARD event
+   * that only that player receives.
+   *
+   * @param playerNumber - The player whose soldiers heard the noise
+   * @param soundType - What was heard
+   * @param source - Exact position of the noise (never sent as-is)
+   * @param distanceRatio - Listener distance / noise radius (0-1), scales the fuzz
+   * @returns The recorded ping
+   */
+  private addSoundPing(playerNumber: 1 | 2, soundType: SoundType, source: Position, distanceRatio: number): SoundPing {
+    const fuzz = SOUND.minFuzz + (SOUND.maxFuzz - SOUND.minFuzz) * distanceRatio;
+    const angle = this.rng.next() * Math.PI * 2;
+    const offset = Math.sqrt(this.rng.next()) * fuzz;
+    const position = {
+      x: Math.max(0, Math.min(this.mapWidth, source.x + Math.cos(angle) * offset)),
+      z: Math.max(0, Math.min(this.mapHeight, source.z + Math.sin(angle) * offset)),
+    };
+
+    const ping: SoundPing = {
+      id: `sound_${this.nextSoundPingId++}`,
+      soundType,
+      position,
+      tick: this.tick,
+    };
+    this.soundPings[playerNumber].push(ping);
+
+    /** Generate SOUND_HEARD event (delivered only to the listening player) */
+    this.tickEvents.push({
+      type: 'SOUND_HEARD',
+      tick: this.tick,
+      data: {
+        pingId: ping.id,
+        soundType,
+        x: position.x,
+        z: position.z,
+      },
+      recipient: playerNumber,
+    });
+
+    return ping;
+  }
+
+  // --------------------------------------------------------------------------
+  // Sim Step 7: Round End Check
+  // --------------------------------------------------------------------------
+
+  /**
+   * Check for round-end conditions.
+   *
+   * @returns Whether the round ended and which side won
+   */
+  private checkRoundEnd(): { ended: boolean; winner: 'ATTACKER' | 'DEFENDER' | null } {
+    /* Bomb defused → defenders win */
+    if (this.bombDefused) {
+      return { ended: true, winner: 'DEFENDER' };
+    }
+
+    /* Bomb detonated → attackers win */
+    if (this.bombPlanted && this.bombTimer <= 0) {
+      return { ended: true, winner: 'ATTACKER' };
+    }
+
+    /* All attackers dead → defenders win */
+    const p1IsAttacker = this.player1Side === 'ATTACKER';
+    const attackerSoldiers = p1IsAttacker ? this.player1Soldiers : this.player2Soldiers;
+    const defenderSoldiers = p1IsAttacker ? this.player2Soldiers : this.player1Soldiers;
+
+    const attackersAlive = attackerSoldiers.filter(s => s.alive).length;
+    const defendersAlive = defenderSoldiers.filter(s => s.alive).length;
+
+    if (attackersAlive === 0 && !this.bombPlanted) {
+      return { ended: true, winner: 'DEFENDER' };
+    }
+
+    /* All defenders dead → attackers win */
+    if (defendersAlive === 0) {
+      return { ended: true, winner: 'ATTACKER' };
+    }
+
+    return { ended: false, winner: null };
+  }
+
+  // --------------------------------------------------------------------------
+  // Fog-of-War Filtered State
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get the fog-of-war filtered game state for a specific player.
+   * Players can only see their own soldiers and enemies that are detected.
+   *
+   * @param playerNumber - Which player's view to generate (1 or 2)
+   * @returns FilteredGameState with own soldiers and visible enemies
+   */
+  getFilteredState(playerNumber: 1 | 2): FilteredGameState {
+    const ownSoldiers = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    const enemySoldiers = playerNumber === 1 ? this.player2Soldiers : this.player1Soldiers;
+
+    /**
+     * Collect all enemy soldier IDs that any friendly soldier detects.
+     * Union of all detectedEnemies arrays from the team.
+     */
+    const visibleEnemyIds = new Set<string>();
+    for (const soldier of ownSoldiers) {
+      if (!soldier.alive) continue;
+      for (const id of soldier.detectedEnemies) {
+        visibleEnemyIds.add(id);
+      }
+    }
+
+    /**
+     * Filter enemy soldiers: only include those that are visible.
+     * For visible enemies, include position, health, weapon, and movement.
+     * Do NOT reveal stats, utility, or internal state.
+     */
+    const visibleEnemies: Partial<SimSoldierState>[] = [];
+    for (const enemy of enemySoldiers) {
+      if (!visibleEnemyIds.has(enemy.soldierId)) continue;
+
+      visibleEnemies.push({
+        index: enemy.index,
+        soldierId: enemy.soldierId,
+        position: { ...enemy.position },
+        rotation: enemy.rotation,
+        health: enemy.health,
+        alive: enemy.alive,
+        currentWeapon: enemy.currentWeapon,
+        isMoving: enemy.isMoving,
+        isInCombat: enemy.isInCombat,
+        isPlanting: enemy.isPlanting,
+        isDefusing: enemy.isDefusing,
+      });
+    }
+
+    /** Report strategy route progress for each own soldier */
+    const routeProgress: RouteProgress[] = ownSoldiers.map(s => {
+      const target = s.routeIndex < s.route.length ? s.route[s.routeIndex] : null;
+      return {
+        soldierIndex: s.index,
+        completedWaypoints: Math.min(s.routeIndex, s.route.length),
+        totalWaypoints: s.route.length,
+        currentTarget: target ? { ...target } : null,
+      };
+    });
+
+    /** Attackers always know where their bomb lies; defenders need line of sight to it */
+    const dropped = this.droppedBombPosition;
+    const droppedBombVisible = dropped !== null && (
+      this.isAttacker(playerNumber) ||
+      ownSoldiers.some(s => s.alive && this.hasLineOfSight(s.position, dropped))
+    );
+
+    /** Dropped weapons are only known where some living own soldier can see them */
+    const groundWeapons = this.groundWeapons
+      .filter(item => this.canSeeGround(playerNumber, item.position))
+      .map(item => ({ ...item, position: { ...item.position } }));
+
+    return {
+      ownSoldiers: ownSoldiers.map(s => ({ ...s, position: { ...s.position } })),
+      visibleEnemies,
+      bombPlanted: this.bombPlanted,
+      bombPosition: this.bombPosition ? { ...this.bombPosition } : null,
+      droppedBombPosition: droppedBombVisible && dropped ? { ...dropped } : null,
+      groundWeapons,
+      soundPings: this.soundPings[playerNumber].map(ping => ({ ...ping, position: { ...ping.position } })),
+      utilityEffects: this.getVisibleUtilityEffects(playerNumber, ownSoldiers),
+      bombSite: this.bombSite,
+      bombTimer: this.bombTimer,
+      routeProgress,
+      tick: this.tick,
+    };
+  }
+
+  /**
+   * Utility effects a player may know about: all of their own, plus enemy
+   * effects that a living own soldier can see (wall LOS to the centre, or
+   * standing inside it) or that are large enough to notice from anywhere.
+   * Enemy decoys are never included, since showing them would give the fake away.
+   */
+  private getVisibleUtilityEffects(
+    playerNumber: 1 | 2,
+    ownSoldiers: SimSoldierState[]
+  ): VisibleUtilityEffect[] {
+    const livingSoldiers = ownSoldiers.filter(s => s.alive);
+
+    return this.utilitySystem.getActiveEffects()
+      .filter(effect => {
+        if (effect.ownerTeam === playerNumber) return true;
+        if (effect.type === 'DECOY') return false;
+        if (effect.radius >= UTILITY_VISIBILITY.noticeableRadius) return true;
+        return livingSoldiers.some(s =>
+          this.distance(s.position, effect.position) <= effect.radius ||
+          this.hasWallLineOfSight(s.position, effect.position)
+        );
+      })
+      .map(effect => ({
+        id: effect.id,
+        type: effect.type,
+        position: { ...effect.position },
+        radius: effect.radius,
+        timeRemaining: effect.timeRemaining,
+        totalDuration: effect.totalDuration,
+        ownerTeam: effect.ownerTeam,
+      }));
+  }
+
+  // --------------------------------------------------------------------------
+  // Utility Helpers
+  // --------------------------------------------------------------------------
+
+  /** Look up a soldier's stance modifiers (DEFENSIVE if the stance is unknown). */
+  private stanceModifiers(soldier: SimSoldierState): typeof STANCE_MODIFIERS[keyof typeof STANCE_MODIFIERS] {
+    return STANCE_MODIFIERS[soldier.stance as keyof typeof STANCE_MODIFIERS] ?? STANCE_MODIFIERS.DEFENSIVE;
+  }
+
+  /** Detection radius multiplier for a target holding still behind cover from the observer. */
+  private coverConcealment(observer: SimSoldierState, target: SimSoldierState): number {
+    if (target.isMoving) return 1.0;
+    const coverStrength = getCoverStrength(observer.position, target.position, this.cover, COVER.protectionRange);
+    return calculateCoverConcealment(coverStrength, target.isMoving);
+  }
+
+  /** Whether the given player is on the attacking side this round. */
+  private isAttacker(playerNumber: 1 | 2): boolean {
+    return (playerNumber === 1) === (this.player1Side === 'ATTACKER');
+  }
+
+  /**
+   * Whether a living soldier of the given player has line of sight to a
+   * spot on the ground.
+   */
+  private canSeeGround(playerNumber: 1 | 2, position: Position): boolean {
+    const soldiers = playerNumber === 1 ? this.player1Soldiers : this.player2Soldiers;
+    return soldiers.some(s => s.alive && this.hasLineOfSight(s.position, position));
+  }
+
+  /** The player on the attacking side this round. */
+  private attackingPlayer(): 1 | 2 {
+    return this.isAttacker(1) ? 1 : 2;
+  }
+
+  /** Calculate distance between two positions. */
+  private distance(a: Position, b: Position): number {
+    const dx = a.x - b.x;
+    const dz = a.z - b.z;
+    return Math.sqrt(dx * dx + dz * dz);
+  }
+
+  /** Get the current kill records for the round. */
+  getRoundKills(): KillRecord[] {
+    return [...this.roundKills];
+  }
+
+  /** Get the current tick number. */
+  getTick(): number {
+    return this.tick;
+  }
+}
@@ -1,24 +1,33 @@
 /**
- * @file ServerUtility.ts
- * @description Server-side utility (grenade) system.
+ * @file UtilityEffects.ts
+ * @description Utility (grenade) effects for the shared simulation engine.
  *
  * Manages all active utility effects on the map: smokes, flashes, frags,
- * molotovs, and decoys. This mirrors the client's UtilitySystem
- * (client/src/simulation/Utility.ts) but is self-contained for the server.
+ * molotovs, and decoys. The client only mirrors the effects it is allowed
+ * to see (client/src/simulation/Utility.ts); this is where they happen.
  *
  * Utility types and their effects:
  *   SMOKE  — Blocks line-of-sight within 150px radius for 18s
- *   FLASH  — Blinds soldiers within 400px radius for up to 2s
+ *   FLASH  — Blinds soldiers within 400px radius that can see it, up to 2.5s
  *   FRAG   — Instant area damage (100 max, linear falloff over 200px)
  *   MOLOTOV — Continuous DPS (25/s) within 120px radius for 7s
- *   DECOY  — Fake detection pings within 300px for 10s
+ *   DECOY  — Fake gunfire and footstep pings for the enemy for 10s
  *
- * Integration points in ServerSimulation:
- *   - Detection: smokes block LOS
+ * Thrown utility first flies along a precomputed path (see launchUtility)
+ * and only becomes an active effect where it comes to rest.
+ *
+ * Integration points in Simulation:
+ *   - Detection: smokes block LOS; walls (via the LOS callback) block flashes
  *   - Combat: blinded soldiers can't fire
  *   - Movement: molotov zones deal damage to soldiers standing in them
+ *   - Sound: decoys play fake noises to the opposing team
  */
 
+import { calculateFlashBlindDuration } from '../constants/StatFormulas';
+import { UTILITY } from '../constants/WeaponData';
+import { facingOffset } from '../util/MathUtils';
+import { GRENADE } from '../constants/GameConstants';
+
 // ============================================================================
 // --- Types ---
 // ============================================================================
@@ -36,6 +45,8 @@ interface Position {
 interface UtilitySoldierState {
   soldierId: string;
   position: Position;
+  rotation: number;
+  stats: { UTL: number };
   health: number;
   alive: boolean;
   isBlinded: boolean;
@@ -69,46 +80,97 @@ export interface ActiveUtilityEffect {
   instantApplied: boolean;
 }
 
+/** A thrown grenade still travelling along its path */
+export interface InFlightUtility {
+  /** Unique ID for this throw */
+  id: string;
+  /** Which type of utility is in the air */
+  type: string;
+  /** Flight path: thrower position, bounce points, resting point */
+  path: Position[];
+  /** Total flight time (seconds) */
+  flightTime: number;
+  /** Time spent in flight so far (seconds) */
+  elapsed: number;
+  /** ID of the soldier who threw it */
+  ownerId: string;
+  /** Which team threw it (1 or 2) */
+  ownerTeam: 1 | 2;
+}
+
 // ============================================================================
-// --- Utility Stats (matches shared/constants/WeaponData.ts UTILITY table) ---
+// --- Utility Stats ---
 // ============================================================================
 
-/**
- * Hardcoded utility stats matching the shared WeaponData.ts.
- * Using local constants to avoid import path issues between server and shared.
- */
-const UTILITY_STATS: Record<string, { duration: number; radius: number; damage: number }> = {
-  SMOKE:   { duration: 18, radius: 150, damage: 0 },
-  FLASH:   { duration: 2,  radius: 400, damage: 0 },
-  FRAG:    { duration: 0,  radius: 200, damage: 100 },
-  MOLOTOV: { duration: 7,  radius: 120, damage: 25 },
-  DECOY:   { duration: 10, radius: 300, damage: 0 },
-};
+/** Duration, radius and damage per utility type (looked up by type string) */
+const UTILITY_STATS: Record<string, { duration: number; radius: number; damage: number }> = UTILITY;
 
 // ============================================================================
-// --- ServerUtilitySystem Class ---
+// --- UtilityEffectSystem Class ---
 // ============================================================================
 
 /**
- * Manages all active utility effects in the server simulation.
+ * Manages all active utility effects in the simulation.
  *
  * Lifecycle:
- *   1. `throwUtility()` — Creates a new active effect at the target position
- *   2. `tick()` — Called each simulation tick to update durations and apply effects
+ *   1. `launchUtility()` — Puts a grenade in the air along its flight path
+ *   2. `tick()` — Lands grenades whose flight is over (`throwUtility()`),
+ *      updates durations and applies effects
  *   3. `isLOSBlockedBySmoke()` — Queried by detection system to check LOS blocks
  *   4. `clearAll()` — Clears all effects at round end
  */
-export class ServerUtilitySystem {
+export class UtilityEffectSystem {
   /** All currently active utility effects */
   private activeEffects: ActiveUtilityEffect[] = [];
 
   /** Auto-incrementing ID counter for effects */
   private nextId: number = 0;
 
+  /** Grenades still in the air */
+  private inFlight: InFlightUtility[] = [];
+
+  /** Auto-incrementing ID counter for throws */
+  private nextThrowId: number = 0;
+
   // --------------------------------------------------------------------------
   // Throwing Utility
   // --------------------------------------------------------------------------
 
+  /**
+   * Throw a grenade along a flight path. It flies at GRENADE.throwSpeed and
+   * becomes an active effect at the last path point once it lands.
+   *
+   * @param type - Utility type string ('SMOKE', 'FLASH', 'FRAG', 'MOLOTOV', 'DECOY')
+   * @param path - Flight path from the thrower to the resting point
+   * @param ownerId - ID of the soldier who threw it
+   * @param ownerTeam - Which team (1 or 2) threw it
+   * @returns The grenade in flight
+   */
+  launchUtility(
+    type: string,
+    path: Position[],
+    ownerId: string,
+    ownerTeam: 1 | 2
+  ): InFlightUtility {
+    let length = 0;
+    for (let i = 1; i < path.length; i++) {
+      length += this.dist(path[i - 1], path[i]);
+    }
+
+    const grenade: InFlightUtility = {
+      id: `throw_${this.nextThrowId++}`,
+      type,
+      path: path.map(p => ({ ...p })),
+      flightTime: length / GRENADE.throwSpeed,
+      elapsed: 0,
+      ownerId,
+      ownerTeam,
+    };
+
+    this.inFlight.push(grenade);
+    return grenade;
+  }
+
   /**
    * Create a new active utility effect at the target position.
    *
@@ -150,6 +212,7 @@ export class ServerUtilitySystem {
    * Update all active utility effects for one simulation tick.
    *
    * Applies:
+   *   - Landing of grenades whose flight time is up
    *   - FRAG instant area damage on first tick
    *   - FLASH instant blind on first tick
    *   - MOLOTOV continuous DPS each tick
@@ -157,8 +220,23 @@ export class ServerUtilitySystem {
    *
    * @param dt - Time delta for this tick in seconds (typically 0.2)
    * @param allSoldiers - All soldiers from both teams
+   * @param hasWallLineOfSight - Wall-only LOS check used to occlude flashes
    */
-  tick(dt: number, allSoldiers: UtilitySoldierState[]): void {
+  tick(
+    dt: number,
+    allSoldiers: UtilitySoldierState[],
+    hasWallLineOfSight: (a: Position, b: Position) => boolean = () => true
+  ): void {
+    /* Land grenades whose flight is over, so their effects apply this tick */
+    for (const grenade of this.inFlight) {
+      grenade.elapsed += dt;
+      if (grenade.elapsed >= grenade.flightTime) {
+        const rest = grenade.path[grenade.path.length - 1];
+        this.throwUtility(grenade.type, rest, grenade.ownerId, grenade.ownerTeam);
+      }
+    }
+    this.inFlight = this.inFlight.filter(g => g.elapsed < g.flightTime);
+
     const expiredIndices: number[] = [];
 
     for (let i = 0; i < this.activeEffects.length; i++) {
@@ -171,7 +249,7 @@ export class ServerUtilitySystem {
         if (effect.type === 'FRAG') {
           this.applyFragDamage(effect, allSoldiers);
         } else if (effect.type === 'FLASH') {
-          this.applyFlashBlind(effect, allSoldiers);
+          this.applyFlashBlind(effect, allSoldiers, hasWallLineOfSight);
         }
       }
 
@@ -242,25 +320,39 @@ export class ServerUtilitySystem {
 
   /**
    * Apply flash grenade blind effect to soldiers within the flash radius.
-   * Blind intensity scales with distance (closer = longer blind).
-   * Thrower is immune to their own flash.
+   * Walls block the flash entirely; otherwise the blind duration depends on
+   * distance, facing, smoke and the thrower's UTL (calculateFlashBlindDuration,
+   * shared with the client). Every soldier is judged the same way, the thrower
+   * and their teammates included, so a badly aimed flash costs its own side.
    */
   private applyFlashBlind(
     effect: ActiveUtilityEffect,
-    allSoldiers: UtilitySoldierState[]
+    allSoldiers: UtilitySoldierState[],
+    hasWallLineOfSight: (a: Position, b: Position) => boolean
   ): void {
     const flashDuration = UTILITY_STATS.FLASH.duration;
+    const thrower = allSoldiers.find(s => s.soldierId === effect.ownerId);
+    const throwerUtl = thrower ? thrower.stats.UTL : 50;
 
     for (const soldier of allSoldiers) {
       if (!soldier.alive) continue;
-      if (soldier.soldierId === effect.ownerId) continue; /* Thrower immune */
 
       const dist = this.dist(soldier.position, effect.position);
       if (dist > effect.radius) continue;
+      if (!hasWallLineOfSight(soldier.position, effect.position)) continue;
 
-      /* Intensity scales: 100% at centre, 50% at edge */
-      const intensity = 0.5 + 0.5 * (1 - dist / effect.radius);
-      const blindDuration = flashDuration * intensity;
+      const blindDuration = calculateFlashBlindDuration(
+        flashDuration,
+        dist,
+        effect.radius,
+        facingOffset(soldier.position, soldier.rotation, effect.position),
+        throwerUtl,
+        this.isLOSBlockedBySmoke(soldier.position, effect.position)
+      );
+      if (blindDuration <= 0) continue;
+
+      /* Never shorten a stronger blind from an earlier flash */
+      if (soldier.isBlinded && soldier.blindedTimer >= blindDuration) continue;
 
       soldier.isBlinded = true;
       soldier.blindedTimer = blindDuration;
@@ -337,10 +429,33 @@ export class ServerUtilitySystem {
     return this.activeEffects;
   }
 
-  /** Remove all active effects. Called at round end. */
+  /**
+   * Get all active decoys. Used by the sound step to play fake gunfire
+   * and footsteps to the opposing team.
+   */
+  getActiveDecoys(): { id: string; position: Position; radius: number; ownerId: string; ownerTeam: 1 | 2 }[] {
+    return this.activeEffects
+      .filter(e => e.type === 'DECOY')
+      .map(e => ({
+        id: e.id,
+        position: { ...e.position },
+        radius: e.radius,
+        ownerId: e.ownerId,
+        ownerTeam: e.ownerTeam,
+      }));
+  }
+
+  /** Get all grenades still in the air. */
+  getInFlightUtility(): readonly InFlightUtility[] {
+    return this.inFlight;
+  }
+
+  /** Remove all active effects and grenades in flight. Called at round end. */
   clearAll(): void {
     this.activeEffects = [];
     this.nextId = 0;
+    this.inFlight = [];
+    this.nextThrowId = 0;
   }
 
   // --------------------------------------------------------------------------
@@ -187,8 +187,17 @@ export interface Wall {
    * Determines the visual appearance of the wall surface.
    * Examples: "concrete", "brick", "metal", "wood", "stone".
    * Must match a valid material key in the rendering engine asset registry.
+   * Also sets how hard the wall is to shoot through (WALLBANG.materialResistance).
    */
   material: string;
+
+  /**
+   * Optional bullet-stopping thickness of the wall in pixels.
+   * Caps the length of a shot's path through this wall, for walls whose
+   * footprint is thicker than their solid part. When omitted, the full path
+   * length through the footprint is used, so only thin walls can be shot through.
+   */
+  thickness?: number;
 }
 
 /**
@@ -245,4 +254,15 @@ export interface CoverObject {
    * Indestructible cover objects should set this to a high value or Infinity.
    */
   health: number;
+
+  /**
+   * How much of a soldier's body this cover hides, from 0 (none) to 1 (full).
+   * Soldiers hugging the cover (within COVER.protectionRange) with the cover
+   * between them and the shooter are harder to hit, take a larger share of
+   * leg hits, and are harder to spot while holding still.
+   * Crates are around 0.3-0.4; solid half-walls around 0.6.
+   * @minimum 0
+   * @maximum 1
+   */
+  coverStrength: number;
 }
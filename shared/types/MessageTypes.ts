@@ -6,7 +6,7 @@
 // ============================================================================
 
 import { GamePhase, RoundResult, Side } from "./GameTypes";
-import { SoldierState } from "./SoldierTypes";
+import { SoldierState, Stance } from "./SoldierTypes";
 import { Equipment, UtilityType } from "./WeaponTypes";
 
 // ============================================================================
@@ -30,6 +30,7 @@ export enum CommandType {
    * RUSH: Order a soldier to sprint to a position at maximum speed.
    * Faster than MOVE but generates more noise (easier to detect).
    * The soldier will still engage enemies but with reduced accuracy while running.
+   * Multipliers are defined in RUSH (GameConstants.ts).
    */
   RUSH = "RUSH",
 
@@ -74,6 +75,35 @@ export enum CommandType {
    * The server determines the optimal regrouping position automatically.
    */
   REGROUP = "REGROUP",
+
+  /**
+   * SET_STANCE: Change a soldier stance mid-round (see Stance).
+   * AGGRESSIVE soldiers chase targets, DEFENSIVE soldiers hold the angle,
+   * PASSIVE soldiers avoid fights. Subject to the same radio delay as movement.
+   */
+  SET_STANCE = "SET_STANCE",
+
+  /**
+   * PICKUP_BOMB: Order an attacking soldier to walk to the dropped bomb.
+   * The bomb is picked up automatically when the soldier reaches it.
+   * Ignored if the bomb is not lying on the ground.
+   */
+  PICKUP_BOMB = "PICKUP_BOMB",
+
+  /**
+   * GIVE_BOMB: Order the bomb carrier to hand the bomb to a nearby teammate.
+   * The receiver is targetSoldierIndex, or the nearest living teammate if omitted.
+   * The receiver must be within BOMB.giveRange (GameConstants.ts).
+   */
+  GIVE_BOMB = "GIVE_BOMB",
+
+  /**
+   * PICKUP_WEAPON: Order a soldier to pick up a dropped weapon.
+   * Takes the visible ground weapon nearest targetPosition (or the soldier,
+   * if omitted); weapons none of the player's soldiers can see are ignored.
+   * The soldier walks over, swaps weapons, and leaves their old primary behind.
+   */
+  PICKUP_WEAPON = "PICKUP_WEAPON",
 }
 
 /**
@@ -101,7 +131,8 @@ export interface Command {
   /**
    * The target map position for movement or utility commands, or undefined.
    * Required for: MOVE, RUSH, USE_UTILITY, PLANT_BOMB.
-   * Optional for: RETREAT (server picks a fallback position if not specified).
+   * Optional for: RETREAT (server picks a fallback position if not specified),
+   * PICKUP_WEAPON (nearest dropped weapon to this position).
    * Ignored for: HOLD, REGROUP, DEFUSE_BOMB.
    */
   targetPosition?: {
@@ -119,6 +150,21 @@ export interface Command {
    */
   utilityType?: UtilityType;
 
+  /**
+   * The new stance, required only for SET_STANCE commands.
+   * Ignored for all other command types.
+   * @see Stance
+   */
+  stance?: Stance;
+
+  /**
+   * The teammate (0-4) receiving the bomb, used only by GIVE_BOMB commands.
+   * When omitted, the server picks the nearest living teammate in range.
+   * @minimum 0
+   * @maximum 4
+   */
+  targetSoldierIndex?: number;
+
   /**
    * Client-side timestamp (in milliseconds since epoch) when the command was issued.
    * Used for latency compensation and command ordering.
@@ -154,6 +200,40 @@ export interface BuyOrder {
   equipment: Equipment;
 }
 
+/**
+ * BuyOrderResult is the server verdict on a single BuyOrder.
+ * Rejected orders leave the soldier's equipment and the player's money untouched.
+ */
+export interface BuyOrderResult {
+  /**
+   * The soldier index the order targeted, or -1 if the order was malformed.
+   */
+  soldierIndex: number;
+
+  /**
+   * Whether the order was accepted and charged.
+   */
+  accepted: boolean;
+
+  /**
+   * Amount deducted for this order. Only items the soldier did not
+   * already own are charged. 0 when rejected.
+   */
+  cost: number;
+
+  /**
+   * Human-readable rejection reason (e.g. "Cannot afford loadout").
+   * Only present when the order was rejected.
+   */
+  reason?: string;
+
+  /**
+   * The soldier's authoritative equipment after the order was processed.
+   * Clients should replace their local loadout with this.
+   */
+  equipment?: Equipment;
+}
+
 // ============================================================================
 // Client-to-Server (C2S) Message Types
 // ============================================================================
@@ -166,11 +246,12 @@ export interface C2S_JoinQueue {
   /**
    * Array of soldier IDs (5 total) that the player has selected for their roster.
    * These must be valid soldier IDs owned by the player.
-   * Exactly 5 soldiers are required to enter the queue.
+   * Exactly 5 soldiers are required when a roster is sent; without one the
+   * server uses the default squad (until accounts and rosters exist).
    * @minItems 5
    * @maxItems 5
    */
-  roster: string[];
+  roster?: string[];
 }
 
 /**
@@ -229,6 +310,24 @@ export interface C2S_StrategyPlan {
     /** Target z-coordinate in pixels from the top edge of the map. */
     z: number;
   }[][];
+
+  /**
+   * Optional stance per soldier (indexed 0-4), applied when LIVE_PHASE begins.
+   * Soldiers without an entry keep the default DEFENSIVE stance.
+   * @maxItems 5
+   */
+  stances?: Stance[];
+}
+
+/**
+ * C2S_ResumeSession is sent by a client that lost its connection mid-match.
+ * It re-attaches the new socket to the player's seat in the room.
+ */
+export interface C2S_ResumeSession {
+  /**
+   * The session token received in MATCH_FOUND.
+   */
+  sessionToken: string;
 }
 
 /**
@@ -241,7 +340,8 @@ export type C2SMessage =
   | { type: "SEND_COMMAND"; payload: C2S_SendCommand }
   | { type: "SEND_BUY_ORDER"; payload: C2S_SendBuyOrder }
   | { type: "READY_UP"; payload: C2S_ReadyUp }
-  | { type: "STRATEGY_PLAN"; payload: C2S_StrategyPlan };
+  | { type: "STRATEGY_PLAN"; payload: C2S_StrategyPlan }
+  | { type: "RESUME_SESSION"; payload: C2S_ResumeSession };
 
 // ============================================================================
 // Server-to-Client (S2C) Message Types
@@ -258,6 +358,12 @@ export interface S2C_MatchFound {
    */
   roomId: string;
 
+  /**
+   * Secret token identifying this player's seat in the match.
+   * Sent back in RESUME_SESSION after a reconnect; never shown to the opponent.
+   */
+  sessionToken: string;
+
   /**
    * The display name of the opponent player.
    * Shown on the HUD and scoreboard throughout the match.
@@ -379,6 +485,145 @@ export interface S2C_MatchEnd {
   rewards: Record<string, unknown>;
 }
 
+/**
+ * S2C_BuyOrderResult answers a C2S_SendBuyOrder batch with one result per order.
+ */
+export interface S2C_BuyOrderResult {
+  /**
+   * Results in the same order as the submitted buy orders.
+   * @see BuyOrderResult
+   */
+  results: BuyOrderResult[];
+
+  /**
+   * The player's money after all accepted orders were charged.
+   */
+  money: number;
+}
+
+/**
+ * S2C_CommandDelayed acknowledges an accepted C2S_SendCommand.
+ * The command goes out over the radio and executes after the given delay.
+ */
+export interface S2C_CommandDelayed {
+  /**
+   * The soldier index the command targeted.
+   */
+  soldierIndex: number;
+
+  /**
+   * The type of the accepted command.
+   */
+  commandType: string;
+
+  /**
+   * Seconds until the soldier starts executing the command.
+   * Randomized radio delay, scaled by the soldier's TWK and lengthened in combat.
+   */
+  delay: number;
+}
+
+/**
+ * S2C_CommandRejected answers a C2S_SendCommand the server refused
+ * (wrong phase, malformed, dead soldier, or sent during the per-soldier cooldown).
+ */
+export interface S2C_CommandRejected {
+  /**
+   * The soldier index the command targeted, or -1 if the command was malformed.
+   */
+  soldierIndex: number;
+
+  /**
+   * The type of the rejected command, or an empty string if malformed.
+   */
+  commandType: string;
+
+  /**
+   * Human-readable rejection reason (e.g. "Command cooldown").
+   */
+  reason: string;
+
+  /**
+   * Seconds until the soldier accepts commands again.
+   * 0 when waiting would not help (e.g. the soldier is dead).
+   */
+  retryIn: number;
+}
+
+/**
+ * S2C_InvalidMessage answers a C2S message that failed schema validation
+ * (see shared/util/MessageValidation.ts). The message had no effect.
+ */
+export interface S2C_InvalidMessage {
+  /**
+   * The type of the refused C2S message (e.g. "STRATEGY_PLAN").
+   */
+  messageType: string;
+
+  /**
+   * Every problem found, each naming the offending field by path
+   * (e.g. "plans[1][3].x: must be a number from 0 to 3000").
+   */
+  errors: { path: string; message: string }[];
+}
+
+/**
+ * S2C_SessionResumed answers a successful RESUME_SESSION with everything the
+ * client needs to pick the match back up.
+ */
+export interface S2C_SessionResumed {
+  /** The room the player was re-attached to. */
+  roomId: string;
+
+  /** Which player the client is in the room (1 or 2). */
+  playerNumber: 1 | 2;
+
+  /** Current phase and seconds left in it. */
+  phase: GamePhase;
+  timeRemaining: number;
+
+  /** Current round number (1-based). */
+  roundNumber: number;
+
+  /** Rounds won per player. */
+  score: { player1: number; player2: number };
+
+  /** Which side player 1 is on this half. */
+  player1Side: Side;
+
+  /** Both players' money. */
+  economy: { player1Money: number; player2Money: number };
+
+  /** Current simulation tick within the round. */
+  tick: number;
+
+  /**
+   * The player's fog-of-war filtered view, same shape as GAME_STATE_UPDATE's state.
+   */
+  state: unknown;
+}
+
+/**
+ * S2C_ResumeFailed answers a RESUME_SESSION that could not be honoured
+ * (unknown token, or the match is already over).
+ */
+export interface S2C_ResumeFailed {
+  /** Human-readable reason. */
+  reason: string;
+}
+
+/**
+ * S2C_BotControl is broadcast when a server bot takes over a disconnected
+ * player's squad, and again when the player resumes and takes it back.
+ */
+export interface S2C_BotControl {
+  /** Which player's squad changed hands (1 or 2). */
+  playerNumber: 1 | 2;
+
+  /** True while the bot is playing the squad. */
+  active: boolean;
+}
+
 /**
  * Union type of all possible server-to-client messages.
  * Each message is tagged with a "type" discriminator string for routing.
@@ -389,7 +634,14 @@ export type S2CMessage =
   | { type: "PHASE_CHANGE"; payload: S2C_PhaseChange }
   | { type: "GAME_STATE_UPDATE"; payload: S2C_GameStateUpdate }
   | { type: "ROUND_END"; payload: S2C_RoundEnd }
-  | { type: "MATCH_END"; payload: S2C_MatchEnd };
+  | { type: "MATCH_END"; payload: S2C_MatchEnd }
+  | { type: "BUY_ORDER_RESULT"; payload: S2C_BuyOrderResult }
+  | { type: "COMMAND_DELAYED"; payload: S2C_CommandDelayed }
+  | { type: "COMMAND_REJECTED"; payload: S2C_CommandRejected }
+  | { type: "INVALID_MESSAGE"; payload: S2C_InvalidMessage }
+  | { type: "SESSION_RESUMED"; payload: S2C_SessionResumed }
+  | { type: "RESUME_FAILED"; payload: S2C_ResumeFailed }
+  | { type: "BOT_CONTROL"; payload: S2C_BotControl };
 
 // ============================================================================
 // Game Event Types -- Discrete occurrences during simulation
@@ -405,19 +657,22 @@ export enum GameEventType {
    * SHOT_FIRED: A soldier discharged their weapon.
    * Data includes: shooterId, weaponId, origin position, direction.
    * Used to render muzzle flash and play gunshot audio.
+   * Sent to the shooter's player, and to the enemy only while their team
+   * sees the shooter; otherwise the enemy only gets a fuzzed SOUND_HEARD.
    */
   SHOT_FIRED = "SHOT_FIRED",
 
   /**
    * HIT: A bullet connected with a soldier (but did not kill them).
-   * Data includes: shooterId, victimId, damage dealt, hitLocation (body/head/leg).
+   * Data includes: shooterId, victimId, damage dealt, hitLocation (body/head/leg),
+   * and a wallbang flag when the bullet went through a wall.
    * Used to render hit markers and blood effects.
    */
   HIT = "HIT",
 
   /**
    * KILL: A soldier was eliminated (health reached 0).
-   * Data includes: killerId, victimId, weaponId, headshot boolean.
+   * Data includes: killerId, victimId, weaponId, headshot and wallbang booleans.
    * Used to update the kill feed and play elimination effects.
    */
   KILL = "KILL",
@@ -444,9 +699,11 @@ export enum GameEventType {
   BOMB_EXPLODED = "BOMB_EXPLODED",
 
   /**
-   * UTILITY_USED: A soldier deployed a utility item (grenade).
-   * Data includes: soldierId, utilityType, origin, targetPosition.
-   * Used to render the throw arc and deploy the utility effect.
+   * UTILITY_USED: A soldier threw a utility item (grenade).
+   * Data includes: soldierId, utilityType, origin, aimed target, resting
+   * position, and the flight path (bounce points) with its flight time.
+   * Used to animate the throw; the effect starts when the grenade lands.
+   * Only sent to the thrower's player; the enemy hears it as SOUND_HEARD.
    */
   UTILITY_USED = "UTILITY_USED",
 
@@ -456,6 +713,49 @@ export enum GameEventType {
    * Used to add the detected soldier to the client visible state.
    */
   SOLDIER_DETECTED = "SOLDIER_DETECTED",
+
+  /**
+   * BOMB_DROPPED: The bomb carrier died and the bomb fell to the ground.
+   * Data includes: soldierId (the dead carrier), x, z.
+   * Only sent to the attackers; defenders see the dropped bomb in their
+   * state only with line of sight.
+   */
+  BOMB_DROPPED = "BOMB_DROPPED",
+
+  /**
+   * BOMB_PICKED_UP: An attacker picked up the dropped bomb.
+   * Data includes: soldierId, x, z. Only sent to the attackers.
+   */
+  BOMB_PICKED_UP = "BOMB_PICKED_UP",
+
+  /**
+   * BOMB_GIVEN: The bomb carrier handed the bomb to a nearby teammate.
+   * Data includes: fromId, toId. Only sent to the attackers.
+   */
+  BOMB_GIVEN = "BOMB_GIVEN",
+
+  /**
+   * WEAPON_DROPPED: A dead soldier's primary weapon fell to the ground.
+   * Data includes: soldierId, weaponId, itemId, x, z.
+   * Sent to the soldier's player, and to the enemy only if one of their
+   * soldiers can see the spot.
+   */
+  WEAPON_DROPPED = "WEAPON_DROPPED",
+
+  /**
+   * WEAPON_PICKED_UP: A soldier picked up a ground weapon.
+   * Data includes: soldierId, weaponId, itemId, droppedWeaponId (their old primary, or null).
+   * The picked-up weapon stays with the soldier into the next round if they survive.
+   * Sent like WEAPON_DROPPED: own player always, enemy only with line of sight.
+   */
+  WEAPON_PICKED_UP = "WEAPON_PICKED_UP",
+
+  /**
+   * SOUND_HEARD: A player's soldiers heard an enemy they cannot see.
+   * Data includes: pingId, soundType (FOOTSTEPS/GUNFIRE/UTILITY/PLANT/DEFUSE),
+   * and a fuzzed position. Only sent to the listening player, never the source's.
+   */
+  SOUND_HEARD = "SOUND_HEARD",
 }
 
 /**
@@ -482,14 +782,21 @@ export interface GameEvent {
   /**
    * Flexible key-value data payload containing event-specific details.
    * The structure varies based on the event type:
-   * - SHOT_FIRED: { shooterId, weaponId, originX, originZ, directionRad }
-   * - HIT: { shooterId, victimId, damage, hitLocation, isHeadshot }
-   * - KILL: { killerId, victimId, weaponId, headshot }
+   * - SHOT_FIRED: { shooterId, weaponId, originX, originZ, directionRad, wallbang? }
+   * - HIT: { shooterId, victimId, damage, hitLocation, isHeadshot, wallbang }
+   * - KILL: { killerId, victimId, weaponId, headshot, wallbang }
    * - BOMB_PLANTED: { planterId, siteId, x, z }
    * - BOMB_DEFUSED: { defuserId, hadKit }
    * - BOMB_EXPLODED: { x, z, casualties }
-   * - UTILITY_USED: { soldierId, utilityType, originX, originZ, targetX, targetZ }
+   * - UTILITY_USED: { soldierId, utilityType, ownerTeam, originX, originZ, targetX, targetZ,
+   *                   landX, landZ, path: { x, z }[], flightTime }
    * - SOLDIER_DETECTED: { detectorId, detectedId, x, z }
+   * - BOMB_DROPPED: { soldierId, x, z }
+   * - BOMB_PICKED_UP: { soldierId, x, z }
+   * - BOMB_GIVEN: { fromId, toId }
+   * - WEAPON_DROPPED: { soldierId, weaponId, itemId, x, z }
+   * - WEAPON_PICKED_UP: { soldierId, weaponId, itemId, droppedWeaponId }
+   * - SOUND_HEARD: { pingId, soundType, x, z }
    */
   data: Record<string, unknown>;
 }
@@ -199,6 +199,14 @@ export interface WeaponStats {
    * - VERY_LONG: Effective at extreme range (AWP).
    */
   rangeRating: "SHORT" | "MEDIUM" | "LONG" | "VERY_LONG";
+
+  /**
+   * Wall penetration power: the total wall resistance a bullet can pass through
+   * (path length through the wall in pixels x material resistance, see WALLBANG).
+   * 0 means the weapon cannot shoot through walls at all.
+   * Rifles, LMGs and the AWP can punch through thin walls with reduced damage.
+   */
+  penetration: number;
 }
 
 /**
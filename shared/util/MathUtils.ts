@@ -224,6 +224,47 @@ export function isInCone(
   return Math.abs(angleDiff) <= halfConeRad;
 }
 
+/**
+ * Calculates how far a target point is off a viewer's facing direction.
+ *
+ * Uses the same wrap-around normalisation as isInCone, so facing 170
+ * degrees with the target at -170 degrees gives 20 degrees, not 340.
+ *
+ * @param origin - The viewer's position
+ * @param direction - The direction the viewer is facing (radians)
+ * @param target - The position to check
+ * @returns Absolute angle off the facing direction, in radians [0, PI]
+ */
+export function facingOffset(origin: Vec2, direction: number, target: Vec2): number {
+  let angleDiff = angleBetween(origin, target) - direction;
+  while (angleDiff > Math.PI) angleDiff -= 2 * Math.PI;
+  while (angleDiff < -Math.PI) angleDiff += 2 * Math.PI;
+  return Math.abs(angleDiff);
+}
+
+/**
+ * Calculates the shortest distance from a point to a line segment.
+ *
+ * Projects the point onto the segment's line, clamps the projection to the
+ * segment ends, and measures the distance to that closest point.
+ *
+ * @param point - The point to measure from
+ * @param segStart - Start of the line segment
+ * @param segEnd - End of the line segment
+ * @returns Distance in pixels from the point to the nearest point on the segment
+ */
+export function pointToSegmentDistance(point: Vec2, segStart: Vec2, segEnd: Vec2): number {
+  const dx = segEnd.x - segStart.x;
+  const dz = segEnd.z - segStart.z;
+  const segLengthSq = dx * dx + dz * dz;
+  if (segLengthSq === 0) return distance(point, segStart);
+
+  const t = Math.max(0, Math.min(1,
+    ((point.x - segStart.x) * dx + (point.z - segStart.z) * dz) / segLengthSq
+  ));
+  return distance(point, { x: segStart.x + t * dx, z: segStart.z + t * dz });
+}
+
 // ----------------------------------------------------------------------------
 // ANGLE CONVERSION UTILITIES
 // Convenience functions for converting between degrees and radians.
@@ -348,3 +389,209 @@ export function lineIntersectsRect(
   // tMin <= tMax and both are within [0, 1]: the line segment intersects the rectangle
   return true;
 }
+
+/**
+ * Measures how far a line segment travels inside an axis-aligned rectangle.
+ *
+ * Uses the same Liang-Barsky clipping as lineIntersectsRect, but returns the
+ * length of the clipped part instead of a boolean. Used for wall penetration:
+ * a bullet crossing a wall at a shallow angle travels through more of it.
+ *
+ * @param p1 - Start point of the line segment
+ * @param p2 - End point of the line segment
+ * @param rect - Axis-aligned rectangle with {x, z, width, height}
+ * @returns Length of the segment inside the rectangle in pixels (0 if it misses)
+ */
+export function segmentLengthInRect(
+  p1: Vec2,
+  p2: Vec2,
+  rect: { x: number; z: number; width: number; height: number }
+): number {
+  const dx = p2.x - p1.x;
+  const dz = p2.z - p1.z;
+
+  const p = [-dx, dx, -dz, dz];
+  const q = [
+    p1.x - rect.x,
+    rect.x + rect.width - p1.x,
+    p1.z - rect.z,
+    rect.z + rect.height - p1.z,
+  ];
+
+  let tMin = 0;
+  let tMax = 1;
+
+  for (let i = 0; i < 4; i++) {
+    if (p[i] === 0) {
+      if (q[i] < 0) return 0;
+    } else {
+      const t = q[i] / p[i];
+      if (p[i] < 0) {
+        tMin = Math.max(tMin, t);
+      } else {
+        tMax = Math.min(tMax, t);
+      }
+      if (tMin > tMax) return 0;
+    }
+  }
+
+  return (tMax - tMin) * Math.sqrt(dx * dx + dz * dz);
+}
+
+/**
+ * Finds where a line segment first enters an axis-aligned rectangle, and
+ * which face it hits.
+ *
+ * Uses the same Liang-Barsky clipping as lineIntersectsRect and records
+ * the edge that produced the entry parameter. Segments that start inside
+ * the rectangle are not treated as hits.
+ *
+ * @param p1 - Start point of the line segment
+ * @param p2 - End point of the line segment
+ * @param rect - Axis-aligned rectangle with {x, z, width, height}
+ * @returns Entry parameter t (0-1 along the segment) and the hit face's
+ *          axis ('x' for left/right faces, 'z' for top/bottom), or null
+ */
+export function segmentRectEntry(
+  p1: Vec2,
+  p2: Vec2,
+  rect: { x: number; z: number; width: number; height: number }
+): { t: number; axis: 'x' | 'z' } | null {
+  const dx = p2.x - p1.x;
+  const dz = p2.z - p1.z;
+
+  const p = [-dx, dx, -dz, dz];
+  const q = [
+    p1.x - rect.x,
+    rect.x + rect.width - p1.x,
+    p1.z - rect.z,
+    rect.z + rect.height - p1.z,
+  ];
+
+  let tMin = 0;
+  let tMax = 1;
+  let axis: 'x' | 'z' | null = null;
+
+  for (let i = 0; i < 4; i++) {
+    if (p[i] === 0) {
+      if (q[i] < 0) return null;
+    } else {
+      const t = q[i] / p[i];
+      if (p[i] < 0) {
+        if (t > tMin) {
+          tMin = t;
+          axis = i < 2 ? 'x' : 'z';
+        }
+      } else {
+        tMax = Math.min(tMax, t);
+      }
+      if (tMin > tMax) return null;
+    }
+  }
+
+  /* No entry edge means the segment started inside the rectangle */
+  if (axis === null) return null;
+  return { t: tMin, axis };
+}
+
+/**
+ * Traces a thrown object sliding from `origin` toward `target` across the
+ * top-down map, bouncing off walls.
+ *
+ * The object travels the straight-line distance to the target in total.
+ * When it hits a wall it reflects off that face and keeps only
+ * `restitution` of its remaining distance. After `maxBounces` it stops
+ * at the next wall it hits.
+ *
+ * @param origin - Where the object is thrown from
+ * @param target - Where the object would land with no walls in the way
+ * @param walls - Wall rectangles to bounce off
+ * @param maxBounces - Maximum number of bounces before it stops dead
+ * @param restitution - Share of remaining distance kept after each bounce (0-1)
+ * @returns Path points: origin, each bounce point, and the resting point
+ */
+export function traceBouncingPath(
+  origin: Vec2,
+  target: Vec2,
+  walls: ReadonlyArray<{ x: number; z: number; width: number; height: number }>,
+  maxBounces: number,
+  restitution: number
+): Vec2[] {
+  const path: Vec2[] = [{ x: origin.x, z: origin.z }];
+  let remaining = distance(origin, target);
+  if (remaining === 0) return path;
+
+  let pos: Vec2 = origin;
+  let dirX = (target.x - origin.x) / remaining;
+  let dirZ = (target.z - origin.z) / remaining;
+
+  for (let bounces = 0; ; bounces++) {
+    const end: Vec2 = { x: pos.x + dirX * remaining, z: pos.z + dirZ * remaining };
+
+    /** First wall the current segment runs into */
+    let hit: { t: number; axis: 'x' | 'z' } | null = null;
+    for (const wall of walls) {
+      const entry = segmentRectEntry(pos, end, wall);
+      if (entry && entry.t > 1e-6 && (!hit || entry.t < hit.t)) {
+        hit = entry;
+      }
+    }
+
+    if (!hit) {
+      path.push(end);
+      return path;
+    }
+
+    /* Stop just short of the wall face so the point stays outside it */
+    const travelled = Math.max(0, remaining * hit.t - 1);
+    const hitPoint: Vec2 = { x: pos.x + dirX * travelled, z: pos.z + dirZ * travelled };
+    path.push(hitPoint);
+
+    if (bounces >= maxBounces) return path;
+
+    remaining = (remaining - travelled) * restitution;
+    if (hit.axis === 'x') dirX = -dirX;
+    else dirZ = -dirZ;
+    pos = hitPoint;
+
+    if (remaining < 1) return path;
+  }
+}
+
+/**
+ * Finds how strongly cover protects a target from a shooter or observer.
+ *
+ * A cover object protects the target when the line from `from` to `target`
+ * crosses it AND the object lies within `protectionRange` of the target
+ * (the target is hugging the cover). Cover far in front of the target does
+ * not count. When several objects qualify, the strongest one wins.
+ *
+ * @param from - Shooter or observer position
+ * @param target - Position of the soldier who may be behind cover
+ * @param cover - Cover rectangles with their coverStrength (0-1)
+ * @param protectionRange - Max distance between target and cover (pixels)
+ * @returns The strongest qualifying coverStrength, or 0 if none
+ */
+export function getCoverStrength(
+  from: Vec2,
+  target: Vec2,
+  cover: ReadonlyArray<{ x: number; z: number; width: number; height: number; coverStrength: number }>,
+  protectionRange: number
+): number {
+  let strength = 0;
+
+  for (const obj of cover) {
+    if (obj.coverStrength <= strength) continue;
+
+    /** Closest point of the cover rectangle to the target */
+    const nearestX = Math.max(obj.x, Math.min(target.x, obj.x + obj.width));
+    const nearestZ = Math.max(obj.z, Math.min(target.z, obj.z + obj.height));
+    if (distance(target, { x: nearestX, z: nearestZ }) > protectionRange) continue;
+
+    if (lineIntersectsRect(from, target, obj)) {
+      strength = obj.coverStrength;
+    }
+  }
+
+  return strength;
+}
@@ -0,0 +1,494 @@
+// ============================================================================
+// MessageValidation.ts
+// Schema validation for every client-to-server (C2S) message.
+//
+// The server runs each incoming payload through these validators before it
+// touches game state; the client runs its outgoing messages through the same
+// checks in development so protocol drift shows up on the sending side.
+//
+// Validators never throw. They return either the typed, cleaned-up payload
+// or a list of structured errors, each naming the offending field by path
+// (e.g. "orders[2].equipment.utility[0]"). Position bounds come from the
+// active map's dimensions, passed in through a ValidationContext.
+//
+// Game rules (affordability, whether a soldier is alive, phase checks) are
+// NOT checked here -- only the shape and ranges of the message itself.
+// ============================================================================
+
+import { CommandType } from '../types/MessageTypes';
+import type {
+  C2SMessage,
+  C2S_JoinQueue,
+  C2S_SendCommand,
+  C2S_SendBuyOrder,
+  C2S_ReadyUp,
+  C2S_StrategyPlan,
+  C2S_ResumeSession,
+  Command,
+  BuyOrder,
+} from '../types/MessageTypes';
+import type { MapData } from '../types/MapTypes';
+import type { Stance } from '../types/SoldierTypes';
+import { WeaponId, ArmorType, UtilityType } from '../types/WeaponTypes';
+import type { Equipment } from '../types/WeaponTypes';
+
+// ----------------------------------------------------------------------------
+// RESULT TYPES
+// ----------------------------------------------------------------------------
+
+/**
+ * A single problem found in a message.
+ */
+export interface ValidationError {
+  /** Path to the offending field, e.g. "command.targetPosition.x" ("" = the payload itself) */
+  path: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Outcome of validating a message: the typed payload, or every error found.
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: ValidationError[] };
+
+/**
+ * Map-dependent limits the validators check positions against.
+ */
+export interface ValidationContext {
+  /** Dimensions of the active map; positions must lie within [0, width] x [0, height] */
+  dimensions: MapData['dimensions'];
+}
+
+// ----------------------------------------------------------------------------
+// LIMITS
+// ----------------------------------------------------------------------------
+
+/**
+ * Size limits on C2S payloads. Also used by the server's flood protection
+ * to refuse oversized arrays before they are walked.
+ */
+export const MESSAGE_LIMITS = {
+  /** Soldiers per team; soldier indices run 0 to squadSize - 1, at most one buy order or plan each */
+  squadSize: 5,
+  /** Maximum utility items a soldier can carry (see Equipment.utility) */
+  maxUtilityItems: 4,
+  /** Maximum waypoints per soldier in a strategy plan */
+  maxWaypoints: 32,
+} as const;
+
+const SQUAD_SIZE = MESSAGE_LIMITS.squadSize;
+const MAX_UTILITY_ITEMS = MESSAGE_LIMITS.maxUtilityItems;
+const MAX_WAYPOINTS = MESSAGE_LIMITS.maxWaypoints;
+
+/** Commands that cannot be carried out without a target position */
+const POSITION_REQUIRED: readonly string[] = [CommandType.MOVE, CommandType.RUSH, CommandType.USE_UTILITY];
+
+const COMMAND_TYPES: readonly string[] = Object.values(CommandType);
+const STANCES: readonly string[] = ['AGGRESSIVE', 'DEFENSIVE', 'PASSIVE'];
+const WEAPON_IDS: readonly string[] = Object.values(WeaponId);
+const ARMOR_TYPES: readonly string[] = Object.values(ArmorType);
+const UTILITY_TYPES: readonly string[] = Object.values(UtilityType);
+
+// ----------------------------------------------------------------------------
+// FIELD HELPERS
+// Each helper checks one field, records errors under the given path, and
+// returns the cleaned value (or undefined when the field is invalid).
+// ----------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fail(errors: ValidationError[], path: string, message: string): undefined {
+  errors.push({ path, message });
+  return undefined;
+}
+
+function result<T>(value: T, errors: ValidationError[]): ValidationResult<T> {
+  return errors.length === 0 ? { ok: true, value } : { ok: false, errors };
+}
+
+function readSoldierIndex(value: unknown, path: string, errors: ValidationError[]): number | undefined {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value >= SQUAD_SIZE) {
+    return fail(errors, path, `must be an integer from 0 to ${SQUAD_SIZE - 1}`);
+  }
+  return value;
+}
+
+function readPosition(
+  value: unknown,
+  path: string,
+  ctx: ValidationContext,
+  errors: ValidationError[]
+): { x: number; z: number } | undefined {
+  if (!isRecord(value)) {
+    return fail(errors, path, 'must be an object with x and z');
+  }
+  const { width, height } = ctx.dimensions;
+  const before = errors.length;
+  if (typeof value.x !== 'number' || !Number.isFinite(value.x) || value.x < 0 || value.x > width) {
+    fail(errors, `${path}.x`, `must be a number from 0 to ${width}`);
+  }
+  if (typeof value.z !== 'number' || !Number.isFinite(value.z) || value.z < 0 || value.z > height) {
+    fail(errors, `${path}.z`, `must be a number from 0 to ${height}`);
+  }
+  return errors.length === before ? { x: value.x as number, z: value.z as number } : undefined;
+}
+
+function readEnum<T extends string>(
+  value: unknown,
+  allowed: readonly string[],
+  path: string,
+  errors: ValidationError[]
+): T | undefined {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    return fail(errors, path, `must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+// ----------------------------------------------------------------------------
+// PAYLOAD VALIDATORS
+// One per C2SMessage variant.
+// ----------------------------------------------------------------------------
+
+/**
+ * Validates a JOIN_QUEUE payload. The roster is optional; when present it
+ * must name exactly 5 soldiers.
+ *
+ * @param payload - Raw payload from the client
+ * @returns The typed payload or the errors found
+ */
+export function validateJoinQueue(payload: unknown): ValidationResult<C2S_JoinQueue> {
+  const errors: ValidationError[] = [];
+  const data = payload ?? {};
+  if (!isRecord(data)) {
+    return result({}, [{ path: '', message: 'must be an object' }]);
+  }
+
+  const value: C2S_JoinQueue = {};
+  if (data.roster !== undefined) {
+    if (!Array.isArray(data.roster) || data.roster.length !== SQUAD_SIZE ||
+        !data.roster.every(id => typeof id === 'string' && id.length > 0)) {
+      fail(errors, 'roster', `must list exactly ${SQUAD_SIZE} soldier IDs`);
+    } else {
+      value.roster = [...data.roster] as string[];
+    }
+  }
+  return result(value, errors);
+}
+
+/**
+ * Validates a single tactical command. MOVE, RUSH and USE_UTILITY need a
+ * target position inside the map, USE_UTILITY needs a utility type,
+ * SET_STANCE needs a stance, and a GIVE_BOMB receiver must be a different soldier.
+ *
+ * @param command - Raw command from the client
+ * @param ctx - Map limits for the target position
+ * @param path - Path prefix for error messages
+ * @returns The typed command or the errors found
+ */
+export function validateCommand(
+  command: unknown,
+  ctx: ValidationContext,
+  path: string = 'command'
+): ValidationResult<Command> {
+  const errors: ValidationError[] = [];
+  if (!isRecord(command)) {
+    return result({} as Command, [{ path, message: 'must be an object' }]);
+  }
+
+  const type = readEnum<CommandType>(command.type, COMMAND_TYPES, `${path}.type`, errors);
+  const soldierIndex = readSoldierIndex(command.soldierIndex, `${path}.soldierIndex`, errors);
+
+  if (typeof command.timestamp !== 'number' || !Number.isFinite(command.timestamp)) {
+    fail(errors, `${path}.timestamp`, 'must be a number');
+  }
+
+  const targetPosition = command.targetPosition !== undefined
+    ? readPosition(command.targetPosition, `${path}.targetPosition`, ctx, errors)
+    : undefined;
+  if (type && POSITION_REQUIRED.includes(type) && command.targetPosition === undefined) {
+    fail(errors, `${path}.targetPosition`, `is required for ${type}`);
+  }
+
+  const utilityType = command.utilityType !== undefined
+    ? readEnum<UtilityType>(command.utilityType, UTILITY_TYPES, `${path}.utilityType`, errors)
+    : undefined;
+  if (type === CommandType.USE_UTILITY && command.utilityType === undefined) {
+    fail(errors, `${path}.utilityType`, 'is required for USE_UTILITY');
+  }
+
+  const stance = command.stance !== undefined
+    ? readEnum<Stance>(command.stance, STANCES, `${path}.stance`, errors)
+    : undefined;
+  if (type === CommandType.SET_STANCE && command.stance === undefined) {
+    fail(errors, `${path}.stance`, 'is required for SET_STANCE');
+  }
+
+  let targetSoldierIndex: number | undefined;
+  if (command.targetSoldierIndex !== undefined) {
+    targetSoldierIndex = readSoldierIndex(command.targetSoldierIndex, `${path}.targetSoldierIndex`, errors);
+    if (targetSoldierIndex !== undefined && targetSoldierIndex === soldierIndex) {
+      fail(errors, `${path}.targetSoldierIndex`, 'must be a different soldier');
+    }
+  }
+
+  return result({
+    type: type as CommandType,
+    soldierIndex: soldierIndex as number,
+    targetPosition,
+    utilityType,
+    stance,
+    targetSoldierIndex,
+    timestamp: command.timestamp as number,
+  }, errors);
+}
+
+/**
+ * Validates a SEND_COMMAND payload.
+ *
+ * @param payload - Raw payload from the client
+ * @param ctx - Map limits for the target position
+ * @returns The typed payload or the errors found
+ */
+export function validateSendCommand(payload: unknown, ctx: ValidationContext): ValidationResult<C2S_SendCommand> {
+  if (!isRecord(payload)) {
+    return { ok: false, errors: [{ path: '', message: 'must be an object' }] };
+  }
+  const command = validateCommand(payload.command, ctx);
+  return command.ok ? { ok: true, value: { command: command.value } } : command;
+}
+
+/**
+ * Validates one buy order: a soldier index and a complete, known loadout.
+ * A null or missing primary means pistol only; the sidearm, if given, must
+ * be the pistol.
+ *
+ * @param order - Raw order from the client
+ * @param path - Path prefix for error messages
+ * @returns The typed order or the errors found
+ */
+export function validateBuyOrder(order: unknown, path: string = 'order'): ValidationResult<BuyOrder> {
+  const errors: ValidationError[] = [];
+  if (!isRecord(order)) {
+    return result({} as BuyOrder, [{ path, message: 'must be an object' }]);
+  }
+
+  const soldierIndex = readSoldierIndex(order.soldierIndex, `${path}.soldierIndex`, errors);
+  const eq = order.equipment;
+  if (!isRecord(eq)) {
+    fail(errors, `${path}.equipment`, 'must be an object');
+    return result({} as BuyOrder, errors);
+  }
+  const eqPath = `${path}.equipment`;
+
+  const primary = eq.primary === undefined || eq.primary === null
+    ? null
+    : readEnum<WeaponId>(eq.primary, WEAPON_IDS, `${eqPath}.primary`, errors);
+  if (eq.sidearm !== undefined && eq.sidearm !== WeaponId.PISTOL) {
+    fail(errors, `${eqPath}.sidearm`, 'must be PISTOL');
+  }
+  const armor = eq.armor === undefined || eq.armor === null
+    ? null
+    : readEnum<ArmorType>(eq.armor, ARMOR_TYPES, `${eqPath}.armor`, errors);
+
+  for (const flag of ['helmet', 'defuseKit'] as const) {
+    if (eq[flag] !== undefined && typeof eq[flag] !== 'boolean') {
+      fail(errors, `${eqPath}.${flag}`, 'must be a boolean');
+    }
+  }
+
+  const utility: UtilityType[] = [];
+  if (eq.utility !== undefined) {
+    if (!Array.isArray(eq.utility)) {
+      fail(errors, `${eqPath}.utility`, 'must be a list');
+    } else if (eq.utility.length > MAX_UTILITY_ITEMS) {
+      fail(errors, `${eqPath}.utility`, `holds at most ${MAX_UTILITY_ITEMS} items`);
+    } else {
+      eq.utility.forEach((item, i) => {
+        const type = readEnum<UtilityType>(item, UTILITY_TYPES, `${eqPath}.utility[${i}]`, errors);
+        if (type) utility.push(type);
+      });
+    }
+  }
+
+  const equipment: Equipment = {
+    primary: primary ?? null,
+    sidearm: WeaponId.PISTOL,
+    armor: armor ?? null,
+    helmet: eq.helmet === true,
+    utility,
+    defuseKit: eq.defuseKit === true,
+  };
+  return result({ soldierIndex: soldierIndex as number, equipment }, errors);
+}
+
+/**
+ * Validates a SEND_BUY_ORDER payload: at most one order per soldier.
+ *
+ * @param payload - Raw payload from the client
+ * @returns The typed payload or the errors found
+ */
+export function validateSendBuyOrder(payload: unknown): ValidationResult<C2S_SendBuyOrder> {
+  const errors: ValidationError[] = [];
+  if (!isRecord(payload) || !Array.isArray(payload.orders)) {
+    return result({ orders: [] }, [{ path: 'orders', message: 'must be a list' }]);
+  }
+  if (payload.orders.length > SQUAD_SIZE) {
+    return result({ orders: [] }, [{ path: 'orders', message: `holds at most ${SQUAD_SIZE} orders` }]);
+  }
+
+  const orders: BuyOrder[] = [];
+  const seen = new Set<number>();
+  payload.orders.forEach((raw, i) => {
+    const order = validateBuyOrder(raw, `orders[${i}]`);
+    if (!order.ok) {
+      errors.push(...order.errors);
+      return;
+    }
+    if (seen.has(order.value.soldierIndex)) {
+      fail(errors, `orders[${i}].soldierIndex`, 'appears in more than one order');
+    }
+    seen.add(order.value.soldierIndex);
+    orders.push(order.value);
+  });
+  return result({ orders }, errors);
+}
+
+/**
+ * Validates a READY_UP payload (no fields; anything object-like or empty is accepted).
+ *
+ * @param payload - Raw payload from the client
+ * @returns The typed payload or the errors found
+ */
+export function validateReadyUp(payload: unknown): ValidationResult<C2S_ReadyUp> {
+  if (payload !== undefined && payload !== null && !isRecord(payload)) {
+    return { ok: false, errors: [{ path: '', message: 'must be an object' }] };
+  }
+  return { ok: true, value: {} };
+}
+
+/**
+ * Validates a STRATEGY_PLAN payload: up to 5 waypoint lists with every
+ * waypoint inside the map, plus an optional stance per soldier.
+ *
+ * @param payload - Raw payload from the client
+ * @param ctx - Map limits for the waypoints
+ * @returns The typed payload or the errors found
+ */
+export function validateStrategyPlan(payload: unknown, ctx: ValidationContext): ValidationResult<C2S_StrategyPlan> {
+  const errors: ValidationError[] = [];
+  if (!isRecord(payload) || !Array.isArray(payload.plans)) {
+    return result({ plans: [] }, [{ path: 'plans', message: 'must be a list' }]);
+  }
+  if (payload.plans.length > SQUAD_SIZE) {
+    return result({ plans: [] }, [{ path: 'plans', message: `holds at most ${SQUAD_SIZE} soldier plans` }]);
+  }
+
+  const plans: { x: number; z: number }[][] = payload.plans.map((soldierPlan, i) => {
+    if (!Array.isArray(soldierPlan)) {
+      fail(errors, `plans[${i}]`, 'must be a list of waypoints');
+      return [];
+    }
+    if (soldierPlan.length > MAX_WAYPOINTS) {
+      fail(errors, `plans[${i}]`, `holds at most ${MAX_WAYPOINTS} waypoints`);
+      return [];
+    }
+    const waypoints: { x: number; z: number }[] = [];
+    soldierPlan.forEach((wp, j) => {
+      const pos = readPosition(wp, `plans[${i}][${j}]`, ctx, errors);
+      if (pos) waypoints.push(pos);
+    });
+    return waypoints;
+  });
+
+  const value: C2S_StrategyPlan = { plans };
+  if (payload.stances !== undefined) {
+    if (!Array.isArray(payload.stances) || payload.stances.length > SQUAD_SIZE) {
+      fail(errors, 'stances', `must be a list of at most ${SQUAD_SIZE} stances`);
+    } else {
+      value.stances = payload.stances.map((s, i) =>
+        readEnum<Stance>(s, STANCES, `stances[${i}]`, errors) as Stance
+      );
+    }
+  }
+  return result(value, errors);
+}
+
+/**
+ * Validates a RESUME_SESSION payload: a non-empty, reasonably short token.
+ *
+ * @param payload - Raw payload from the client
+ * @returns The typed payload or the errors found
+ */
+export function validateResumeSession(payload: unknown): ValidationResult<C2S_ResumeSession> {
+  if (!isRecord(payload) || typeof payload.sessionToken !== 'string' ||
+      payload.sessionToken.length === 0 || payload.sessionToken.length > 128) {
+    return { ok: false, errors: [{ path: 'sessionToken', message: 'must be a session token string' }] };
+  }
+  return { ok: true, value: { sessionToken: payload.sessionToken } };
+}
+
+// ----------------------------------------------------------------------------
+// MESSAGE DISPATCH
+// ----------------------------------------------------------------------------
+
+/**
+ * Validates any C2S message by its type tag.
+ *
+ * @param message - Raw message ({ type, payload }) from the client
+ * @param ctx - Map limits for positions
+ * @returns The typed message or the errors found
+ *
+ * @example
+ * const checked = validateC2SMessage({ type: 'READY_UP', payload: {} }, ctx);
+ * if (!checked.ok) console.warn(formatValidationErrors(checked.errors));
+ */
+export function validateC2SMessage(message: unknown, ctx: ValidationContext): ValidationResult<C2SMessage> {
+  if (!isRecord(message)) {
+    return { ok: false, errors: [{ path: '', message: 'must be an object' }] };
+  }
+
+  const { type, payload } = message;
+  switch (type) {
+    case 'JOIN_QUEUE': {
+      const r = validateJoinQueue(payload);
+      return r.ok ? { ok: true, value: { type, payload: r.value } } : r;
+    }
+    case 'SEND_COMMAND': {
+      const r = validateSendCommand(payload, ctx);
+      return r.ok ? { ok: true, value: { type, payload: r.value } } : r;
+    }
+    case 'SEND_BUY_ORDER': {
+      const r = validateSendBuyOrder(payload);
+      return r.ok ? { ok: true, value: { type, payload: r.value } } : r;
+    }
+    case 'READY_UP': {
+      const r = validateReadyUp(payload);
+      return r.ok ? { ok: true, value: { type, payload: r.value } } : r;
+    }
+    case 'STRATEGY_PLAN': {
+      const r = validateStrategyPlan(payload, ctx);
+      return r.ok ? { ok: true, value: { type, payload: r.value } } : r;
+    }
+    case 'RESUME_SESSION': {
+      const r = validateResumeSession(payload);
+      return r.ok ? { ok: true, value: { type, payload: r.value } } : r;
+    }
+    default:
+      return { ok: false, errors: [{ path: 'type', message: `unknown message type ${String(type)}` }] };
+  }
+}
+
+/**
+ * Joins validation errors into a single log- and UI-friendly line.
+ *
+ * @param errors - Errors from a failed validation
+ * @returns e.g. "command.type: must be one of MOVE, ...; command.soldierIndex: ..."
+ */
+export function formatValidationErrors(errors: readonly ValidationError[]): string {
+  return errors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; ');
+}